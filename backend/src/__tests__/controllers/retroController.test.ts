@@ -1,4 +1,4 @@
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import {
   getAllRetros,
   getRetroById,
@@ -7,10 +7,11 @@ import {
   deleteRetro,
   updateRetroStatus,
 } from '../../controllers/retroController';
+import { hashFacilitatorToken } from '../../data/facilitatorTokens';
 
 // Mock the data layer
 jest.mock('../../data/retros', () => ({
-  getAllRetros: jest.fn(),
+  findRetros: jest.fn(),
   getRetroById: jest.fn(),
   createRetro: jest.fn(),
   updateRetro: jest.fn(),
@@ -25,6 +26,10 @@ jest.mock('../../data/templates', () => ({
 jest.mock('../../websocket/websocketManager', () => ({
   wsManager: {
     getRoomParticipants: jest.fn(),
+    hasVotes: jest.fn(),
+    broadcastVoteBudgets: jest.fn(),
+    broadcastRetroStatus: jest.fn(),
+    getRetroCounts: jest.fn(() => ({ cards: 0, votes: 0, actionItems: 0 })),
   },
 }));
 
@@ -39,23 +44,26 @@ const mockResponse = () => {
   const res = {} as Response;
   res.status = jest.fn().mockReturnValue(res);
   res.json = jest.fn().mockReturnValue(res);
+  res.locals = {};
   return res;
 };
 
+const mockNext = jest.fn() as NextFunction;
+
 describe('RetroController', () => {
   beforeEach(() => {
     jest.clearAllMocks();
   });
 
   describe('getAllRetros', () => {
-    it('should return all retros or empty array with status 200', () => {
+    it('should return a page of retros or an empty page with status 200', () => {
       const mockRetros = [
         { id: '1', sessionName: 'Sprint 1 Retro' },
         { id: '2', sessionName: 'Sprint 2 Retro' },
       ];
 
-      const { getAllRetros: getRetrosMock } = require('../../data/retros');
-      getRetrosMock.mockReturnValue(mockRetros);
+      const { findRetros: findRetrosMock } = require('../../data/retros');
+      findRetrosMock.mockReturnValue(mockRetros);
 
       const req = mockRequest();
       const res = mockResponse();
@@ -63,17 +71,61 @@ describe('RetroController', () => {
       getAllRetros(req, res);
 
       expect(res.status).toHaveBeenCalledWith(200);
-      expect(res.json).toHaveBeenCalledWith(mockRetros);
+      expect(res.json).toHaveBeenCalledWith({
+        retros: mockRetros.map(retro => ({ ...retro, counts: { cards: 0, votes: 0, actionItems: 0 } })),
+        total: 2,
+        page: 1,
+        pageSize: 20,
+      });
+
+      // Facilitator token hashes never leave the server
+      findRetrosMock.mockReturnValue([{ id: '3', sessionName: 'Sprint 3 Retro', facilitatorTokenHash: 'abc' }]);
+      getAllRetros(req, res);
+      expect((res.json as jest.Mock).mock.lastCall[0].retros[0]).not.toHaveProperty('facilitatorTokenHash');
 
       // Test empty case
-      getRetrosMock.mockReturnValue([]);
+      findRetrosMock.mockReturnValue([]);
       getAllRetros(req, res);
-      expect(res.json).toHaveBeenCalledWith([]);
+      expect(res.json).toHaveBeenLastCalledWith({ retros: [], total: 0, page: 1, pageSize: 20 });
+    });
+
+    it('should pass the filters on and return the requested page with counts', () => {
+      const { findRetros: findRetrosMock } = require('../../data/retros');
+      const { wsManager } = require('../../websocket/websocketManager');
+      findRetrosMock.mockReturnValue([{ id: '1' }, { id: '2' }, { id: '3' }]);
+      wsManager.getRetroCounts.mockImplementation((id: string) => ({ cards: Number(id), votes: 0, actionItems: 1 }));
+
+      const res = mockResponse();
+      getAllRetros(mockRequest({}, {}, {
+        q: 'sprint',
+        templateId: 'template-1',
+        status: 'completed',
+        teamId: 'team-1',
+        from: '2025-01-01T00:00:00.000Z',
+        to: '2025-01-31T23:59:59.999Z',
+        page: '2',
+        pageSize: '2',
+      }), res);
+
+      expect(findRetrosMock).toHaveBeenCalledWith({
+        search: 'sprint',
+        templateId: 'template-1',
+        status: 'completed',
+        teamId: 'team-1',
+        from: new Date('2025-01-01T00:00:00.000Z'),
+        to: new Date('2025-01-31T23:59:59.999Z'),
+      });
+      expect(res.json).toHaveBeenCalledWith({
+        retros: [{ id: '3', counts: { cards: 3, votes: 0, actionItems: 1 } }],
+        total: 3,
+        page: 2,
+        pageSize: 2,
+      });
     });
 
     it('should return 500 on error', () => {
-      const { getAllRetros: getRetrosMock } = require('../../data/retros');
-      getRetrosMock.mockImplementation(() => {
+      const { findRetros: findRetrosMock } = require('../../data/retros');
+      findRetrosMock.mockImplementation(() => {
         throw new Error('Database error');
       });
 
@@ -149,21 +201,60 @@ describe('RetroController', () => {
       const res = mockResponse();
 
       // Missing sessionName
-      createRetro(mockRequest({}, { templateId: 'template-1' }), res);
+      createRetro(mockRequest({}, { templateId: 'template-1' }), res, mockNext);
       expect(res.status).toHaveBeenCalledWith(400);
       expect(res.json).toHaveBeenCalledWith({ message: 'Session name and template are required' });
 
       // Missing templateId
       const res2 = mockResponse();
-      createRetro(mockRequest({}, { sessionName: 'My Retro' }), res2);
+      createRetro(mockRequest({}, { sessionName: 'My Retro' }), res2, mockNext);
       expect(res2.status).toHaveBeenCalledWith(400);
 
       // Invalid template
       getTemplateById.mockReturnValue(null);
       const res3 = mockResponse();
-      createRetro(mockRequest({}, { sessionName: 'My Retro', templateId: 'invalid' }), res3);
+      createRetro(mockRequest({}, { sessionName: 'My Retro', templateId: 'invalid' }), res3, mockNext);
       expect(res3.status).toHaveBeenCalledWith(400);
       expect(res3.json).toHaveBeenCalledWith({ message: 'Invalid template ID' });
+
+      // Invalid per-item vote cap
+      getTemplateById.mockReturnValue({ id: 'template-1' });
+      const res4 = mockResponse();
+      createRetro(mockRequest({}, { sessionName: 'My Retro', templateId: 'template-1', maxVotesPerItem: 1.5 }), res4, mockNext);
+      expect(res4.status).toHaveBeenCalledWith(400);
+      expect(res4.json).toHaveBeenCalledWith({ message: 'Max votes per item must be a positive whole number' });
+
+      // Unknown voting method
+      const res5 = mockResponse();
+      createRetro(mockRequest({}, { sessionName: 'My Retro', templateId: 'template-1', votingMethod: 'approval' }), res5, mockNext);
+      expect(res5.status).toHaveBeenCalledWith(400);
+      expect(res5.json).toHaveBeenCalledWith({ message: 'Voting method must be one of: dots, ranked, points' });
+
+      // Start time that isn't a date
+      const res6 = mockResponse();
+      createRetro(mockRequest({}, { sessionName: 'My Retro', templateId: 'template-1', scheduledAt: 'next tuesday' }), res6, mockNext);
+      expect(res6.status).toHaveBeenCalledWith(400);
+      expect(res6.json).toHaveBeenCalledWith({ message: 'Start time must be a valid date' });
+    });
+
+    it('should store the start time of scheduled retros', () => {
+      const { getTemplateById } = require('../../data/templates');
+      const { createRetro: createRetroMock } = require('../../data/retros');
+      getTemplateById.mockReturnValue({ id: 'template-1' });
+      createRetroMock.mockImplementation((retro: any) => ({ ...retro, id: 'retro-1' }));
+
+      createRetro(mockRequest({}, {
+        sessionName: 'My Retro',
+        templateId: 'template-1',
+        scheduledAt: '2030-05-01T09:30:00.000Z',
+      }), mockResponse(), mockNext);
+      expect(createRetroMock).toHaveBeenLastCalledWith(expect.objectContaining({
+        status: 'draft',
+        scheduledAt: new Date('2030-05-01T09:30:00.000Z'),
+      }));
+
+      createRetro(mockRequest({}, { sessionName: 'My Retro', templateId: 'template-1' }), mockResponse(), mockNext);
+      expect(createRetroMock).toHaveBeenLastCalledWith(expect.objectContaining({ scheduledAt: null }));
     });
 
     it('should create retro with default and custom options', () => {
@@ -180,7 +271,7 @@ describe('RetroController', () => {
       const req = mockRequest({}, { sessionName: 'My Retro', templateId: 'template-1' });
       const res = mockResponse();
 
-      createRetro(req, res);
+      createRetro(req, res, mockNext);
 
       expect(createRetroMock).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -188,27 +279,84 @@ describe('RetroController', () => {
           templateId: 'template-1',
           isAnonymous: false,
           votingLimit: 5,
+          votingMethod: 'dots',
+          maxVotesPerItem: null,
+          blindVoting: false,
           reactionsEnabled: true,
           nameDeck: 'random',
         })
       );
       expect(res.status).toHaveBeenCalledWith(201);
 
+      // The facilitator gets the token once; only its hash is stored
+      const [{ facilitatorTokenHash }] = createRetroMock.mock.calls[0];
+      const [{ facilitatorToken }] = (res.json as jest.Mock).mock.calls[0];
+      expect(typeof facilitatorToken).toBe('string');
+      expect(facilitatorTokenHash).toBe(hashFacilitatorToken(facilitatorToken));
+      expect(res.json).toHaveBeenCalledWith({ ...mockNewRetro, facilitatorToken });
+
       // Test custom options
       const reqCustom = mockRequest({}, {
         sessionName: 'My Retro',
         templateId: 'template-1',
         isAnonymous: true,
         votingLimit: 10,
+        maxVotesPerItem: 3,
+        blindVoting: true,
         nameDeck: 'animals',
       });
-      createRetro(reqCustom, mockResponse());
+      createRetro(reqCustom, mockResponse(), mockNext);
 
       expect(createRetroMock).toHaveBeenCalledWith(
-        expect.objectContaining({ isAnonymous: true, votingLimit: 10, nameDeck: 'animals' })
+        expect.objectContaining({ isAnonymous: true, votingLimit: 10, maxVotesPerItem: 3, blindVoting: true, nameDeck: 'animals' })
+      );
+
+      // Each voting method gets its own default limit; ranked votes have no per-item cap
+      createRetro(mockRequest({}, {
+        sessionName: 'My Retro',
+        templateId: 'template-1',
+        votingMethod: 'ranked',
+        maxVotesPerItem: 2,
+      }), mockResponse(), mockNext);
+      expect(createRetroMock).toHaveBeenLastCalledWith(
+        expect.objectContaining({ votingMethod: 'ranked', votingLimit: 3, maxVotesPerItem: null })
+      );
+
+      createRetro(mockRequest({}, { sessionName: 'My Retro', templateId: 'template-1', votingMethod: 'points' }), mockResponse(), mockNext);
+      expect(createRetroMock).toHaveBeenLastCalledWith(
+        expect.objectContaining({ votingMethod: 'points', votingLimit: 10 })
       );
     });
 
+    it('should fall back to the template defaults for settings left out', () => {
+      const { getTemplateById } = require('../../data/templates');
+      const { createRetro: createRetroMock } = require('../../data/retros');
+      const stages = [{ id: 'brainstorm', name: 'Brainstorm', duration: 0, enabled: true }];
+      getTemplateById.mockReturnValue({
+        id: 'template-9',
+        stages,
+        options: { nameDeck: 'plants', votingMethod: 'points', reactionsEnabled: false },
+      });
+      createRetroMock.mockImplementation((retro: any) => ({ ...retro, id: 'retro-1' }));
+
+      createRetro(mockRequest({}, { sessionName: 'My Retro', templateId: 'template-9' }), mockResponse(), mockNext);
+      expect(createRetroMock).toHaveBeenLastCalledWith(expect.objectContaining({
+        stages,
+        nameDeck: 'plants',
+        votingMethod: 'points',
+        reactionsEnabled: false,
+        commentsEnabled: true,
+      }));
+
+      createRetro(mockRequest({}, {
+        sessionName: 'My Retro',
+        templateId: 'template-9',
+        nameDeck: 'colors',
+        reactionsEnabled: true,
+      }), mockResponse(), mockNext);
+      expect(createRetroMock).toHaveBeenLastCalledWith(expect.objectContaining({ nameDeck: 'colors', reactionsEnabled: true }));
+    });
+
     it('should return 500 on error', () => {
       const { getTemplateById } = require('../../data/templates');
       getTemplateById.mockImplementation(() => { throw new Error('Database error'); });
@@ -216,7 +364,7 @@ describe('RetroController', () => {
       const req = mockRequest({}, { sessionName: 'My Retro', templateId: 'template-1' });
       const res = mockResponse();
 
-      createRetro(req, res);
+      createRetro(req, res, mockNext);
 
       expect(res.status).toHaveBeenCalledWith(500);
     });
@@ -247,6 +395,9 @@ describe('RetroController', () => {
       });
       expect(res.status).toHaveBeenCalledWith(200);
       expect(res.json).toHaveBeenCalledWith(mockUpdatedRetro);
+      // Participants get their new vote budgets
+      const { wsManager } = require('../../websocket/websocketManager');
+      expect(wsManager.broadcastVoteBudgets).toHaveBeenCalledWith('1');
 
       // 404 case
       updateRetroMock.mockReturnValue(null);
@@ -255,6 +406,46 @@ describe('RetroController', () => {
       expect(res2.status).toHaveBeenCalledWith(404);
     });
 
+    it('should refuse to change vote limits once voting has started', () => {
+      const { updateRetro: updateRetroMock } = require('../../data/retros');
+      const { wsManager } = require('../../websocket/websocketManager');
+      wsManager.hasVotes.mockReturnValue(true);
+
+      const res = mockResponse();
+      updateRetro(mockRequest({ id: '1' }, { maxVotesPerItem: 2 }), res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Vote limits cannot be changed once voting has started' });
+      expect(updateRetroMock).not.toHaveBeenCalled();
+
+      // Other fields can still be changed
+      updateRetroMock.mockReturnValue({ id: '1', sessionName: 'Renamed' });
+      const res2 = mockResponse();
+      updateRetro(mockRequest({ id: '1' }, { sessionName: 'Renamed' }), res2);
+      expect(res2.status).toHaveBeenCalledWith(200);
+
+      wsManager.hasVotes.mockReturnValue(false);
+    });
+
+    it('should only change the status along the lifecycle', () => {
+      const { getRetroById: getRetroMock, updateRetro: updateRetroMock } = require('../../data/retros');
+      const { wsManager } = require('../../websocket/websocketManager');
+      getRetroMock.mockReturnValue({ id: '1', status: 'completed' });
+
+      const res = mockResponse();
+      updateRetro(mockRequest({ id: '1' }, { sessionName: 'Reopened', status: 'active' }), res);
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Cannot change a completed retro to active' });
+      expect(updateRetroMock).not.toHaveBeenCalled();
+
+      getRetroMock.mockReturnValue({ id: '1', status: 'active' });
+      updateRetroMock.mockReturnValue({ id: '1', status: 'completed' });
+      const res2 = mockResponse();
+      updateRetro(mockRequest({ id: '1' }, { status: 'completed' }), res2);
+      expect(res2.status).toHaveBeenCalledWith(200);
+      expect(wsManager.broadcastRetroStatus).toHaveBeenCalledWith('1', 'completed');
+    });
+
     it('should return 500 on error', () => {
       const { updateRetro: updateRetroMock } = require('../../data/retros');
       updateRetroMock.mockImplementation(() => { throw new Error('Database error'); });
@@ -297,7 +488,8 @@ describe('RetroController', () => {
   describe('updateRetroStatus', () => {
     it('should update valid status (active/completed) or return 400 for invalid', () => {
       const mockUpdatedRetro = { id: '1', status: 'active' };
-      const { updateRetro: updateRetroMock } = require('../../data/retros');
+      const { getRetroById: getRetroMock, updateRetro: updateRetroMock } = require('../../data/retros');
+      getRetroMock.mockReturnValue({ id: '1', status: 'draft' });
       updateRetroMock.mockReturnValue(mockUpdatedRetro);
 
       // Valid status - active
@@ -319,16 +511,44 @@ describe('RetroController', () => {
       expect(res3.json).toHaveBeenCalledWith({ message: 'Invalid status' });
     });
 
+    it('should tell the room about the new status', () => {
+      const { getRetroById: getRetroMock, updateRetro: updateRetroMock } = require('../../data/retros');
+      const { wsManager } = require('../../websocket/websocketManager');
+      getRetroMock.mockReturnValue({ id: '1', status: 'active' });
+      updateRetroMock.mockReturnValue({ id: '1', status: 'voting' });
+
+      updateRetroStatus(mockRequest({ id: '1' }, { status: 'voting' }), mockResponse());
+
+      expect(wsManager.broadcastRetroStatus).toHaveBeenCalledWith('1', 'voting');
+    });
+
+    it('should return 409 for changes the lifecycle does not allow', () => {
+      const { getRetroById: getRetroMock, updateRetro: updateRetroMock } = require('../../data/retros');
+      getRetroMock.mockReturnValue({ id: '1', status: 'completed' });
+
+      const res = mockResponse();
+      updateRetroStatus(mockRequest({ id: '1' }, { status: 'active' }), res);
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Cannot change a completed retro to active' });
+
+      getRetroMock.mockReturnValue({ id: '1', status: 'active' });
+      const res2 = mockResponse();
+      updateRetroStatus(mockRequest({ id: '1' }, { status: 'draft' }), res2);
+      expect(res2.status).toHaveBeenCalledWith(409);
+      expect(updateRetroMock).not.toHaveBeenCalled();
+    });
+
     it('should return 404 when retro not found or 500 on error', () => {
-      const { updateRetro: updateRetroMock } = require('../../data/retros');
+      const { getRetroById: getRetroMock, updateRetro: updateRetroMock } = require('../../data/retros');
       
       // 404 case
-      updateRetroMock.mockReturnValue(null);
+      getRetroMock.mockReturnValue(undefined);
       const res = mockResponse();
       updateRetroStatus(mockRequest({ id: 'non-existent' }, { status: 'active' }), res);
       expect(res.status).toHaveBeenCalledWith(404);
 
       // 500 case
+      getRetroMock.mockReturnValue({ id: '1', status: 'draft' });
       updateRetroMock.mockImplementation(() => { throw new Error('Database error'); });
       const res2 = mockResponse();
       updateRetroStatus(mockRequest({ id: '1' }, { status: 'active' }), res2);
@@ -0,0 +1,139 @@
+import {
+  buildTeamAnalytics,
+  findRecurringThemes,
+  getCardTerms,
+  getCardsPerColumn,
+  getParticipantCount,
+  getVoteConcentration
+} from '../../data/analytics';
+import { Retro } from '../../models/Retro';
+import { Template } from '../../models/Template';
+import { ActionItem, Card, RoomSnapshot } from '../../types';
+import { makeRoomSnapshot } from '../fixtures';
+
+const template: Template = {
+  id: 'template-1',
+  name: 'Start Stop',
+  description: '',
+  isDefault: true,
+  createdBy: 'system',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  columns: [
+    { id: 'stop', name: 'Stop', color: '#ef4444', order: 2, placeholder: '' },
+    { id: 'start', name: 'Start', color: '#10b981', order: 1, placeholder: '' }
+  ]
+};
+
+const card = (id: string, columnId: string, content: string, authorId = 'p1'): Card => ({
+  id,
+  columnId,
+  content,
+  authorId,
+  groupId: null,
+  createdAt: new Date()
+});
+
+const action = (id: string, status: ActionItem['status']): ActionItem => ({
+  id,
+  title: id,
+  description: '',
+  assigneeId: '',
+  priority: 'medium',
+  dueDate: '',
+  status
+});
+
+const room = (changes: Partial<RoomSnapshot>): RoomSnapshot => makeRoomSnapshot({ id: 'retro', ...changes });
+
+const retro = (id: string): Retro => ({
+  id,
+  sessionName: `Retro ${id}`,
+  context: '',
+  templateId: 'template-1',
+  isAnonymous: false,
+  votingLimit: 5,
+  timerDuration: null,
+  status: 'completed',
+  teamId: 'team-1',
+  createdAt: new Date('2025-03-01T10:00:00Z'),
+  updatedAt: new Date('2025-03-01T10:00:00Z')
+});
+
+describe('analytics', () => {
+  it('should count cards per column in template order, unknown columns last', () => {
+    const counts = getCardsPerColumn(template, room({
+      cards: [card('c1', 'stop', 'a'), card('c2', 'stop', 'b'), card('c3', 'removed', 'c')]
+    }));
+
+    expect(counts).toEqual([
+      { columnId: 'start', columnName: 'Start', color: '#10b981', count: 0 },
+      { columnId: 'stop', columnName: 'Stop', color: '#ef4444', count: 2 },
+      { columnId: 'removed', columnName: 'removed', color: '#6b7280', count: 1 }
+    ]);
+  });
+
+  it('should measure the share of votes on the three most voted items', () => {
+    expect(getVoteConcentration({ a: ['p1', 'p2', 'p3'], b: ['p1'], c: ['p2'], d: ['p3'], e: [] })).toBeCloseTo(5 / 6);
+    expect(getVoteConcentration({ a: ['p1'], b: ['p2'] })).toBe(1);
+    expect(getVoteConcentration({})).toBeNull();
+  });
+
+  it('should count distinct card authors and voters', () => {
+    const snapshot = room({
+      cards: [card('c1', 'start', 'a', 'p1'), card('c2', 'start', 'b', 'p1')],
+      votes: { c1: ['p2', 'p2'], c2: ['p1'] }
+    });
+
+    expect(getParticipantCount(snapshot)).toBe(2);
+    expect(getParticipantCount(undefined)).toBe(0);
+  });
+
+  it('should take the meaningful words of a card', () => {
+    expect(getCardTerms('The CI pipeline is slow, and this pipeline breaks!')).toEqual(new Set(['pipeline', 'slow', 'breaks']));
+  });
+
+  it('should find themes mentioned in the cards of several retros', () => {
+    const themes = findRecurringThemes([
+      room({ cards: [card('c1', 'stop', 'Deployments are slow'), card('c2', 'stop', 'Flaky deployments')] }),
+      room({ cards: [card('c3', 'stop', 'Slow deployments again'), card('c4', 'start', 'Pairing')] }),
+      undefined,
+      room({ cards: [card('c5', 'start', 'More pairing'), card('c6', 'stop', 'slow reviews')] })
+    ]);
+
+    expect(themes).toEqual([
+      { term: 'slow', retroCount: 3, cardCount: 3 },
+      { term: 'deployments', retroCount: 2, cardCount: 3 },
+      { term: 'pairing', retroCount: 2, cardCount: 2 }
+    ]);
+  });
+
+  it('should build per-retro trends and an overall completion rate', () => {
+    const analytics = buildTeamAnalytics('team-1', 4, [
+      {
+        retro: retro('retro-1'),
+        template,
+        room: room({
+          cards: [card('c1', 'start', 'a', 'p1'), card('c2', 'stop', 'b', 'p2')],
+          votes: { c1: ['p1', 'p3'] },
+          actionItems: [action('a1', 'completed'), action('a2', 'pending')]
+        })
+      },
+      { retro: retro('retro-2'), template, room: room({ actionItems: [action('a3', 'completed')] }) },
+      { retro: retro('retro-3'), template }
+    ]);
+
+    expect(analytics).toMatchObject({ teamId: 'team-1', teamSize: 4, actionCompletionRate: 2 / 3, recurringThemes: [] });
+    expect(analytics.retros[0]).toMatchObject({
+      retroId: 'retro-1',
+      actionItems: { total: 2, completed: 1 },
+      actionCompletionRate: 0.5,
+      participants: 3,
+      participationRate: 0.75,
+      voteConcentration: 1
+    });
+    expect(analytics.retros[1]).toMatchObject({ actionCompletionRate: 1, participants: 0, voteConcentration: null });
+    expect(analytics.retros[2]).toMatchObject({ actionCompletionRate: null, participationRate: 0 });
+    expect(analytics.retros[2].cardsPerColumn.map(column => column.count)).toEqual([0, 0]);
+  });
+});
@@ -0,0 +1,97 @@
+import { buildActionsCalendar, buildRetroInvite } from '../../data/calendar';
+import { Retro } from '../../models/Retro';
+import { TrackedActionItem } from '../../types';
+
+// Unfold continuation lines so assertions can look at whole properties
+const unfold = (calendar: string): string[] => calendar.replace(/\r\n /g, '').split('\r\n');
+
+describe('Calendar', () => {
+  const now = new Date('2025-03-01T08:00:00Z');
+
+  const retro: Retro = {
+    id: 'retro-1',
+    sessionName: 'Sprint 42, planning; retro',
+    context: 'Focus on the release\nBring your notes',
+    templateId: '1',
+    isAnonymous: false,
+    votingLimit: 5,
+    timerDuration: null,
+    status: 'draft',
+    scheduledAt: new Date('2025-03-04T14:30:00Z'),
+    createdAt: new Date('2025-03-01T10:00:00Z'),
+    updatedAt: new Date('2025-03-01T10:00:00Z')
+  };
+
+  const trackedItem = (id: string, dueDate: string, extra: Partial<TrackedActionItem> = {}): TrackedActionItem => ({
+    id,
+    title: `Action ${id}`,
+    description: '',
+    assigneeId: '',
+    priority: 'medium',
+    dueDate,
+    status: 'pending',
+    retroId: 'retro-1',
+    retroName: 'Sprint 42',
+    retroCreatedAt: new Date('2025-03-01T10:00:00Z'),
+    ...extra
+  });
+
+  describe('buildRetroInvite', () => {
+    it('should describe the retro as a one-hour event linking to the join page', () => {
+      const lines = unfold(buildRetroInvite(retro, 'https://retro.example.com/retro/retro-1/join', now));
+
+      expect(lines.slice(0, 2)).toEqual(['BEGIN:VCALENDAR', 'VERSION:2.0']);
+      expect(lines).toEqual(expect.arrayContaining([
+        'BEGIN:VEVENT',
+        'UID:retro-retro-1@team-retro',
+        'DTSTAMP:20250301T080000Z',
+        'DTSTART:20250304T143000Z',
+        'DTEND:20250304T153000Z',
+        'SUMMARY:Sprint 42\\, planning\\; retro',
+        'DESCRIPTION:Focus on the release\\nBring your notes\\n\\nJoin the retro: https://retro.example.com/retro/retro-1/join',
+        'URL:https://retro.example.com/retro/retro-1/join',
+        'END:VEVENT'
+      ]));
+      expect(lines[lines.length - 1]).toBe('');
+    });
+
+    it('should fold lines longer than 75 octets', () => {
+      const invite = buildRetroInvite({ ...retro, context: 'ä'.repeat(100) }, 'https://retro.example.com/retro/retro-1/join', now);
+
+      invite.split('\r\n').forEach(line => {
+        expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      });
+      expect(unfold(invite)).toContain(`DESCRIPTION:${'ä'.repeat(100)}\\n\\nJoin the retro: https://retro.example.com/retro/retro-1/join`);
+    });
+  });
+
+  describe('buildActionsCalendar', () => {
+    it('should add an all-day event on the due date of each item that has one', () => {
+      const lines = unfold(buildActionsCalendar('Platform', [
+        trackedItem('a1', '2025-03-31', { priority: 'high', description: 'Cache deps' }),
+        trackedItem('a2', '')
+      ], now));
+
+      expect(lines).toContain('X-WR-CALNAME:Platform action items');
+      expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(1);
+      expect(lines).toEqual(expect.arrayContaining([
+        'UID:action-retro-1-a1@team-retro',
+        'DTSTART;VALUE=DATE:20250331',
+        'DTEND;VALUE=DATE:20250401',
+        'SUMMARY:Due: Action a1',
+        'DESCRIPTION:Cache deps\\nPriority: High\\nFrom retrospective: Sprint 42 (Mar 1\\, 2025)'
+      ]));
+    });
+
+    it('should leave out items whose due date is not a day', () => {
+      const lines = unfold(buildActionsCalendar('Platform', [
+        trackedItem('a1', 'next friday'),
+        trackedItem('a2', '2025-02-30'),
+        trackedItem('a3', '2025-03-31')
+      ], now));
+
+      expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(1);
+      expect(lines).toContain('UID:action-retro-1-a3@team-retro');
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { buildSlackSummary, buildTeamsSummary, postRetroSummary } from '../../data/chatSummary';
+import { RetroReport } from '../../models/Report';
+
+const report: RetroReport = {
+  sessionName: 'Sprint 42',
+  context: '',
+  templateName: 'Start Stop',
+  createdAt: new Date('2025-03-01T10:00:00Z'),
+  isAnonymous: false,
+  voteUnit: 'votes',
+  stats: { participants: 3, cards: 4, votes: 5, actionItems: 1, highPriorityActions: 1 },
+  topVotedItems: [
+    { id: 'g1', columnId: 'stop', columnName: 'Stop', color: '#ef4444', cards: ['Slow builds', 'Flaky <e2e> tests'], voteCount: 3, comments: [] },
+    { id: 'c1', columnId: 'start', columnName: 'Start', color: '#10b981', cards: ['Pair more'], voteCount: 1, comments: [] }
+  ],
+  actionItems: [
+    { title: 'Fix the build', description: '', assigneeName: 'Ada', priority: 'high', dueDate: '2025-03-20', status: 'pending' }
+  ],
+  columns: []
+};
+
+describe('Chat Summary', () => {
+  describe('buildSlackSummary', () => {
+    it('should list the top voted items, action items and participation as Block Kit sections', () => {
+      const message = buildSlackSummary(report, 'https://retro.example.com/retro/retro-1');
+
+      expect(message.text).toBe('Retro summary: Sprint 42');
+      expect(message.blocks.map(block => block.type)).toEqual(['header', 'context', 'section', 'section', 'actions']);
+      expect(message.blocks[1]).toMatchObject({
+        elements: [{ text: '3 participants · 4 cards · 5 votes · 1 action item' }]
+      });
+      expect(message.blocks[2]).toMatchObject({
+        text: { type: 'mrkdwn', text: '*Top voted items*\n1. Slow builds • Flaky &lt;e2e&gt; tests (Stop, 3 votes)\n2. Pair more (Start, 1 vote)' }
+      });
+      expect(message.blocks[3]).toMatchObject({ text: { text: '*Action items*\n• Fix the build — Ada, due Mar 20' } });
+      expect(message.blocks[4]).toMatchObject({ elements: [{ type: 'button', url: 'https://retro.example.com/retro/retro-1' }] });
+    });
+
+    it('should say when there is nothing to list and leave out the link without a URL', () => {
+      const message = buildSlackSummary({ ...report, topVotedItems: [], actionItems: [] });
+
+      expect(message.blocks.map(block => block.type)).not.toContain('actions');
+      expect(message.blocks[2]).toMatchObject({ text: { text: '*Top voted items*\n_No voted items_' } });
+      expect(message.blocks[3]).toMatchObject({ text: { text: '*Action items*\n_No action items created_' } });
+    });
+  });
+
+  describe('buildTeamsSummary', () => {
+    it('should wrap the summary in an Adaptive Card', () => {
+      const message = buildTeamsSummary(report, 'https://retro.example.com/retro/retro-1');
+      const [attachment] = message.attachments;
+      const texts = attachment.content.body.map((element: any) => element.text).filter(Boolean);
+
+      expect(message.type).toBe('message');
+      expect(attachment.contentType).toBe('application/vnd.microsoft.card.adaptive');
+      expect(attachment.content).toMatchObject({ type: 'AdaptiveCard', version: '1.4' });
+      expect(attachment.content.body[1]).toMatchObject({
+        type: 'FactSet',
+        facts: expect.arrayContaining([{ title: 'Participants', value: '3' }, { title: 'Votes', value: '5' }])
+      });
+      expect(texts).toEqual([
+        'Retro summary: Sprint 42',
+        'Top voted items',
+        '1. Slow builds • Flaky <e2e> tests (Stop, 3 votes)',
+        '2. Pair more (Start, 1 vote)',
+        'Action items',
+        'Fix the build — Ada, due Mar 20'
+      ]);
+      expect(attachment.content.actions).toEqual([
+        { type: 'Action.OpenUrl', title: 'Open retro', url: 'https://retro.example.com/retro/retro-1' }
+      ]);
+    });
+  });
+
+  describe('postRetroSummary', () => {
+    const originalEnv = { ...process.env };
+    const received: any[] = [];
+    let statusCode = 200;
+    // Responses held open to stand in for a chat service that never answers
+    let hang = false;
+    const hanging: http.ServerResponse[] = [];
+    let server: http.Server;
+    let url: string;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => {
+          body += chunk;
+        });
+        req.on('end', () => {
+          received.push(JSON.parse(body));
+          if (hang) {
+            hanging.push(res);
+            return;
+          }
+          res.statusCode = statusCode;
+          res.end();
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/incoming`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+      received.length = 0;
+      statusCode = 200;
+      hang = false;
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+      jest.restoreAllMocks();
+    });
+
+    it('should do nothing without a webhook URL', async () => {
+      delete process.env.CHAT_WEBHOOK_URL;
+
+      expect(await postRetroSummary('retro-1', report)).toBe(false);
+      expect(received).toHaveLength(0);
+    });
+
+    it('should post a Slack message linking to the retro', async () => {
+      process.env.CHAT_WEBHOOK_URL = url;
+      process.env.APP_URL = 'https://retro.example.com/';
+
+      expect(await postRetroSummary('retro-1', report)).toBe(true);
+      expect(received[0]).toEqual(buildSlackSummary(report, 'https://retro.example.com/retro/retro-1'));
+    });
+
+    it('should post a Teams card when configured', async () => {
+      process.env.CHAT_WEBHOOK_URL = url;
+      process.env.CHAT_WEBHOOK_FORMAT = 'teams';
+
+      expect(await postRetroSummary('retro-1', report)).toBe(true);
+      expect(received[0]).toEqual(buildTeamsSummary(report));
+    });
+
+    it('should show a due date that is not a day as it is', async () => {
+      process.env.CHAT_WEBHOOK_URL = url;
+      const badDate = { ...report, actionItems: [{ ...report.actionItems[0], dueDate: 'next friday' }] };
+
+      expect(await postRetroSummary('retro-1', badDate)).toBe(true);
+      expect(received[0].blocks[3]).toMatchObject({ text: { text: '*Action items*\n• Fix the build — Ada, due next friday' } });
+    });
+
+    it('should log rather than throw when posting fails or the format is unknown', async () => {
+      process.env.CHAT_WEBHOOK_URL = url;
+      statusCode = 404;
+      expect(await postRetroSummary('retro-1', report)).toBe(false);
+
+      process.env.CHAT_WEBHOOK_FORMAT = 'discord';
+      expect(await postRetroSummary('retro-1', report)).toBe(false);
+
+      expect(received).toHaveLength(1);
+      expect(console.error).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up on a chat service that does not answer', async () => {
+      process.env.CHAT_WEBHOOK_URL = url;
+      hang = true;
+      const timeout = AbortSignal.timeout;
+      const timeoutSpy = jest.spyOn(AbortSignal, 'timeout').mockImplementation(() => timeout(50));
+
+      expect(await postRetroSummary('retro-1', report)).toBe(false);
+      expect(timeoutSpy).toHaveBeenCalledWith(10000);
+      expect(console.error).toHaveBeenCalledWith('Error posting retro summary:', expect.objectContaining({ name: 'TimeoutError' }));
+
+      hanging.splice(0).forEach(res => res.end());
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import ExcelJS from 'exceljs';
+import { buildExportSheets, toCsv, toXlsx } from '../../data/export';
+import { Retro } from '../../models/Retro';
+import { Template } from '../../models/Template';
+import { Card } from '../../types';
+import { makeRoomSnapshot } from '../fixtures';
+
+const template: Template = {
+  id: 'template-1',
+  name: 'Start Stop',
+  description: '',
+  isDefault: true,
+  createdBy: 'system',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  columns: [
+    { id: 'start', name: 'Start', color: '#10b981', order: 1, placeholder: '' },
+    { id: 'stop', name: 'Stop', color: '#ef4444', order: 2, placeholder: '' }
+  ]
+};
+
+const card = (id: string, columnId: string, content: string, authorId: string): Card => ({
+  id,
+  columnId,
+  content,
+  authorId,
+  groupId: null,
+  createdAt: new Date()
+});
+
+const room = makeRoomSnapshot({
+  creatorId: 'p1',
+  cards: [
+    card('c1', 'start', 'Pair more', 'p1'),
+    card('c2', 'stop', 'Slow, flaky builds', 'p2'),
+    card('c3', 'stop', 'Long "quick" syncs', 'p2')
+  ],
+  cardGroups: [{ id: 'g1', cardIds: ['c2', 'c3'], columnId: 'stop' }],
+  votes: { c1: ['p1', 'p2'], g1: ['p2'] },
+  actionItems: [{
+    id: 'a1',
+    title: 'Fix the build',
+    description: 'Cache dependencies',
+    assigneeId: 'p2',
+    priority: 'high',
+    dueDate: '2025-03-20',
+    status: 'pending'
+  }],
+  reactions: { c1: { '👍': ['p1', 'p2'], '🎉': [] } }
+});
+
+const retro: Retro = {
+  id: 'retro-1',
+  sessionName: 'Sprint 42',
+  context: '',
+  templateId: 'template-1',
+  isAnonymous: false,
+  votingLimit: 5,
+  timerDuration: null,
+  status: 'completed',
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+describe('export', () => {
+  const participantNames = { p1: 'Ada', p2: 'Bob' };
+
+  it('should tabulate cards, groups, action items and participants', () => {
+    const [cards, groups, actionItems, participants] = buildExportSheets({ retro, template, room, participantNames });
+
+    expect(cards.rows).toEqual([
+      ['Start', 'Pair more', '', 2, '👍 2'],
+      ['Stop', 'Slow, flaky builds', 'Group 1', 0, ''],
+      ['Stop', 'Long "quick" syncs', 'Group 1', 0, '']
+    ]);
+    expect(groups.rows).toEqual([['Group 1', 'Stop', 'Slow, flaky builds\nLong "quick" syncs', 1]]);
+    expect(actionItems.rows).toEqual([['Fix the build', 'Cache dependencies', 'Bob', 'high', '2025-03-20', 'pending']]);
+    expect(participants.header).toEqual(['Name', 'Cards', 'Votes']);
+    expect(participants.rows).toEqual([['Ada', 1, 1], ['Bob', 2, 2]]);
+  });
+
+  it('should leave out per-participant counts of anonymous retros and name unknown participants', () => {
+    const sheets = buildExportSheets({ retro: { ...retro, isAnonymous: true }, template, room, participantNames: {} });
+    const participants = sheets[3];
+
+    expect(participants.header).toEqual(['Name']);
+    expect(participants.rows).toEqual([['Unknown participant'], ['Unknown participant']]);
+    expect(sheets[2].rows[0][2]).toBe('Unknown participant');
+  });
+
+  it('should export empty sheets for a retro without room state', () => {
+    const sheets = buildExportSheets({ retro, participantNames: {} });
+
+    expect(sheets.map(sheet => sheet.name)).toEqual(['Cards', 'Groups', 'Action Items', 'Participants']);
+    expect(sheets.every(sheet => sheet.rows.length === 0)).toBe(true);
+  });
+
+  it('should write every sheet as a titled CSV section', () => {
+    const csv = toCsv(buildExportSheets({ retro, template, room, participantNames }));
+
+    expect(csv).toContain('Cards\nColumn,Content,Group,Votes,Reactions\nStart,Pair more,,2,👍 2\n');
+    expect(csv).toContain('Stop,"Long ""quick"" syncs",Group 1,0,\n');
+    expect(csv).toContain('\nParticipants\nName,Cards,Votes\nAda,1,1\nBob,2,2\n');
+  });
+
+  it('should quote cells that a spreadsheet would read as a formula', async () => {
+    const sheets = buildExportSheets({
+      retro,
+      template,
+      room: { ...room, cards: [card('c4', 'start', '=HYPERLINK("http://evil.example","x")', 'p1'), card('c5', 'stop', '-2+3', 'p2')] },
+      participantNames
+    });
+
+    const csv = toCsv(sheets);
+    expect(csv).toContain('Start,"\'=HYPERLINK(""http://evil.example"",""x"")",,0,\n');
+    expect(csv).toContain("Stop,'-2+3,,0,\n");
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(new Uint8Array(await toXlsx(sheets)).buffer);
+    expect(workbook.getWorksheet('Cards')!.getCell('B3').value).toBe("'-2+3");
+  });
+
+  it('should write a worksheet per sheet to Excel', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const file = await toXlsx(buildExportSheets({ retro, template, room, participantNames }));
+    await workbook.xlsx.load(new Uint8Array(file).buffer);
+
+    expect(workbook.worksheets.map(worksheet => worksheet.name)).toEqual(['Cards', 'Groups', 'Action Items', 'Participants']);
+    const cards = workbook.getWorksheet('Cards')!;
+    expect(cards.getRow(1).values).toEqual([undefined, 'Column', 'Content', 'Group', 'Votes', 'Reactions']);
+    expect(cards.getRow(2).values).toEqual([undefined, 'Start', 'Pair more', '', 2, '👍 2']);
+  });
+});
@@ -0,0 +1,21 @@
+import { createFacilitatorToken, hashFacilitatorToken, matchesFacilitatorToken } from '../../data/facilitatorTokens';
+
+describe('facilitatorTokens', () => {
+  it('should create random tokens and store only their hash', () => {
+    const first = createFacilitatorToken();
+    const second = createFacilitatorToken();
+
+    expect(first.token).not.toBe(second.token);
+    expect(first.tokenHash).toBe(hashFacilitatorToken(first.token));
+    expect(first.tokenHash).not.toContain(first.token);
+  });
+
+  it('should only match the token the hash was made from', () => {
+    const { token, tokenHash } = createFacilitatorToken();
+
+    expect(matchesFacilitatorToken(tokenHash, token)).toBe(true);
+    expect(matchesFacilitatorToken(tokenHash, `${token}x`)).toBe(false);
+    expect(matchesFacilitatorToken(tokenHash, null)).toBe(false);
+    expect(matchesFacilitatorToken(undefined, token)).toBe(false);
+  });
+});
@@ -0,0 +1,229 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  WebhookIssueTracker,
+  JiraIssueTracker,
+  IssueTrackerError,
+  createIssueTracker
+} from '../../data/issueTrackers';
+import { Retro } from '../../models/Retro';
+import { ActionItem } from '../../types';
+
+interface StubRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+// A local HTTP server standing in for the issue tracker; replies with whatever the test queues up
+const startStubServer = async () => {
+  const requests: StubRequest[] = [];
+  const replies: Array<{ status: number; body?: unknown }> = [];
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      requests.push({ method: req.method!, url: req.url!, headers: req.headers, body: body ? JSON.parse(body) : null });
+      const reply = replies.shift() || { status: 204 };
+      res.statusCode = reply.status;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(reply.body === undefined ? '' : JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    reply: (status: number, body?: unknown) => replies.push({ status, body }),
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+};
+
+describe('Issue Trackers', () => {
+  const retro: Retro = {
+    id: 'retro-1',
+    sessionName: 'Sprint 42',
+    context: '',
+    templateId: '1',
+    isAnonymous: false,
+    votingLimit: 5,
+    timerDuration: null,
+    status: 'active',
+    createdAt: new Date('2025-03-01'),
+    updatedAt: new Date('2025-03-01')
+  };
+
+  const actionItem: ActionItem = {
+    id: 'action-1',
+    title: 'Fix the flaky deploy',
+    description: 'Retry the smoke tests once',
+    assigneeId: '',
+    priority: 'high',
+    dueDate: '2025-03-15',
+    status: 'pending'
+  };
+
+  let stub: Awaited<ReturnType<typeof startStubServer>>;
+
+  beforeEach(async () => {
+    stub = await startStubServer();
+  });
+
+  afterEach(async () => {
+    await stub.close();
+  });
+
+  describe('WebhookIssueTracker', () => {
+    it('should post the action item and use the key the receiver replies with', async () => {
+      stub.reply(201, { key: 'OPS-7', url: 'https://tracker.example.com/OPS-7' });
+      const tracker = new WebhookIssueTracker(`${stub.url}/hooks/retro`);
+
+      const issue = await tracker.createIssue(actionItem, retro);
+
+      expect(issue).toEqual({ tracker: 'Webhook', key: 'OPS-7', url: 'https://tracker.example.com/OPS-7' });
+      expect(stub.requests[0]).toMatchObject({
+        method: 'POST',
+        url: '/hooks/retro',
+        body: { event: 'action-item.created', retro: { id: 'retro-1', sessionName: 'Sprint 42' }, actionItem }
+      });
+    });
+
+    it('should fall back to the action item id when the receiver replies without a key', async () => {
+      const tracker = new WebhookIssueTracker(stub.url);
+
+      const issue = await tracker.createIssue(actionItem, retro);
+
+      expect(issue).toEqual({ tracker: 'Webhook', key: 'action-1' });
+    });
+
+    it('should read the status back, ignoring statuses it does not know', async () => {
+      stub.reply(200, { status: 'completed' });
+      stub.reply(200, { status: 'closed' });
+      const tracker = new WebhookIssueTracker(stub.url);
+
+      const known = await tracker.getIssueStatus({ tracker: 'Webhook', key: 'OPS-7' });
+      const unknown = await tracker.getIssueStatus({ tracker: 'Webhook', key: 'OPS-7' });
+
+      expect(known).toBe('completed');
+      expect(unknown).toBeNull();
+      expect(stub.requests[0].body).toEqual({ event: 'action-item.status', issue: { tracker: 'Webhook', key: 'OPS-7' } });
+    });
+
+    it('should throw an IssueTrackerError when the receiver fails', async () => {
+      stub.reply(500);
+      const tracker = new WebhookIssueTracker(stub.url);
+
+      await expect(tracker.createIssue(actionItem, retro)).rejects.toThrow(IssueTrackerError);
+    });
+
+    it('should throw an IssueTrackerError when the receiver cannot be reached', async () => {
+      await stub.close();
+      const tracker = new WebhookIssueTracker(stub.url);
+      stub = await startStubServer();
+
+      await expect(tracker.createIssue(actionItem, retro)).rejects.toThrow('Could not reach the issue tracker');
+    });
+  });
+
+  describe('JiraIssueTracker', () => {
+    const createTracker = () =>
+      new JiraIssueTracker({
+        baseUrl: `${stub.url}/`,
+        email: 'bot@example.com',
+        apiToken: 'secret',
+        projectKey: 'OPS',
+        issueType: 'Task'
+      });
+
+    it('should create an issue in the project with basic auth', async () => {
+      stub.reply(201, { id: '10001', key: 'OPS-12' });
+
+      const issue = await createTracker().createIssue(actionItem, retro);
+
+      expect(issue).toEqual({ tracker: 'Jira', key: 'OPS-12', url: `${stub.url}/browse/OPS-12` });
+      const [sent] = stub.requests;
+      expect(sent.method).toBe('POST');
+      expect(sent.url).toBe('/rest/api/2/issue');
+      expect(sent.headers.authorization).toBe(`Basic ${Buffer.from('bot@example.com:secret').toString('base64')}`);
+      expect(sent.body.fields).toMatchObject({
+        project: { key: 'OPS' },
+        issuetype: { name: 'Task' },
+        summary: 'Fix the flaky deploy'
+      });
+      expect(sent.body.fields.description).toBe(
+        'Retry the smoke tests once\n\nPriority: High\n\nDue: 2025-03-15\n\nFrom retrospective: Sprint 42'
+      );
+    });
+
+    it('should throw when Jira does not return an issue key', async () => {
+      stub.reply(201, {});
+
+      await expect(createTracker().createIssue(actionItem, retro)).rejects.toThrow('Jira did not return an issue key');
+    });
+
+    it('should map the status category of the issue to an action item status', async () => {
+      stub.reply(200, { fields: { status: { name: 'In Review', statusCategory: { key: 'indeterminate' } } } });
+      stub.reply(200, { fields: { status: { name: 'Done', statusCategory: { key: 'done' } } } });
+
+      const inProgress = await createTracker().getIssueStatus({ tracker: 'Jira', key: 'OPS-12' });
+      const done = await createTracker().getIssueStatus({ tracker: 'Jira', key: 'OPS-12' });
+
+      expect(inProgress).toBe('in_progress');
+      expect(done).toBe('completed');
+      expect(stub.requests[0]).toMatchObject({ method: 'GET', url: '/rest/api/2/issue/OPS-12?fields=status' });
+    });
+
+    it('should throw an IssueTrackerError for unknown issues', async () => {
+      stub.reply(404, { errorMessages: ['Issue does not exist'] });
+
+      await expect(createTracker().getIssueStatus({ tracker: 'Jira', key: 'OPS-99' })).rejects.toThrow(
+        'The issue tracker responded with 404'
+      );
+    });
+  });
+
+  describe('createIssueTracker', () => {
+    const originalEnv = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+    });
+
+    it('should create no connector when ISSUE_TRACKER is unset', () => {
+      delete process.env.ISSUE_TRACKER;
+
+      expect(createIssueTracker()).toBeNull();
+    });
+
+    it('should create the webhook connector', () => {
+      process.env.ISSUE_TRACKER = 'webhook';
+      process.env.ISSUE_TRACKER_WEBHOOK_URL = 'https://hooks.example.com/retro';
+
+      expect(createIssueTracker()).toBeInstanceOf(WebhookIssueTracker);
+    });
+
+    it('should create the Jira connector', () => {
+      process.env.ISSUE_TRACKER = 'jira';
+      process.env.JIRA_BASE_URL = 'https://example.atlassian.net';
+      process.env.JIRA_EMAIL = 'bot@example.com';
+      process.env.JIRA_API_TOKEN = 'secret';
+      process.env.JIRA_PROJECT_KEY = 'OPS';
+
+      expect(createIssueTracker()).toBeInstanceOf(JiraIssueTracker);
+    });
+
+    it('should throw for missing settings and unknown trackers', () => {
+      process.env.ISSUE_TRACKER = 'jira';
+      delete process.env.JIRA_API_TOKEN;
+      expect(() => createIssueTracker()).toThrow('are required for the Jira issue tracker');
+
+      process.env.ISSUE_TRACKER = 'trello';
+      expect(() => createIssueTracker()).toThrow('Unknown ISSUE_TRACKER');
+    });
+  });
+});
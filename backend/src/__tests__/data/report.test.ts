@@ -0,0 +1,137 @@
+import { buildRetroReport, renderHtmlReport, renderMarkdownReport } from '../../data/report';
+import { Retro } from '../../models/Retro';
+import { Template } from '../../models/Template';
+import { Card } from '../../types';
+import { makeRoomSnapshot } from '../fixtures';
+
+const template: Template = {
+  id: 'template-1',
+  name: 'Start Stop',
+  description: '',
+  isDefault: true,
+  createdBy: 'system',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  columns: [
+    { id: 'stop', name: 'Stop', color: '#ef4444', order: 2, placeholder: '' },
+    { id: 'start', name: 'Start', color: '#10b981', order: 1, placeholder: '' }
+  ]
+};
+
+const card = (id: string, columnId: string, content: string, authorId: string, groupId: string | null = null): Card => ({
+  id,
+  columnId,
+  content,
+  authorId,
+  groupId,
+  createdAt: new Date()
+});
+
+const room = makeRoomSnapshot({
+  creatorId: 'p1',
+  cards: [
+    card('c1', 'start', 'Pair more', 'p1'),
+    card('c2', 'stop', 'Slow builds', 'p2', 'g1'),
+    card('c3', 'stop', 'Flaky <e2e> tests', 'p2', 'g1')
+  ],
+  cardGroups: [{ id: 'g1', cardIds: ['c2', 'c3'], columnId: 'stop' }],
+  votes: { c1: ['p1'], g1: ['p1', 'p2', 'p3'] },
+  actionItems: [
+    { id: 'a1', title: 'Fix | the build', description: 'Cache deps', assigneeId: 'p2', priority: 'high', dueDate: '2025-03-20', status: 'in_progress' },
+    { id: 'a2', title: 'Pair on reviews', description: '', assigneeId: '', priority: 'low', dueDate: '', status: 'pending' }
+  ],
+  comments: [{
+    id: 'm1',
+    itemId: 'c2',
+    authorId: 'p1',
+    authorName: 'Ada',
+    content: 'Mostly the Docker layer',
+    createdAt: new Date(),
+    updatedAt: null,
+    reactions: {}
+  }]
+});
+
+const retro: Retro = {
+  id: 'retro-1',
+  sessionName: 'Sprint 42',
+  context: 'Release week',
+  templateId: 'template-1',
+  isAnonymous: false,
+  votingLimit: 5,
+  timerDuration: null,
+  status: 'completed',
+  createdAt: new Date('2025-03-04T10:00:00'),
+  updatedAt: new Date('2025-03-04T10:00:00')
+};
+
+describe('report', () => {
+  const participantNames = { p1: 'Ada', p2: 'Bob' };
+
+  it('should gather stats, top voted items, action items and feedback per column', () => {
+    const report = buildRetroReport({ retro, template, room, participantNames });
+
+    expect(report).toMatchObject({ sessionName: 'Sprint 42', templateName: 'Start Stop', voteUnit: 'votes' });
+    expect(report.stats).toEqual({ participants: 3, cards: 3, votes: 4, actionItems: 2, highPriorityActions: 1 });
+    expect(report.topVotedItems.map(item => [item.cards, item.voteCount])).toEqual([
+      [['Slow builds', 'Flaky <e2e> tests'], 3],
+      [['Pair more'], 1]
+    ]);
+    expect(report.topVotedItems[0].comments).toEqual([{ authorName: 'Ada', content: 'Mostly the Docker layer' }]);
+    expect(report.actionItems.map(item => item.assigneeName)).toEqual(['Bob', 'Unassigned']);
+    expect(report.columns.map(column => [column.name, column.items.length])).toEqual([['Start', 1], ['Stop', 1]]);
+  });
+
+  it('should not name comment authors of anonymous retros', () => {
+    const report = buildRetroReport({ retro: { ...retro, isAnonymous: true }, template, room, participantNames });
+
+    expect(report.topVotedItems[0].comments).toEqual([{ authorName: 'Anonymous', content: 'Mostly the Docker layer' }]);
+    expect(renderMarkdownReport(report)).not.toContain('Ada:');
+    expect(renderHtmlReport(report)).toContain('<strong>Anonymous:</strong> Mostly the Docker layer');
+  });
+
+  it('should tally points for ranked and points voting', () => {
+    expect(buildRetroReport({ retro: { ...retro, votingMethod: 'points' }, participantNames: {} }).voteUnit).toBe('points');
+  });
+
+  it('should render Markdown', () => {
+    const markdown = renderMarkdownReport(buildRetroReport({ retro, template, room, participantNames }));
+
+    expect(markdown).toContain('# Sprint 42\n\nMarch 4, 2025 · Start Stop template\n\n> Release week\n');
+    expect(markdown).toContain('| 3 | 3 | 4 | 2 | 1 |');
+    expect(markdown).toContain('1. Slow builds • Flaky <e2e> tests — Stop, 3 votes');
+    expect(markdown).toContain('| **Fix \\| the build**<br>Cache deps | Bob | high | Mar 20, 2025 | In Progress |');
+    expect(markdown).toContain('### Stop\n\n- Slow builds • Flaky <e2e> tests (3 votes)\n  - Ada: Mostly the Docker layer\n');
+  });
+
+  it('should render a standalone HTML page with escaped content and template colors', () => {
+    const html = renderHtmlReport(buildRetroReport({ retro, template, room, participantNames }));
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>Sprint 42</title>');
+    expect(html).toContain('<li>Flaky &lt;e2e&gt; tests</li>');
+    expect(html).not.toContain('<e2e>');
+    expect(html).toContain('style="border-color: #ef4444"');
+    expect(html).toContain('<strong>Ada:</strong> Mostly the Docker layer');
+  });
+
+  it('should show due dates that are not a day as they are', () => {
+    const report = buildRetroReport({
+      retro,
+      template,
+      room: { ...room, actionItems: [{ ...room.actionItems[0], dueDate: 'next <b>friday</b>' }] },
+      participantNames
+    });
+
+    expect(renderMarkdownReport(report)).toContain('| Bob | high | next <b>friday</b> | In Progress |');
+    expect(renderHtmlReport(report)).toContain('<td>next &lt;b&gt;friday&lt;/b&gt;</td>');
+  });
+
+  it('should say so when nothing happened in the retro', () => {
+    const markdown = renderMarkdownReport(buildRetroReport({ retro, template, participantNames: {} }));
+
+    expect(markdown).toContain('No voted items');
+    expect(markdown).toContain('No action items created');
+    expect(markdown).toContain('### Start\n\nNo feedback');
+  });
+});
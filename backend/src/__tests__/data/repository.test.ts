@@ -0,0 +1,244 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  InMemoryRetroRepository,
+  FileRetroRepository,
+  createRetroRepository
+} from '../../data/repository';
+import { Retro } from '../../models/Retro';
+import { RoomSnapshot } from '../../types';
+import { makeRoomSnapshot } from '../fixtures';
+
+describe('Retro Repository', () => {
+  const createTestRetro = (id: string): Retro => ({
+    id,
+    sessionName: 'Test Retro',
+    context: '',
+    templateId: '1',
+    isAnonymous: false,
+    votingLimit: 5,
+    timerDuration: null,
+    status: 'active',
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-02')
+  });
+
+  const createTestRoomState = (id: string): RoomSnapshot => makeRoomSnapshot({
+    id,
+    creatorId: 'u1',
+    currentStage: 4,
+    cards: [{ id: 'card-1', columnId: 'col-1', content: 'Saved', authorId: 'u1', groupId: null, createdAt: new Date() }],
+    cardGroups: [{ id: 'group-1', cardIds: ['card-1'], columnId: 'col-1' }],
+    votes: { 'group-1': ['u1', 'u2'] },
+    discussedItems: ['group-1'],
+    reactions: { 'card-1': { '👍': ['u2'] } },
+    icebreakerState: { currentQuestionIndex: 1, questions: ['Q1', 'Q2'], isAnswering: false, answeredParticipants: [], answers: {} }
+  });
+
+  describe('InMemoryRetroRepository', () => {
+    it('should insert and then replace a retro with the same id', () => {
+      const retros: Retro[] = [];
+      const repo = new InMemoryRetroRepository(retros);
+
+      repo.insertRetro(createTestRetro('retro-1'));
+      repo.replaceRetro({ ...createTestRetro('retro-1'), sessionName: 'Renamed' });
+
+      expect(retros.length).toBe(1);
+      expect(repo.getRetroById('retro-1')?.sessionName).toBe('Renamed');
+    });
+
+    it('should return null when replacing an unknown retro', () => {
+      const repo = new InMemoryRetroRepository();
+
+      expect(repo.replaceRetro(createTestRetro('missing'))).toBeNull();
+    });
+
+    it('should delete only the participants of the given retro', () => {
+      const repo = new InMemoryRetroRepository();
+      repo.addParticipant({ id: 'p1', retroId: 'retro-1', name: 'A', joinedAt: new Date() });
+      repo.addParticipant({ id: 'p2', retroId: 'retro-2', name: 'B', joinedAt: new Date() });
+
+      repo.deleteParticipantsByRetroId('retro-1');
+
+      expect(repo.getParticipantsByRetroId('retro-1')).toEqual([]);
+      expect(repo.getParticipantsByRetroId('retro-2').length).toBe(1);
+    });
+  });
+
+  describe('FileRetroRepository', () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'retro-repo-'));
+      filePath = path.join(tempDir, 'nested', 'retros.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should start empty when the file does not exist', () => {
+      const repo = new FileRetroRepository(filePath);
+
+      expect(repo.getAllRetros()).toEqual([]);
+      expect(fs.existsSync(filePath)).toBe(false);
+    });
+
+    it('should restore retros, participants and room state after a restart', () => {
+      const first = new FileRetroRepository(filePath);
+      first.insertRetro(createTestRetro('retro-1'));
+      first.addParticipant({ id: 'p1', retroId: 'retro-1', name: 'Panda', joinedAt: new Date('2024-01-03') });
+      first.saveRoomState(createTestRoomState('retro-1'));
+
+      const second = new FileRetroRepository(filePath);
+
+      const retro = second.getRetroById('retro-1');
+      expect(retro?.sessionName).toBe('Test Retro');
+      expect(retro?.createdAt).toBeInstanceOf(Date);
+      expect(retro?.updatedAt.getTime()).toBe(new Date('2024-01-02').getTime());
+
+      const participants = second.getParticipantsByRetroId('retro-1');
+      expect(participants[0].name).toBe('Panda');
+      expect(participants[0].joinedAt).toBeInstanceOf(Date);
+
+      const room = second.getRoomState('retro-1');
+      expect(room?.currentStage).toBe(4);
+      expect(room?.cardGroups).toEqual([{ id: 'group-1', cardIds: ['card-1'], columnId: 'col-1' }]);
+      expect(room?.votes).toEqual({ 'group-1': ['u1', 'u2'] });
+      expect(room?.discussedItems).toEqual(['group-1']);
+      expect(room?.reactions).toEqual({ 'card-1': { '👍': ['u2'] } });
+      expect(room?.icebreakerState.currentQuestionIndex).toBe(1);
+    });
+
+    it('should restore users and teams after a restart', () => {
+      const first = new FileRetroRepository(filePath);
+      first.insertUser({ id: 'user-1', email: 'ada@example.com', name: 'Ada', passwordHash: 'hash', role: 'member', createdAt: new Date('2024-01-01') });
+      first.insertTeam({ id: 'team-1', name: 'Platform', memberIds: ['user-1'], createdBy: 'user-1', createdAt: new Date('2024-01-02') });
+      first.replaceTeam({ id: 'team-1', name: 'Platform', memberIds: ['user-1', 'user-2'], createdBy: 'user-1', createdAt: new Date('2024-01-02') });
+
+      const second = new FileRetroRepository(filePath);
+
+      expect(second.getAllUsers()[0]).toMatchObject({ id: 'user-1', email: 'ada@example.com', passwordHash: 'hash' });
+      expect(second.getAllUsers()[0].createdAt).toBeInstanceOf(Date);
+      expect(second.getAllTeams()).toEqual([
+        { id: 'team-1', name: 'Platform', memberIds: ['user-1', 'user-2'], createdBy: 'user-1', createdAt: new Date('2024-01-02') }
+      ]);
+    });
+
+    it('should restore custom templates after a restart', () => {
+      const template = {
+        id: 'template-1',
+        name: 'Keep/Drop',
+        description: '',
+        columns: [{ id: 'keep', name: 'Keep', color: '#22c55e', order: 1, placeholder: '' }],
+        isDefault: false,
+        createdBy: 'user-1',
+        createdAt: new Date('2024-01-01'),
+        updatedAt: new Date('2024-01-01')
+      };
+      const first = new FileRetroRepository(filePath);
+      first.insertTemplate(template);
+      first.insertTemplate({ ...template, id: 'template-2' });
+      first.replaceTemplate({ ...template, name: 'Keep/Drop v2', updatedAt: new Date('2024-01-02') });
+      first.deleteTemplate('template-2');
+
+      const second = new FileRetroRepository(filePath);
+
+      expect(second.getCustomTemplates()).toEqual([{ ...template, name: 'Keep/Drop v2', updatedAt: new Date('2024-01-02') }]);
+    });
+
+    it('should restore webhook subscriptions and their delivery log after a restart', () => {
+      const subscription = {
+        id: 'hook-1',
+        url: 'https://example.com/hook',
+        secret: 'shh',
+        events: ['retro.completed' as const],
+        createdBy: 'user-1',
+        createdAt: new Date('2024-01-01')
+      };
+      const delivery = {
+        id: 'delivery-1',
+        subscriptionId: 'hook-1',
+        event: 'retro.completed' as const,
+        payload: {
+          id: 'delivery-1',
+          event: 'retro.completed' as const,
+          createdAt: '2024-01-02T00:00:00.000Z',
+          retro: { id: 'retro-1', sessionName: 'Test Retro', status: 'completed', templateId: '1', createdAt: new Date('2024-01-01') }
+        },
+        status: 'pending' as const,
+        attempts: [],
+        createdAt: new Date('2024-01-02')
+      };
+      const first = new FileRetroRepository(filePath);
+      first.insertWebhookSubscription(subscription);
+      first.insertWebhookSubscription({ ...subscription, id: 'hook-2' });
+      first.deleteWebhookSubscription('hook-2');
+      first.saveWebhookDelivery(delivery);
+      first.saveWebhookDelivery({ ...delivery, status: 'delivered', attempts: [{ at: new Date('2024-01-02'), statusCode: 200 }] });
+
+      const second = new FileRetroRepository(filePath);
+
+      expect(second.getWebhookSubscriptions()).toEqual([subscription]);
+      expect(second.getWebhookDeliveries()).toHaveLength(1);
+      expect(second.getWebhookDeliveries()[0]).toMatchObject({ id: 'delivery-1', status: 'delivered' });
+      expect(second.getWebhookDeliveries()[0].attempts[0].at).toEqual(new Date('2024-01-02'));
+      expect(second.getWebhookDeliveries()[0].createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should persist deletions', () => {
+      const first = new FileRetroRepository(filePath);
+      first.insertRetro(createTestRetro('retro-1'));
+      first.saveRoomState(createTestRoomState('retro-1'));
+      first.deleteRetro('retro-1');
+      first.deleteRoomState('retro-1');
+
+      const second = new FileRetroRepository(filePath);
+
+      expect(second.getRetroById('retro-1')).toBeUndefined();
+      expect(second.getRoomState('retro-1')).toBeUndefined();
+    });
+  });
+
+  describe('createRetroRepository', () => {
+    const originalStorage = process.env.RETRO_STORAGE;
+    const originalPath = process.env.RETRO_STORAGE_PATH;
+
+    afterEach(() => {
+      process.env.RETRO_STORAGE = originalStorage;
+      process.env.RETRO_STORAGE_PATH = originalPath;
+      if (originalStorage === undefined) delete process.env.RETRO_STORAGE;
+      if (originalPath === undefined) delete process.env.RETRO_STORAGE_PATH;
+    });
+
+    it('should default to in-memory storage', () => {
+      delete process.env.RETRO_STORAGE;
+
+      const repo = createRetroRepository();
+
+      expect(repo).toBeInstanceOf(InMemoryRetroRepository);
+      expect(repo).not.toBeInstanceOf(FileRetroRepository);
+    });
+
+    it('should use file storage at RETRO_STORAGE_PATH when RETRO_STORAGE=file', () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'retro-repo-'));
+      process.env.RETRO_STORAGE = 'file';
+      process.env.RETRO_STORAGE_PATH = path.join(tempDir, 'store.json');
+
+      const repo = createRetroRepository();
+      repo.insertRetro(createTestRetro('retro-1'));
+
+      expect(repo).toBeInstanceOf(FileRetroRepository);
+      expect(fs.existsSync(path.join(tempDir, 'store.json'))).toBe(true);
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should throw for an unknown storage type', () => {
+      process.env.RETRO_STORAGE = 'postgres';
+
+      expect(() => createRetroRepository()).toThrow('Unknown RETRO_STORAGE');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  canTransitionStatus,
+  getStatusForStage,
+  isRetroStatus,
+  transitionRetroStatus
+} from '../../data/retroLifecycle';
+import { retros, createRetro, getRetroById } from '../../data/retros';
+
+describe('retroLifecycle', () => {
+  beforeEach(() => {
+    retros.length = 0;
+  });
+
+  const addRetro = (status: 'draft' | 'active' | 'voting' | 'completed') => createRetro({
+    sessionName: 'Sprint Retro',
+    context: '',
+    templateId: '1',
+    isAnonymous: false,
+    votingLimit: 5,
+    timerDuration: null,
+    status
+  });
+
+  it('should recognise the retro statuses', () => {
+    expect(isRetroStatus('voting')).toBe(true);
+    expect(isRetroStatus('archived')).toBe(false);
+    expect(isRetroStatus(undefined)).toBe(false);
+  });
+
+  it('should only move forward, except between active and voting', () => {
+    expect(canTransitionStatus('draft', 'active')).toBe(true);
+    expect(canTransitionStatus('active', 'voting')).toBe(true);
+    expect(canTransitionStatus('voting', 'active')).toBe(true);
+    expect(canTransitionStatus('voting', 'completed')).toBe(true);
+    expect(canTransitionStatus('active', 'draft')).toBe(false);
+    expect(canTransitionStatus('completed', 'active')).toBe(false);
+    expect(canTransitionStatus('completed', 'completed')).toBe(true);
+  });
+
+  it('should map stages to statuses', () => {
+    expect(getStatusForStage('icebreaker')).toBe('active');
+    expect(getStatusForStage('brainstorm')).toBe('active');
+    expect(getStatusForStage('vote')).toBe('voting');
+    expect(getStatusForStage('discuss')).toBe('active');
+    expect(getStatusForStage('report')).toBe('completed');
+  });
+
+  it('should transition retros the lifecycle allows', () => {
+    const retro = addRetro('draft');
+
+    expect(transitionRetroStatus(retro.id, 'voting')?.status).toBe('voting');
+    expect(getRetroById(retro.id)?.status).toBe('voting');
+    // Already in that status
+    expect(transitionRetroStatus(retro.id, 'voting')).toBeNull();
+    expect(transitionRetroStatus('missing', 'active')).toBeNull();
+  });
+
+  it('should leave completed retros alone', () => {
+    const retro = addRetro('completed');
+
+    expect(transitionRetroStatus(retro.id, 'active')).toBeNull();
+    expect(getRetroById(retro.id)?.status).toBe('completed');
+  });
+});
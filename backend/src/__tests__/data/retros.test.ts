@@ -2,12 +2,17 @@ import {
   retros,
   participants,
   getAllRetros,
+  findRetros,
   getRetroById,
   createRetro,
   updateRetro,
   deleteRetro,
-  addParticipant
+  addParticipant,
+  getRoomState,
+  saveRoomState
 } from '../../data/retros';
+import { RoomSnapshot } from '../../types';
+import { makeRoomSnapshot } from '../fixtures';
 
 describe('Retros Data Store', () => {
   // Helper to create test retro data
@@ -22,6 +27,13 @@ describe('Retros Data Store', () => {
     ...overrides
   });
 
+  const createTestRoomState = (id: string): RoomSnapshot => makeRoomSnapshot({
+    id,
+    creatorId: 'u1',
+    currentStage: 2,
+    cards: [{ id: 'card-1', columnId: 'col-1', content: 'Saved', authorId: 'u1', groupId: null, createdAt: new Date() }]
+  });
+
   beforeEach(() => {
     // Clear arrays before each test
     retros.length = 0;
@@ -52,6 +64,23 @@ describe('Retros Data Store', () => {
     });
   });
 
+  describe('findRetros', () => {
+    it('should return retros matching every filter', () => {
+      const sprint = createRetro(createTestRetroData({ sessionName: 'Sprint 12', status: 'completed', teamId: 'team-1' }));
+      const kickoff = createRetro(createTestRetroData({ sessionName: 'Kickoff', context: 'Before the SPRINT', templateId: '2' }));
+      createRetro(createTestRetroData({ sessionName: 'Offsite' }));
+      sprint.createdAt = new Date('2024-01-10');
+      kickoff.createdAt = new Date('2024-02-10');
+
+      expect(findRetros({ search: 'sprint' }).map(r => r.sessionName)).toEqual(['Kickoff', 'Sprint 12']);
+      expect(findRetros({ search: 'sprint', templateId: '2' })).toEqual([kickoff]);
+      expect(findRetros({ status: 'completed' })).toEqual([sprint]);
+      expect(findRetros({ teamId: 'team-1' })).toEqual([sprint]);
+      expect(findRetros({ from: new Date('2024-01-01'), to: new Date('2024-01-31') })).toEqual([sprint]);
+      expect(findRetros({})).toHaveLength(3);
+    });
+  });
+
   describe('getRetroById', () => {
     it('should return undefined when retro not found', () => {
       const result = getRetroById('nonexistent');
@@ -202,6 +231,33 @@ describe('Retros Data Store', () => {
       expect(participants.length).toBe(1);
       expect(participants[0].name).toBe('User 3');
     });
+
+    it('should also remove saved room state', () => {
+      const created = createRetro(createTestRetroData());
+      saveRoomState(createTestRoomState(created.id));
+
+      deleteRetro(created.id);
+
+      expect(getRoomState(created.id)).toBeUndefined();
+    });
+  });
+
+  describe('room state', () => {
+    it('should return undefined when no state is saved', () => {
+      expect(getRoomState('nonexistent')).toBeUndefined();
+    });
+
+    it('should return a copy of the saved state', () => {
+      const state = createTestRoomState('retro-room');
+      saveRoomState(state);
+
+      // Mutating the live room after saving must not change the stored snapshot
+      state.cards.push({ id: 'card-2', columnId: 'col-1', content: 'Later', authorId: 'u1', groupId: null, createdAt: new Date() });
+
+      const result = getRoomState('retro-room');
+      expect(result?.currentStage).toBe(2);
+      expect(result?.cards.length).toBe(1);
+    });
   });
 
   describe('addParticipant', () => {
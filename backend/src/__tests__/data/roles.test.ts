@@ -0,0 +1,63 @@
+import { hasRole, getAccountRole, getRetroRole } from '../../data/roles';
+import { createFacilitatorToken } from '../../data/facilitatorTokens';
+import { users, teams, createUser, createTeam } from '../../data/users';
+import { Retro } from '../../models/Retro';
+
+const makeRetro = (overrides: Partial<Retro> = {}): Retro => ({
+  id: 'retro-1',
+  sessionName: 'Sprint Retro',
+  context: '',
+  templateId: '1',
+  isAnonymous: false,
+  votingLimit: 5,
+  timerDuration: null,
+  status: 'active',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+describe('roles', () => {
+  beforeEach(() => {
+    users.length = 0;
+    teams.length = 0;
+    delete process.env.ADMIN_EMAILS;
+  });
+
+  it('should rank roles from admin down to viewer', () => {
+    expect(hasRole('admin', 'facilitator')).toBe(true);
+    expect(hasRole('facilitator', 'facilitator')).toBe(true);
+    expect(hasRole('member', 'facilitator')).toBe(false);
+    expect(hasRole('viewer', 'viewer')).toBe(true);
+  });
+
+  it('should make accounts listed in ADMIN_EMAILS admins', () => {
+    process.env.ADMIN_EMAILS = 'root@example.com, ops@example.com';
+    const admin = createUser({ email: 'OPS@example.com', name: 'Ops', passwordHash: 'hash' });
+    const member = createUser({ email: 'ada@example.com', name: 'Ada', passwordHash: 'hash' });
+
+    expect(getAccountRole(admin)).toBe('admin');
+    expect(getAccountRole(member)).toBe('member');
+    expect(getAccountRole(undefined)).toBe('viewer');
+  });
+
+  it('should resolve facilitators by owner account or facilitator token', () => {
+    const owner = createUser({ email: 'ada@example.com', name: 'Ada', passwordHash: 'hash' });
+    const { token, tokenHash } = createFacilitatorToken();
+    const retro = makeRetro({ ownerId: owner.id, facilitatorTokenHash: tokenHash });
+
+    expect(getRetroRole(retro, owner)).toBe('facilitator');
+    expect(getRetroRole(retro, undefined, token)).toBe('facilitator');
+    expect(getRetroRole(retro, undefined, 'guess')).toBe('member');
+  });
+
+  it('should only let team members take part in team retros', () => {
+    const member = createUser({ email: 'ada@example.com', name: 'Ada', passwordHash: 'hash' });
+    const outsider = createUser({ email: 'bob@example.com', name: 'Bob', passwordHash: 'hash' });
+    const retro = makeRetro({ teamId: createTeam('Platform', member.id).id });
+
+    expect(getRetroRole(retro, member)).toBe('member');
+    expect(getRetroRole(retro, outsider)).toBe('viewer');
+    expect(getRetroRole(retro, undefined)).toBe('viewer');
+  });
+});
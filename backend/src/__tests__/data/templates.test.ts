@@ -1,11 +1,11 @@
-import { templates, getAllTemplates, getTemplateById } from '../../data/templates';
+import { systemTemplates, customTemplates, getAllTemplates, getTemplateById, createTemplate, updateTemplate, deleteTemplate } from '../../data/templates';
 
 describe('Templates Data Store', () => {
   describe('templates array', () => {
     it('should contain predefined templates with required properties and valid columns', () => {
-      expect(templates.length).toBeGreaterThan(0);
+      expect(systemTemplates.length).toBeGreaterThan(0);
 
-      templates.forEach(template => {
+      systemTemplates.forEach(template => {
         // Check required properties
         expect(template).toHaveProperty('id');
         expect(template).toHaveProperty('name');
@@ -35,9 +35,9 @@ describe('Templates Data Store', () => {
     it('should return all templates as array', () => {
       const result = getAllTemplates();
 
-      expect(result).toBe(templates);
+      expect(result).toEqual(systemTemplates);
       expect(Array.isArray(result)).toBe(true);
-      expect(result.length).toBe(templates.length);
+      expect(result.length).toBe(systemTemplates.length);
       result.forEach(template => {
         expect(template).toHaveProperty('id');
         expect(template).toHaveProperty('name');
@@ -56,7 +56,7 @@ describe('Templates Data Store', () => {
       expect(getTemplateById('nonexistent')).toBeUndefined();
 
       // Test all templates can be found
-      templates.forEach(template => {
+      systemTemplates.forEach(template => {
         const found = getTemplateById(template.id);
         expect(found).toBe(template);
       });
@@ -74,4 +74,26 @@ describe('Templates Data Store', () => {
       expect(sailboat?.columns.length).toBe(4);
     });
   });
+
+  describe('custom templates', () => {
+    const columns = [
+      { id: 'keep', name: 'Keep', color: '#22c55e', order: 1, placeholder: '' },
+      { id: 'drop', name: 'Drop', color: '#ef4444', order: 2, placeholder: '' },
+    ];
+
+    it('should create, update and delete custom templates', () => {
+      const count = customTemplates.length;
+      const template = createTemplate({ name: 'Keep/Drop', description: '', columns, createdBy: 'user-1' });
+
+      expect(template.isDefault).toBe(false);
+      expect(getTemplateById(template.id)).toBe(template);
+
+      expect(updateTemplate(template.id, { name: 'Keep/Drop v2' })?.name).toBe('Keep/Drop v2');
+      expect(updateTemplate('nonexistent', { name: 'Nope' })).toBeNull();
+
+      expect(deleteTemplate(template.id)).toBe(true);
+      expect(deleteTemplate(template.id)).toBe(false);
+      expect(customTemplates).toHaveLength(count);
+    });
+  });
 });
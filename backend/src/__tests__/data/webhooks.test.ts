@@ -0,0 +1,163 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createHmac } from 'crypto';
+import {
+  webhookSubscriptions,
+  webhookDeliveries,
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  getWebhookDeliveries,
+  signWebhookPayload,
+  emitWebhookEvent,
+  MAX_DELIVERY_ATTEMPTS
+} from '../../data/webhooks';
+import { Retro } from '../../models/Retro';
+
+interface ReceivedWebhook {
+  headers: http.IncomingHttpHeaders;
+  rawBody: string;
+}
+
+// A local HTTP server standing in for the subscriber; answers with the queued status codes, then 200
+const startSubscriber = async () => {
+  const received: ReceivedWebhook[] = [];
+  const statuses: number[] = [];
+
+  const server = http.createServer((req, res) => {
+    let rawBody = '';
+    req.on('data', chunk => {
+      rawBody += chunk;
+    });
+    req.on('end', () => {
+      received.push({ headers: req.headers, rawBody });
+      res.statusCode = statuses.shift() || 200;
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`,
+    received,
+    respondWith: (...codes: number[]) => statuses.push(...codes),
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+};
+
+describe('Webhooks', () => {
+  const retro: Retro = {
+    id: 'retro-1',
+    sessionName: 'Sprint 42',
+    context: '',
+    templateId: '1',
+    isAnonymous: false,
+    votingLimit: 5,
+    timerDuration: null,
+    status: 'active',
+    teamId: 'team-1',
+    createdAt: new Date('2025-03-01T10:00:00Z'),
+    updatedAt: new Date('2025-03-01T10:00:00Z')
+  };
+
+  let subscriber: Awaited<ReturnType<typeof startSubscriber>>;
+
+  beforeEach(async () => {
+    webhookSubscriptions.length = 0;
+    webhookDeliveries.length = 0;
+    process.env.WEBHOOK_RETRY_DELAY_MS = '5';
+    subscriber = await startSubscriber();
+  });
+
+  afterEach(async () => {
+    delete process.env.WEBHOOK_RETRY_DELAY_MS;
+    await subscriber.close();
+  });
+
+  it('should sign the body with HMAC-SHA256', () => {
+    const expected = createHmac('sha256', 's3cret').update('{"a":1}').digest('hex');
+
+    expect(signWebhookPayload('s3cret', '{"a":1}')).toBe(`sha256=${expected}`);
+  });
+
+  it('should post a signed payload to subscriptions of the event', async () => {
+    createWebhookSubscription({ url: subscriber.url, secret: 's3cret', events: ['retro.stage-changed'] }, 'user-1');
+
+    const [delivery] = await emitWebhookEvent('retro.stage-changed', retro, { stage: { index: 1, id: 'vote' } });
+
+    expect(delivery.status).toBe('delivered');
+    expect(subscriber.received).toHaveLength(1);
+    const [{ headers, rawBody }] = subscriber.received;
+    expect(headers['x-teamretro-event']).toBe('retro.stage-changed');
+    expect(headers['x-teamretro-delivery']).toBe(delivery.id);
+    expect(headers['x-teamretro-signature']).toBe(signWebhookPayload('s3cret', rawBody));
+    expect(JSON.parse(rawBody)).toMatchObject({
+      id: delivery.id,
+      event: 'retro.stage-changed',
+      retro: { id: 'retro-1', sessionName: 'Sprint 42', status: 'active', teamId: 'team-1' },
+      stage: { index: 1, id: 'vote' }
+    });
+  });
+
+  it('should leave out subscriptions that filter the event out', async () => {
+    createWebhookSubscription({ url: subscriber.url, secret: 's3cret', events: ['retro.completed'] }, 'user-1');
+
+    const deliveries = await emitWebhookEvent('retro.created', retro);
+
+    expect(deliveries).toEqual([]);
+    expect(subscriber.received).toHaveLength(0);
+  });
+
+  it('should retry failed deliveries and log every attempt', async () => {
+    const subscription = createWebhookSubscription({ url: subscriber.url, secret: 's3cret', events: ['retro.created'] }, 'user-1');
+    subscriber.respondWith(503, 500);
+
+    const [delivery] = await emitWebhookEvent('retro.created', retro);
+
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.attempts.map(attempt => attempt.statusCode)).toEqual([503, 500, 200]);
+    expect(delivery.attempts[0].error).toBe('Responded with 503');
+    // Every attempt carries the same delivery id
+    expect(new Set(subscriber.received.map(request => request.headers['x-teamretro-delivery'])).size).toBe(1);
+    expect(getWebhookDeliveries(subscription.id)).toEqual([delivery]);
+  });
+
+  it('should give up after the last attempt', async () => {
+    createWebhookSubscription({ url: subscriber.url, secret: 's3cret', events: ['retro.created'] }, 'user-1');
+    subscriber.respondWith(...Array(MAX_DELIVERY_ATTEMPTS).fill(500));
+
+    const [delivery] = await emitWebhookEvent('retro.created', retro);
+
+    expect(delivery.status).toBe('failed');
+    expect(delivery.attempts).toHaveLength(MAX_DELIVERY_ATTEMPTS);
+  });
+
+  it('should not retry deliveries the subscriber refused', async () => {
+    createWebhookSubscription({ url: subscriber.url, secret: 's3cret', events: ['retro.created'] }, 'user-1');
+    subscriber.respondWith(410);
+
+    const [delivery] = await emitWebhookEvent('retro.created', retro);
+
+    expect(delivery.status).toBe('failed');
+    expect(delivery.attempts).toHaveLength(1);
+  });
+
+  it('should log unreachable subscribers as failed attempts', async () => {
+    await subscriber.close();
+    createWebhookSubscription({ url: subscriber.url, secret: 's3cret', events: ['retro.created'] }, 'user-1');
+    subscriber = await startSubscriber();
+
+    const [delivery] = await emitWebhookEvent('retro.created', retro);
+
+    expect(delivery.status).toBe('failed');
+    expect(delivery.attempts.every(attempt => attempt.statusCode === null && attempt.error)).toBe(true);
+  });
+
+  it('should drop the delivery log along with the subscription', async () => {
+    const subscription = createWebhookSubscription({ url: subscriber.url, secret: 's3cret', events: ['retro.created'] }, 'user-1');
+    await emitWebhookEvent('retro.created', retro);
+
+    expect(deleteWebhookSubscription(subscription.id)).toBe(true);
+    expect(deleteWebhookSubscription(subscription.id)).toBe(false);
+    expect(webhookDeliveries).toEqual([]);
+  });
+});
@@ -0,0 +1,21 @@
+import { RoomSnapshot } from '../types';
+
+// Saved state of an empty room at the first stage; tests pass in what they need
+export const makeRoomSnapshot = (changes: Partial<RoomSnapshot> = {}): RoomSnapshot => ({
+  id: 'retro-1',
+  creatorId: '',
+  coFacilitatorIds: [],
+  currentStage: 0,
+  cards: [],
+  cardGroups: [],
+  votes: {},
+  actionItems: [],
+  discussedItems: [],
+  stageDoneStatus: {},
+  reactions: {},
+  comments: [],
+  votesRevealed: false,
+  timer: null,
+  icebreakerState: { currentQuestionIndex: 0, questions: [], isAnswering: false, answeredParticipants: [], answers: {} },
+  ...changes
+});
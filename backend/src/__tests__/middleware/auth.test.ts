@@ -0,0 +1,72 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { requireAuth, signAuthToken, getUserFromAuthToken } from '../../middleware/auth';
+import { users, createUser } from '../../data/users';
+
+describe('Auth Middleware', () => {
+  const mockResponse = () => {
+    const res: Partial<Response> = { locals: {} };
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res as Response;
+  };
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  afterAll(() => {
+    delete process.env.JWT_SECRET;
+  });
+
+  beforeEach(() => {
+    users.length = 0;
+  });
+
+  describe('getUserFromAuthToken', () => {
+    it('should resolve a signed token to its user', () => {
+      const user = createUser({ email: 'ada@example.com', name: 'Ada', passwordHash: 'hash' });
+
+      expect(getUserFromAuthToken(signAuthToken(user))).toBe(user);
+    });
+
+    it('should reject missing, forged and expired tokens and deleted users', () => {
+      const user = createUser({ email: 'ada@example.com', name: 'Ada', passwordHash: 'hash' });
+      const expired = jwt.sign({ sub: user.id, exp: Math.floor(Date.now() / 1000) - 60 }, 'test-secret');
+      const forged = jwt.sign({ sub: user.id }, 'some-other-secret');
+      const token = signAuthToken(user);
+
+      expect(getUserFromAuthToken(null)).toBeUndefined();
+      expect(getUserFromAuthToken(forged)).toBeUndefined();
+      expect(getUserFromAuthToken(expired)).toBeUndefined();
+
+      users.length = 0;
+      expect(getUserFromAuthToken(token)).toBeUndefined();
+    });
+  });
+
+  describe('requireAuth', () => {
+    it('should put the user on res.locals and call next() for a valid bearer token', () => {
+      const user = createUser({ email: 'ada@example.com', name: 'Ada', passwordHash: 'hash' });
+      const req = { headers: { authorization: `Bearer ${signAuthToken(user)}` } } as Request;
+      const res = mockResponse();
+      const next: NextFunction = jest.fn();
+
+      requireAuth(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(res.locals.user).toBe(user);
+    });
+
+    it('should return 401 without a bearer token', () => {
+      const res = mockResponse();
+      const next: NextFunction = jest.fn();
+
+      requireAuth({ headers: {} } as Request, res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({ message: 'Authentication required' });
+    });
+  });
+});
@@ -1,5 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
-import { validateRetroCreation } from '../../middleware/validation';
+import {
+  validateRetroCreation,
+  validateRetroQuery,
+  validateAnalyticsQuery,
+  validateTemplate,
+  validateTemplateFile
+} from '../../middleware/validation';
 
 // Helper to create mock request/response
 const mockRequest = (body = {}) => ({
@@ -88,4 +94,159 @@ describe('Validation Middleware', () => {
       expect(mockNext).toHaveBeenCalled();
     });
   });
+
+  describe('validateRetroQuery', () => {
+    const queryRequest = (query = {}) => ({ query }) as unknown as Request;
+
+    it('should call next() for valid or missing parameters', () => {
+      validateRetroQuery(queryRequest(), mockResponse(), mockNext as NextFunction);
+      validateRetroQuery(queryRequest({
+        page: '3',
+        pageSize: '100',
+        status: 'voting',
+        from: '2025-01-01',
+        to: '2025-01-31T23:59:59.999Z',
+        q: 'sprint'
+      }), mockResponse(), mockNext as NextFunction);
+
+      expect(mockNext).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return 400 for invalid pages, statuses and dates', () => {
+      const cases = [
+        [{ page: '1.5' }, 'Page must be a positive whole number'],
+        [{ pageSize: '101' }, 'Page size must be a whole number from 1 to 100'],
+        [{ status: 'archived' }, 'Status must be one of: draft, active, voting, completed'],
+        [{ from: 'yesterday' }, 'Date range must use valid dates']
+      ] as const;
+
+      cases.forEach(([query, message]) => {
+        const res = mockResponse();
+        validateRetroQuery(queryRequest(query), res, mockNext as NextFunction);
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith({ message });
+      });
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validateAnalyticsQuery', () => {
+    const queryRequest = (query = {}) => ({ query }) as unknown as Request;
+
+    it('should call next() with a team and an optional date range', () => {
+      validateAnalyticsQuery(queryRequest({ teamId: 'team-1', from: '2025-01-01' }), mockResponse(), mockNext as NextFunction);
+
+      expect(mockNext).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return 400 without a team or with invalid dates', () => {
+      const cases = [
+        [{}, 'Team is required'],
+        [{ teamId: 'team-1', to: 'soon' }, 'Date range must use valid dates']
+      ] as const;
+
+      cases.forEach(([query, message]) => {
+        const res = mockResponse();
+        validateAnalyticsQuery(queryRequest(query), res, mockNext as NextFunction);
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith({ message });
+      });
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validateTemplate', () => {
+    const columns = [
+      { id: 'start', name: 'Start', color: '#10b981', order: 1, placeholder: 'What should we start?' },
+      { id: 'stop', name: 'Stop', color: '#f00', order: 2 },
+    ];
+
+    const validate = (body: object) => {
+      const res = mockResponse();
+      validateTemplate(mockRequest(body), res, mockNext as NextFunction);
+      return res;
+    };
+
+    it('should call next() for a valid template', () => {
+      const res = validate({ name: 'Start/Stop', description: 'Quick one', columns });
+
+      expect(mockNext).toHaveBeenCalled();
+      expect(res.status).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      [{ columns }, 'Template name is required'],
+      [{ name: 'Start/Stop', columns: columns.slice(0, 1) }, 'A template needs between 2 and 8 columns'],
+      [{ name: 'Start/Stop', columns: Array.from({ length: 9 }, (_, i) => ({ ...columns[0], id: `c${i}`, order: i })) },
+        'A template needs between 2 and 8 columns'],
+      [{ name: 'Start/Stop', columns: [columns[0], { ...columns[1], name: ' ' }] }, 'Each column needs an id and a name'],
+      [{ name: 'Start/Stop', columns: [columns[0], { ...columns[1], color: 'red' }] }, 'Column colors must be hex colors like #3b82f6'],
+      [{ name: 'Start/Stop', columns: [columns[0], { ...columns[1], order: 1.5 }] }, 'Column order must be a whole number'],
+      [{ name: 'Start/Stop', columns: [columns[0], { ...columns[1], id: 'start' }] }, 'Column ids must be unique'],
+      [{ name: 'Start/Stop', columns: [columns[0], { ...columns[1], order: 1 }] }, 'Column orders must be unique'],
+    ])('should return 400 for %j', (body, message) => {
+      const res = validate(body);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ message });
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validateTemplateFile', () => {
+    const template = {
+      name: 'Start/Stop',
+      columns: [
+        { id: 'start', name: 'Start', color: '#10b981', order: 1 },
+        { id: 'stop', name: 'Stop', color: '#ef4444', order: 2 },
+      ],
+    };
+
+    const validate = (body: object) => {
+      const res = mockResponse();
+      validateTemplateFile(mockRequest(body), res, mockNext as NextFunction);
+      return res;
+    };
+
+    it('should call next() for a valid file', () => {
+      validate({ schema: 'teamretro.template', version: 1, template: { ...template, icebreakerQuestions: ['Tea?'] } });
+
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    it('should report problems with the retro defaults', () => {
+      const res = validate({
+        schema: 'teamretro.template',
+        version: 1,
+        template: {
+          ...template,
+          stages: [
+            { id: 'vote', name: 'Vote', duration: -1, enabled: true },
+            { id: 'vote', name: 'Vote', duration: 0, enabled: true },
+          ],
+          icebreakerQuestions: ['Tea?', ' '],
+          options: { votingMethod: 'approval', commentsEnabled: 'yes' },
+        },
+      });
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        message: 'Invalid template file',
+        errors: [
+          'stages[0] needs a name, a duration of 0 or more and enabled true or false',
+          expect.stringMatching(/^stages\[1\] must have a unique id/),
+          'Icebreaker questions must be non-empty text',
+          '"options.votingMethod" must be one of: dots, ranked, points',
+          '"options.commentsEnabled" must be true or false',
+        ],
+      });
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('should require the template itself', () => {
+      const res = validate({ schema: 'teamretro.template', version: 1 });
+
+      expect(res.json).toHaveBeenCalledWith({ message: 'Invalid template file', errors: ['"template" is required'] });
+    });
+  });
 });
@@ -0,0 +1,428 @@
+import request from 'supertest';
+import express, { Application } from 'express';
+import actionRoutes from '../../routes/actionRoutes';
+import retroRoutes from '../../routes/retroRoutes';
+import { retros, saveRoomState, getRoomState, deleteRoomState } from '../../data/retros';
+import { users, teams, createUser, createTeam } from '../../data/users';
+import { signAuthToken } from '../../middleware/auth';
+import { errorHandler } from '../../middleware/errorHandler';
+import { IssueTrackerConnector, IssueTrackerError, setIssueTracker } from '../../data/issueTrackers';
+import { Retro } from '../../models/Retro';
+import { ActionItem } from '../../types';
+import { makeRoomSnapshot } from '../fixtures';
+
+// Create test app
+const createTestApp = (): Application => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/actions', actionRoutes);
+  app.use('/api/retros', retroRoutes);
+  app.use(errorHandler);
+  return app;
+};
+
+const makeRetro = (id: string, createdAt: string, teamId?: string): Retro => ({
+  id,
+  sessionName: `Retro ${id}`,
+  context: '',
+  templateId: '1',
+  isAnonymous: false,
+  votingLimit: 5,
+  timerDuration: null,
+  status: 'completed',
+  teamId,
+  createdAt: new Date(createdAt),
+  updatedAt: new Date(createdAt)
+});
+
+const makeAction = (id: string, status: ActionItem['status'], extra: Partial<ActionItem> = {}): ActionItem => ({
+  id,
+  title: `Action ${id}`,
+  description: '',
+  assigneeId: '',
+  priority: 'medium',
+  dueDate: '',
+  status,
+  ...extra
+});
+
+const saveActions = (retroId: string, actionItems: ActionItem[]) => {
+  saveRoomState(makeRoomSnapshot({
+    id: retroId,
+    actionItems
+  }));
+};
+
+describe('Action Routes', () => {
+  let app: Application;
+  let adaToken: string;
+  let bobToken: string;
+  let adaId: string;
+  let teamId: string;
+
+  beforeEach(() => {
+    app = createTestApp();
+    retros.forEach(retro => deleteRoomState(retro.id));
+    retros.length = 0;
+    users.length = 0;
+    teams.length = 0;
+
+    const ada = createUser({ email: 'ada@example.com', name: 'Ada', passwordHash: 'hash' });
+    adaId = ada.id;
+    adaToken = signAuthToken(ada);
+    bobToken = signAuthToken(createUser({ email: 'bob@example.com', name: 'Bob', passwordHash: 'hash' }));
+    teamId = createTeam('Platform', ada.id).id;
+
+    retros.push(
+      makeRetro('retro-1', '2025-03-01T10:00:00Z', teamId),
+      makeRetro('retro-2', '2025-03-15T10:00:00Z', teamId),
+      makeRetro('retro-other', '2025-03-20T10:00:00Z')
+    );
+    saveActions('retro-1', [
+      makeAction('a1', 'pending'),
+      makeAction('a2', 'completed'),
+      makeAction('a3', 'in_progress')
+    ]);
+    saveActions('retro-2', [
+      makeAction('b1', 'in_progress', { carriedOverFrom: { retroId: 'retro-1', actionItemId: 'a3' } })
+    ]);
+    saveActions('retro-other', [makeAction('c1', 'pending')]);
+  });
+
+  describe('GET /api/actions', () => {
+    it('should require a logged-in user', async () => {
+      const response = await request(app).get(`/api/actions?teamId=${teamId}`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should list open action items across the team retros, leaving out carried over ones', async () => {
+      const response = await request(app)
+        .get(`/api/actions?teamId=${teamId}`)
+        .set('Authorization', `Bearer ${adaToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.map((item: any) => [item.retroId, item.id])).toEqual([
+        ['retro-2', 'b1'],
+        ['retro-1', 'a1']
+      ]);
+      expect(response.body[1]).toMatchObject({ retroName: 'Retro retro-1', retroCreatedAt: '2025-03-01T10:00:00.000Z' });
+    });
+
+    it('should filter by status', async () => {
+      const completed = await request(app)
+        .get(`/api/actions?teamId=${teamId}&status=completed`)
+        .set('Authorization', `Bearer ${adaToken}`);
+      const all = await request(app)
+        .get(`/api/actions?teamId=${teamId}&status=all`)
+        .set('Authorization', `Bearer ${adaToken}`);
+
+      expect(completed.body.map((item: any) => item.id)).toEqual(['a2']);
+      expect(all.body.map((item: any) => item.id)).toEqual(['b1', 'a1', 'a2']);
+    });
+
+    it('should return 400 without a team or with an unknown status', async () => {
+      const noTeam = await request(app).get('/api/actions').set('Authorization', `Bearer ${adaToken}`);
+      const badStatus = await request(app)
+        .get(`/api/actions?teamId=${teamId}&status=done`)
+        .set('Authorization', `Bearer ${adaToken}`);
+
+      expect(noTeam.status).toBe(400);
+      expect(noTeam.body.message).toBe('Team is required');
+      expect(badStatus.status).toBe(400);
+      expect(badStatus.body.message).toBe('Status must be one of: open, all, pending, in_progress, completed');
+    });
+
+    it('should hide teams from non-members', async () => {
+      const response = await request(app)
+        .get(`/api/actions?teamId=${teamId}`)
+        .set('Authorization', `Bearer ${bobToken}`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.message).toBe('Team not found');
+    });
+  });
+
+  describe('GET /api/actions/actions.ics', () => {
+    it("should list the due dates of the team's open action items", async () => {
+      saveActions('retro-1', [
+        makeAction('a1', 'pending', { dueDate: '2025-04-01' }),
+        makeAction('a2', 'completed', { dueDate: '2025-04-02' })
+      ]);
+
+      const response = await request(app)
+        .get(`/api/actions/actions.ics?teamId=${teamId}`)
+        .set('Authorization', `Bearer ${adaToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/^text\/calendar/);
+      expect(response.headers['content-disposition']).toBe('attachment; filename="actions.ics"');
+      expect(response.text).toContain('X-WR-CALNAME:Platform action items');
+      expect(response.text).toContain('DTSTART;VALUE=DATE:20250401');
+      expect(response.text).not.toContain('DTSTART;VALUE=DATE:20250402');
+    });
+
+    it('should require a team member', async () => {
+      const anonymous = await request(app).get(`/api/actions/actions.ics?teamId=${teamId}`);
+      const outsider = await request(app)
+        .get(`/api/actions/actions.ics?teamId=${teamId}`)
+        .set('Authorization', `Bearer ${bobToken}`);
+
+      expect(anonymous.status).toBe(401);
+      expect(outsider.status).toBe(404);
+    });
+  });
+
+  describe('PATCH /api/actions/:retroId/:actionId', () => {
+    it('should update an action item of a closed retro', async () => {
+      const response = await request(app)
+        .patch('/api/actions/retro-1/a1')
+        .set('Authorization', `Bearer ${adaToken}`)
+        .send({ status: 'completed', dueDate: '2025-04-01' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ id: 'a1', status: 'completed', dueDate: '2025-04-01' });
+      expect(getRoomState('retro-1')!.actionItems[0].status).toBe('completed');
+    });
+
+    it('should only let team members update team retros', async () => {
+      const response = await request(app)
+        .patch('/api/actions/retro-1/a1')
+        .set('Authorization', `Bearer ${bobToken}`)
+        .send({ status: 'completed' });
+
+      expect(response.status).toBe(403);
+      expect(getRoomState('retro-1')!.actionItems[0].status).toBe('pending');
+    });
+
+    it('should not let anonymous callers update action items', async () => {
+      const teamRetro = await request(app).patch('/api/actions/retro-1/a1').send({ status: 'completed' });
+      const openRetro = await request(app).patch('/api/actions/retro-other/c1').send({ status: 'completed' });
+
+      expect(teamRetro.status).toBe(403);
+      expect(openRetro.status).toBe(403);
+      expect(getRoomState('retro-other')!.actionItems[0].status).toBe('pending');
+    });
+
+    it('should only let facilitators update retros outside a team', async () => {
+      retros.find(retro => retro.id === 'retro-other')!.ownerId = adaId;
+
+      const participant = await request(app)
+        .patch('/api/actions/retro-other/c1')
+        .set('Authorization', `Bearer ${bobToken}`)
+        .send({ status: 'completed' });
+      const facilitator = await request(app)
+        .patch('/api/actions/retro-other/c1')
+        .set('Authorization', `Bearer ${adaToken}`)
+        .send({ status: 'completed' });
+
+      expect(participant.status).toBe(403);
+      expect(participant.body.message).toBe('You do not have permission to do that');
+      expect(facilitator.status).toBe(200);
+      expect(getRoomState('retro-other')!.actionItems[0].status).toBe('completed');
+    });
+
+    it('should return 400 for an invalid status', async () => {
+      const response = await request(app)
+        .patch('/api/actions/retro-1/a1')
+        .set('Authorization', `Bearer ${adaToken}`)
+        .send({ status: 'done' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe('Status must be one of: pending, in_progress, completed');
+    });
+
+    it('should return 400 for a due date that is not a day', async () => {
+      const response = await request(app)
+        .patch('/api/actions/retro-1/a1')
+        .set('Authorization', `Bearer ${adaToken}`)
+        .send({ dueDate: 'next friday' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe('Due date must be a date (yyyy-mm-dd)');
+      expect(getRoomState('retro-1')!.actionItems[0].dueDate).not.toBe('next friday');
+    });
+
+    it('should return 404 for unknown retros and action items', async () => {
+      const unknownRetro = await request(app).patch('/api/actions/retro-404/a1').send({ status: 'completed' });
+      const unknownAction = await request(app)
+        .patch('/api/actions/retro-1/zz')
+        .set('Authorization', `Bearer ${adaToken}`)
+        .send({ status: 'completed' });
+
+      expect(unknownRetro.status).toBe(404);
+      expect(unknownRetro.body.message).toBe('Retrospective not found');
+      expect(unknownAction.status).toBe(404);
+      expect(unknownAction.body.message).toBe('Action item not found');
+    });
+  });
+
+  describe('issue tracker', () => {
+    const tracker: jest.Mocked<IssueTrackerConnector> = {
+      name: 'Jira',
+      createIssue: jest.fn(),
+      getIssueStatus: jest.fn()
+    };
+
+    // Pushing and syncing take a logged-in facilitator; Ada owns every retro here
+    const post = (path: string) => request(app).post(path).set('Authorization', `Bearer ${adaToken}`);
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      setIssueTracker(tracker);
+      retros.forEach(retro => {
+        retro.ownerId = adaId;
+      });
+    });
+
+    afterEach(() => {
+      setIssueTracker(null);
+    });
+
+    it('should tell clients which tracker is configured', async () => {
+      const configured = await request(app).get('/api/actions/tracker');
+      setIssueTracker(null);
+      const none = await request(app).get('/api/actions/tracker');
+
+      expect(configured.body).toEqual({ name: 'Jira' });
+      expect(none.body).toEqual({ name: null });
+    });
+
+    it('should push an action item and store its issue key', async () => {
+      tracker.createIssue.mockResolvedValue({ tracker: 'Jira', key: 'OPS-1', url: 'https://jira.example.com/browse/OPS-1' });
+
+      const response = await post('/api/actions/retro-1/a1/push');
+
+      expect(response.status).toBe(200);
+      expect(response.body.externalIssue).toEqual({ tracker: 'Jira', key: 'OPS-1', url: 'https://jira.example.com/browse/OPS-1' });
+      expect(tracker.createIssue).toHaveBeenCalledWith(expect.objectContaining({ id: 'a1' }), expect.objectContaining({ id: 'retro-1' }));
+      expect(getRoomState('retro-1')!.actionItems[0].externalIssue?.key).toBe('OPS-1');
+    });
+
+    it('should not push an action item twice', async () => {
+      saveActions('retro-other', [makeAction('c1', 'pending', { externalIssue: { tracker: 'Jira', key: 'OPS-2' } })]);
+
+      const response = await post('/api/actions/retro-other/c1/push');
+
+      expect(response.status).toBe(409);
+      expect(response.body.message).toBe('Action item is already in the tracker as OPS-2');
+      expect(tracker.createIssue).not.toHaveBeenCalled();
+    });
+
+    it('should not push an action item again while its issue is being created', async () => {
+      let createIssue: (issue: { tracker: string; key: string }) => void = () => undefined;
+      tracker.createIssue.mockImplementation(() => new Promise(resolve => {
+        createIssue = resolve;
+      }));
+
+      const first = post('/api/actions/retro-other/c1/push').then(response => response);
+      while (tracker.createIssue.mock.calls.length === 0) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      const second = await post('/api/actions/retro-other/c1/push');
+      createIssue({ tracker: 'Jira', key: 'OPS-3' });
+
+      expect(second.status).toBe(409);
+      expect(second.body.message).toBe('Action item is already being pushed to the tracker');
+      expect((await first).status).toBe(200);
+      expect(tracker.createIssue).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return 502 when the tracker fails and 503 without a tracker', async () => {
+      tracker.createIssue.mockRejectedValue(new IssueTrackerError('The issue tracker responded with 401'));
+      const failed = await post('/api/actions/retro-other/c1/push');
+      setIssueTracker(null);
+      const unconfigured = await post('/api/actions/retro-other/c1/push');
+
+      expect(failed.status).toBe(502);
+      expect(failed.body.message).toBe('The issue tracker responded with 401');
+      expect(unconfigured.status).toBe(503);
+      expect(unconfigured.body.message).toBe('No issue tracker is configured');
+    });
+
+    it('should only let logged-in facilitators push and sync items', async () => {
+      const anonymousPush = await request(app).post('/api/actions/retro-other/c1/push');
+      const anonymousSync = await request(app).post('/api/actions/retro-other/c1/sync');
+      const memberPush = await request(app)
+        .post('/api/actions/retro-other/c1/push')
+        .set('Authorization', `Bearer ${bobToken}`);
+      const outsiderPush = await request(app)
+        .post('/api/actions/retro-1/a1/push')
+        .set('Authorization', `Bearer ${bobToken}`);
+
+      expect(anonymousPush.status).toBe(401);
+      expect(anonymousSync.status).toBe(401);
+      expect(memberPush.status).toBe(403);
+      expect(outsiderPush.status).toBe(403);
+      expect(tracker.createIssue).not.toHaveBeenCalled();
+    });
+
+    it('should sync the status of a pushed item back', async () => {
+      saveActions('retro-other', [makeAction('c1', 'pending', { externalIssue: { tracker: 'Jira', key: 'OPS-2' } })]);
+      tracker.getIssueStatus.mockResolvedValue('completed');
+
+      const response = await post('/api/actions/retro-other/c1/sync');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ id: 'c1', status: 'completed' });
+      expect(tracker.getIssueStatus).toHaveBeenCalledWith({ tracker: 'Jira', key: 'OPS-2' });
+      expect(getRoomState('retro-other')!.actionItems[0].status).toBe('completed');
+    });
+
+    it('should only sync items that were pushed', async () => {
+      const response = await post('/api/actions/retro-other/c1/sync');
+
+      expect(response.status).toBe(409);
+      expect(response.body.message).toBe('Action item is not in the tracker');
+    });
+
+    it('should return 404 for unknown action items', async () => {
+      const push = await post('/api/actions/retro-other/zz/push');
+      const sync = await post('/api/actions/retro-other/zz/sync');
+
+      expect(push.status).toBe(404);
+      expect(sync.status).toBe(404);
+      expect(sync.body.message).toBe('Action item not found');
+    });
+  });
+
+  describe('GET /api/retros/:id/previous-actions', () => {
+    it("should return the unfinished action items of the team's previous retro", async () => {
+      retros.push(makeRetro('retro-3', '2025-03-29T10:00:00Z', teamId));
+
+      const response = await request(app)
+        .get('/api/retros/retro-3/previous-actions')
+        .set('Authorization', `Bearer ${adaToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.retro).toMatchObject({ id: 'retro-2', sessionName: 'Retro retro-2' });
+      expect(response.body.actionItems.map((item: any) => item.id)).toEqual(['b1']);
+    });
+
+    it('should return no items for retros without a team or an earlier retro', async () => {
+      const noTeam = await request(app).get('/api/retros/retro-other/previous-actions');
+      const first = await request(app)
+        .get('/api/retros/retro-1/previous-actions')
+        .set('Authorization', `Bearer ${adaToken}`);
+
+      expect(noTeam.body).toEqual({ retro: null, actionItems: [] });
+      expect(first.body).toEqual({ retro: null, actionItems: [] });
+    });
+
+    it('should only show team retros to team members', async () => {
+      const anonymous = await request(app).get('/api/retros/retro-2/previous-actions');
+      const outsider = await request(app)
+        .get('/api/retros/retro-2/previous-actions')
+        .set('Authorization', `Bearer ${bobToken}`);
+
+      expect(anonymous.status).toBe(403);
+      expect(outsider.status).toBe(403);
+    });
+
+    it('should return 404 for an unknown retro', async () => {
+      const response = await request(app).get('/api/retros/retro-404/previous-actions');
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import request from 'supertest';
+import express, { Application } from 'express';
+import analyticsRoutes from '../../routes/analyticsRoutes';
+import { retros, saveRoomState, deleteRoomState } from '../../data/retros';
+import { users, teams, createUser, createTeam } from '../../data/users';
+import { signAuthToken } from '../../middleware/auth';
+import { Retro } from '../../models/Retro';
+import { RoomSnapshot } from '../../types';
+import { makeRoomSnapshot } from '../fixtures';
+
+// Create test app
+const createTestApp = (): Application => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/analytics', analyticsRoutes);
+  return app;
+};
+
+const makeRetro = (id: string, createdAt: string, teamId: string): Retro => ({
+  id,
+  sessionName: `Retro ${id}`,
+  context: '',
+  templateId: '1',
+  isAnonymous: false,
+  votingLimit: 5,
+  timerDuration: null,
+  status: 'completed',
+  teamId,
+  createdAt: new Date(createdAt),
+  updatedAt: new Date(createdAt)
+});
+
+const makeRoom = (id: string, changes: Partial<RoomSnapshot>): RoomSnapshot => makeRoomSnapshot({ ...changes, id });
+
+describe('Analytics Routes', () => {
+  let app: Application;
+  let adaToken: string;
+  let bobToken: string;
+  let teamId: string;
+
+  beforeEach(() => {
+    app = createTestApp();
+    retros.forEach(retro => deleteRoomState(retro.id));
+    retros.length = 0;
+    users.length = 0;
+    teams.length = 0;
+
+    const ada = createUser({ email: 'ada@example.com', name: 'Ada', passwordHash: 'hash' });
+    adaToken = signAuthToken(ada);
+    bobToken = signAuthToken(createUser({ email: 'bob@example.com', name: 'Bob', passwordHash: 'hash' }));
+    teamId = createTeam('Platform', ada.id).id;
+
+    retros.push(
+      makeRetro('retro-2', '2025-04-01T10:00:00Z', teamId),
+      makeRetro('retro-1', '2025-03-01T10:00:00Z', teamId),
+      makeRetro('retro-other', '2025-03-15T10:00:00Z', 'team-other')
+    );
+    saveRoomState(makeRoom('retro-1', {
+      cards: [{ id: 'c1', columnId: 'went-well', content: 'Great pairing', authorId: 'p1', groupId: null, createdAt: new Date() }],
+      votes: { c1: ['p1'] }
+    }));
+  });
+
+  it('should require a logged-in team member', async () => {
+    const anonymous = await request(app).get(`/api/analytics?teamId=${teamId}`);
+    const outsider = await request(app).get(`/api/analytics?teamId=${teamId}`).set('Authorization', `Bearer ${bobToken}`);
+
+    expect(anonymous.status).toBe(401);
+    expect(outsider.status).toBe(404);
+    expect(outsider.body.message).toBe('Team not found');
+  });
+
+  it("should return trends for the team's retros, oldest first", async () => {
+    const response = await request(app)
+      .get(`/api/analytics?teamId=${teamId}`)
+      .set('Authorization', `Bearer ${adaToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ teamId, teamSize: 1, actionCompletionRate: null });
+    expect(response.body.retros.map((point: any) => point.retroId)).toEqual(['retro-1', 'retro-2']);
+    expect(response.body.retros[0]).toMatchObject({ participants: 1, participationRate: 1, voteConcentration: 1 });
+    expect(response.body.retros[0].cardsPerColumn).toContainEqual(
+      expect.objectContaining({ columnId: 'went-well', count: 1 })
+    );
+  });
+
+  it('should limit trends to the date range', async () => {
+    const response = await request(app)
+      .get(`/api/analytics?teamId=${teamId}&from=2025-03-15`)
+      .set('Authorization', `Bearer ${adaToken}`);
+
+    expect(response.body.retros.map((point: any) => point.retroId)).toEqual(['retro-2']);
+  });
+
+  it('should return 400 without a team', async () => {
+    const response = await request(app).get('/api/analytics').set('Authorization', `Bearer ${adaToken}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe('Team is required');
+  });
+});
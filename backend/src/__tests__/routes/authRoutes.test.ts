@@ -0,0 +1,130 @@
+import request from 'supertest';
+import express, { Application } from 'express';
+import authRoutes from '../../routes/authRoutes';
+import { users, teams, createTeam } from '../../data/users';
+
+// Create test app
+const createTestApp = (): Application => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/auth', authRoutes);
+  return app;
+};
+
+describe('Auth Routes', () => {
+  let app: Application;
+  const account = { email: 'Ada@Example.com', name: 'Ada Lovelace', password: 'analytical-engine' };
+
+  beforeEach(() => {
+    app = createTestApp();
+    users.length = 0;
+    teams.length = 0;
+  });
+
+  describe('POST /api/auth/register', () => {
+    it('should create an account and return a token without the password hash', async () => {
+      const response = await request(app).post('/api/auth/register').send(account);
+
+      expect(response.status).toBe(201);
+      expect(typeof response.body.token).toBe('string');
+      expect(response.body.user).toMatchObject({ email: 'ada@example.com', name: 'Ada Lovelace' });
+      expect(response.body.user.passwordHash).toBeUndefined();
+      expect(users[0].passwordHash).not.toBe(account.password);
+    });
+
+    it('should return 409 when the email is taken (case-insensitively)', async () => {
+      await request(app).post('/api/auth/register').send(account);
+
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ ...account, email: 'ada@example.com' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.message).toBe('An account with this email already exists');
+    });
+
+    it('should create only one account for registrations sent at the same time', async () => {
+      const responses = await Promise.all([
+        request(app).post('/api/auth/register').send(account),
+        request(app).post('/api/auth/register').send({ ...account, email: 'ada@example.com' })
+      ]);
+
+      expect(responses.map(response => response.status).sort()).toEqual([201, 409]);
+      expect(users).toHaveLength(1);
+    });
+
+    it('should return 400 for invalid email, name or password', async () => {
+      const badEmail = await request(app).post('/api/auth/register').send({ ...account, email: 'ada' });
+      const noName = await request(app).post('/api/auth/register').send({ ...account, name: ' ' });
+      const shortPassword = await request(app).post('/api/auth/register').send({ ...account, password: 'short' });
+
+      expect(badEmail.body.message).toBe('A valid email is required');
+      expect(noName.body.message).toBe('Name is required');
+      expect(shortPassword.body.message).toBe('Password must be at least 8 characters');
+      expect([badEmail.status, noName.status, shortPassword.status]).toEqual([400, 400, 400]);
+    });
+  });
+
+  describe('POST /api/auth/login', () => {
+    beforeEach(async () => {
+      await request(app).post('/api/auth/register').send(account);
+    });
+
+    it('should return a token for the right password', async () => {
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'ada@example.com', password: account.password });
+
+      expect(response.status).toBe(200);
+      expect(typeof response.body.token).toBe('string');
+      expect(response.body.user.name).toBe('Ada Lovelace');
+    });
+
+    it('should return 401 for a wrong password or unknown email', async () => {
+      const wrongPassword = await request(app)
+        .post('/api/auth/login')
+        .send({ email: account.email, password: 'not-the-password' });
+      const unknownEmail = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'bob@example.com', password: account.password });
+
+      expect(wrongPassword.status).toBe(401);
+      expect(unknownEmail.status).toBe(401);
+      expect(unknownEmail.body.message).toBe(wrongPassword.body.message);
+    });
+
+    it('should return 400 without credentials', async () => {
+      const response = await request(app).post('/api/auth/login').send({});
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/auth/me', () => {
+    it('should return the logged-in user with their teams', async () => {
+      const { body } = await request(app).post('/api/auth/register').send(account);
+      createTeam('Platform', body.user.id);
+
+      const response = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${body.token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.email).toBe('ada@example.com');
+      expect(response.body.teams).toEqual([
+        expect.objectContaining({
+          name: 'Platform',
+          members: [{ id: body.user.id, name: 'Ada Lovelace', email: 'ada@example.com' }]
+        })
+      ]);
+    });
+
+    it('should return 401 without a valid token', async () => {
+      const missing = await request(app).get('/api/auth/me');
+      const invalid = await request(app).get('/api/auth/me').set('Authorization', 'Bearer nope');
+
+      expect(missing.status).toBe(401);
+      expect(invalid.status).toBe(401);
+    });
+  });
+});
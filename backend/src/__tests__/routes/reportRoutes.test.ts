@@ -0,0 +1,100 @@
+import request from 'supertest';
+import express, { Application } from 'express';
+import retroRoutes from '../../routes/retroRoutes';
+import reportRoutes from '../../routes/reportRoutes';
+import { retros, saveRoomState, deleteRoomState } from '../../data/retros';
+import { errorHandler } from '../../middleware/errorHandler';
+import { RoomSnapshot } from '../../types';
+import { makeRoomSnapshot } from '../fixtures';
+
+// Create test app
+const createTestApp = (): Application => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/retros', retroRoutes);
+  app.use('/api/reports', reportRoutes);
+  app.use(errorHandler);
+  return app;
+};
+
+const makeRoom = (id: string): RoomSnapshot => makeRoomSnapshot({
+  id,
+  cards: [{ id: 'c1', columnId: 'start', content: 'Pair more', authorId: 'p1', groupId: null, createdAt: new Date() }],
+  votes: { c1: ['p1', 'p2'] }
+});
+
+describe('Report Routes', () => {
+  let app: Application;
+  let retroId: string;
+  let facilitatorToken: string;
+
+  beforeEach(async () => {
+    app = createTestApp();
+    retros.length = 0;
+
+    const createResponse = await request(app)
+      .post('/api/retros')
+      .send({ sessionName: 'Sprint 42 Retro', templateId: '1' });
+    retroId = createResponse.body.id;
+    facilitatorToken = createResponse.body.facilitatorToken;
+    saveRoomState(makeRoom(retroId));
+  });
+
+  afterEach(() => {
+    deleteRoomState(retroId);
+  });
+
+  it('should render the report as HTML by default and as Markdown on request', async () => {
+    const html = await request(app).get(`/api/retros/${retroId}/report`);
+    const markdown = await request(app).get(`/api/retros/${retroId}/report?format=md`);
+
+    expect(html.status).toBe(200);
+    expect(html.headers['content-type']).toMatch(/^text\/html/);
+    expect(html.headers['content-disposition']).toBeUndefined();
+    expect(html.text).toContain('<h1>Sprint 42 Retro</h1>');
+    expect(markdown.headers['content-type']).toMatch(/^text\/markdown/);
+    expect(markdown.text).toContain('1. Pair more — Start, 2 votes');
+  });
+
+  it('should send the report as a file when asked to download it', async () => {
+    const response = await request(app).get(`/api/retros/${retroId}/report?format=md&download`);
+
+    expect(response.headers['content-disposition']).toBe('attachment; filename="sprint-42-retro-report.md"');
+  });
+
+  it('should return 400 for an unknown format and 404 for an unknown retro', async () => {
+    const badFormat = await request(app).get(`/api/retros/${retroId}/report?format=pdf`);
+    const missing = await request(app).get('/api/retros/nonexistent/report');
+
+    expect(badFormat.status).toBe(400);
+    expect(badFormat.body.message).toBe('Format must be md or html');
+    expect(missing.status).toBe(404);
+  });
+
+  it('should let facilitators share a read-only link that keeps the retro id private', async () => {
+    const forbidden = await request(app).post(`/api/retros/${retroId}/report/share`);
+    const shared = await request(app)
+      .post(`/api/retros/${retroId}/report/share`)
+      .set('X-Facilitator-Token', facilitatorToken);
+    const sharedAgain = await request(app)
+      .post(`/api/retros/${retroId}/report/share`)
+      .set('X-Facilitator-Token', facilitatorToken);
+
+    expect(forbidden.status).toBe(403);
+    expect(shared.status).toBe(200);
+    expect(shared.body.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/api\/reports\/[\w-]+$/);
+    expect(shared.body.url).not.toContain(retroId);
+    expect(new URL(sharedAgain.body.url).pathname).toBe(new URL(shared.body.url).pathname);
+
+    const report = await request(app).get(new URL(shared.body.url).pathname);
+    expect(report.status).toBe(200);
+    expect(report.text).toContain('<h1>Sprint 42 Retro</h1>');
+  });
+
+  it('should return 404 for an unknown report link', async () => {
+    const response = await request(app).get('/api/reports/no-such-link');
+
+    expect(response.status).toBe(404);
+    expect(response.body.message).toBe('Report not found');
+  });
+});
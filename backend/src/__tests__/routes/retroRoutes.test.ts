@@ -1,13 +1,20 @@
 import request from 'supertest';
 import express, { Application } from 'express';
 import retroRoutes from '../../routes/retroRoutes';
-import { retros } from '../../data/retros';
+import { retros, saveRoomState, deleteRoomState } from '../../data/retros';
+import { users, teams, createUser, createTeam } from '../../data/users';
+import { signAuthToken } from '../../middleware/auth';
+import * as webhooksModule from '../../data/webhooks';
+import { errorHandler } from '../../middleware/errorHandler';
+import { RoomSnapshot } from '../../types';
+import { makeRoomSnapshot } from '../fixtures';
 
 // Create test app
 const createTestApp = (): Application => {
   const app = express();
   app.use(express.json());
   app.use('/api/retros', retroRoutes);
+  app.use(errorHandler);
   return app;
 };
 
@@ -21,15 +28,14 @@ describe('Retro Routes', () => {
   });
 
   describe('GET /api/retros', () => {
-    it('should return 200 and empty array when no retros exist', async () => {
+    it('should return 200 and an empty page when no retros exist', async () => {
       const response = await request(app).get('/api/retros');
 
       expect(response.status).toBe(200);
-      expect(Array.isArray(response.body)).toBe(true);
-      expect(response.body.length).toBe(0);
+      expect(response.body).toEqual({ retros: [], total: 0, page: 1, pageSize: 20 });
     });
 
-    it('should return 200 and array of retros', async () => {
+    it('should return 200 and retros with their counts', async () => {
       // Create a retro first
       await request(app)
         .post('/api/retros')
@@ -38,8 +44,41 @@ describe('Retro Routes', () => {
       const response = await request(app).get('/api/retros');
 
       expect(response.status).toBe(200);
-      expect(Array.isArray(response.body)).toBe(true);
-      expect(response.body.length).toBe(1);
+      expect(response.body.total).toBe(1);
+      expect(response.body.retros).toHaveLength(1);
+      expect(response.body.retros[0].counts).toEqual({ cards: 0, votes: 0, actionItems: 0 });
+    });
+
+    it('should filter and paginate with query parameters', async () => {
+      await request(app).post('/api/retros').send({ sessionName: 'Sprint 41', templateId: '1' });
+      await request(app).post('/api/retros').send({ sessionName: 'Planning', context: 'Sprint 42 kickoff', templateId: '2' });
+      await request(app).post('/api/retros').send({ sessionName: 'Offsite', templateId: '1' });
+
+      const search = await request(app).get('/api/retros?q=sprint');
+      expect(search.body.total).toBe(2);
+
+      const byTemplate = await request(app).get('/api/retros?q=sprint&templateId=2');
+      expect(byTemplate.body.retros.map((retro: any) => retro.sessionName)).toEqual(['Planning']);
+
+      const secondPage = await request(app).get('/api/retros?page=2&pageSize=2');
+      expect(secondPage.body).toMatchObject({ total: 3, page: 2, pageSize: 2 });
+      expect(secondPage.body.retros).toHaveLength(1);
+
+      const future = await request(app).get('/api/retros?from=2999-01-01');
+      expect(future.body.total).toBe(0);
+    });
+
+    it('should return 400 for invalid query parameters', async () => {
+      const badPage = await request(app).get('/api/retros?page=0');
+      expect(badPage.status).toBe(400);
+      expect(badPage.body.message).toBe('Page must be a positive whole number');
+
+      const badStatus = await request(app).get('/api/retros?status=archived');
+      expect(badStatus.status).toBe(400);
+
+      const badDate = await request(app).get('/api/retros?to=someday');
+      expect(badDate.status).toBe(400);
+      expect(badDate.body.message).toBe('Date range must use valid dates');
     });
   });
 
@@ -141,6 +180,7 @@ describe('Retro Routes', () => {
       const retroId = createResponse.body.id;
       const response = await request(app)
         .patch(`/api/retros/${retroId}`)
+        .set('X-Facilitator-Token', createResponse.body.facilitatorToken)
         .send({ sessionName: 'Updated Retro' });
 
       expect(response.status).toBe(200);
@@ -162,7 +202,9 @@ describe('Retro Routes', () => {
         .send({ sessionName: 'Test Retro', templateId: '1' });
 
       const retroId = createResponse.body.id;
-      const response = await request(app).delete(`/api/retros/${retroId}`);
+      const response = await request(app)
+        .delete(`/api/retros/${retroId}`)
+        .set('X-Facilitator-Token', createResponse.body.facilitatorToken);
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('message');
@@ -191,6 +233,7 @@ describe('Retro Routes', () => {
       const retroId = createResponse.body.id;
       const response = await request(app)
         .patch(`/api/retros/${retroId}/status`)
+        .set('X-Facilitator-Token', createResponse.body.facilitatorToken)
         .send({ status: 'invalid-status' });
 
       expect(response.status).toBe(400);
@@ -205,10 +248,251 @@ describe('Retro Routes', () => {
       const retroId = createResponse.body.id;
       const response = await request(app)
         .patch(`/api/retros/${retroId}/status`)
+        .set('X-Facilitator-Token', createResponse.body.facilitatorToken)
         .send({ status: 'active' });
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('status', 'active');
     });
+
+    it('should send webhooks when a retro is created and completed', async () => {
+      const emitWebhookEvent = jest.spyOn(webhooksModule, 'emitWebhookEvent');
+      const createResponse = await request(app)
+        .post('/api/retros')
+        .send({ sessionName: 'Test Retro', templateId: '1' });
+      const retroId = createResponse.body.id;
+
+      const complete = () => request(app)
+        .patch(`/api/retros/${retroId}/status`)
+        .set('X-Facilitator-Token', createResponse.body.facilitatorToken)
+        .send({ status: 'completed' });
+      await complete();
+      await complete();
+
+      expect(emitWebhookEvent.mock.calls.map(([event, retro]) => [event, retro.id])).toEqual([
+        ['retro.created', retroId],
+        ['retro.completed', retroId]
+      ]);
+      emitWebhookEvent.mockRestore();
+    });
+
+    it('should send the completed webhook when a retro is completed through a general update', async () => {
+      const emitWebhookEvent = jest.spyOn(webhooksModule, 'emitWebhookEvent');
+      const createResponse = await request(app)
+        .post('/api/retros')
+        .send({ sessionName: 'Test Retro', templateId: '1' });
+      const retroId = createResponse.body.id;
+
+      const response = await request(app)
+        .patch(`/api/retros/${retroId}`)
+        .set('X-Facilitator-Token', createResponse.body.facilitatorToken)
+        .send({ status: 'completed' });
+
+      expect(response.status).toBe(200);
+      expect(emitWebhookEvent.mock.calls.map(([event, retro]) => [event, retro.id])).toEqual([
+        ['retro.created', retroId],
+        ['retro.completed', retroId]
+      ]);
+      emitWebhookEvent.mockRestore();
+    });
+  });
+
+  describe('GET /api/retros/:id/invite.ics', () => {
+    it('should return a calendar invite linking to the join page', async () => {
+      const createResponse = await request(app)
+        .post('/api/retros')
+        .send({ sessionName: 'Sprint 42', templateId: '1', scheduledAt: '2025-03-04T14:30:00.000Z' });
+
+      const response = await request(app).get(`/api/retros/${createResponse.body.id}/invite.ics`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/^text\/calendar/);
+      expect(response.headers['content-disposition']).toBe('attachment; filename="invite.ics"');
+      expect(response.text).toContain('DTSTART:20250304T143000Z');
+      expect(response.text.replace(/\r\n /g, '')).toMatch(new RegExp(`URL:http://127\\.0\\.0\\.1:\\d+/retro/${createResponse.body.id}/join`));
+    });
+
+    it('should return 409 for retros without a start time and 404 for unknown retros', async () => {
+      const createResponse = await request(app)
+        .post('/api/retros')
+        .send({ sessionName: 'Sprint 42', templateId: '1' });
+
+      const unscheduled = await request(app).get(`/api/retros/${createResponse.body.id}/invite.ics`);
+      const unknown = await request(app).get('/api/retros/nonexistent/invite.ics');
+
+      expect(unscheduled.status).toBe(409);
+      expect(unscheduled.body.message).toBe('Retrospective has no start time');
+      expect(unknown.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/retros/:id/export', () => {
+    const room = (id: string): RoomSnapshot => makeRoomSnapshot({
+      id,
+      cards: [{ id: 'c1', columnId: 'start', content: 'Pair more', authorId: 'p1', groupId: null, createdAt: new Date() }],
+      votes: { c1: ['p1'] }
+    });
+
+    let retroId: string;
+
+    beforeEach(async () => {
+      const createResponse = await request(app)
+        .post('/api/retros')
+        .send({ sessionName: 'Sprint 42 Retro', templateId: '1' });
+      retroId = createResponse.body.id;
+      saveRoomState(room(retroId));
+    });
+
+    afterEach(() => {
+      deleteRoomState(retroId);
+    });
+
+    it('should download the results as CSV by default', async () => {
+      const response = await request(app).get(`/api/retros/${retroId}/export`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/^text\/csv/);
+      expect(response.headers['content-disposition']).toBe('attachment; filename="sprint-42-retro.csv"');
+      expect(response.text).toContain('Cards\nColumn,Content,Group,Votes,Reactions\nStart,Pair more,,1,\n');
+    });
+
+    it('should download the results as an Excel workbook', async () => {
+      const response = await request(app)
+        .get(`/api/retros/${retroId}/export?format=xlsx`)
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', chunk => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      expect(response.headers['content-disposition']).toBe('attachment; filename="sprint-42-retro.xlsx"');
+      // An xlsx file is a zip archive
+      expect((response.body as Buffer).subarray(0, 2).toString()).toBe('PK');
+    });
+
+    it('should return 400 for an unknown format and 404 for an unknown retro', async () => {
+      const badFormat = await request(app).get(`/api/retros/${retroId}/export?format=pdf`);
+      const missing = await request(app).get('/api/retros/nonexistent/export');
+
+      expect(badFormat.status).toBe(400);
+      expect(badFormat.body.message).toBe('Format must be csv or xlsx');
+      expect(missing.status).toBe(404);
+    });
+  });
+
+  describe('access control', () => {
+    const createRetro = () => request(app).post('/api/retros').send({ sessionName: 'Test Retro', templateId: '1' });
+
+    beforeAll(() => {
+      process.env.JWT_SECRET = 'test-secret';
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterAll(() => {
+      jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+      users.length = 0;
+      teams.length = 0;
+      delete process.env.ADMIN_EMAILS;
+    });
+
+    it('should return 403 through the error handler without the facilitator token', async () => {
+      const retroId = (await createRetro()).body.id;
+
+      const deleteResponse = await request(app).delete(`/api/retros/${retroId}`);
+      const statusResponse = await request(app)
+        .patch(`/api/retros/${retroId}/status`)
+        .set('X-Facilitator-Token', 'wrong-token')
+        .send({ status: 'completed' });
+
+      expect(deleteResponse.status).toBe(403);
+      expect(deleteResponse.body).toEqual({
+        status: 'error',
+        statusCode: 403,
+        message: 'You do not have permission to do that'
+      });
+      expect(statusResponse.status).toBe(403);
+      expect(retros).toHaveLength(1);
+    });
+
+    it('should let the account that created the retro and admins manage it', async () => {
+      const owner = createUser({ email: 'ada@example.com', name: 'Ada', passwordHash: 'hash' });
+      process.env.ADMIN_EMAILS = 'root@example.com';
+      const admin = createUser({ email: 'Root@example.com', name: 'Root', passwordHash: 'hash' });
+      const other = createUser({ email: 'bob@example.com', name: 'Bob', passwordHash: 'hash' });
+
+      const createResponse = await request(app)
+        .post('/api/retros')
+        .set('Authorization', `Bearer ${signAuthToken(owner)}`)
+        .send({ sessionName: 'Test Retro', templateId: '1' });
+      const retroId = createResponse.body.id;
+      expect(createResponse.body).toHaveProperty('ownerId', owner.id);
+
+      const ownerResponse = await request(app)
+        .patch(`/api/retros/${retroId}`)
+        .set('Authorization', `Bearer ${signAuthToken(owner)}`)
+        .send({ sessionName: 'Renamed' });
+      const otherResponse = await request(app)
+        .delete(`/api/retros/${retroId}`)
+        .set('Authorization', `Bearer ${signAuthToken(other)}`);
+      const adminResponse = await request(app)
+        .delete(`/api/retros/${retroId}`)
+        .set('Authorization', `Bearer ${signAuthToken(admin)}`);
+
+      expect(admin.role).toBe('admin');
+      expect(ownerResponse.status).toBe(200);
+      expect(otherResponse.status).toBe(403);
+      expect(adminResponse.status).toBe(200);
+    });
+
+    it('should only list team retros to members of the team', async () => {
+      const member = createUser({ email: 'ada@example.com', name: 'Ada', passwordHash: 'hash' });
+      const outsider = createUser({ email: 'bob@example.com', name: 'Bob', passwordHash: 'hash' });
+      const team = createTeam('Platform', member.id);
+      await createRetro();
+      await request(app)
+        .post('/api/retros')
+        .set('Authorization', `Bearer ${signAuthToken(member)}`)
+        .send({ sessionName: 'Team Retro', templateId: '1', teamId: team.id });
+
+      const listNames = async (token?: string) => {
+        const listRequest = request(app).get('/api/retros');
+        const response = token ? await listRequest.set('Authorization', `Bearer ${token}`) : await listRequest;
+        return response.body.retros.map((retro: any) => retro.sessionName).sort();
+      };
+
+      expect(await listNames(signAuthToken(member))).toEqual(['Team Retro', 'Test Retro']);
+      expect(await listNames(signAuthToken(outsider))).toEqual(['Test Retro']);
+      expect(await listNames()).toEqual(['Test Retro']);
+    });
+
+    it('should only let team members create retros for their team', async () => {
+      const member = createUser({ email: 'ada@example.com', name: 'Ada', passwordHash: 'hash' });
+      const outsider = createUser({ email: 'bob@example.com', name: 'Bob', passwordHash: 'hash' });
+      const team = createTeam('Platform', member.id);
+      const body = { sessionName: 'Team Retro', templateId: '1', teamId: team.id };
+
+      const memberResponse = await request(app)
+        .post('/api/retros')
+        .set('Authorization', `Bearer ${signAuthToken(member)}`)
+        .send(body);
+      const outsiderResponse = await request(app)
+        .post('/api/retros')
+        .set('Authorization', `Bearer ${signAuthToken(outsider)}`)
+        .send(body);
+      const unknownTeamResponse = await request(app)
+        .post('/api/retros')
+        .send({ ...body, teamId: 'no-such-team' });
+
+      expect(memberResponse.status).toBe(201);
+      expect(memberResponse.body).toHaveProperty('teamId', team.id);
+      expect(outsiderResponse.status).toBe(403);
+      expect(unknownTeamResponse.status).toBe(400);
+    });
   });
 });
@@ -0,0 +1,113 @@
+import request from 'supertest';
+import express, { Application } from 'express';
+import teamRoutes from '../../routes/teamRoutes';
+import { users, teams, createUser } from '../../data/users';
+import { signAuthToken } from '../../middleware/auth';
+
+// Create test app
+const createTestApp = (): Application => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/teams', teamRoutes);
+  return app;
+};
+
+describe('Team Routes', () => {
+  let app: Application;
+  let adaToken: string;
+  let bobToken: string;
+  let bobId: string;
+
+  beforeEach(() => {
+    app = createTestApp();
+    users.length = 0;
+    teams.length = 0;
+
+    adaToken = signAuthToken(createUser({ email: 'ada@example.com', name: 'Ada', passwordHash: 'hash' }));
+    const bob = createUser({ email: 'bob@example.com', name: 'Bob', passwordHash: 'hash' });
+    bobId = bob.id;
+    bobToken = signAuthToken(bob);
+  });
+
+  const createTeam = (token: string, name = 'Platform') =>
+    request(app).post('/api/teams').set('Authorization', `Bearer ${token}`).send({ name });
+
+  it('should require a logged-in user', async () => {
+    const response = await request(app).get('/api/teams');
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should create a team with the creator as its first member', async () => {
+    const response = await createTeam(adaToken);
+
+    expect(response.status).toBe(201);
+    expect(response.body.name).toBe('Platform');
+    expect(response.body.members.map((m: any) => m.name)).toEqual(['Ada']);
+  });
+
+  it('should return 400 without a team name', async () => {
+    const response = await createTeam(adaToken, '  ');
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe('Team name is required');
+  });
+
+  it('should add members by email and list the team for them', async () => {
+    const { body: team } = await createTeam(adaToken);
+
+    const added = await request(app)
+      .post(`/api/teams/${team.id}/members`)
+      .set('Authorization', `Bearer ${adaToken}`)
+      .send({ email: 'BOB@example.com' });
+    const bobsTeams = await request(app).get('/api/teams').set('Authorization', `Bearer ${bobToken}`);
+
+    expect(added.status).toBe(200);
+    expect(added.body.members.map((m: any) => m.name)).toEqual(['Ada', 'Bob']);
+    expect(bobsTeams.body.map((t: any) => t.id)).toEqual([team.id]);
+  });
+
+  it('should return 404 for an unknown member email', async () => {
+    const { body: team } = await createTeam(adaToken);
+
+    const response = await request(app)
+      .post(`/api/teams/${team.id}/members`)
+      .set('Authorization', `Bearer ${adaToken}`)
+      .send({ email: 'nobody@example.com' });
+
+    expect(response.status).toBe(404);
+    expect(response.body.message).toBe('No account with this email');
+  });
+
+  it('should hide teams from non-members', async () => {
+    const { body: team } = await createTeam(adaToken);
+
+    const view = await request(app).get(`/api/teams/${team.id}`).set('Authorization', `Bearer ${bobToken}`);
+    const join = await request(app)
+      .post(`/api/teams/${team.id}/members`)
+      .set('Authorization', `Bearer ${bobToken}`)
+      .send({ email: 'bob@example.com' });
+
+    expect(view.status).toBe(404);
+    expect(join.status).toBe(404);
+  });
+
+  it('should remove members', async () => {
+    const { body: team } = await createTeam(adaToken);
+    await request(app)
+      .post(`/api/teams/${team.id}/members`)
+      .set('Authorization', `Bearer ${adaToken}`)
+      .send({ email: 'bob@example.com' });
+
+    const response = await request(app)
+      .delete(`/api/teams/${team.id}/members/${bobId}`)
+      .set('Authorization', `Bearer ${adaToken}`);
+    const missing = await request(app)
+      .delete(`/api/teams/${team.id}/members/${bobId}`)
+      .set('Authorization', `Bearer ${adaToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.members.map((m: any) => m.name)).toEqual(['Ada']);
+    expect(missing.status).toBe(404);
+  });
+});
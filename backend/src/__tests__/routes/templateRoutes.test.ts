@@ -1,12 +1,21 @@
 import request from 'supertest';
 import express, { Application } from 'express';
 import templateRoutes from '../../routes/templateRoutes';
+import { systemTemplates, customTemplates } from '../../data/templates';
+import { retros } from '../../data/retros';
+import { users, createUser } from '../../data/users';
+import { signAuthToken } from '../../middleware/auth';
+import { errorHandler } from '../../middleware/errorHandler';
+
+// Listings hold the system templates followed by custom ones
+const systemTemplateCount = systemTemplates.length;
 
 // Create test app
 const createTestApp = (): Application => {
   const app = express();
   app.use(express.json());
   app.use('/api/templates', templateRoutes);
+  app.use(errorHandler);
   return app;
 };
 
@@ -62,4 +71,246 @@ describe('Template Routes', () => {
       expect(response.body.columns.length).toBeGreaterThan(0);
     });
   });
+
+  describe('custom templates', () => {
+    let adaToken: string;
+    let bobToken: string;
+    const columns = [
+      { id: 'keep', name: 'Keep', color: '#22C55E', order: 2, placeholder: ' What should we keep? ' },
+      { id: 'drop', name: 'Drop', color: '#ef4444', order: 1 },
+    ];
+
+    beforeAll(() => {
+      process.env.JWT_SECRET = 'test-secret';
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterAll(() => {
+      jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+      users.length = 0;
+      retros.length = 0;
+      adaToken = signAuthToken(createUser({ email: 'ada@example.com', name: 'Ada', passwordHash: 'hash' }));
+      bobToken = signAuthToken(createUser({ email: 'bob@example.com', name: 'Bob', passwordHash: 'hash' }));
+    });
+
+    // Custom templates created by a test are dropped again after it
+    afterEach(() => {
+      customTemplates.length = 0;
+    });
+
+    const createTemplate = (token: string) => request(app)
+      .post('/api/templates')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Keep/Drop', description: 'Short and sweet', columns });
+
+    it('should create a template with its columns in order', async () => {
+      const response = await createTemplate(adaToken);
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({ name: 'Keep/Drop', isDefault: false });
+      expect(response.body.columns).toEqual([
+        { id: 'drop', name: 'Drop', color: '#ef4444', order: 1, placeholder: '' },
+        { id: 'keep', name: 'Keep', color: '#22c55e', order: 2, placeholder: 'What should we keep?' },
+      ]);
+
+      const listResponse = await request(app).get('/api/templates');
+      expect(listResponse.body).toHaveLength(systemTemplateCount + 1);
+    });
+
+    it('should require an account and a valid template', async () => {
+      const anonymousResponse = await request(app).post('/api/templates').send({ name: 'Keep/Drop', columns });
+      const invalidResponse = await request(app)
+        .post('/api/templates')
+        .set('Authorization', `Bearer ${adaToken}`)
+        .send({ name: 'Keep/Drop', columns: [columns[0]] });
+
+      expect(anonymousResponse.status).toBe(403);
+      expect(invalidResponse.status).toBe(400);
+      expect(invalidResponse.body.message).toBe('A template needs between 2 and 8 columns');
+    });
+
+    it('should only let the creator update or delete a template', async () => {
+      const { id } = (await createTemplate(adaToken)).body;
+
+      const bobResponse = await request(app)
+        .put(`/api/templates/${id}`)
+        .set('Authorization', `Bearer ${bobToken}`)
+        .send({ name: 'Mine now', columns });
+      const adaResponse = await request(app)
+        .put(`/api/templates/${id}`)
+        .set('Authorization', `Bearer ${adaToken}`)
+        .send({ name: 'Keep/Drop/Try', columns: [...columns, { id: 'try', name: 'Try', color: '#3b82f6', order: 3 }] });
+
+      expect(bobResponse.status).toBe(403);
+      expect(adaResponse.status).toBe(200);
+      expect(adaResponse.body.columns).toHaveLength(3);
+
+      const deleteResponse = await request(app)
+        .delete(`/api/templates/${id}`)
+        .set('Authorization', `Bearer ${adaToken}`);
+      expect(deleteResponse.status).toBe(200);
+      expect((await request(app).get(`/api/templates/${id}`)).status).toBe(404);
+    });
+
+    it('should not let anyone change system templates', async () => {
+      const response = await request(app)
+        .put('/api/templates/1')
+        .set('Authorization', `Bearer ${adaToken}`)
+        .send({ name: 'Start, Stop', columns });
+      const deleteResponse = await request(app)
+        .delete('/api/templates/1')
+        .set('Authorization', `Bearer ${adaToken}`);
+
+      expect(response.status).toBe(403);
+      expect(response.body.message).toBe('System templates cannot be changed');
+      expect(deleteResponse.status).toBe(403);
+      expect(systemTemplates.find(template => template.id === '1')?.name).toBe('Start, Stop, Continue');
+    });
+
+    it('should keep templates that retros still use', async () => {
+      const { id } = (await createTemplate(adaToken)).body;
+      retros.push({ id: 'retro-1', templateId: id } as any);
+
+      const response = await request(app)
+        .delete(`/api/templates/${id}`)
+        .set('Authorization', `Bearer ${adaToken}`);
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should not rename or remove columns that retros still use', async () => {
+      const { id } = (await createTemplate(adaToken)).body;
+      retros.push({ id: 'retro-1', templateId: id } as any);
+      const update = (body: object) => request(app)
+        .put(`/api/templates/${id}`)
+        .set('Authorization', `Bearer ${adaToken}`)
+        .send(body);
+
+      const renameResponse = await update({ name: 'Keep/Drop', columns: [columns[0], { ...columns[1], name: 'Keep going' }] });
+      const removeResponse = await update({ name: 'Keep/Drop', columns: [columns[1], { id: 'try', name: 'Try', color: '#3b82f6', order: 3 }] });
+      const addResponse = await update({ name: 'Keep/Drop/Try', columns: [...columns, { id: 'try', name: 'Try', color: '#3b82f6', order: 3 }] });
+
+      expect(renameResponse.status).toBe(409);
+      expect(renameResponse.body.message).toBe('Columns of a template used by existing retrospectives cannot be renamed or removed');
+      expect(removeResponse.status).toBe(409);
+      expect(addResponse.status).toBe(200);
+      expect(addResponse.body.columns).toHaveLength(3);
+    });
+  });
+
+  describe('template files', () => {
+    let adaToken: string;
+    const templateFile = {
+      schema: 'teamretro.template',
+      version: 1,
+      template: {
+        name: 'Keep/Drop',
+        description: 'Short and sweet',
+        columns: [
+          { id: 'keep', name: 'Keep', color: '#22c55e', order: 1, placeholder: '' },
+          { id: 'drop', name: 'Drop', color: '#ef4444', order: 2, placeholder: '' },
+        ],
+        stages: [
+          { id: 'brainstorm', name: 'Brainstorm', duration: 0, enabled: true },
+          { id: 'report', name: 'Report', duration: 0, enabled: true },
+        ],
+        icebreakerQuestions: ['Coffee or tea?'],
+        options: { nameDeck: 'animals', reactionsEnabled: false },
+      },
+    };
+
+    beforeAll(() => {
+      process.env.JWT_SECRET = 'test-secret';
+    });
+
+    beforeEach(() => {
+      users.length = 0;
+      adaToken = signAuthToken(createUser({ email: 'ada@example.com', name: 'Ada', passwordHash: 'hash' }));
+    });
+
+    afterEach(() => {
+      customTemplates.length = 0;
+    });
+
+    it('should export a template as a versioned file download', async () => {
+      const response = await request(app).get('/api/templates/1/export');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-disposition']).toBe('attachment; filename="start-stop-continue.template.json"');
+      expect(response.body).toMatchObject({ schema: 'teamretro.template', version: 1 });
+      expect(response.body.template).toMatchObject({ name: 'Start, Stop, Continue' });
+      expect(response.body.template).not.toHaveProperty('id');
+      expect(response.body.template).not.toHaveProperty('createdBy');
+
+      expect((await request(app).get('/api/templates/nonexistent/export')).status).toBe(404);
+    });
+
+    it('should import a file as a custom template of the caller', async () => {
+      const response = await request(app)
+        .post('/api/templates/import')
+        .set('Authorization', `Bearer ${adaToken}`)
+        .send(templateFile);
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({
+        name: 'Keep/Drop',
+        isDefault: false,
+        icebreakerQuestions: ['Coffee or tea?'],
+        options: { nameDeck: 'animals', reactionsEnabled: false },
+      });
+      expect(response.body.stages).toHaveLength(2);
+    });
+
+    it('should round-trip an exported template', async () => {
+      const exported = (await request(app).get('/api/templates/4/export')).body;
+
+      const response = await request(app)
+        .post('/api/templates/import')
+        .set('Authorization', `Bearer ${adaToken}`)
+        .send(exported);
+
+      expect(response.status).toBe(201);
+      expect(response.body.columns).toEqual(systemTemplates.find(template => template.id === '4')?.columns);
+    });
+
+    it('should list every problem with a malformed file', async () => {
+      const response = await request(app)
+        .post('/api/templates/import')
+        .set('Authorization', `Bearer ${adaToken}`)
+        .send({
+          ...templateFile,
+          template: {
+            ...templateFile.template,
+            columns: [templateFile.template.columns[0], { ...templateFile.template.columns[1], color: 'red' }],
+            stages: [{ id: 'party', name: 'Party', duration: 0, enabled: true }],
+            options: { nameDeck: 'dinosaurs' },
+          },
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe('Invalid template file');
+      expect(response.body.errors).toEqual([
+        'Column colors must be hex colors like #3b82f6',
+        expect.stringMatching(/^stages\[0\] must have a unique id/),
+        expect.stringMatching(/^"options.nameDeck" must be one of/),
+      ]);
+    });
+
+    it('should reject files of another schema or version', async () => {
+      const wrongVersion = await request(app)
+        .post('/api/templates/import')
+        .set('Authorization', `Bearer ${adaToken}`)
+        .send({ ...templateFile, version: 2 });
+      const notATemplate = await request(app)
+        .post('/api/templates/import')
+        .set('Authorization', `Bearer ${adaToken}`)
+        .send({ name: 'Keep/Drop' });
+
+      expect(wrongVersion.body.errors).toEqual(['Unsupported template file version 2 (expected 1)']);
+      expect(notATemplate.body.errors).toEqual(['Not a template file ("schema" must be "teamretro.template")']);
+    });
+  });
 });
@@ -0,0 +1,115 @@
+import request from 'supertest';
+import express, { Application } from 'express';
+import webhookRoutes from '../../routes/webhookRoutes';
+import { webhookSubscriptions, webhookDeliveries, emitWebhookEvent } from '../../data/webhooks';
+import { users, createUser } from '../../data/users';
+import { signAuthToken } from '../../middleware/auth';
+import { errorHandler } from '../../middleware/errorHandler';
+import { Retro } from '../../models/Retro';
+
+// Create test app
+const createTestApp = (): Application => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/webhooks', webhookRoutes);
+  app.use(errorHandler);
+  return app;
+};
+
+describe('Webhook Routes', () => {
+  let app: Application;
+  let adminToken: string;
+  let memberToken: string;
+
+  const subscription = { url: 'http://127.0.0.1:1/hooks', secret: 's3cret', events: ['retro.created', 'retro.completed'] };
+
+  beforeEach(() => {
+    app = createTestApp();
+    webhookSubscriptions.length = 0;
+    webhookDeliveries.length = 0;
+    users.length = 0;
+
+    process.env.ADMIN_EMAILS = 'root@example.com';
+    adminToken = signAuthToken(createUser({ email: 'root@example.com', name: 'Root', passwordHash: 'hash' }));
+    memberToken = signAuthToken(createUser({ email: 'ada@example.com', name: 'Ada', passwordHash: 'hash' }));
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_EMAILS;
+  });
+
+  it('should only let admins manage webhooks', async () => {
+    const anonymous = await request(app).get('/api/webhooks');
+    const member = await request(app).post('/api/webhooks').set('Authorization', `Bearer ${memberToken}`).send(subscription);
+
+    expect(anonymous.status).toBe(403);
+    expect(member.status).toBe(403);
+    expect(webhookSubscriptions).toHaveLength(0);
+  });
+
+  it('should create and list subscriptions without their secret', async () => {
+    const created = await request(app)
+      .post('/api/webhooks')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send(subscription);
+    const listed = await request(app).get('/api/webhooks').set('Authorization', `Bearer ${adminToken}`);
+
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ url: subscription.url, events: subscription.events });
+    expect(created.body).not.toHaveProperty('secret');
+    expect(listed.body).toEqual([created.body]);
+  });
+
+  it('should return 400 for invalid subscriptions', async () => {
+    const send = (body: object) => request(app)
+      .post('/api/webhooks')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ ...subscription, ...body });
+
+    const badUrl = await send({ url: 'ftp://example.com' });
+    const noSecret = await send({ secret: ' ' });
+    const badEvent = await send({ events: ['retro.deleted'] });
+
+    expect(badUrl.body.message).toBe('URL must be a valid http or https URL');
+    expect(noSecret.body.message).toBe('Secret is required');
+    expect(badEvent.status).toBe(400);
+    expect(badEvent.body.message).toBe('Events must be one or more of: retro.created, retro.stage-changed, retro.completed, action-item.added');
+  });
+
+  it('should list the deliveries of a subscription', async () => {
+    process.env.WEBHOOK_RETRY_DELAY_MS = '1';
+    const created = await request(app)
+      .post('/api/webhooks')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send(subscription);
+    await emitWebhookEvent('retro.created', { id: 'retro-1', sessionName: 'Sprint 42', status: 'draft' } as Retro);
+    delete process.env.WEBHOOK_RETRY_DELAY_MS;
+
+    const response = await request(app)
+      .get(`/api/webhooks/${created.body.id}/deliveries`)
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toHaveLength(1);
+    expect(response.body[0]).toMatchObject({ event: 'retro.created', status: 'failed', payload: { retro: { id: 'retro-1' } } });
+    expect(response.body[0].attempts).toHaveLength(4);
+  });
+
+  it('should delete subscriptions', async () => {
+    const created = await request(app)
+      .post('/api/webhooks')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send(subscription);
+
+    const deleted = await request(app).delete(`/api/webhooks/${created.body.id}`).set('Authorization', `Bearer ${adminToken}`);
+    const again = await request(app).delete(`/api/webhooks/${created.body.id}`).set('Authorization', `Bearer ${adminToken}`);
+    const deliveries = await request(app)
+      .get(`/api/webhooks/${created.body.id}/deliveries`)
+      .set('Authorization', `Bearer ${adminToken}`);
+
+    expect(deleted.status).toBe(200);
+    expect(again.status).toBe(404);
+    expect(deliveries.status).toBe(404);
+    expect(deliveries.body.message).toBe('Webhook not found');
+  });
+});
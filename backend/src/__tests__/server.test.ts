@@ -114,7 +114,7 @@ describe('Server', () => {
       const response = await request(app).get('/api/retros');
 
       expect(response.status).toBe(200);
-      expect(Array.isArray(response.body)).toBe(true);
+      expect(Array.isArray(response.body.retros)).toBe(true);
     });
 
     it('should return 404 for unknown API routes', async () => {
@@ -0,0 +1,91 @@
+import { validateMessage, checkMessagePermission, getMessageRule } from '../../websocket/messageRules';
+
+describe('messageRules', () => {
+  describe('validateMessage', () => {
+    it('should accept valid messages and ignore unknown fields', () => {
+      expect(validateMessage({ type: 'vote-add', itemId: 'card-1', columnId: 'col-1', retroId: 'retro-1' })).toBeNull();
+      expect(validateMessage({
+        type: 'card-create',
+        card: { id: 'card-1', columnId: 'col-1', content: 'Hello', authorId: 'user-1' }
+      })).toBeNull();
+      expect(validateMessage({ type: 'cards-group', groupId: 'group-1', cardIds: ['card-1', 'card-2'], columnId: 'col-1' })).toBeNull();
+    });
+
+    it('should reject messages without a type', () => {
+      expect(validateMessage(null)).toBe('Message must be an object with a "type"');
+      expect(validateMessage('vote-add')).toBe('Message must be an object with a "type"');
+      expect(validateMessage({ itemId: 'card-1' })).toBe('Message must be an object with a "type"');
+    });
+
+    it('should reject unknown message types, including Object.prototype members', () => {
+      expect(validateMessage({ type: 'ping' })).toBe('Unknown message type "ping"');
+      expect(validateMessage({ type: 'toString' })).toBe('Unknown message type "toString"');
+      expect(getMessageRule('constructor')).toBeUndefined();
+    });
+
+    it('should report missing and mistyped fields', () => {
+      expect(validateMessage({ type: 'vote-add' })).toBe('"itemId" is required');
+      expect(validateMessage({ type: 'stage-change', stageIndex: '2' })).toBe('"stageIndex" must be a number');
+      expect(validateMessage({ type: 'card-create', card: { id: 'card-1', columnId: 'col-1' } })).toBe('"card.content" is required');
+      expect(validateMessage({ type: 'card-create', card: ['card-1'] })).toBe('"card" must be an object');
+    });
+
+    it('should check allowed values and array items', () => {
+      expect(validateMessage({ type: 'discuss-update', action: 'explode' }))
+        .toMatch(/^"action" must be one of: /);
+      expect(validateMessage({ type: 'cards-group', groupId: 'group-1', cardIds: ['card-1', 2], columnId: 'col-1' }))
+        .toBe('"cardIds" must only contain string values');
+      const actionItem = { id: 'a1', title: 'Fix the build', priority: 'high', status: 'pending' };
+      expect(validateMessage({ type: 'action-item-update', action: 'action-added', actionItem: { ...actionItem, dueDate: 'next friday' } }))
+        .toBe('"actionItem.dueDate" must be a date (yyyy-mm-dd)');
+      expect(validateMessage({ type: 'action-item-update', action: 'action-added', actionItem: { ...actionItem, dueDate: '2025-02-30' } }))
+        .toBe('"actionItem.dueDate" must be a date (yyyy-mm-dd)');
+      expect(validateMessage({ type: 'action-item-update', action: 'action-added', actionItem: { ...actionItem, dueDate: '' } })).toBeNull();
+      expect(validateMessage({ type: 'timer-update', action: 'start', onExpire: 'explode' }))
+        .toBe('"onExpire" must be one of: none, advance-stage, mark-all-done');
+    });
+  });
+
+  describe('checkMessagePermission', () => {
+    it('should restrict facilitator-only messages', () => {
+      expect(checkMessagePermission({ type: 'stage-change', stageIndex: 1 }, 'participant', undefined))
+        .toEqual({ code: 'forbidden', message: 'Only the facilitator can do that' });
+      expect(checkMessagePermission({ type: 'stage-change', stageIndex: 1 }, 'facilitator', undefined)).toBeNull();
+      expect(checkMessagePermission({ type: 'stage-change', stageIndex: 1 }, 'co-facilitator', undefined)).toBeNull();
+    });
+
+    it('should restrict lead-only messages to the room creator', () => {
+      const transfer = { type: 'transfer-facilitator', participantId: 'user-2' };
+
+      expect(checkMessagePermission(transfer, 'co-facilitator', undefined))
+        .toEqual({ code: 'forbidden', message: 'Only the lead facilitator can do that' });
+      expect(checkMessagePermission(transfer, 'facilitator', undefined)).toBeNull();
+    });
+
+    it('should not let viewers send anything', () => {
+      expect(checkMessagePermission({ type: 'vote-add', itemId: 'card-1' }, 'viewer', 'vote'))
+        .toEqual({ code: 'forbidden', message: 'Viewers can only watch this retro' });
+      expect(checkMessagePermission({ type: 'stage-change', stageIndex: 1 }, 'viewer', undefined)?.code).toBe('forbidden');
+    });
+
+    it('should restrict facilitator-only actions', () => {
+      const update = { type: 'action-item-update', action: 'action-deleted', actionItemId: 'action-1' };
+      const add = { type: 'action-item-update', action: 'action-added' };
+
+      expect(checkMessagePermission(update, 'participant', 'review')?.code).toBe('forbidden');
+      expect(checkMessagePermission(add, 'participant', 'review')).toBeNull();
+    });
+
+    it('should only allow messages during their stages', () => {
+      expect(checkMessagePermission({ type: 'action-item-update', action: 'action-added' }, 'facilitator', 'brainstorm'))
+        .toEqual({ code: 'wrong-stage', message: "That isn't possible during the brainstorm stage" });
+      expect(checkMessagePermission({ type: 'vote-add', itemId: 'card-1' }, 'participant', 'vote')).toBeNull();
+      expect(checkMessagePermission({ type: 'action-item-update', action: 'action-added' }, 'facilitator', 'previous-actions'))
+        .toBeNull();
+    });
+
+    it('should skip stage checks when the current stage is unknown', () => {
+      expect(checkMessagePermission({ type: 'vote-add', itemId: 'card-1' }, 'participant', undefined)).toBeNull();
+    });
+  });
+});
@@ -2,6 +2,13 @@ import { WebSocketServer } from 'ws';
 import { wsManager } from '../../websocket/websocketManager';
 import * as namesModule from '../../data/names';
 import * as retrosModule from '../../data/retros';
+import { emitWebhookEvent } from '../../data/webhooks';
+import { postRetroSummary } from '../../data/chatSummary';
+import { hashFacilitatorToken } from '../../data/facilitatorTokens';
+import { createUser, createTeam } from '../../data/users';
+import { createTemplate, deleteTemplate } from '../../data/templates';
+import { signAuthToken } from '../../middleware/auth';
+import { makeRoomSnapshot } from '../fixtures';
 
 // Mock external dependencies
 jest.mock('ws', () => {
@@ -23,7 +30,17 @@ jest.mock('../../data/names', () => ({
   setNameDeck: jest.fn()
 }));
 jest.mock('../../data/retros', () => ({
-  getRetroById: jest.fn()
+  getRetroById: jest.fn(),
+  getRoomState: jest.fn(),
+  saveRoomState: jest.fn(),
+  deleteRoomState: jest.fn(),
+  updateRetro: jest.fn()
+}));
+jest.mock('../../data/webhooks', () => ({
+  emitWebhookEvent: jest.fn()
+}));
+jest.mock('../../data/chatSummary', () => ({
+  postRetroSummary: jest.fn()
 }));
 
 // Get the mocked WebSocketServer
@@ -145,6 +162,213 @@ describe('WebSocketManager', () => {
       expect(mockWs.on).toHaveBeenCalledWith('close', expect.any(Function));
     });
 
+    describe('facilitator token', () => {
+      const joinRetro = (query = '') => {
+        const ws = createMockWebSocket();
+        connectionHandler(ws, createMockRequest(`/ws/retro/token-retro${query}`));
+        return { ws, userId: JSON.parse(ws.send.mock.calls[0][0]).userId, joined: JSON.parse(ws.send.mock.calls[0][0]) };
+      };
+
+      beforeEach(() => {
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({ facilitatorTokenHash: hashFacilitatorToken('secret-token') });
+      });
+
+      it('should not make the first joiner the creator without the token', () => {
+        const teammate = joinRetro();
+        const withWrongToken = joinRetro('?facilitatorToken=guess');
+
+        expect(teammate.joined.isCreator).toBe(false);
+        expect(withWrongToken.joined.isCreator).toBe(false);
+        expect(wsManager.getRoom('token-retro')?.creatorId).toBe('');
+      });
+
+      it('should make the token holder the creator even if others joined first', () => {
+        const teammate = joinRetro();
+        const facilitator = joinRetro('?facilitatorToken=secret-token');
+
+        expect(facilitator.joined.isCreator).toBe(true);
+        expect(wsManager.getRoom('token-retro')?.creatorId).toBe(facilitator.userId);
+        const lastParticipants = teammate.ws.send.mock.calls
+          .map((call: any) => JSON.parse(call[0]))
+          .filter((msg: any) => msg.type === 'participants-update')
+          .pop().participants;
+        expect(lastParticipants.find((p: any) => p.isCreator).id).toBe(facilitator.userId);
+      });
+
+      it('should let the token holder take the role back from a promoted participant', () => {
+        const promoted = joinRetro();
+        (wsManager.getRoom('token-retro') as any).creatorId = promoted.userId;
+
+        const facilitator = joinRetro('?facilitatorToken=secret-token');
+
+        expect(wsManager.getRoom('token-retro')?.creatorId).toBe(facilitator.userId);
+        const assigned = promoted.ws.send.mock.calls
+          .map((call: any) => JSON.parse(call[0]))
+          .filter((msg: any) => msg.type === 'creator-assigned');
+        expect(assigned).toEqual([{ type: 'creator-assigned', isCreator: false }]);
+      });
+
+      it('should not restore the creator from their public id without the token', () => {
+        const facilitator = joinRetro('?facilitatorToken=secret-token');
+
+        const impostor = joinRetro(`?userId=${facilitator.userId}`);
+
+        expect(impostor.userId).not.toBe(facilitator.userId);
+        expect(impostor.joined.isCreator).toBe(false);
+        expect(wsManager.getRoom('token-retro')?.creatorId).toBe(facilitator.userId);
+
+        const reconnected = joinRetro(`?userId=${facilitator.userId}&facilitatorToken=secret-token`);
+        expect(reconnected.userId).toBe(facilitator.userId);
+        expect(reconnected.joined.isCreator).toBe(true);
+      });
+
+      it('should let a participant handed the lead reconnect with their resume token', () => {
+        const facilitator = joinRetro('?facilitatorToken=secret-token');
+        const teammate = joinRetro();
+        const messageHandler = facilitator.ws.on.mock.calls.find((call: any) => call[0] === 'message')[1];
+        messageHandler(JSON.stringify({ type: 'transfer-facilitator', participantId: teammate.userId }));
+
+        const impostor = joinRetro(`?userId=${teammate.userId}`);
+        expect(impostor.userId).not.toBe(teammate.userId);
+
+        const reconnected = joinRetro(`?userId=${teammate.userId}&resumeToken=${teammate.joined.resumeToken}`);
+        expect(reconnected.userId).toBe(teammate.userId);
+        expect(reconnected.joined.isCreator).toBe(true);
+        expect(wsManager.getRoom('token-retro')?.creatorId).toBe(teammate.userId);
+      });
+
+      it('should not restore a co-facilitator from their public id without their resume token', () => {
+        const facilitator = joinRetro('?facilitatorToken=secret-token');
+        const teammate = joinRetro();
+        const messageHandler = facilitator.ws.on.mock.calls.find((call: any) => call[0] === 'message')[1];
+        messageHandler(JSON.stringify({ type: 'co-facilitator-update', participantId: teammate.userId, isCoFacilitator: true }));
+
+        const impostor = joinRetro(`?userId=${teammate.userId}&resumeToken=guess`);
+        expect(impostor.userId).not.toBe(teammate.userId);
+        expect(wsManager.getRoom('token-retro')?.coFacilitatorIds).toEqual([teammate.userId]);
+
+        const reconnected = joinRetro(`?userId=${teammate.userId}&resumeToken=${teammate.joined.resumeToken}`);
+        expect(reconnected.userId).toBe(teammate.userId);
+        expect(wsManager.getRoom('token-retro')?.coFacilitatorIds).toEqual([teammate.userId]);
+      });
+
+      it('should start a draft retro when the facilitator joins', () => {
+        const retro = { facilitatorTokenHash: hashFacilitatorToken('secret-token'), status: 'draft' };
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue(retro);
+        (retrosModule.updateRetro as jest.Mock).mockImplementation((_id, updates) => Object.assign(retro, updates));
+
+        const teammate = joinRetro();
+        expect(retrosModule.updateRetro).not.toHaveBeenCalled();
+
+        joinRetro('?facilitatorToken=secret-token');
+        expect(retrosModule.updateRetro).toHaveBeenCalledWith('token-retro', { status: 'active' });
+        const statusMessages = teammate.ws.send.mock.calls
+          .map((call: any) => JSON.parse(call[0]))
+          .filter((msg: any) => msg.type === 'retro-status');
+        expect(statusMessages).toEqual([{ type: 'retro-status', status: 'active' }]);
+      });
+
+      it('should let the facilitator regenerate the token', () => {
+        const facilitator = joinRetro('?facilitatorToken=secret-token');
+        (retrosModule.updateRetro as jest.Mock).mockReturnValue({ id: 'token-retro' });
+        const messageHandler = facilitator.ws.on.mock.calls.find((call: any) => call[0] === 'message')[1];
+
+        messageHandler(JSON.stringify({ type: 'facilitator-token-regenerate' }));
+
+        const reply = JSON.parse(facilitator.ws.send.mock.calls.pop()[0]);
+        expect(reply.type).toBe('facilitator-token');
+        expect(reply.token).not.toBe('secret-token');
+        expect(retrosModule.updateRetro).toHaveBeenCalledWith('token-retro', {
+          facilitatorTokenHash: hashFacilitatorToken(reply.token)
+        });
+      });
+
+      it('should not let participants regenerate the token', () => {
+        joinRetro('?facilitatorToken=secret-token');
+        const teammate = joinRetro();
+        const messageHandler = teammate.ws.on.mock.calls.find((call: any) => call[0] === 'message')[1];
+
+        messageHandler(JSON.stringify({ type: 'facilitator-token-regenerate' }));
+
+        expect(retrosModule.updateRetro).not.toHaveBeenCalled();
+        expect(JSON.parse(teammate.ws.send.mock.calls.pop()[0])).toMatchObject({ type: 'error', code: 'forbidden' });
+      });
+    });
+
+    it('should show logged-in users by their real name unless the retro is anonymous', () => {
+      const account = createUser({ email: 'ada@example.com', name: 'Ada Lovelace', passwordHash: 'hash' });
+      const token = signAuthToken(account);
+
+      (retrosModule.getRetroById as jest.Mock).mockReturnValue({});
+      const mockWs = createMockWebSocket();
+      connectionHandler(mockWs, createMockRequest(`/ws/retro/auth-retro?authToken=${token}`));
+      const joined = JSON.parse(mockWs.send.mock.calls[0][0]);
+      expect(joined.userName).toBe('Ada Lovelace');
+      expect(wsManager.getRoom('auth-retro')?.participants.get(joined.userId)?.accountId).toBe(account.id);
+
+      (retrosModule.getRetroById as jest.Mock).mockReturnValue({ isAnonymous: true });
+      const anonymousWs = createMockWebSocket();
+      connectionHandler(anonymousWs, createMockRequest(`/ws/retro/anonymous-retro?authToken=${token}`));
+      expect(JSON.parse(anonymousWs.send.mock.calls[0][0]).userName).toBe('MockUser');
+
+      const invalidWs = createMockWebSocket();
+      (retrosModule.getRetroById as jest.Mock).mockReturnValue({});
+      connectionHandler(invalidWs, createMockRequest('/ws/retro/auth-retro?authToken=forged'));
+      expect(JSON.parse(invalidWs.send.mock.calls[0][0]).userName).toBe('MockUser');
+    });
+
+    it('should let outsiders of a team retro only watch and admins facilitate', () => {
+      const member = createUser({ email: 'grace@example.com', name: 'Grace', passwordHash: 'hash' });
+      const outsider = createUser({ email: 'linus@example.com', name: 'Linus', passwordHash: 'hash' });
+      process.env.ADMIN_EMAILS = 'root@example.com';
+      const admin = createUser({ email: 'root@example.com', name: 'Root', passwordHash: 'hash' });
+      delete process.env.ADMIN_EMAILS;
+      const team = createTeam('Platform', member.id);
+      (retrosModule.getRetroById as jest.Mock).mockReturnValue({ teamId: team.id });
+
+      const connect = (token: string) => {
+        const ws = createMockWebSocket();
+        connectionHandler(ws, createMockRequest(`/ws/retro/team-retro?authToken=${token}`));
+        const send = ws.on.mock.calls.find((call: any) => call[0] === 'message')[1];
+        return { ws, send: (message: any) => send(JSON.stringify(message)) };
+      };
+      connect(signAuthToken(member));
+      const viewer = connect(signAuthToken(outsider));
+      const adminSocket = connect(signAuthToken(admin));
+
+      viewer.send({ type: 'mark-stage-done', stageId: 'brainstorm', isDone: true });
+      expect(JSON.parse(viewer.ws.send.mock.calls.pop()[0])).toEqual(
+        expect.objectContaining({ type: 'error', code: 'forbidden', message: 'Viewers can only watch this retro' })
+      );
+
+      adminSocket.send({ type: 'stage-change', stageIndex: 1 });
+      const adminErrors = adminSocket.ws.send.mock.calls
+        .map((call: any) => JSON.parse(call[0]))
+        .filter((message: any) => message.type === 'error');
+      expect(adminErrors).toEqual([]);
+      expect(wsManager.getRoom('team-retro')?.currentStage).toBe(1);
+    });
+
+    it('should start the icebreaker with the template questions without changing the template', () => {
+      const template = createTemplate({
+        name: 'Coffee chat',
+        description: '',
+        columns: [],
+        icebreakerQuestions: ['Coffee or tea?', 'Cats or dogs?'],
+        createdBy: 'user-1'
+      });
+      (retrosModule.getRetroById as jest.Mock).mockReturnValue({ templateId: template.id });
+
+      const mockWs = createMockWebSocket();
+      connectionHandler(mockWs, createMockRequest('/ws/retro/template-retro'));
+      const messageHandler = mockWs.on.mock.calls.find((call: any) => call[0] === 'message')[1];
+      messageHandler(JSON.stringify({ type: 'icebreaker-update', action: 'question-edited', questionIndex: 0, newQuestion: 'Espresso?' }));
+
+      expect(wsManager.getRoom('template-retro')?.icebreakerState.questions).toEqual(['Espresso?', 'Cats or dogs?']);
+      expect(template.icebreakerQuestions).toEqual(['Coffee or tea?', 'Cats or dogs?']);
+      deleteTemplate(template.id);
+    });
+
     it('should create a new room for a new retroId', () => {
       const mockWs = createMockWebSocket();
       const mockReq = createMockRequest('/ws/retro/new-retro-id');
@@ -158,6 +382,34 @@ describe('WebSocketManager', () => {
       expect(namesModule.setNameDeck).toHaveBeenCalledWith('new-retro-id', 'fantasy');
     });
 
+    it('should restore a room from saved state', () => {
+      (retrosModule.getRetroById as jest.Mock).mockReturnValue(null);
+      (retrosModule.getRoomState as jest.Mock).mockReturnValueOnce({
+        id: 'restored-retro',
+        creatorId: 'creator-1',
+        currentStage: 3,
+        cards: [{ id: 'card-1', content: 'Saved card', columnId: 'col-1', authorId: 'creator-1', groupId: null, createdAt: '2024-01-01T00:00:00.000Z' }],
+        cardGroups: [],
+        votes: { 'card-1': ['creator-1'] },
+        actionItems: [],
+        discussedItems: [],
+        stageDoneStatus: {},
+        reactions: {},
+        comments: [],
+        icebreakerState: { currentQuestionIndex: 0, questions: [], isAnswering: false, answeredParticipants: [], answers: {} }
+      });
+
+      const mockWs = createMockWebSocket();
+      connectionHandler(mockWs, createMockRequest('/ws/retro/restored-retro?userId=creator-1'));
+
+      const message = JSON.parse(mockWs.send.mock.calls[0][0]);
+      expect(message.userId).toBe('creator-1');
+      expect(message.isCreator).toBe(true);
+      expect(message.currentState.currentStage).toBe(3);
+      expect(message.currentState.cards[0].content).toBe('Saved card');
+      expect(message.currentState.votes).toEqual({ 'card-1': ['creator-1'] });
+    });
+
     it('should send current room state on connection and set first user as creator', () => {
       const mockWs = createMockWebSocket();
       const mockReq = createMockRequest('/ws/retro/state-test');
@@ -325,52 +577,162 @@ describe('WebSocketManager', () => {
     });
 
     describe('timer-update', () => {
-      it('should broadcast timer updates from creator', () => {
-        // Add second user to receive broadcasts
-        const mockWs2 = createMockWebSocket();
-        const mockReq2 = createMockRequest('/ws/retro/message-test');
-        connectionHandler(mockWs2, mockReq2);
+      const timerUpdates = (ws: any) => ws.send.mock.calls
+        .map((call: any) => JSON.parse(call[0]))
+        .filter((msg: any) => msg.type === 'timer-update');
+      let retro: any;
+      let mockWs2: any;
+
+      beforeEach(() => {
+        retro = {
+          status: 'active',
+          stages: [
+            { id: 'brainstorm', name: 'Brainstorm', duration: 300, enabled: true },
+            { id: 'vote', name: 'Vote', duration: 0, enabled: true },
+            { id: 'report', name: 'Report', duration: 0, enabled: true }
+          ]
+        };
+        (retrosModule.getRetroById as jest.Mock).mockImplementation(() => retro);
+        (retrosModule.updateRetro as jest.Mock).mockImplementation((_id, updates) => Object.assign(retro, updates));
+
+        mockWs2 = createMockWebSocket();
+        connectionHandler(mockWs2, createMockRequest('/ws/retro/message-test'));
+      });
 
-        mockWs2.send.mockClear();
+      it('should start the stage timer from the configured duration and tell everyone', () => {
+        messageHandler(JSON.stringify({ type: 'timer-update', action: 'start' }));
+
+        const [update] = timerUpdates(mockWs2);
+        expect(update.timer).toEqual({
+          stageIndex: 0,
+          duration: 300,
+          isRunning: true,
+          deadline: new Date(Date.now() + 300 * 1000).toISOString(),
+          remaining: 300,
+          onExpire: 'none'
+        });
+        // The facilitator gets the server's state back too
+        expect(timerUpdates(mockWs)).toHaveLength(1);
+      });
 
-        messageHandler(JSON.stringify({
-          type: 'timer-update',
-          timeRemaining: 60,
-          isRunning: true
-        }));
+      it('should pause, resume and extend from the time actually left', () => {
+        messageHandler(JSON.stringify({ type: 'timer-update', action: 'start', duration: 120 }));
+        jest.advanceTimersByTime(50 * 1000);
 
-        // Second user should receive the timer update
-        const calls = mockWs2.send.mock.calls;
-        const timerUpdate = calls.find((call: any) => {
-          const msg = JSON.parse(call[0]);
-          return msg.type === 'timer-update';
+        messageHandler(JSON.stringify({ type: 'timer-update', action: 'pause' }));
+        expect(timerUpdates(mockWs2).pop().timer).toMatchObject({ isRunning: false, deadline: null, remaining: 70 });
+
+        // Paused time doesn't count
+        jest.advanceTimersByTime(60 * 1000);
+        messageHandler(JSON.stringify({ type: 'timer-update', action: 'resume' }));
+        expect(timerUpdates(mockWs2).pop().timer).toMatchObject({ isRunning: true, remaining: 70 });
+
+        messageHandler(JSON.stringify({ type: 'timer-update', action: 'extend', seconds: 60 }));
+        expect(timerUpdates(mockWs2).pop().timer).toMatchObject({
+          duration: 180,
+          remaining: 130,
+          deadline: new Date(Date.now() + 130 * 1000).toISOString()
         });
-        expect(timerUpdate).toBeDefined();
       });
 
-      it('should not broadcast timer updates from non-creator', () => {
-        // Add second user
-        const mockWs2 = createMockWebSocket();
-        const mockReq2 = createMockRequest('/ws/retro/message-test');
-        connectionHandler(mockWs2, mockReq2);
+      it('should include the running timer in the state sent to late joiners', () => {
+        messageHandler(JSON.stringify({ type: 'timer-update', action: 'start', duration: 120 }));
+        jest.advanceTimersByTime(30 * 1000);
 
+        const mockWs3 = createMockWebSocket();
+        connectionHandler(mockWs3, createMockRequest('/ws/retro/message-test'));
+
+        const joinMessage = JSON.parse(mockWs3.send.mock.calls[0][0]);
+        expect(joinMessage.currentState.timer).toMatchObject({ isRunning: true, duration: 120, remaining: 90 });
+      });
+
+      it('should reject a start without a duration and controls for a timer that is not running', () => {
+        messageHandler(JSON.stringify({ type: 'stage-change', stageIndex: 1 }));
+        messageHandler(JSON.stringify({ type: 'timer-update', action: 'start' }));
+        messageHandler(JSON.stringify({ type: 'timer-update', action: 'pause' }));
+
+        const errors = mockWs.send.mock.calls.map((call: any) => JSON.parse(call[0])).filter((msg: any) => msg.type === 'error');
+        expect(errors.map((error: any) => error.message)).toEqual(['The timer needs a duration', 'The timer is not running']);
+        expect(wsManager.getRoom('message-test')?.timer).toBeNull();
+      });
+
+      it('should not let participants control the timer', () => {
         const messageHandler2 = mockWs2.on.mock.calls.find((call: any) => call[0] === 'message')[1];
 
-        mockWs.send.mockClear();
+        messageHandler2(JSON.stringify({ type: 'timer-update', action: 'start' }));
 
-        messageHandler2(JSON.stringify({
+        expect(wsManager.getRoom('message-test')?.timer).toBeNull();
+        expect(timerUpdates(mockWs)).toHaveLength(0);
+      });
+
+      it('should clear the timer when the stage changes', () => {
+        messageHandler(JSON.stringify({ type: 'timer-update', action: 'start', onExpire: 'advance-stage' }));
+        messageHandler(JSON.stringify({ type: 'stage-change', stageIndex: 1 }));
+
+        expect(wsManager.getRoom('message-test')?.timer).toBeNull();
+        // The cleared timer doesn't advance the new stage
+        jest.advanceTimersByTime(300 * 1000);
+        expect(wsManager.getRoom('message-test')?.currentStage).toBe(1);
+      });
+
+      it('should tell everyone when time is up', () => {
+        messageHandler(JSON.stringify({ type: 'timer-update', action: 'start', duration: 60 }));
+
+        jest.advanceTimersByTime(60 * 1000);
+
+        expect(timerUpdates(mockWs2).pop()).toEqual({
           type: 'timer-update',
-          timeRemaining: 60,
-          isRunning: true
-        }));
+          timer: expect.objectContaining({ isRunning: false, remaining: 0, deadline: null }),
+          expired: true
+        });
+        expect(wsManager.getRoom('message-test')?.currentStage).toBe(0);
+      });
 
-        // Creator should not receive timer update from non-creator
-        const calls = mockWs.send.mock.calls;
-        const timerUpdate = calls.find((call: any) => {
-          const msg = JSON.parse(call[0]);
-          return msg.type === 'timer-update';
+      it('should move to the next stage when time is up if asked to', () => {
+        messageHandler(JSON.stringify({ type: 'timer-update', action: 'start', onExpire: 'advance-stage' }));
+
+        jest.advanceTimersByTime(300 * 1000);
+
+        const room = wsManager.getRoom('message-test');
+        expect(room?.currentStage).toBe(1);
+        expect(room?.timer).toBeNull();
+        expect(retro.status).toBe('voting');
+        // Everyone, the facilitator included, is moved along
+        expect(mockWs.send.mock.calls.map((call: any) => JSON.parse(call[0]))).toContainEqual({ type: 'stage-change', stageIndex: 1 });
+      });
+
+      it('should mark everyone done when time is up if asked to', () => {
+        const userId2 = JSON.parse(mockWs2.send.mock.calls[0][0]).userId;
+        messageHandler(JSON.stringify({ type: 'timer-update', action: 'start', onExpire: 'mark-all-done' }));
+
+        jest.advanceTimersByTime(300 * 1000);
+
+        expect(wsManager.getRoom('message-test')?.stageDoneStatus).toEqual({ brainstorm: [userId, userId2] });
+        expect(mockWs2.send.mock.calls.map((call: any) => JSON.parse(call[0]))).toContainEqual({
+          type: 'stage-done-update',
+          stageId: 'brainstorm',
+          stageDoneStatus: { brainstorm: [userId, userId2] }
         });
-        expect(timerUpdate).toBeUndefined();
+      });
+
+      it('should resume a running timer saved with the room', () => {
+        (retrosModule.getRoomState as jest.Mock).mockReturnValueOnce(makeRoomSnapshot({
+          id: 'restored-timer',
+          timer: {
+            stageIndex: 0,
+            duration: 300,
+            isRunning: true,
+            deadline: new Date(Date.now() + 10 * 1000).toISOString(),
+            remaining: 300,
+            onExpire: 'advance-stage'
+          }
+        }));
+        const mockWs3 = createMockWebSocket();
+        connectionHandler(mockWs3, createMockRequest('/ws/retro/restored-timer'));
+
+        expect(JSON.parse(mockWs3.send.mock.calls[0][0]).currentState.timer.remaining).toBe(10);
+        jest.advanceTimersByTime(10 * 1000);
+        expect(wsManager.getRoom('restored-timer')?.currentStage).toBe(1);
       });
     });
 
@@ -456,6 +818,384 @@ describe('WebSocketManager', () => {
       });
     });
 
+    describe('card ownership', () => {
+      let mockWs2: any;
+      let messageHandler2: (message: string) => void;
+
+      beforeEach(() => {
+        messageHandler(JSON.stringify({
+          type: 'card-create',
+          card: { id: 'card-1', content: 'Mine', columnId: 'col-1', authorId: 'someone-else', groupId: null, createdAt: '2024-01-01T00:00:00.000Z' }
+        }));
+
+        mockWs2 = createMockWebSocket();
+        connectionHandler(mockWs2, createMockRequest('/ws/retro/message-test'));
+        messageHandler2 = mockWs2.on.mock.calls.find((call: any) => call[0] === 'message')[1];
+      });
+
+      it('should record the sender as the card author', () => {
+        expect(wsManager.getRoom('message-test')?.cards[0].authorId).toBe(userId);
+      });
+
+      it('should reject updates and deletes from other users', () => {
+        messageHandler2(JSON.stringify({ type: 'card-update', card: { id: 'card-1', content: 'Hijacked' } }));
+        messageHandler2(JSON.stringify({ type: 'card-delete', cardId: 'card-1' }));
+
+        const room = wsManager.getRoom('message-test');
+        expect(room?.cards.length).toBe(1);
+        expect(room?.cards[0].content).toBe('Mine');
+
+        const errors = mockWs2.send.mock.calls
+          .map((call: any) => JSON.parse(call[0]))
+          .filter((msg: any) => msg.type === 'error');
+        expect(errors).toEqual([
+          { type: 'error', code: 'forbidden', message: 'You can only edit your own cards', requestType: 'card-update' },
+          { type: 'error', code: 'forbidden', message: 'You can only delete your own cards', requestType: 'card-delete' }
+        ]);
+      });
+
+      it('should not let an update change the author', () => {
+        messageHandler(JSON.stringify({ type: 'card-update', card: { id: 'card-1', content: 'Edited', authorId: 'someone-else' } }));
+
+        expect(wsManager.getRoom('message-test')?.cards[0]).toMatchObject({ content: 'Edited', authorId: userId });
+      });
+    });
+
+    describe('message validation and authorization', () => {
+      const lastMessage = (ws: any) => JSON.parse(ws.send.mock.calls[ws.send.mock.calls.length - 1][0]);
+
+      const joinSecondUser = () => {
+        const mockWs2 = createMockWebSocket();
+        connectionHandler(mockWs2, createMockRequest('/ws/retro/message-test'));
+        const handler = mockWs2.on.mock.calls.find((call: any) => call[0] === 'message')[1];
+        const id = JSON.parse(mockWs2.send.mock.calls[0][0]).userId;
+        return { mockWs2, messageHandler2: handler, userId2: id };
+      };
+
+      it('should reply with an error to invalid JSON', () => {
+        messageHandler('not json');
+
+        expect(lastMessage(mockWs)).toEqual({ type: 'error', code: 'invalid-message', message: 'Message is not valid JSON' });
+      });
+
+      it('should reject malformed payloads without changing the room', () => {
+        (retrosModule.saveRoomState as jest.Mock).mockClear();
+
+        messageHandler(JSON.stringify({ type: 'card-create', card: { id: 'card-1' } }));
+
+        expect(wsManager.getRoom('message-test')?.cards).toEqual([]);
+        expect(retrosModule.saveRoomState).not.toHaveBeenCalled();
+        expect(lastMessage(mockWs)).toEqual({
+          type: 'error',
+          code: 'invalid-message',
+          message: '"card.columnId" is required',
+          requestType: 'card-create'
+        });
+      });
+
+      it('should reject unknown message types', () => {
+        messageHandler(JSON.stringify({ type: 'ping' }));
+
+        expect(lastMessage(mockWs)).toMatchObject({ type: 'error', code: 'invalid-message', requestType: 'ping' });
+      });
+
+      it('should record votes for the sender regardless of data.userId', () => {
+        messageHandler(JSON.stringify({ type: 'vote-add', itemId: 'item-1', userId: 'someone-else' }));
+
+        expect(wsManager.getRoom('message-test')?.votes['item-1']).toEqual([userId]);
+      });
+
+      it('should reject creator-only messages from other participants', () => {
+        const { mockWs2, messageHandler2 } = joinSecondUser();
+
+        messageHandler2(JSON.stringify({ type: 'discuss-update', action: 'item-marked-discussed', itemId: 'item-1' }));
+
+        expect(wsManager.getRoom('message-test')?.discussedItems).toEqual([]);
+        expect(lastMessage(mockWs2)).toMatchObject({ type: 'error', code: 'forbidden', requestType: 'discuss-update' });
+      });
+
+      it('should record icebreaker answers for the sender only', () => {
+        const { messageHandler2, userId2 } = joinSecondUser();
+
+        messageHandler2(JSON.stringify({
+          type: 'icebreaker-update',
+          action: 'answer-completed',
+          participantId: userId,
+          answer: 'Pretending to be the creator'
+        }));
+
+        expect(wsManager.getRoom('message-test')?.icebreakerState.answers).toEqual({ [userId2]: 'Pretending to be the creator' });
+      });
+
+      it('should reject stage changes outside the retro stages', () => {
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({
+          stages: [
+            { id: 'brainstorm', name: 'Brainstorm', duration: 0, enabled: true },
+            { id: 'vote', name: 'Vote', duration: 0, enabled: true }
+          ]
+        });
+
+        messageHandler(JSON.stringify({ type: 'stage-change', stageIndex: 2 }));
+
+        expect(wsManager.getRoom('message-test')?.currentStage).toBe(0);
+        expect(lastMessage(mockWs)).toMatchObject({ type: 'error', code: 'invalid-message', message: 'Unknown stage' });
+      });
+
+      it('should only accept messages during the stages that allow them', () => {
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({
+          stages: [
+            { id: 'icebreaker', name: 'Icebreaker', duration: 0, enabled: false },
+            { id: 'brainstorm', name: 'Brainstorm', duration: 0, enabled: true },
+            { id: 'vote', name: 'Vote', duration: 0, enabled: true }
+          ]
+        });
+
+        // Brainstorm is the first enabled stage
+        messageHandler(JSON.stringify({ type: 'vote-add', itemId: 'item-1' }));
+        expect(wsManager.getRoom('message-test')?.votes).toEqual({});
+        expect(lastMessage(mockWs)).toEqual({
+          type: 'error',
+          code: 'wrong-stage',
+          message: "That isn't possible during the brainstorm stage",
+          requestType: 'vote-add'
+        });
+
+        messageHandler(JSON.stringify({ type: 'stage-change', stageIndex: 1 }));
+        messageHandler(JSON.stringify({ type: 'vote-add', itemId: 'item-1' }));
+        expect(wsManager.getRoom('message-test')?.votes['item-1']).toEqual([userId]);
+      });
+
+      it('should reject reactions when the retro has them disabled', () => {
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({ reactionsEnabled: false });
+
+        messageHandler(JSON.stringify({ type: 'reaction-toggle', cardId: 'card-1', emoji: '👍' }));
+
+        expect(wsManager.getRoom('message-test')?.reactions).toEqual({});
+        expect(lastMessage(mockWs)).toMatchObject({ type: 'error', code: 'disabled' });
+      });
+    });
+
+    describe('retro lifecycle', () => {
+      const lastMessage = (ws: any) => JSON.parse(ws.send.mock.calls[ws.send.mock.calls.length - 1][0]);
+      let retro: any;
+
+      beforeEach(() => {
+        retro = {
+          status: 'active',
+          stages: [
+            { id: 'brainstorm', name: 'Brainstorm', duration: 0, enabled: true },
+            { id: 'vote', name: 'Vote', duration: 0, enabled: true },
+            { id: 'discuss', name: 'Discuss', duration: 0, enabled: true },
+            { id: 'report', name: 'Report', duration: 0, enabled: true }
+          ]
+        };
+        (retrosModule.getRetroById as jest.Mock).mockImplementation(() => retro);
+        (retrosModule.updateRetro as jest.Mock).mockImplementation((_id, updates) => Object.assign(retro, updates));
+      });
+
+      it('should move the status along with the stages', () => {
+        messageHandler(JSON.stringify({ type: 'stage-change', stageIndex: 1 }));
+        expect(retro.status).toBe('voting');
+        expect(lastMessage(mockWs)).toEqual({ type: 'retro-status', status: 'voting' });
+
+        messageHandler(JSON.stringify({ type: 'stage-change', stageIndex: 2 }));
+        expect(retro.status).toBe('active');
+
+        messageHandler(JSON.stringify({ type: 'stage-change', stageIndex: 3 }));
+        expect(retro.status).toBe('completed');
+      });
+
+      it('should send webhooks for stage changes and the retro completing', () => {
+        messageHandler(JSON.stringify({ type: 'stage-change', stageIndex: 1 }));
+        expect(emitWebhookEvent).toHaveBeenCalledWith('retro.stage-changed', retro, { stage: { index: 1, id: 'vote' } });
+        expect(emitWebhookEvent).not.toHaveBeenCalledWith('retro.completed', expect.anything());
+
+        messageHandler(JSON.stringify({ type: 'stage-change', stageIndex: 3 }));
+        expect(emitWebhookEvent).toHaveBeenCalledWith('retro.completed', retro);
+        expect(emitWebhookEvent).toHaveBeenLastCalledWith('retro.stage-changed', retro, { stage: { index: 3, id: 'report' } });
+      });
+
+      it('should post the summary to chat once the Report stage is reached', () => {
+        retro.id = 'message-test';
+        messageHandler(JSON.stringify({ type: 'card-create', card: { id: 'card-1', columnId: 'col-1', content: 'Ship smaller' } }));
+        messageHandler(JSON.stringify({ type: 'stage-change', stageIndex: 2 }));
+        expect(postRetroSummary).not.toHaveBeenCalled();
+
+        messageHandler(JSON.stringify({ type: 'stage-change', stageIndex: 3 }));
+        expect(postRetroSummary).toHaveBeenCalledTimes(1);
+        expect(postRetroSummary).toHaveBeenCalledWith('message-test', expect.objectContaining({
+          stats: expect.objectContaining({ cards: 1 })
+        }));
+      });
+
+      it('should reject changes once the retro is completed', () => {
+        retro.status = 'completed';
+
+        messageHandler(JSON.stringify({ type: 'card-create', card: { id: 'card-1', columnId: 'col-1', content: 'Late idea' } }));
+        expect(wsManager.getRoom('message-test')?.cards).toEqual([]);
+        expect(lastMessage(mockWs)).toEqual({
+          type: 'error',
+          code: 'locked',
+          message: 'This retro is completed and can no longer be changed',
+          requestType: 'card-create'
+        });
+
+        messageHandler(JSON.stringify({ type: 'stage-change', stageIndex: 0 }));
+        expect(lastMessage(mockWs)).toMatchObject({ type: 'error', code: 'locked', requestType: 'stage-change' });
+      });
+    });
+
+    describe('anonymous retros', () => {
+      let mockWs2: any;
+      let messageHandler2: (message: string) => void;
+      let userId2: string;
+
+      const sentMessages = (ws: any) => ws.send.mock.calls.map((call: any) => JSON.parse(call[0]));
+
+      beforeEach(() => {
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({ isAnonymous: true });
+
+        mockWs2 = createMockWebSocket();
+        connectionHandler(mockWs2, createMockRequest('/ws/retro/message-test'));
+        messageHandler2 = mockWs2.on.mock.calls.find((call: any) => call[0] === 'message')[1];
+        userId2 = JSON.parse(mockWs2.send.mock.calls[0][0]).userId;
+      });
+
+      it('should hide the author in card-created and card-updated', () => {
+        messageHandler(JSON.stringify({
+          type: 'card-create',
+          card: { id: 'card-1', content: 'Secret', columnId: 'col-1', authorId: userId, groupId: null, createdAt: '2024-01-01T00:00:00.000Z' }
+        }));
+        messageHandler(JSON.stringify({ type: 'card-update', card: { id: 'card-1', content: 'Still secret' } }));
+
+        const messages = sentMessages(mockWs2);
+        expect(messages.find((msg: any) => msg.type === 'card-created').card.authorId).toBe('anonymous');
+        expect(messages.find((msg: any) => msg.type === 'card-updated').card.authorId).toBe('anonymous');
+        // The server still knows the author
+        expect(wsManager.getRoom('message-test')?.cards[0].authorId).toBe(userId);
+      });
+
+      it('should hide the voter in vote-added', () => {
+        messageHandler(JSON.stringify({ type: 'vote-add', itemId: 'card-1', columnId: 'col-1', userId }));
+
+        const voteAdded = sentMessages(mockWs2).find((msg: any) => msg.type === 'vote-added');
+        expect(voteAdded.voterId).toBe('anonymous');
+      });
+
+      it('should only reveal each recipient their own reactions', () => {
+        messageHandler(JSON.stringify({ type: 'reaction-toggle', cardId: 'card-1', emoji: '👍' }));
+        messageHandler2(JSON.stringify({ type: 'reaction-toggle', cardId: 'card-1', emoji: '👍' }));
+
+        const update1 = sentMessages(mockWs).filter((msg: any) => msg.type === 'reaction-update').pop();
+        const update2 = sentMessages(mockWs2).filter((msg: any) => msg.type === 'reaction-update').pop();
+        expect(update1.reactions['card-1']['👍']).toEqual([userId, 'anonymous']);
+        expect(update2.reactions['card-1']['👍']).toEqual(['anonymous', userId2]);
+      });
+
+      it('should anonymize currentState for joiners but keep their own cards and votes', () => {
+        messageHandler(JSON.stringify({
+          type: 'card-create',
+          card: { id: 'card-1', content: 'Secret', columnId: 'col-1', authorId: userId, groupId: null, createdAt: '2024-01-01T00:00:00.000Z' }
+        }));
+        messageHandler(JSON.stringify({ type: 'vote-add', itemId: 'card-1', columnId: 'col-1', userId }));
+
+        // Another participant joins
+        const mockWs3 = createMockWebSocket();
+        connectionHandler(mockWs3, createMockRequest('/ws/retro/message-test'));
+        const joinMessage = JSON.parse(mockWs3.send.mock.calls[0][0]);
+        expect(joinMessage.currentState.cards[0].authorId).toBe('anonymous');
+        expect(joinMessage.currentState.votes['card-1']).toEqual(['anonymous']);
+
+        // The author reconnects and can still recognise their own card
+        const mockWs4 = createMockWebSocket();
+        connectionHandler(mockWs4, createMockRequest(`/ws/retro/message-test?userId=${userId}`));
+        const rejoinMessage = JSON.parse(mockWs4.send.mock.calls[0][0]);
+        expect(rejoinMessage.currentState.cards[0].authorId).toBe(userId);
+        expect(rejoinMessage.currentState.votes['card-1']).toEqual([userId]);
+      });
+
+      it('should still let authors edit and delete their own cards', () => {
+        messageHandler(JSON.stringify({
+          type: 'card-create',
+          card: { id: 'card-1', content: 'Secret', columnId: 'col-1', authorId: userId, groupId: null, createdAt: '2024-01-01T00:00:00.000Z' }
+        }));
+
+        messageHandler2(JSON.stringify({ type: 'card-delete', cardId: 'card-1' }));
+        expect(wsManager.getRoom('message-test')?.cards.length).toBe(1);
+
+        messageHandler(JSON.stringify({ type: 'card-delete', cardId: 'card-1' }));
+        expect(wsManager.getRoom('message-test')?.cards.length).toBe(0);
+      });
+
+      it('should never send another participant the author or reactors of a comment', () => {
+        messageHandler(JSON.stringify({ type: 'comment-add', itemId: 'card-1', content: 'Secret' }));
+        const commentId = wsManager.getRoom('message-test')!.comments[0].id;
+        messageHandler(JSON.stringify({ type: 'comment-edit', commentId, content: 'Still secret' }));
+        messageHandler(JSON.stringify({ type: 'comment-reaction-toggle', commentId, emoji: '👍' }));
+
+        const mockWs3 = createMockWebSocket();
+        connectionHandler(mockWs3, createMockRequest('/ws/retro/message-test'));
+        const joinMessage = JSON.parse(mockWs3.send.mock.calls[0][0]);
+
+        const received = [
+          ...sentMessages(mockWs2).filter((msg: any) => msg.type.startsWith('comment-')).map((msg: any) => msg.comment),
+          ...joinMessage.currentState.comments
+        ];
+        expect(received.length).toBe(4);
+        received.forEach((comment: any) => {
+          expect(comment).toMatchObject({ authorId: 'anonymous', authorName: 'Anonymous' });
+          expect(JSON.stringify(comment)).not.toContain(userId);
+        });
+
+        // The author still recognises their own comment
+        const ownUpdate = sentMessages(mockWs).filter((msg: any) => msg.type === 'comment-updated').pop();
+        expect(ownUpdate.comment).toMatchObject({ authorId: userId, authorName: 'MockUser' });
+        expect(ownUpdate.comment.reactions['👍']).toEqual([userId]);
+      });
+    });
+
+    describe('room persistence', () => {
+      it('should save room state without participants after handling a message', () => {
+        (retrosModule.saveRoomState as jest.Mock).mockClear();
+
+        messageHandler(JSON.stringify({
+          type: 'card-create',
+          card: { id: 'card-1', content: 'Persist me', columnId: 'col-1', authorId: userId, groupId: null, createdAt: '2024-01-01T00:00:00.000Z' }
+        }));
+
+        expect(retrosModule.saveRoomState).toHaveBeenCalledTimes(1);
+        const snapshot = (retrosModule.saveRoomState as jest.Mock).mock.calls[0][0];
+        expect(snapshot.id).toBe('message-test');
+        expect(snapshot.cards[0].content).toBe('Persist me');
+        expect(snapshot.participants).toBeUndefined();
+      });
+
+      it('should not save room state for non-mutating messages', () => {
+        (retrosModule.saveRoomState as jest.Mock).mockClear();
+
+        (retrosModule.updateRetro as jest.Mock).mockReturnValue({});
+        messageHandler(JSON.stringify({ type: 'facilitator-token-regenerate' }));
+
+        expect(retrosModule.saveRoomState).not.toHaveBeenCalled();
+      });
+
+      it('should snapshot live rooms periodically', () => {
+        (retrosModule.saveRoomState as jest.Mock).mockClear();
+
+        jest.advanceTimersByTime(30000);
+
+        expect(retrosModule.saveRoomState).toHaveBeenCalledWith(expect.objectContaining({ id: 'message-test' }));
+      });
+
+      it('should not save room state for unknown message types', () => {
+        (retrosModule.saveRoomState as jest.Mock).mockClear();
+
+        messageHandler(JSON.stringify({ type: 'ping' }));
+
+        expect(retrosModule.saveRoomState).not.toHaveBeenCalled();
+      });
+    });
+
     describe('card grouping', () => {
       it('should handle grouping and regrouping cards', () => {
         // Create initial group
@@ -539,6 +1279,398 @@ describe('WebSocketManager', () => {
       });
     });
 
+    describe('vote limits', () => {
+      const sentMessages = () => mockWs.send.mock.calls.map((call: any) => JSON.parse(call[0]));
+      const lastBudget = () => sentMessages().filter((msg: any) => msg.type === 'vote-budget').pop();
+
+      it('should send the remaining budget after each vote change', () => {
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({ votingLimit: 3 });
+
+        messageHandler(JSON.stringify({ type: 'vote-add', itemId: 'item-1' }));
+        expect(lastBudget()).toEqual({
+          type: 'vote-budget',
+          userId,
+          votingLimit: 3,
+          maxVotesPerItem: null,
+          votesRemaining: 2,
+          votesByItem: { 'item-1': 1 }
+        });
+
+        messageHandler(JSON.stringify({ type: 'vote-remove', itemId: 'item-1' }));
+        expect(lastBudget()).toMatchObject({ votesRemaining: 3, votesByItem: {} });
+      });
+
+      it('should reject votes over the voting limit', () => {
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({ votingLimit: 2 });
+
+        messageHandler(JSON.stringify({ type: 'vote-add', itemId: 'item-1' }));
+        messageHandler(JSON.stringify({ type: 'vote-add', itemId: 'item-2' }));
+        messageHandler(JSON.stringify({ type: 'vote-add', itemId: 'item-3' }));
+
+        const room = wsManager.getRoom('message-test');
+        expect(room?.votes['item-3']).toBeUndefined();
+        expect(sentMessages()).toContainEqual({
+          type: 'error',
+          code: 'limit-reached',
+          message: "You've used all 2 votes",
+          requestType: 'vote-add'
+        });
+        expect(lastBudget()).toMatchObject({ votesRemaining: 0, votesByItem: { 'item-1': 1, 'item-2': 1 } });
+      });
+
+      it('should reject votes over the per-item cap', () => {
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({ votingLimit: 5, maxVotesPerItem: 1 });
+
+        messageHandler(JSON.stringify({ type: 'vote-add', itemId: 'item-1' }));
+        messageHandler(JSON.stringify({ type: 'vote-add', itemId: 'item-1' }));
+
+        expect(wsManager.getRoom('message-test')?.votes['item-1']).toEqual([userId]);
+        expect(sentMessages()).toContainEqual(expect.objectContaining({
+          type: 'error',
+          message: 'You can give at most 1 votes to one item'
+        }));
+      });
+
+      it('should send the budget to joining participants', () => {
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({ votingLimit: 4 });
+
+        const mockWs2 = createMockWebSocket();
+        connectionHandler(mockWs2, createMockRequest('/ws/retro/message-test'));
+
+        const budget = JSON.parse(mockWs2.send.mock.calls[1][0]);
+        expect(budget).toMatchObject({ type: 'vote-budget', votingLimit: 4, votesRemaining: 4 });
+      });
+
+      it('should broadcast budgets to everyone on request', () => {
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({ votingLimit: 7 });
+        mockWs.send.mockClear();
+
+        wsManager.broadcastVoteBudgets('message-test');
+
+        expect(lastBudget()).toMatchObject({ userId, votingLimit: 7, votesRemaining: 7 });
+      });
+
+      it('should report whether votes have been cast', () => {
+        expect(wsManager.hasVotes('message-test')).toBe(false);
+
+        messageHandler(JSON.stringify({ type: 'vote-add', itemId: 'item-1' }));
+        expect(wsManager.hasVotes('message-test')).toBe(true);
+
+        // Rooms that are no longer live are checked through their saved state
+        (retrosModule.getRoomState as jest.Mock).mockReturnValueOnce({ votes: { 'item-1': ['someone'] } });
+        expect(wsManager.hasVotes('closed-room')).toBe(true);
+      });
+    });
+
+    describe('voting methods', () => {
+      const messagesOfType = (ws: any, type: string) =>
+        ws.send.mock.calls.map((call: any) => JSON.parse(call[0])).filter((msg: any) => msg.type === type);
+
+      it('should reject dot votes when the retro uses another method', () => {
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({ votingLimit: 10, votingMethod: 'points' });
+
+        messageHandler(JSON.stringify({ type: 'vote-add', itemId: 'item-1' }));
+
+        expect(wsManager.getRoom('message-test')?.votes).toEqual({});
+        expect(messagesOfType(mockWs, 'error').pop()).toEqual({
+          type: 'error',
+          code: 'disabled',
+          message: 'This retro uses points voting',
+          requestType: 'vote-add'
+        });
+      });
+
+      it('should set point allocations within the budget', () => {
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({ votingLimit: 10, votingMethod: 'points' });
+
+        messageHandler(JSON.stringify({ type: 'points-set', itemId: 'item-1', points: 6 }));
+        messageHandler(JSON.stringify({ type: 'points-set', itemId: 'item-2', points: 4 }));
+        messageHandler(JSON.stringify({ type: 'points-set', itemId: 'item-1', points: 2 }));
+
+        const room = wsManager.getRoom('message-test');
+        expect(room?.votes['item-1']).toHaveLength(2);
+        expect(room?.votes['item-2']).toHaveLength(4);
+        expect(messagesOfType(mockWs, 'vote-budget').pop()).toMatchObject({ votesRemaining: 4 });
+
+        messageHandler(JSON.stringify({ type: 'points-set', itemId: 'item-3', points: 5 }));
+        expect(room?.votes['item-3']).toBeUndefined();
+        expect(messagesOfType(mockWs, 'error').pop()).toMatchObject({
+          code: 'limit-reached',
+          message: 'You only have 10 points to distribute'
+        });
+
+        messageHandler(JSON.stringify({ type: 'points-set', itemId: 'item-1', points: -1 }));
+        expect(messagesOfType(mockWs, 'error').pop()).toMatchObject({ code: 'invalid-message' });
+      });
+
+      it('should store rankings as Borda points', () => {
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({ votingLimit: 3, votingMethod: 'ranked' });
+
+        messageHandler(JSON.stringify({ type: 'ranking-set', ranking: ['item-2', 'item-1'] }));
+
+        const room = wsManager.getRoom('message-test');
+        expect(room?.votes).toEqual({ 'item-2': [userId, userId, userId], 'item-1': [userId, userId] });
+        expect(messagesOfType(mockWs, 'vote-budget').pop()).toMatchObject({
+          votesRemaining: 1,
+          votesByItem: { 'item-2': 3, 'item-1': 2 }
+        });
+
+        // A new ranking replaces the old one
+        messageHandler(JSON.stringify({ type: 'ranking-set', ranking: ['item-3'] }));
+        expect(room?.votes).toEqual({ 'item-3': [userId, userId, userId] });
+      });
+
+      it('should reject invalid rankings', () => {
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({ votingLimit: 2, votingMethod: 'ranked' });
+
+        messageHandler(JSON.stringify({ type: 'ranking-set', ranking: ['item-1', 'item-1'] }));
+        expect(messagesOfType(mockWs, 'error').pop()).toMatchObject({ message: 'Each item can only be ranked once' });
+
+        messageHandler(JSON.stringify({ type: 'ranking-set', ranking: ['item-1', 'item-2', 'item-3'] }));
+        expect(messagesOfType(mockWs, 'error').pop()).toMatchObject({ message: 'You can rank at most 2 items' });
+        expect(wsManager.getRoom('message-test')?.votes).toEqual({});
+      });
+
+      it('should broadcast the updated tallies to other participants', () => {
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({ votingLimit: 3, votingMethod: 'ranked' });
+        const mockWs2 = createMockWebSocket();
+        connectionHandler(mockWs2, createMockRequest('/ws/retro/message-test'));
+
+        messageHandler(JSON.stringify({ type: 'ranking-set', ranking: ['item-1'] }));
+
+        expect(messagesOfType(mockWs2, 'votes-updated')).toEqual([
+          { type: 'votes-updated', votes: { 'item-1': [userId, userId, userId] } }
+        ]);
+        expect(messagesOfType(mockWs, 'votes-updated')).toHaveLength(0);
+      });
+    });
+
+    describe('blind voting', () => {
+      const messagesOfType = (ws: any, type: string) =>
+        ws.send.mock.calls.map((call: any) => JSON.parse(call[0])).filter((msg: any) => msg.type === type);
+
+      const joinVoter = () => {
+        const mockWs2 = createMockWebSocket();
+        connectionHandler(mockWs2, createMockRequest('/ws/retro/message-test'));
+        const handler = mockWs2.on.mock.calls.find((call: any) => call[0] === 'message')[1];
+        const id = JSON.parse(mockWs2.send.mock.calls[0][0]).userId;
+        return { mockWs2, messageHandler2: handler, userId2: id };
+      };
+
+      beforeEach(() => {
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({
+          votingLimit: 2,
+          blindVoting: true,
+          stages: [
+            { id: 'brainstorm', enabled: true },
+            { id: 'vote', enabled: true },
+            { id: 'discuss', enabled: true }
+          ]
+        });
+        messageHandler(JSON.stringify({ type: 'stage-change', stageIndex: 1 }));
+      });
+
+      it('should only tell the facilitator how many participants have finished', () => {
+        const { mockWs2, messageHandler2 } = joinVoter();
+        mockWs.send.mockClear();
+
+        messageHandler2(JSON.stringify({ type: 'vote-add', itemId: 'item-1' }));
+        messageHandler2(JSON.stringify({ type: 'vote-add', itemId: 'item-2' }));
+
+        expect(messagesOfType(mockWs, 'vote-added')).toHaveLength(0);
+        expect(messagesOfType(mockWs, 'vote-progress').pop()).toEqual({
+          type: 'vote-progress',
+          finishedCount: 1,
+          participantCount: 2
+        });
+        expect(messagesOfType(mockWs2, 'vote-progress')).toHaveLength(0);
+      });
+
+      it('should count participants who marked the vote stage done', () => {
+        joinVoter();
+        mockWs.send.mockClear();
+
+        messageHandler(JSON.stringify({ type: 'mark-stage-done', stageId: 'vote', isDone: true }));
+
+        expect(messagesOfType(mockWs, 'vote-progress').pop()).toMatchObject({ finishedCount: 1 });
+      });
+
+      it('should only restore a joining participant\'s own votes', () => {
+        messageHandler(JSON.stringify({ type: 'vote-add', itemId: 'item-1' }));
+
+        const { mockWs2, messageHandler2, userId2 } = joinVoter();
+        expect(messagesOfType(mockWs2, 'user-joined')[0].currentState.votes).toEqual({});
+
+        messageHandler2(JSON.stringify({ type: 'vote-add', itemId: 'item-1' }));
+        mockWs2.on.mock.calls.find((call: any) => call[0] === 'close')[1]();
+
+        const rejoinWs = createMockWebSocket();
+        connectionHandler(rejoinWs, createMockRequest(`/ws/retro/message-test?userId=${userId2}`));
+        expect(messagesOfType(rejoinWs, 'user-joined')[0].currentState.votes).toEqual({ 'item-1': [userId2] });
+      });
+
+      it('should publish all votes when the facilitator reveals them', () => {
+        const { mockWs2, messageHandler2, userId2 } = joinVoter();
+        messageHandler(JSON.stringify({ type: 'vote-add', itemId: 'item-1' }));
+        messageHandler2(JSON.stringify({ type: 'vote-add', itemId: 'item-1' }));
+
+        messageHandler(JSON.stringify({ type: 'votes-reveal' }));
+
+        expect(wsManager.getRoom('message-test')?.votesRevealed).toBe(true);
+        expect(messagesOfType(mockWs2, 'votes-revealed')).toEqual([
+          { type: 'votes-revealed', votes: { 'item-1': [userId, userId2] } }
+        ]);
+
+        // Votes after the reveal are broadcast as usual
+        messageHandler2(JSON.stringify({ type: 'vote-add', itemId: 'item-2' }));
+        expect(messagesOfType(mockWs, 'vote-added')).toHaveLength(1);
+      });
+
+      it('should only let the facilitator reveal votes', () => {
+        const { mockWs2, messageHandler2 } = joinVoter();
+
+        messageHandler2(JSON.stringify({ type: 'votes-reveal' }));
+
+        expect(wsManager.getRoom('message-test')?.votesRevealed).toBe(false);
+        expect(messagesOfType(mockWs2, 'error').pop()).toMatchObject({ code: 'forbidden' });
+      });
+
+      it('should reveal votes when moving past the vote stage', () => {
+        const { mockWs2 } = joinVoter();
+
+        messageHandler(JSON.stringify({ type: 'stage-change', stageIndex: 2 }));
+
+        expect(wsManager.getRoom('message-test')?.votesRevealed).toBe(true);
+        expect(messagesOfType(mockWs2, 'votes-revealed')).toHaveLength(1);
+      });
+
+      it('should reject a reveal when blind voting is off', () => {
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({ blindVoting: false });
+
+        messageHandler(JSON.stringify({ type: 'votes-reveal' }));
+
+        expect(messagesOfType(mockWs, 'error').pop()).toMatchObject({ code: 'disabled', requestType: 'votes-reveal' });
+      });
+    });
+
+    describe('facilitators', () => {
+      const messagesOfType = (ws: any, type: string) =>
+        ws.send.mock.calls.map((call: any) => JSON.parse(call[0])).filter((msg: any) => msg.type === type);
+
+      const joinParticipant = () => {
+        const mockWs2 = createMockWebSocket();
+        connectionHandler(mockWs2, createMockRequest('/ws/retro/message-test'));
+        const handler = mockWs2.on.mock.calls.find((call: any) => call[0] === 'message')[1];
+        const id = JSON.parse(mockWs2.send.mock.calls[0][0]).userId;
+        return { mockWs2, messageHandler2: handler, userId2: id };
+      };
+
+      it('should hand the room to another participant and keep the old facilitator as co-facilitator', () => {
+        const { mockWs2, messageHandler2, userId2 } = joinParticipant();
+
+        messageHandler(JSON.stringify({ type: 'transfer-facilitator', participantId: userId2 }));
+
+        const room = wsManager.getRoom('message-test');
+        expect(room?.creatorId).toBe(userId2);
+        expect(room?.coFacilitatorIds).toEqual([userId]);
+        expect(messagesOfType(mockWs2, 'creator-assigned')).toEqual([{ type: 'creator-assigned', isCreator: true }]);
+        expect(messagesOfType(mockWs, 'creator-assigned')).toEqual([{ type: 'creator-assigned', isCreator: false }]);
+        expect(messagesOfType(mockWs, 'participants-update').pop().participants).toEqual([
+          expect.objectContaining({ id: userId, isCreator: false, isCoFacilitator: true }),
+          expect.objectContaining({ id: userId2, isCreator: true, isCoFacilitator: false })
+        ]);
+
+        // The new facilitator can now run the retro
+        messageHandler2(JSON.stringify({ type: 'stage-change', stageIndex: 2 }));
+        expect(room?.currentStage).toBe(2);
+      });
+
+      it('should reject a transfer to someone who is not in the room', () => {
+        messageHandler(JSON.stringify({ type: 'transfer-facilitator', participantId: 'nobody' }));
+
+        expect(wsManager.getRoom('message-test')?.creatorId).toBe(userId);
+        expect(messagesOfType(mockWs, 'error').pop()).toMatchObject({ code: 'not-found', requestType: 'transfer-facilitator' });
+      });
+
+      it('should let co-facilitators run the retro but not manage facilitators', () => {
+        const { mockWs2, messageHandler2, userId2 } = joinParticipant();
+
+        messageHandler(JSON.stringify({ type: 'co-facilitator-update', participantId: userId2, isCoFacilitator: true }));
+
+        expect(messagesOfType(mockWs2, 'co-facilitator-assigned')).toEqual([
+          { type: 'co-facilitator-assigned', isCoFacilitator: true }
+        ]);
+        messageHandler2(JSON.stringify({ type: 'stage-change', stageIndex: 3 }));
+        expect(wsManager.getRoom('message-test')?.currentStage).toBe(3);
+
+        messageHandler2(JSON.stringify({ type: 'transfer-facilitator', participantId: userId2 }));
+        expect(wsManager.getRoom('message-test')?.creatorId).toBe(userId);
+        expect(messagesOfType(mockWs2, 'error').pop()).toMatchObject({ code: 'forbidden' });
+
+        messageHandler(JSON.stringify({ type: 'co-facilitator-update', participantId: userId2, isCoFacilitator: false }));
+        expect(wsManager.getRoom('message-test')?.coFacilitatorIds).toEqual([]);
+        messageHandler2(JSON.stringify({ type: 'stage-change', stageIndex: 1 }));
+        expect(wsManager.getRoom('message-test')?.currentStage).toBe(3);
+      });
+
+      it('should not make the lead facilitator a co-facilitator', () => {
+        messageHandler(JSON.stringify({ type: 'co-facilitator-update', participantId: userId, isCoFacilitator: true }));
+
+        expect(wsManager.getRoom('message-test')?.coFacilitatorIds).toEqual([]);
+        expect(messagesOfType(mockWs, 'error').pop()).toMatchObject({ code: 'invalid-message' });
+      });
+
+      it('should promote a co-facilitator once the facilitator\'s reconnect window expires', () => {
+        const second = joinParticipant();
+        jest.advanceTimersByTime(1000);
+        const third = joinParticipant();
+        messageHandler(JSON.stringify({ type: 'co-facilitator-update', participantId: third.userId2, isCoFacilitator: true }));
+
+        mockWs.on.mock.calls.find((call: any) => call[0] === 'close')[1]();
+        jest.advanceTimersByTime(29000);
+        expect(wsManager.getRoom('message-test')?.creatorId).toBe(userId);
+
+        jest.advanceTimersByTime(2000);
+        const room = wsManager.getRoom('message-test');
+        expect(room?.creatorId).toBe(third.userId2);
+        expect(room?.coFacilitatorIds).toEqual([]);
+        expect(messagesOfType(third.mockWs2, 'creator-assigned')).toEqual([{ type: 'creator-assigned', isCreator: true }]);
+        expect(messagesOfType(second.mockWs2, 'creator-assigned')).toHaveLength(0);
+      });
+
+      it('should promote the longest-present participant when there is no co-facilitator', () => {
+        const second = joinParticipant();
+        jest.advanceTimersByTime(1000);
+        joinParticipant();
+        messageHandler(JSON.stringify({ type: 'stage-change', stageIndex: 1 }));
+
+        mockWs.on.mock.calls.find((call: any) => call[0] === 'close')[1]();
+        jest.advanceTimersByTime(31000);
+
+        expect(wsManager.getRoom('message-test')?.creatorId).toBe(second.userId2);
+      });
+
+      it('should promote someone straight away when the facilitator leaves without interacting', () => {
+        const second = joinParticipant();
+
+        mockWs.on.mock.calls.find((call: any) => call[0] === 'close')[1]();
+
+        expect(wsManager.getRoom('message-test')?.creatorId).toBe(second.userId2);
+      });
+
+      it('should keep the facilitator role when they reconnect in time', () => {
+        joinParticipant();
+        messageHandler(JSON.stringify({ type: 'stage-change', stageIndex: 1 }));
+
+        mockWs.on.mock.calls.find((call: any) => call[0] === 'close')[1]();
+        jest.advanceTimersByTime(10000);
+        connectionHandler(createMockWebSocket(), createMockRequest(`/ws/retro/message-test?userId=${userId}`));
+        jest.advanceTimersByTime(25000);
+
+        expect(wsManager.getRoom('message-test')?.creatorId).toBe(userId);
+      });
+    });
+
     describe('discuss-update', () => {
       it('should handle marking/unmarking items as discussed without duplicates', () => {
         // Mark as discussed
@@ -574,7 +1706,7 @@ describe('WebSocketManager', () => {
 
     describe('action-item-update', () => {
       it('should handle action item lifecycle (add, update, delete)', () => {
-        const actionItem = { id: 'action-1', text: 'Do something', assignee: 'John' };
+        const actionItem = { id: 'action-1', title: 'Do something', description: '', assigneeId: 'john', priority: 'high', dueDate: '', status: 'pending' };
         
         // Add
         messageHandler(JSON.stringify({
@@ -587,7 +1719,7 @@ describe('WebSocketManager', () => {
         expect(room?.actionItems).toContainEqual(actionItem);
 
         // Update
-        const updatedItem = { id: 'action-1', text: 'Updated task', assignee: 'Jane' };
+        const updatedItem = { ...actionItem, title: 'Updated task', assigneeId: 'jane' };
         messageHandler(JSON.stringify({
           type: 'action-item-update',
           action: 'action-updated',
@@ -605,6 +1737,18 @@ describe('WebSocketManager', () => {
 
         expect(room?.actionItems.find(a => a.id === 'action-1')).toBeUndefined();
       });
+
+      it('should send a webhook for added action items only', () => {
+        const retro = { id: 'message-test', status: 'active' };
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue(retro);
+        const actionItem = { id: 'action-1', title: 'Do something', description: '', assigneeId: '', priority: 'high', dueDate: '', status: 'pending' };
+
+        messageHandler(JSON.stringify({ type: 'action-item-update', action: 'action-added', actionItem }));
+        messageHandler(JSON.stringify({ type: 'action-item-update', action: 'action-updated', actionItem: { ...actionItem, status: 'completed' } }));
+
+        expect(emitWebhookEvent).toHaveBeenCalledTimes(1);
+        expect(emitWebhookEvent).toHaveBeenCalledWith('action-item.added', retro, { actionItem });
+      });
     });
 
     describe('reaction-toggle', () => {
@@ -659,6 +1803,104 @@ describe('WebSocketManager', () => {
       });
     });
 
+    describe('comments', () => {
+      const addComment = (content = 'Nice point') => {
+        messageHandler(JSON.stringify({ type: 'comment-add', itemId: 'card-1', content }));
+        return wsManager.getRoom('message-test')!.comments;
+      };
+
+      it('should add a comment with server-assigned id and author and broadcast it to everyone', () => {
+        mockWs.send.mockClear();
+
+        const comments = addComment('  Nice point  ');
+
+        expect(comments.length).toBe(1);
+        expect(comments[0]).toMatchObject({ itemId: 'card-1', authorId: userId, authorName: 'MockUser', content: 'Nice point' });
+        expect(comments[0].id).toBeDefined();
+
+        const added = mockWs.send.mock.calls
+          .map((call: any) => JSON.parse(call[0]))
+          .find((msg: any) => msg.type === 'comment-added');
+        expect(added.comment.id).toBe(comments[0].id);
+      });
+
+      it('should ignore empty comments', () => {
+        expect(addComment('   ').length).toBe(0);
+      });
+
+      it('should let only the author edit a comment', () => {
+        const comments = addComment();
+        const commentId = comments[0].id;
+
+        const mockWs2 = createMockWebSocket();
+        connectionHandler(mockWs2, createMockRequest('/ws/retro/message-test'));
+        const messageHandler2 = mockWs2.on.mock.calls.find((call: any) => call[0] === 'message')[1];
+
+        messageHandler2(JSON.stringify({ type: 'comment-edit', commentId, content: 'Hijacked' }));
+        expect(comments[0].content).toBe('Nice point');
+
+        messageHandler(JSON.stringify({ type: 'comment-edit', commentId, content: 'Edited' }));
+        expect(comments[0].content).toBe('Edited');
+        expect(comments[0].updatedAt).not.toBeNull();
+      });
+
+      it('should let the author delete a comment', () => {
+        const commentId = addComment()[0].id;
+
+        messageHandler(JSON.stringify({ type: 'comment-delete', commentId }));
+
+        expect(wsManager.getRoom('message-test')?.comments).toEqual([]);
+      });
+
+      it('should toggle comment reactions', () => {
+        const comments = addComment();
+        const commentId = comments[0].id;
+
+        messageHandler(JSON.stringify({ type: 'comment-reaction-toggle', commentId, emoji: '👍' }));
+        expect(comments[0].reactions['👍']).toEqual([userId]);
+
+        messageHandler(JSON.stringify({ type: 'comment-reaction-toggle', commentId, emoji: '👍' }));
+        expect(comments[0].reactions['👍']).toBeUndefined();
+      });
+
+      it('should reject comments when the retro has comments disabled', () => {
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({ commentsEnabled: false });
+
+        expect(addComment().length).toBe(0);
+      });
+
+      it('should reject comment reactions when the retro has them disabled', () => {
+        const comments = addComment();
+        (retrosModule.getRetroById as jest.Mock).mockReturnValue({ commentsEnabled: true, commentReactionsEnabled: false });
+
+        messageHandler(JSON.stringify({ type: 'comment-reaction-toggle', commentId: comments[0].id, emoji: '👍' }));
+
+        expect(comments[0].reactions).toEqual({});
+      });
+
+      it('should remove comments of a deleted card', () => {
+        messageHandler(JSON.stringify({
+          type: 'card-create',
+          card: { id: 'card-1', content: 'Commented card', columnId: 'col-1', authorId: userId, groupId: null, createdAt: '2024-01-01T00:00:00.000Z' }
+        }));
+        addComment();
+
+        messageHandler(JSON.stringify({ type: 'card-delete', cardId: 'card-1' }));
+
+        expect(wsManager.getRoom('message-test')?.comments).toEqual([]);
+      });
+
+      it('should include comments in currentState for new joiners', () => {
+        addComment();
+
+        const mockWs2 = createMockWebSocket();
+        connectionHandler(mockWs2, createMockRequest('/ws/retro/message-test'));
+
+        const joinMessage = JSON.parse(mockWs2.send.mock.calls[0][0]);
+        expect(joinMessage.currentState.comments[0].content).toBe('Nice point');
+      });
+    });
+
     describe('invalid messages', () => {
       it('should handle invalid JSON gracefully', () => {
         expect(() => {
@@ -716,6 +1958,34 @@ describe('WebSocketManager', () => {
       // Room should be cleaned up when empty
       expect(wsManager.getRoom('disconnect-test')).toBeUndefined();
       expect(namesModule.clearUsedNames).toHaveBeenCalledWith('disconnect-test');
+      expect(retrosModule.deleteRoomState).not.toHaveBeenCalled();
+    });
+
+    it('should snapshot the room when it closes and rehydrate it on a later connection', () => {
+      messageHandler(JSON.stringify({
+        type: 'action-item-update',
+        action: 'action-added',
+        actionItem: { id: 'action-1', title: 'Keep me', priority: 'medium', status: 'pending' }
+      }));
+      messageHandler(JSON.stringify({ type: 'stage-change', stageIndex: 6 }));
+
+      closeHandler();
+      jest.advanceTimersByTime(31000);
+      expect(wsManager.getRoom('disconnect-test')).toBeUndefined();
+
+      // Serve the last saved snapshot, as the repository would the next day
+      const saveCalls = (retrosModule.saveRoomState as jest.Mock).mock.calls;
+      const lastSnapshot = saveCalls[saveCalls.length - 1][0];
+      (retrosModule.getRoomState as jest.Mock).mockReturnValueOnce(lastSnapshot);
+
+      const mockWs2 = createMockWebSocket();
+      connectionHandler(mockWs2, createMockRequest('/ws/retro/disconnect-test'));
+
+      const message = JSON.parse(mockWs2.send.mock.calls[0][0]);
+      expect(message.currentState.currentStage).toBe(6);
+      expect(message.currentState.actionItems).toEqual([{ id: 'action-1', title: 'Keep me', priority: 'medium', status: 'pending' }]);
+      expect(message.currentState.id).toBeUndefined();
+      expect(message.currentState.creatorId).toBeUndefined();
     });
 
     it('should immediately remove quick disconnects without interaction (likely bots)', () => {
@@ -756,6 +2026,61 @@ describe('WebSocketManager', () => {
       expect(participants[0]).toHaveProperty('isCreator');
     });
 
+    it('should count cards, votes and action items of live and saved rooms', () => {
+      const mockServer = { listen: jest.fn() };
+      wsManager.initialize(mockServer);
+      (retrosModule.getRetroById as jest.Mock).mockReturnValue(null);
+      connectionHandler(createMockWebSocket(), createMockRequest('/ws/retro/count-test'));
+
+      const room = wsManager.getRoom('count-test')!;
+      room.cards.push({ id: 'card-1', columnId: 'col-1', content: 'Idea', authorId: 'u1', groupId: null, createdAt: new Date() });
+      room.votes = { 'card-1': ['u1', 'u2'], 'group-1': ['u1'] };
+      expect(wsManager.getRetroCounts('count-test')).toEqual({ cards: 1, votes: 3, actionItems: 0 });
+
+      (retrosModule.getRoomState as jest.Mock).mockReturnValueOnce({ cards: [], votes: {}, actionItems: [{ id: 'action-1' }] });
+      expect(wsManager.getRetroCounts('saved-room')).toEqual({ cards: 0, votes: 0, actionItems: 1 });
+      expect(wsManager.getRetroCounts('unknown-room')).toEqual({ cards: 0, votes: 0, actionItems: 0 });
+    });
+
+    it('should update action items of live rooms and tell the room', () => {
+      const mockServer = { listen: jest.fn() };
+      wsManager.initialize(mockServer);
+      (retrosModule.getRetroById as jest.Mock).mockReturnValue(null);
+      const mockWs = createMockWebSocket();
+      connectionHandler(mockWs, createMockRequest('/ws/retro/action-test'));
+
+      const room = wsManager.getRoom('action-test')!;
+      room.actionItems.push({
+        id: 'action-1', title: 'Fix CI', description: '', assigneeId: '', priority: 'high', dueDate: '', status: 'pending'
+      });
+
+      const updated = wsManager.updateActionItem('action-test', 'action-1', { status: 'completed' });
+
+      expect(updated).toMatchObject({ id: 'action-1', title: 'Fix CI', status: 'completed' });
+      expect(wsManager.getActionItems('action-test')).toEqual([updated]);
+      expect(retrosModule.saveRoomState).toHaveBeenCalledWith(expect.objectContaining({ id: 'action-test' }));
+      expect(JSON.parse(mockWs.send.mock.calls.pop()[0])).toEqual({
+        type: 'action-item-update',
+        action: 'action-updated',
+        actionItem: updated
+      });
+      expect(wsManager.updateActionItem('action-test', 'missing', { status: 'completed' })).toBeNull();
+    });
+
+    it('should update action items of saved rooms', () => {
+      const snapshot = {
+        id: 'saved-actions',
+        actionItems: [{ id: 'action-1', title: 'Fix CI', status: 'pending' }]
+      };
+      (retrosModule.getRoomState as jest.Mock).mockReturnValue(snapshot);
+
+      const updated = wsManager.updateActionItem('saved-actions', 'action-1', { assigneeId: 'user-2' });
+
+      expect(updated).toEqual({ id: 'action-1', title: 'Fix CI', status: 'pending', assigneeId: 'user-2' });
+      expect(retrosModule.saveRoomState).toHaveBeenCalledWith({ id: 'saved-actions', actionItems: [updated] });
+      (retrosModule.getRoomState as jest.Mock).mockReturnValue(undefined);
+    });
+
     it('should exclude disconnected participants', () => {
       const mockServer = { listen: jest.fn() };
       wsManager.initialize(mockServer);
@@ -806,7 +2131,7 @@ describe('WebSocketManager', () => {
       const messageHandler = mockWs1.on.mock.calls.find((call: any) => call[0] === 'message')[1];
       messageHandler(JSON.stringify({
         type: 'card-create',
-        card: { id: 'card-1', text: 'Test' }
+        card: { id: 'card-1', columnId: 'col-1', content: 'Test' }
       }));
 
       // Second user should receive card-created
@@ -0,0 +1,272 @@
+import { Request, Response } from 'express';
+import { findRetros, getRetroById, getPreviousTeamRetro } from '../data/retros';
+import { getTeamById } from '../data/users';
+import { getIssueTracker, IssueTrackerError } from '../data/issueTrackers';
+import { buildActionsCalendar } from '../data/calendar';
+import { isValidDueDate } from '../data/dueDates';
+import { hasRole } from '../data/roles';
+import { User } from '../models/User';
+import { ActionItem, ActionItemChanges, TrackedActionItem } from '../types';
+import { wsManager } from '../websocket/websocketManager';
+
+const ACTION_ITEM_STATUSES: readonly ActionItem['status'][] = ['pending', 'in_progress', 'completed'];
+// Besides a single status, the tracker can list every unfinished item ("open", the default) or all items
+const ACTION_STATUS_FILTERS = ['open', 'all', ...ACTION_ITEM_STATUSES] as const;
+type ActionStatusFilter = typeof ACTION_STATUS_FILTERS[number];
+
+const isActionItemStatus = (value: unknown): value is ActionItem['status'] => {
+  return ACTION_ITEM_STATUSES.includes(value as ActionItem['status']);
+};
+
+const matchesStatusFilter = (item: ActionItem, filter: ActionStatusFilter): boolean => {
+  if (filter === 'all') return true;
+  if (filter === 'open') return item.status !== 'completed';
+  return item.status === filter;
+};
+
+// Key of an action item across retros, as referenced by carriedOverFrom
+const toActionKey = (retroId: string, actionItemId: string) => `${retroId}/${actionItemId}`;
+
+// Action items of all the team's retros, newest retro first. Items carried over into a later
+// retro are left out since their copy is tracked instead.
+const getTeamActionItems = (teamId: string): TrackedActionItem[] => {
+  const tracked: TrackedActionItem[] = findRetros({ teamId }).flatMap(retro =>
+    wsManager.getActionItems(retro.id).map(item => ({
+      ...item,
+      retroId: retro.id,
+      retroName: retro.sessionName,
+      retroCreatedAt: retro.createdAt
+    }))
+  );
+  const carriedOver = new Set(
+    tracked
+      .filter(item => item.carriedOverFrom)
+      .map(item => toActionKey(item.carriedOverFrom!.retroId, item.carriedOverFrom!.actionItemId))
+  );
+
+  return tracked.filter(item => !carriedOver.has(toActionKey(item.retroId, item.id)));
+};
+
+// The team, if the user may see its action items
+const getVisibleTeam = (teamId: string, user: User) => {
+  const team = getTeamById(teamId);
+  return team && (team.memberIds.includes(user.id) || user.role === 'admin') ? team : undefined;
+};
+
+export const getActions = (req: Request, res: Response): void => {
+  try {
+    const user: User = res.locals.user;
+    const { teamId } = req.query;
+    const status = req.query.status === undefined ? 'open' : req.query.status;
+
+    if (typeof teamId !== 'string' || teamId.length === 0) {
+      res.status(400).json({ message: 'Team is required' });
+      return;
+    }
+    if (!ACTION_STATUS_FILTERS.includes(status as ActionStatusFilter)) {
+      res.status(400).json({ message: `Status must be one of: ${ACTION_STATUS_FILTERS.join(', ')}` });
+      return;
+    }
+
+    if (!getVisibleTeam(teamId, user)) {
+      res.status(404).json({ message: 'Team not found' });
+      return;
+    }
+
+    res.status(200).json(
+      getTeamActionItems(teamId).filter(item => matchesStatusFilter(item, status as ActionStatusFilter))
+    );
+  } catch (error) {
+    console.error('Error fetching action items:', error);
+    res.status(500).json({ message: 'Failed to fetch action items' });
+  }
+};
+
+// Due dates of the team's unfinished action items as an iCalendar file
+export const getActionsCalendar = (req: Request, res: Response): void => {
+  try {
+    const user: User = res.locals.user;
+    const { teamId } = req.query;
+
+    if (typeof teamId !== 'string' || teamId.length === 0) {
+      res.status(400).json({ message: 'Team is required' });
+      return;
+    }
+    const team = getVisibleTeam(teamId, user);
+    if (!team) {
+      res.status(404).json({ message: 'Team not found' });
+      return;
+    }
+
+    const items = getTeamActionItems(teamId).filter(item => matchesStatusFilter(item, 'open'));
+    res.attachment('actions.ics');
+    res.type('text/calendar').status(200).send(buildActionsCalendar(team.name, items));
+  } catch (error) {
+    console.error('Error generating action calendar:', error);
+    res.status(500).json({ message: 'Failed to generate action calendar' });
+  }
+};
+
+// Update an action item's status, assignee or due date outside of a live session
+export const updateAction = (req: Request, res: Response): void => {
+  try {
+    const { retroId, actionId } = req.params;
+    const { status, assigneeId, dueDate } = req.body;
+
+    const retro = getRetroById(retroId);
+    if (!retro) {
+      res.status(404).json({ message: 'Retrospective not found' });
+      return;
+    }
+    // Anyone may join a retro outside a team, so there only its facilitators may change action items
+    if (!retro.teamId && !hasRole(res.locals.role, 'facilitator')) {
+      res.status(403).json({ message: 'You do not have permission to do that' });
+      return;
+    }
+    if (status !== undefined && !isActionItemStatus(status)) {
+      res.status(400).json({ message: `Status must be one of: ${ACTION_ITEM_STATUSES.join(', ')}` });
+      return;
+    }
+    if ((assigneeId !== undefined && typeof assigneeId !== 'string') || (dueDate !== undefined && typeof dueDate !== 'string')) {
+      res.status(400).json({ message: 'Assignee and due date must be strings' });
+      return;
+    }
+    if (dueDate && !isValidDueDate(dueDate)) {
+      res.status(400).json({ message: 'Due date must be a date (yyyy-mm-dd)' });
+      return;
+    }
+
+    const changes: ActionItemChanges = {
+      ...(status !== undefined && { status }),
+      ...(assigneeId !== undefined && { assigneeId }),
+      ...(dueDate !== undefined && { dueDate })
+    };
+    const actionItem = wsManager.updateActionItem(retroId, actionId, changes);
+    if (!actionItem) {
+      res.status(404).json({ message: 'Action item not found' });
+      return;
+    }
+
+    res.status(200).json(actionItem);
+  } catch (error) {
+    console.error('Error updating action item:', error);
+    res.status(500).json({ message: 'Failed to update action item' });
+  }
+};
+
+// Name of the configured issue tracker, so clients know whether to offer pushing items to it
+export const getTracker = (_req: Request, res: Response): void => {
+  res.status(200).json({ name: getIssueTracker()?.name ?? null });
+};
+
+// Action items (by toActionKey) whose issue is being created right now
+const pushesInFlight = new Set<string>();
+
+// Create an issue for the action item in the issue tracker and remember its key on the item
+export const pushAction = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { retroId, actionId } = req.params;
+    const tracker = getIssueTracker();
+    if (!tracker) {
+      res.status(503).json({ message: 'No issue tracker is configured' });
+      return;
+    }
+
+    const retro = getRetroById(retroId);
+    if (!retro) {
+      res.status(404).json({ message: 'Retrospective not found' });
+      return;
+    }
+    const existing = wsManager.getActionItems(retroId).find(item => item.id === actionId);
+    if (!existing) {
+      res.status(404).json({ message: 'Action item not found' });
+      return;
+    }
+    if (existing.externalIssue) {
+      res.status(409).json({ message: `Action item is already in the tracker as ${existing.externalIssue.key}` });
+      return;
+    }
+    // Claimed before waiting on the tracker, so a double click can't create the issue twice
+    const key = toActionKey(retroId, actionId);
+    if (pushesInFlight.has(key)) {
+      res.status(409).json({ message: 'Action item is already being pushed to the tracker' });
+      return;
+    }
+    pushesInFlight.add(key);
+
+    try {
+      const externalIssue = await tracker.createIssue(existing, retro);
+      res.status(200).json(wsManager.updateActionItem(retroId, actionId, { externalIssue }));
+    } finally {
+      pushesInFlight.delete(key);
+    }
+  } catch (error) {
+    if (error instanceof IssueTrackerError) {
+      res.status(502).json({ message: error.message });
+      return;
+    }
+    console.error('Error pushing action item:', error);
+    res.status(500).json({ message: 'Failed to push action item' });
+  }
+};
+
+// Take over the status of the action item's issue from the issue tracker
+export const syncAction = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { retroId, actionId } = req.params;
+    const tracker = getIssueTracker();
+    if (!tracker) {
+      res.status(503).json({ message: 'No issue tracker is configured' });
+      return;
+    }
+
+    const existing = wsManager.getActionItems(retroId).find(item => item.id === actionId);
+    if (!existing) {
+      res.status(404).json({ message: 'Action item not found' });
+      return;
+    }
+    if (!existing.externalIssue) {
+      res.status(409).json({ message: 'Action item is not in the tracker' });
+      return;
+    }
+
+    const status = await tracker.getIssueStatus(existing.externalIssue);
+    if (!status || status === existing.status) {
+      res.status(200).json(existing);
+      return;
+    }
+    res.status(200).json(wsManager.updateActionItem(retroId, actionId, { status }));
+  } catch (error) {
+    if (error instanceof IssueTrackerError) {
+      res.status(502).json({ message: error.message });
+      return;
+    }
+    console.error('Error syncing action item:', error);
+    res.status(500).json({ message: 'Failed to sync action item' });
+  }
+};
+
+// Unfinished action items of the team's previous retro, for the "Previous Actions" stage
+export const getPreviousActions = (req: Request, res: Response): void => {
+  try {
+    const retro = getRetroById(req.params.id);
+    if (!retro) {
+      res.status(404).json({ message: 'Retrospective not found' });
+      return;
+    }
+
+    const previous = getPreviousTeamRetro(retro);
+    if (!previous) {
+      res.status(200).json({ retro: null, actionItems: [] });
+      return;
+    }
+
+    res.status(200).json({
+      retro: { id: previous.id, sessionName: previous.sessionName, createdAt: previous.createdAt },
+      actionItems: wsManager.getActionItems(previous.id).filter(item => item.status !== 'completed')
+    });
+  } catch (error) {
+    console.error('Error fetching previous action items:', error);
+    res.status(500).json({ message: 'Failed to fetch previous action items' });
+  }
+};
@@ -0,0 +1,41 @@
+import { Request, Response } from 'express';
+import { findRetros } from '../data/retros';
+import { getTeamById } from '../data/users';
+import { getTemplateById } from '../data/templates';
+import { buildTeamAnalytics } from '../data/analytics';
+import { User } from '../models/User';
+import { wsManager } from '../websocket/websocketManager';
+
+// Trends across the team's retros created in the optional date range
+export const getTeamAnalytics = (req: Request, res: Response): void => {
+  try {
+    const user: User = res.locals.user;
+    const teamId = req.query.teamId as string;
+    const team = getTeamById(teamId);
+
+    if (!team || (!team.memberIds.includes(user.id) && user.role !== 'admin')) {
+      res.status(404).json({ message: 'Team not found' });
+      return;
+    }
+
+    const { from, to } = req.query;
+    const retros = findRetros({
+      teamId,
+      from: typeof from === 'string' ? new Date(from) : undefined,
+      to: typeof to === 'string' ? new Date(to) : undefined
+    }).reverse();
+
+    res.status(200).json(buildTeamAnalytics(
+      teamId,
+      team.memberIds.length,
+      retros.map(retro => ({
+        retro,
+        room: wsManager.getRoomSnapshot(retro.id),
+        template: getTemplateById(retro.templateId)
+      }))
+    ));
+  } catch (error) {
+    console.error('Error fetching analytics:', error);
+    res.status(500).json({ message: 'Failed to fetch analytics' });
+  }
+};
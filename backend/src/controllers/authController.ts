@@ -0,0 +1,70 @@
+import { Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { createUser, getUserByEmail, getTeamsForUser, toPublicUser, toTeamWithMembers } from '../data/users';
+import { signAuthToken } from '../middleware/auth';
+import { User } from '../models/User';
+
+const BCRYPT_ROUNDS = 10;
+const EMAIL_TAKEN_MESSAGE = 'An account with this email already exists';
+
+export const register = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email, name, password } = req.body;
+
+    if (getUserByEmail(email)) {
+      res.status(409).json({ message: EMAIL_TAKEN_MESSAGE });
+      return;
+    }
+
+    const passwordHash = await bcrypt.hash(password, BCRYPT_ROUNDS);
+    // Another registration for the same email may have finished while the password was hashed
+    if (getUserByEmail(email)) {
+      res.status(409).json({ message: EMAIL_TAKEN_MESSAGE });
+      return;
+    }
+    const user = createUser({ email, name: name.trim(), passwordHash });
+
+    res.status(201).json({ token: signAuthToken(user), user: toPublicUser(user) });
+  } catch (error) {
+    console.error('Error registering user:', error);
+    res.status(500).json({ message: 'Failed to create account' });
+  }
+};
+
+export const login = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email, password } = req.body;
+
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      res.status(400).json({ message: 'Email and password are required' });
+      return;
+    }
+
+    // Same message for unknown emails and wrong passwords so accounts can't be probed
+    const user = getUserByEmail(email);
+    if (!user || !(await bcrypt.compare(password, user.passwordHash))) {
+      res.status(401).json({ message: 'Invalid email or password' });
+      return;
+    }
+
+    res.status(200).json({ token: signAuthToken(user), user: toPublicUser(user) });
+  } catch (error) {
+    console.error('Error logging in:', error);
+    res.status(500).json({ message: 'Failed to log in' });
+  }
+};
+
+// The logged-in user (set by requireAuth) with their teams
+export const getCurrentUser = (_req: Request, res: Response): void => {
+  try {
+    const user: User = res.locals.user;
+
+    res.status(200).json({
+      ...toPublicUser(user),
+      teams: getTeamsForUser(user.id).map(toTeamWithMembers)
+    });
+  } catch (error) {
+    console.error('Error fetching current user:', error);
+    res.status(500).json({ message: 'Failed to fetch user' });
+  }
+};
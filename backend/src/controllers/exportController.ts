@@ -0,0 +1,42 @@
+import { Request, Response } from 'express';
+import { getRetroById } from '../data/retros';
+import { getTemplateById } from '../data/templates';
+import { buildExportSheets, ExportFormat, toCsv, toXlsx } from '../data/export';
+import { wsManager } from '../websocket/websocketManager';
+
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// File name for a retro export, e.g. "sprint-42-retro.xlsx"
+const toFileName = (sessionName: string, format: ExportFormat): string => {
+  const slug = sessionName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'retro'}.${format}`;
+};
+
+// Cards, groups, action items and participants of the retro as a CSV or Excel download
+export const exportRetro = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const retro = getRetroById(req.params.id);
+    if (!retro) {
+      res.status(404).json({ message: 'Retrospective not found' });
+      return;
+    }
+
+    const format = (req.query.format as ExportFormat | undefined) || 'csv';
+    const sheets = buildExportSheets({
+      retro,
+      template: getTemplateById(retro.templateId),
+      room: wsManager.getRoomSnapshot(retro.id),
+      participantNames: wsManager.getParticipantNames(retro.id)
+    });
+
+    res.attachment(toFileName(retro.sessionName, format));
+    if (format === 'xlsx') {
+      res.type(XLSX_CONTENT_TYPE).status(200).send(await toXlsx(sheets));
+    } else {
+      res.type('text/csv').status(200).send(toCsv(sheets));
+    }
+  } catch (error) {
+    console.error('Error exporting retro:', error);
+    res.status(500).json({ message: 'Failed to export retro' });
+  }
+};
@@ -0,0 +1,84 @@
+import { randomBytes } from 'crypto';
+import { Request, Response } from 'express';
+import { getRetroById, getRetroByReportShareId, updateRetro } from '../data/retros';
+import { getTemplateById } from '../data/templates';
+import { buildRetroReport, renderHtmlReport, renderMarkdownReport } from '../data/report';
+import { Retro } from '../models/Retro';
+import { ReportFormat } from '../models/Report';
+import { wsManager } from '../websocket/websocketManager';
+
+// File name for a report download, e.g. "sprint-42-retro-report.md"
+const toFileName = (sessionName: string, format: ReportFormat): string => {
+  const slug = sessionName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'retro'}-report.${format}`;
+};
+
+// Render the retro's report in the format validated by validateReportQuery (HTML by default)
+const sendReport = (retro: Retro, req: Request, res: Response): void => {
+  const report = buildRetroReport({
+    retro,
+    template: getTemplateById(retro.templateId),
+    room: wsManager.getRoomSnapshot(retro.id),
+    participantNames: wsManager.getParticipantNames(retro.id)
+  });
+
+  if (req.query.format === 'md') {
+    res.type('text/markdown').status(200).send(renderMarkdownReport(report));
+  } else {
+    res.type('html').status(200).send(renderHtmlReport(report));
+  }
+};
+
+export const getRetroReport = (req: Request, res: Response): void => {
+  try {
+    const retro = getRetroById(req.params.id);
+    if (!retro) {
+      res.status(404).json({ message: 'Retrospective not found' });
+      return;
+    }
+
+    if (req.query.download !== undefined) {
+      res.attachment(toFileName(retro.sessionName, (req.query.format as ReportFormat | undefined) || 'html'));
+    }
+    sendReport(retro, req, res);
+  } catch (error) {
+    console.error('Error generating report:', error);
+    res.status(500).json({ message: 'Failed to generate report' });
+  }
+};
+
+// Create (or return) the read-only link to the retro's report. The link doesn't reveal the retro id,
+// which would let its holder join the retro itself.
+export const shareRetroReport = (req: Request, res: Response): void => {
+  try {
+    const retro = getRetroById(req.params.id);
+    if (!retro) {
+      res.status(404).json({ message: 'Retrospective not found' });
+      return;
+    }
+
+    const reportShareId = retro.reportShareId || randomBytes(24).toString('base64url');
+    if (!retro.reportShareId) {
+      updateRetro(retro.id, { reportShareId });
+    }
+    res.status(200).json({ url: `${req.protocol}://${req.get('host')}/api/reports/${reportShareId}` });
+  } catch (error) {
+    console.error('Error sharing report:', error);
+    res.status(500).json({ message: 'Failed to share report' });
+  }
+};
+
+export const getSharedReport = (req: Request, res: Response): void => {
+  try {
+    const retro = getRetroByReportShareId(req.params.shareId);
+    if (!retro) {
+      res.status(404).json({ message: 'Report not found' });
+      return;
+    }
+
+    sendReport(retro, req, res);
+  } catch (error) {
+    console.error('Error fetching shared report:', error);
+    res.status(500).json({ message: 'Failed to fetch report' });
+  }
+};
@@ -1,6 +1,6 @@
-﻿import { Request, Response } from 'express';
+﻿import { Request, Response, NextFunction } from 'express';
 import {
-  getAllRetros as getRetros,
+  findRetros,
   getRetroById as getRetro,
   createRetro as addRetro,
   updateRetro as modifyRetro,
@@ -8,12 +8,96 @@ import {
   getParticipantsByRetroId,
 } from '../data/retros';
 import { getTemplateById } from '../data/templates';
+import { createFacilitatorToken } from '../data/facilitatorTokens';
+import { getTeamById } from '../data/users';
+import { canTransitionStatus, isRetroStatus } from '../data/retroLifecycle';
+import { getRetroRole, hasRole } from '../data/roles';
+import { emitWebhookEvent } from '../data/webhooks';
+import { buildRetroInvite } from '../data/calendar';
+import { createAppError } from '../middleware/errorHandler';
+import { User } from '../models/User';
+import { DEFAULT_VOTING_LIMITS, Retro, RetroFilters, RetroStatus, VotingMethod } from '../models/Retro';
 import { wsManager } from '../websocket/websocketManager';
 
-export const getAllRetros = (_req: Request, res: Response): void => {
+// Optional vote caps must be positive whole numbers (null/undefined means no cap)
+const isValidVoteCap = (value: unknown): boolean => {
+  return value === undefined || value === null || (Number.isInteger(value) && (value as number) > 0);
+};
+
+// Optional start times must be parseable dates (null/undefined means not scheduled)
+const isValidScheduledAt = (value: unknown): boolean => {
+  return value === undefined || value === null || (typeof value === 'string' && !Number.isNaN(Date.parse(value)));
+};
+
+const isValidVotingMethod = (value: unknown): value is VotingMethod => {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DEFAULT_VOTING_LIMITS, value);
+};
+
+// Retro as sent to clients, without the facilitator token hash
+const toPublicRetro = (retro: Retro): Omit<Retro, 'facilitatorTokenHash'> => {
+  const { facilitatorTokenHash: _facilitatorTokenHash, ...publicRetro } = retro;
+  return publicRetro;
+};
+
+// Why a retro can't be moved to the requested status, or null if the lifecycle allows it
+const getStatusChangeError = (id: string, status: unknown): { statusCode: number; message: string } | null => {
+  if (!isRetroStatus(status)) {
+    return { statusCode: 400, message: 'Invalid status' };
+  }
+  const retro = getRetro(id);
+  if (!retro) {
+    return { statusCode: 404, message: 'Retrospective not found' };
+  }
+  if (!canTransitionStatus(retro.status, status)) {
+    return { statusCode: 409, message: `Cannot change a ${retro.status} retro to ${status}` };
+  }
+  return null;
+};
+
+// Tell the room about a retro's new status; completing it also notifies webhook subscribers
+const announceStatusChange = (retro: Retro, previousStatus: RetroStatus | undefined): void => {
+  wsManager.broadcastRetroStatus(retro.id, retro.status);
+  if (retro.status === 'completed' && previousStatus !== 'completed') {
+    void emitWebhookEvent('retro.completed', retro);
+  }
+};
+
+const DEFAULT_RETRO_PAGE_SIZE = 20;
+
+// Reads a single-valued query parameter; repeated parameters are ignored
+const getQueryString = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+};
+
+// Lists retros a page at a time, newest first, with counts of what happened in each.
+// Team retros are only listed for members of the team (and admins), like the team endpoints.
+// The query was checked by validateRetroQuery.
+export const getAllRetros = (req: Request, res: Response): void => {
   try {
-    const retros = getRetros();
-    res.status(200).json(retros);
+    const query = req.query;
+    const from = getQueryString(query.from);
+    const to = getQueryString(query.to);
+    const filters: RetroFilters = {
+      search: getQueryString(query.q),
+      templateId: getQueryString(query.templateId),
+      status: getQueryString(query.status) as RetroStatus | undefined,
+      teamId: getQueryString(query.teamId),
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined
+    };
+    const page = Number(getQueryString(query.page) ?? 1);
+    const pageSize = Number(getQueryString(query.pageSize) ?? DEFAULT_RETRO_PAGE_SIZE);
+
+    const user: User | undefined = res.locals.user;
+    const retros = findRetros(filters).filter(retro => !retro.teamId || hasRole(getRetroRole(retro, user), 'member'));
+    const pageRetros = retros.slice((page - 1) * pageSize, page * pageSize);
+
+    res.status(200).json({
+      retros: pageRetros.map(retro => ({ ...toPublicRetro(retro), counts: wsManager.getRetroCounts(retro.id) })),
+      total: retros.length,
+      page,
+      pageSize
+    });
   } catch (error) {
     console.error('Error fetching retros:', error);
     res.status(500).json({ message: 'Failed to fetch retrospectives' });
@@ -41,12 +125,13 @@ export const getRetroById = (req: Request, res: Response): void => {
         id: p.id,
         name: p.name,
         joinedAt: p.joinedAt,
-        isCreator: false
+        isCreator: false,
+        isCoFacilitator: false
       }));
     }
     
     res.status(200).json({
-      ...retro,
+      ...toPublicRetro(retro),
       template,
       participants
     });
@@ -56,7 +141,29 @@ export const getRetroById = (req: Request, res: Response): void => {
   }
 };
 
-export const createRetro = (req: Request, res: Response): void => {
+// Calendar invite for a scheduled retro. The app is served from the API's host unless APP_URL says otherwise.
+export const getRetroInvite = (req: Request, res: Response): void => {
+  try {
+    const retro = getRetro(req.params.id);
+    if (!retro) {
+      res.status(404).json({ message: 'Retrospective not found' });
+      return;
+    }
+    if (!retro.scheduledAt) {
+      res.status(409).json({ message: 'Retrospective has no start time' });
+      return;
+    }
+
+    const appUrl = process.env.APP_URL?.replace(/\/+$/, '') || `${req.protocol}://${req.get('host')}`;
+    res.attachment('invite.ics');
+    res.type('text/calendar').status(200).send(buildRetroInvite(retro, `${appUrl}/retro/${retro.id}/join`));
+  } catch (error) {
+    console.error('Error generating retro invite:', error);
+    res.status(500).json({ message: 'Failed to generate retro invite' });
+  }
+};
+
+export const createRetro = (req: Request, res: Response, next: NextFunction): void => {
   try {
     const { 
       sessionName, 
@@ -64,13 +171,20 @@ export const createRetro = (req: Request, res: Response): void => {
       templateId, 
       isAnonymous, 
       votingLimit, 
+      votingMethod,
+      maxVotesPerItem,
+      blindVoting,
       timerDuration,
       stages,
       reactionsEnabled,
       commentsEnabled,
       commentReactionsEnabled,
-      nameDeck
+      nameDeck,
+      teamId,
+      scheduledAt
     } = req.body;
+    // Set by optionalAuth when the creator is logged in
+    const user: User | undefined = res.locals.user;
     
     if (!sessionName || !templateId) {
       res.status(400).json({ message: 'Session name and template are required' });
@@ -82,16 +196,53 @@ export const createRetro = (req: Request, res: Response): void => {
       res.status(400).json({ message: 'Invalid template ID' });
       return;
     }
+
+    if (!isValidVoteCap(maxVotesPerItem)) {
+      res.status(400).json({ message: 'Max votes per item must be a positive whole number' });
+      return;
+    }
+
+    if (votingMethod !== undefined && !isValidVotingMethod(votingMethod)) {
+      res.status(400).json({ message: 'Voting method must be one of: dots, ranked, points' });
+      return;
+    }
+
+    if (!isValidScheduledAt(scheduledAt)) {
+      res.status(400).json({ message: 'Start time must be a valid date' });
+      return;
+    }
+
+    if (teamId !== undefined) {
+      const team = getTeamById(teamId);
+      if (!team) {
+        res.status(400).json({ message: 'Invalid team ID' });
+        return;
+      }
+      // Only members can create retros for a team
+      if (!user || !team.memberIds.includes(user.id)) {
+        next(createAppError('You do not have permission to do that', 403));
+        return;
+      }
+    }
+
+    // Settings left out of the request fall back to the template's defaults, then the app's
+    const templateOptions = template.options ?? {};
+    const method: VotingMethod = votingMethod || templateOptions.votingMethod || 'dots';
+    const { token: facilitatorToken, tokenHash: facilitatorTokenHash } = createFacilitatorToken();
     
     const newRetro = addRetro({
       sessionName,
       context: context || '',
       templateId,
       isAnonymous: isAnonymous || false,
-      votingLimit: votingLimit || 5,
+      votingLimit: votingLimit || DEFAULT_VOTING_LIMITS[method],
+      votingMethod: method,
+      // Each item can only be ranked once, so per-item caps only apply to dots and points
+      maxVotesPerItem: method === 'ranked' ? null : maxVotesPerItem || null,
+      blindVoting: blindVoting || false,
       timerDuration: timerDuration || null,
       status: 'draft',
-      stages: stages || [
+      stages: stages || template.stages || [
         { id: 'brainstorm', name: 'Brainstorm', duration: 0, enabled: true },
         { id: 'group', name: 'Group', duration: 0, enabled: true },
         { id: 'vote', name: 'Vote', duration: 0, enabled: true },
@@ -99,13 +250,20 @@ export const createRetro = (req: Request, res: Response): void => {
         { id: 'review', name: 'Review', duration: 0, enabled: true },
         { id: 'report', name: 'Report', duration: 0, enabled: true },
       ],
-      reactionsEnabled: reactionsEnabled !== undefined ? reactionsEnabled : true,
-      commentsEnabled: commentsEnabled !== undefined ? commentsEnabled : true,
-      commentReactionsEnabled: commentReactionsEnabled !== undefined ? commentReactionsEnabled : true,
-      nameDeck: nameDeck || 'random',
+      reactionsEnabled: reactionsEnabled ?? templateOptions.reactionsEnabled ?? true,
+      commentsEnabled: commentsEnabled ?? templateOptions.commentsEnabled ?? true,
+      commentReactionsEnabled: commentReactionsEnabled ?? templateOptions.commentReactionsEnabled ?? true,
+      nameDeck: nameDeck || templateOptions.nameDeck || 'random',
+      facilitatorTokenHash,
+      ownerId: user?.id,
+      teamId,
+      scheduledAt: scheduledAt ? new Date(scheduledAt) : null,
     });
     
-    res.status(201).json(newRetro);
+    void emitWebhookEvent('retro.created', newRetro);
+
+    // The token is only ever returned here; whoever holds it facilitates the retro
+    res.status(201).json({ ...toPublicRetro(newRetro), facilitatorToken });
   } catch (error) {
     console.error('Error creating retro:', error);
     res.status(500).json({ message: 'Failed to create retrospective' });
@@ -115,23 +273,64 @@ export const createRetro = (req: Request, res: Response): void => {
 export const updateRetro = (req: Request, res: Response): void => {
   try {
     const { id } = req.params;
-    const { sessionName, context, isAnonymous, votingLimit, timerDuration, status } = req.body;
+    const {
+      sessionName,
+      context,
+      isAnonymous,
+      votingLimit,
+      maxVotesPerItem,
+      timerDuration,
+      status,
+      scheduledAt
+    } = req.body;
+
+    const changesVoteLimits = votingLimit !== undefined || maxVotesPerItem !== undefined;
+    if (!isValidVoteCap(maxVotesPerItem)) {
+      res.status(400).json({ message: 'Max votes per item must be a positive whole number' });
+      return;
+    }
+    if (!isValidScheduledAt(scheduledAt)) {
+      res.status(400).json({ message: 'Start time must be a valid date' });
+      return;
+    }
+    if (status !== undefined) {
+      const statusError = getStatusChangeError(id, status);
+      if (statusError) {
+        res.status(statusError.statusCode).json({ message: statusError.message });
+        return;
+      }
+    }
+    // Changing limits after votes were cast would leave some participants over budget
+    if (changesVoteLimits && wsManager.hasVotes(id)) {
+      res.status(409).json({ message: 'Vote limits cannot be changed once voting has started' });
+      return;
+    }
     
+    const previousStatus = getRetro(id)?.status;
     const updatedRetro = modifyRetro(id, {
       ...(sessionName && { sessionName }),
       ...(context !== undefined && { context }),
       ...(isAnonymous !== undefined && { isAnonymous }),
       ...(votingLimit !== undefined && { votingLimit }),
+      ...(maxVotesPerItem !== undefined && { maxVotesPerItem }),
       ...(timerDuration !== undefined && { timerDuration }),
-      ...(status && { status })
+      ...(status && { status }),
+      ...(scheduledAt !== undefined && { scheduledAt: scheduledAt ? new Date(scheduledAt) : null })
     });
     
     if (!updatedRetro) {
       res.status(404).json({ message: 'Retrospective not found' });
       return;
     }
+
+    if (changesVoteLimits) {
+      wsManager.broadcastVoteBudgets(id);
+    }
+    if (status) {
+      announceStatusChange(updatedRetro, previousStatus);
+    }
     
-    res.status(200).json(updatedRetro);
+    res.status(200).json(toPublicRetro(updatedRetro));
   } catch (error) {
     console.error('Error updating retro:', error);
     res.status(500).json({ message: 'Failed to update retrospective' });
@@ -160,20 +359,23 @@ export const updateRetroStatus = (req: Request, res: Response): void => {
     const { id } = req.params;
     const { status } = req.body;
     
-    const validStatuses = ['draft', 'active', 'voting', 'completed'];
-    if (!validStatuses.includes(status)) {
-      res.status(400).json({ message: 'Invalid status' });
+    const statusError = getStatusChangeError(id, status);
+    if (statusError) {
+      res.status(statusError.statusCode).json({ message: statusError.message });
       return;
     }
     
+    const previousStatus = getRetro(id)?.status;
     const updatedRetro = modifyRetro(id, { status });
     
     if (!updatedRetro) {
       res.status(404).json({ message: 'Retrospective not found' });
       return;
     }
+
+    announceStatusChange(updatedRetro, previousStatus);
     
-    res.status(200).json(updatedRetro);
+    res.status(200).json(toPublicRetro(updatedRetro));
   } catch (error) {
     console.error('Error updating retro status:', error);
     res.status(500).json({ message: 'Failed to update retrospective status' });
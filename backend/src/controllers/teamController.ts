@@ -0,0 +1,103 @@
+import { Request, Response } from 'express';
+import {
+  getTeamById as getTeam,
+  getTeamsForUser,
+  createTeam as addTeam,
+  addTeamMember as addMember,
+  removeTeamMember as removeMember,
+  getUserByEmail,
+  toTeamWithMembers,
+} from '../data/users';
+import { User } from '../models/User';
+
+// Teams are only visible to and managed by their members
+export const getMyTeams = (_req: Request, res: Response): void => {
+  try {
+    const user: User = res.locals.user;
+    res.status(200).json(getTeamsForUser(user.id).map(toTeamWithMembers));
+  } catch (error) {
+    console.error('Error fetching teams:', error);
+    res.status(500).json({ message: 'Failed to fetch teams' });
+  }
+};
+
+export const getTeamById = (req: Request, res: Response): void => {
+  try {
+    const user: User = res.locals.user;
+    const team = getTeam(req.params.id);
+
+    if (!team || !team.memberIds.includes(user.id)) {
+      res.status(404).json({ message: 'Team not found' });
+      return;
+    }
+
+    res.status(200).json(toTeamWithMembers(team));
+  } catch (error) {
+    console.error('Error fetching team:', error);
+    res.status(500).json({ message: 'Failed to fetch team' });
+  }
+};
+
+export const createTeam = (req: Request, res: Response): void => {
+  try {
+    const user: User = res.locals.user;
+    const { name } = req.body;
+
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      res.status(400).json({ message: 'Team name is required' });
+      return;
+    }
+
+    const team = addTeam(name.trim(), user.id);
+    res.status(201).json(toTeamWithMembers(team));
+  } catch (error) {
+    console.error('Error creating team:', error);
+    res.status(500).json({ message: 'Failed to create team' });
+  }
+};
+
+export const addTeamMember = (req: Request, res: Response): void => {
+  try {
+    const user: User = res.locals.user;
+    const team = getTeam(req.params.id);
+
+    if (!team || !team.memberIds.includes(user.id)) {
+      res.status(404).json({ message: 'Team not found' });
+      return;
+    }
+
+    const { email } = req.body;
+    const member = typeof email === 'string' ? getUserByEmail(email) : undefined;
+    if (!member) {
+      res.status(404).json({ message: 'No account with this email' });
+      return;
+    }
+
+    res.status(200).json(toTeamWithMembers(addMember(team.id, member.id)!));
+  } catch (error) {
+    console.error('Error adding team member:', error);
+    res.status(500).json({ message: 'Failed to add team member' });
+  }
+};
+
+export const removeTeamMember = (req: Request, res: Response): void => {
+  try {
+    const user: User = res.locals.user;
+    const team = getTeam(req.params.id);
+
+    if (!team || !team.memberIds.includes(user.id)) {
+      res.status(404).json({ message: 'Team not found' });
+      return;
+    }
+
+    if (!team.memberIds.includes(req.params.userId)) {
+      res.status(404).json({ message: 'Member not found' });
+      return;
+    }
+
+    res.status(200).json(toTeamWithMembers(removeMember(team.id, req.params.userId)!));
+  } catch (error) {
+    console.error('Error removing team member:', error);
+    res.status(500).json({ message: 'Failed to remove team member' });
+  }
+};
@@ -1,5 +1,62 @@
-import { Request, Response } from 'express';
-import { getAllTemplates as getTemplates, getTemplateById as getTemplate } from '../data/templates';
+import { Request, Response, NextFunction } from 'express';
+import {
+  getAllTemplates as getTemplates,
+  getTemplateById as getTemplate,
+  createTemplate as addTemplate,
+  updateTemplate as modifyTemplate,
+  deleteTemplate as removeTemplate,
+  toTemplateFile,
+} from '../data/templates';
+import { getAllRetros } from '../data/retros';
+import { createAppError } from '../middleware/errorHandler';
+import { Template, TemplateColumn, TemplateOptions } from '../models/Template';
+import { User } from '../models/User';
+
+// Columns as validated by validateTemplate, trimmed and renumbered 1..n in their requested order
+const normalizeColumns = (columns: TemplateColumn[]): TemplateColumn[] => {
+  return [...columns]
+    .sort((a, b) => a.order - b.order)
+    .map((column, index) => ({
+      id: column.id.trim(),
+      name: column.name.trim(),
+      color: column.color.toLowerCase(),
+      order: index + 1,
+      placeholder: column.placeholder?.trim() || ''
+    }));
+};
+
+// Only the known options of an imported file are kept
+const pickOptions = (options: TemplateOptions | undefined): TemplateOptions | undefined => {
+  if (!options) return undefined;
+  const { nameDeck, votingMethod, reactionsEnabled, commentsEnabled, commentReactionsEnabled } = options;
+  return { nameDeck, votingMethod, reactionsEnabled, commentsEnabled, commentReactionsEnabled };
+};
+
+// File name for a template download, e.g. "start-stop-continue.template.json"
+const toFileName = (name: string): string => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'template'}.template.json`;
+};
+
+// Cards of existing retros point at column ids, and retros show the template's column names
+const keepsColumns = (current: TemplateColumn[], updated: TemplateColumn[]): boolean => {
+  return current.every(column => updated.some(other => other.id === column.id && other.name === column.name));
+};
+
+// Retros render their columns from the template, so it has to outlive them
+const isTemplateInUse = (id: string): boolean => getAllRetros().some(retro => retro.templateId === id);
+
+// System templates can't be changed; custom ones only by their creator or an admin
+const checkCanModify = (template: Template, res: Response): Error | null => {
+  if (template.isDefault) {
+    return createAppError('System templates cannot be changed', 403);
+  }
+  const user: User = res.locals.user;
+  if (template.createdBy !== user.id && res.locals.role !== 'admin') {
+    return createAppError('You do not have permission to do that', 403);
+  }
+  return null;
+};
 
 export const getAllTemplates = (_req: Request, res: Response): void => {
   try {
@@ -27,3 +84,124 @@ export const getTemplateById = (req: Request, res: Response): void => {
     res.status(500).json({ message: 'Failed to fetch template' });
   }
 };
+
+export const createTemplate = (req: Request, res: Response): void => {
+  try {
+    const { name, description, columns } = req.body;
+    const user: User = res.locals.user;
+
+    const template = addTemplate({
+      name: name.trim(),
+      description: description?.trim() || '',
+      columns: normalizeColumns(columns),
+      createdBy: user.id
+    });
+
+    res.status(201).json(template);
+  } catch (error) {
+    console.error('Error creating template:', error);
+    res.status(500).json({ message: 'Failed to create template' });
+  }
+};
+
+export const updateTemplate = (req: Request, res: Response, next: NextFunction): void => {
+  try {
+    const { id } = req.params;
+    const { name, description, columns } = req.body;
+
+    const template = getTemplate(id);
+    if (!template) {
+      res.status(404).json({ message: 'Template not found' });
+      return;
+    }
+    const permissionError = checkCanModify(template, res);
+    if (permissionError) {
+      next(permissionError);
+      return;
+    }
+
+    const updatedColumns = normalizeColumns(columns);
+    if (!keepsColumns(template.columns, updatedColumns) && isTemplateInUse(id)) {
+      res.status(409).json({ message: 'Columns of a template used by existing retrospectives cannot be renamed or removed' });
+      return;
+    }
+
+    const updatedTemplate = modifyTemplate(id, {
+      name: name.trim(),
+      description: description?.trim() || '',
+      columns: updatedColumns
+    });
+
+    res.status(200).json(updatedTemplate);
+  } catch (error) {
+    console.error('Error updating template:', error);
+    res.status(500).json({ message: 'Failed to update template' });
+  }
+};
+
+export const deleteTemplate = (req: Request, res: Response, next: NextFunction): void => {
+  try {
+    const { id } = req.params;
+
+    const template = getTemplate(id);
+    if (!template) {
+      res.status(404).json({ message: 'Template not found' });
+      return;
+    }
+    const permissionError = checkCanModify(template, res);
+    if (permissionError) {
+      next(permissionError);
+      return;
+    }
+
+    if (isTemplateInUse(id)) {
+      res.status(409).json({ message: 'Template is used by existing retrospectives' });
+      return;
+    }
+
+    removeTemplate(id);
+    res.status(200).json({ message: 'Template deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting template:', error);
+    res.status(500).json({ message: 'Failed to delete template' });
+  }
+};
+
+export const exportTemplate = (req: Request, res: Response): void => {
+  try {
+    const template = getTemplate(req.params.id);
+    if (!template) {
+      res.status(404).json({ message: 'Template not found' });
+      return;
+    }
+
+    res.attachment(toFileName(template.name));
+    res.status(200).json(toTemplateFile(template));
+  } catch (error) {
+    console.error('Error exporting template:', error);
+    res.status(500).json({ message: 'Failed to export template' });
+  }
+};
+
+// Import a file validated by validateTemplateFile as a new custom template of the caller
+export const importTemplate = (req: Request, res: Response): void => {
+  try {
+    const { name, description, columns, stages, icebreakerQuestions, options } = req.body.template;
+    const user: User = res.locals.user;
+
+    const template = addTemplate({
+      name: name.trim(),
+      description: description?.trim() || '',
+      columns: normalizeColumns(columns),
+      stages,
+      icebreakerQuestions: icebreakerQuestions?.map((question: string) => question.trim()),
+      options: pickOptions(options),
+      createdBy: user.id
+    });
+
+    res.status(201).json(template);
+  } catch (error) {
+    console.error('Error importing template:', error);
+    res.status(500).json({ message: 'Failed to import template' });
+  }
+};
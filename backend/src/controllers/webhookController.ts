@@ -0,0 +1,68 @@
+import { Request, Response } from 'express';
+import {
+  getWebhookSubscriptions,
+  getWebhookSubscriptionById,
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  getWebhookDeliveries
+} from '../data/webhooks';
+import { User } from '../models/User';
+import { PublicWebhookSubscription, WebhookSubscription } from '../models/Webhook';
+
+// The secret is only known to whoever set it up and the subscriber
+const toPublicWebhook = (subscription: WebhookSubscription): PublicWebhookSubscription => {
+  const { secret: _secret, ...publicSubscription } = subscription;
+  return publicSubscription;
+};
+
+export const getWebhooks = (_req: Request, res: Response): void => {
+  try {
+    res.status(200).json(getWebhookSubscriptions().map(toPublicWebhook));
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    res.status(500).json({ message: 'Failed to fetch webhooks' });
+  }
+};
+
+export const createWebhook = (req: Request, res: Response): void => {
+  try {
+    const user: User = res.locals.user;
+    const { url, secret, events } = req.body;
+
+    const subscription = createWebhookSubscription({ url, secret, events }, user.id);
+    res.status(201).json(toPublicWebhook(subscription));
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    res.status(500).json({ message: 'Failed to create webhook' });
+  }
+};
+
+export const deleteWebhook = (req: Request, res: Response): void => {
+  try {
+    if (!deleteWebhookSubscription(req.params.id)) {
+      res.status(404).json({ message: 'Webhook not found' });
+      return;
+    }
+
+    res.status(200).json({ message: 'Webhook deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({ message: 'Failed to delete webhook' });
+  }
+};
+
+// Recent deliveries of the subscription, newest first, with every attempt made
+export const getWebhookDeliveryLog = (req: Request, res: Response): void => {
+  try {
+    const { id } = req.params;
+    if (!getWebhookSubscriptionById(id)) {
+      res.status(404).json({ message: 'Webhook not found' });
+      return;
+    }
+
+    res.status(200).json(getWebhookDeliveries(id));
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    res.status(500).json({ message: 'Failed to fetch webhook deliveries' });
+  }
+};
@@ -0,0 +1,137 @@
+import { Retro } from '../models/Retro';
+import { Template } from '../models/Template';
+import { ColumnCardCount, RecurringTheme, RetroTrendPoint, TeamAnalytics } from '../models/Analytics';
+import { RoomSnapshot, VoteData } from '../types';
+
+// Vote concentration looks at how many votes the most voted items took
+const TOP_VOTED_ITEMS = 3;
+const MAX_RECURRING_THEMES = 10;
+const MIN_TERM_LENGTH = 4;
+// Color for cards in columns the template no longer has
+const UNKNOWN_COLUMN_COLOR = '#6b7280';
+
+// Common words that say nothing about a theme
+const STOP_WORDS = new Set([
+  'about', 'after', 'again', 'also', 'been', 'before', 'being', 'both', 'could', 'does', 'doing', 'done',
+  'each', 'even', 'from', 'good', 'have', 'here', 'into', 'just', 'less', 'like', 'made', 'make', 'more',
+  'most', 'much', 'need', 'needs', 'only', 'other', 'over', 'really', 'same', 'should', 'some', 'still',
+  'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'time',
+  'very', 'want', 'well', 'were', 'what', 'when', 'where', 'which', 'while', 'will', 'with', 'would', 'your'
+]);
+
+// A team retro with its saved (or live) room state and template, if they exist
+export interface RetroAnalyticsInput {
+  retro: Retro;
+  room?: RoomSnapshot;
+  template?: Template;
+}
+
+const toRate = (part: number, whole: number): number | null => (whole > 0 ? part / whole : null);
+
+// Cards per template column in template order; cards in columns the template lacks come last
+export const getCardsPerColumn = (template: Template | undefined, room: RoomSnapshot | undefined): ColumnCardCount[] => {
+  const counts = new Map<string, number>();
+  room?.cards.forEach(card => counts.set(card.columnId, (counts.get(card.columnId) || 0) + 1));
+
+  const columns = [...(template?.columns || [])].sort((a, b) => a.order - b.order);
+  const known = new Set(columns.map(column => column.id));
+  return [
+    ...columns.map(column => ({
+      columnId: column.id,
+      columnName: column.name,
+      color: column.color,
+      count: counts.get(column.id) || 0
+    })),
+    ...Array.from(counts.entries())
+      .filter(([columnId]) => !known.has(columnId))
+      .map(([columnId, count]) => ({ columnId, columnName: columnId, color: UNKNOWN_COLUMN_COLOR, count }))
+  ];
+};
+
+// Share of all votes taken by the most voted items (1 means everyone voted for the same few items)
+export const getVoteConcentration = (votes: VoteData): number | null => {
+  const tallies = Object.values(votes).map(voters => voters.length).sort((a, b) => b - a);
+  const total = tallies.reduce((sum, tally) => sum + tally, 0);
+  const top = tallies.slice(0, TOP_VOTED_ITEMS).reduce((sum, tally) => sum + tally, 0);
+  return toRate(top, total);
+};
+
+// Ids of the people who added a card or voted
+export const getParticipantIds = (room: RoomSnapshot | undefined): Set<string> => {
+  const ids = new Set(room?.cards.map(card => card.authorId));
+  Object.values(room?.votes || {}).forEach(voters => voters.forEach(voterId => ids.add(voterId)));
+  return ids;
+};
+
+// Distinct people who added a card or voted
+export const getParticipantCount = (room: RoomSnapshot | undefined): number => getParticipantIds(room).size;
+
+// Lowercase words of a card worth counting as a theme
+export const getCardTerms = (content: string): Set<string> => {
+  const words = content.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return new Set(words.filter(word => word.length >= MIN_TERM_LENGTH && !STOP_WORDS.has(word)));
+};
+
+// Terms mentioned in the cards of at least two retros, the most widespread first
+export const findRecurringThemes = (rooms: Array<RoomSnapshot | undefined>): RecurringTheme[] => {
+  const themes = new Map<string, RecurringTheme>();
+  rooms.forEach(room => {
+    const termsInRetro = new Set<string>();
+    room?.cards.forEach(card => {
+      getCardTerms(card.content).forEach(term => {
+        const theme = themes.get(term) || { term, retroCount: 0, cardCount: 0 };
+        theme.cardCount++;
+        if (!termsInRetro.has(term)) {
+          theme.retroCount++;
+          termsInRetro.add(term);
+        }
+        themes.set(term, theme);
+      });
+    });
+  });
+
+  return Array.from(themes.values())
+    .filter(theme => theme.retroCount >= 2)
+    .sort((a, b) => b.retroCount - a.retroCount || b.cardCount - a.cardCount || a.term.localeCompare(b.term))
+    .slice(0, MAX_RECURRING_THEMES);
+};
+
+const toTrendPoint = ({ retro, room, template }: RetroAnalyticsInput, teamSize: number): RetroTrendPoint => {
+  const actionItems = room?.actionItems || [];
+  const completed = actionItems.filter(item => item.status === 'completed').length;
+  const participants = getParticipantCount(room);
+
+  return {
+    retroId: retro.id,
+    sessionName: retro.sessionName,
+    createdAt: retro.createdAt,
+    cardsPerColumn: getCardsPerColumn(template, room),
+    actionItems: { total: actionItems.length, completed },
+    actionCompletionRate: toRate(completed, actionItems.length),
+    participants,
+    // Someone joining from several devices counts more than once, so the rate is capped
+    participationRate: teamSize > 0 ? Math.min(1, participants / teamSize) : null,
+    voteConcentration: room ? getVoteConcentration(room.votes) : null
+  };
+};
+
+/**
+ * Trends across a team's retros.
+ * @param retros - The team's retros, oldest first
+ * @param teamSize - Number of team members, the base of the participation rate
+ */
+export const buildTeamAnalytics = (teamId: string, teamSize: number, retros: RetroAnalyticsInput[]): TeamAnalytics => {
+  const points = retros.map(input => toTrendPoint(input, teamSize));
+  const totals = points.reduce(
+    (sum, point) => ({ total: sum.total + point.actionItems.total, completed: sum.completed + point.actionItems.completed }),
+    { total: 0, completed: 0 }
+  );
+
+  return {
+    teamId,
+    teamSize,
+    retros: points,
+    actionCompletionRate: toRate(totals.completed, totals.total),
+    recurringThemes: findRecurringThemes(retros.map(input => input.room))
+  };
+};
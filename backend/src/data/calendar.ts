@@ -0,0 +1,118 @@
+import { format } from 'date-fns';
+import { Retro } from '../models/Retro';
+import { TrackedActionItem } from '../types';
+import { isValidDueDate } from './dueDates';
+
+// Scheduled retros have no end time of their own
+export const INVITE_DURATION_MINUTES = 60;
+
+const PRODUCT_ID = '-//TeamRetro//Retrospectives//EN';
+const UID_DOMAIN = 'team-retro';
+// Lines longer than this many octets are folded onto continuation lines (RFC 5545, 3.1)
+const MAX_LINE_OCTETS = 75;
+
+// Commas, semicolons, backslashes and line breaks have to be escaped in TEXT values
+const escapeText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Fold long lines without splitting multi-byte characters
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// UTC date-time, e.g. 20250301T100000Z
+const toDateTime = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// All-day date of a yyyy-mm-dd due date, e.g. 20250320
+const toDate = (day: string): string => day.replace(/-/g, '');
+
+const nextDay = (day: string): string => {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return toDate(date.toISOString().slice(0, 10));
+};
+
+const toCalendar = (events: string[][], name?: string): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    ...events.flatMap(event => ['BEGIN:VEVENT', ...event, 'END:VEVENT']),
+    'END:VCALENDAR'
+  ];
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+/**
+ * An iCalendar invite for a scheduled retro, linking to its join page.
+ * @param joinUrl - Absolute URL of the retro's /retro/:id/join page
+ */
+export const buildRetroInvite = (retro: Retro, joinUrl: string, now: Date = new Date()): string => {
+  const start = new Date(retro.scheduledAt!);
+  const end = new Date(start.getTime() + INVITE_DURATION_MINUTES * 60 * 1000);
+  const description = [retro.context, `Join the retro: ${joinUrl}`].filter(Boolean).join('\n\n');
+
+  return toCalendar([[
+    `UID:retro-${retro.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${toDateTime(now)}`,
+    `DTSTART:${toDateTime(start)}`,
+    `DTEND:${toDateTime(end)}`,
+    `SUMMARY:${escapeText(retro.sessionName)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${escapeText(joinUrl)}`,
+    `URL:${joinUrl}`
+  ]]);
+};
+
+const PRIORITY_LABELS: Record<TrackedActionItem['priority'], string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High'
+};
+
+/**
+ * A calendar of all-day events on the due dates of the team's action items; items without a due date,
+ * or with one that isn't a day, are left out. UIDs stay the same across downloads so re-importing
+ * updates the events.
+ */
+export const buildActionsCalendar = (teamName: string, items: TrackedActionItem[], now: Date = new Date()): string => {
+  const events = items
+    .filter(item => isValidDueDate(item.dueDate))
+    .map(item => {
+      const description = [
+        item.description,
+        `Priority: ${PRIORITY_LABELS[item.priority]}`,
+        `From retrospective: ${item.retroName} (${format(new Date(item.retroCreatedAt), 'MMM d, yyyy')})`
+      ].filter(Boolean).join('\n');
+
+      return [
+        `UID:action-${item.retroId}-${item.id}@${UID_DOMAIN}`,
+        `DTSTAMP:${toDateTime(now)}`,
+        `DTSTART;VALUE=DATE:${toDate(item.dueDate)}`,
+        `DTEND;VALUE=DATE:${nextDay(item.dueDate)}`,
+        `SUMMARY:${escapeText(`Due: ${item.title}`)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        'TRANSP:TRANSPARENT'
+      ];
+    });
+
+  return toCalendar(events, `${teamName} action items`);
+};
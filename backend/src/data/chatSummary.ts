@@ -0,0 +1,154 @@
+import { formatDueDate } from './dueDates';
+import { RetroReport, ReportItem } from '../models/Report';
+
+// Message formats of Slack and Microsoft Teams incoming webhooks
+export type ChatFormat = 'slack' | 'teams';
+
+export const CHAT_FORMATS: ChatFormat[] = ['slack', 'teams'];
+
+// Chat messages stay short; the full report is one click away
+const MAX_TOP_VOTED_ITEMS = 5;
+const MAX_ACTION_ITEMS = 10;
+// A chat service that doesn't answer shouldn't hold up the stage change that posted the summary
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Groups read as their cards joined together, as on the board
+const getItemText = (item: ReportItem): string => item.cards.join(' • ');
+
+// e.g. "1 vote", "3 votes"
+const pluralize = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const getVoteNoun = (report: RetroReport): string => (report.voteUnit === 'points' ? 'point' : 'vote');
+
+const getTitle = (report: RetroReport): string => `Retro summary: ${report.sessionName || 'Retrospective'}`;
+
+const getParticipationLine = (report: RetroReport): string => {
+  const { stats } = report;
+  return [
+    pluralize(stats.participants, 'participant'),
+    pluralize(stats.cards, 'card'),
+    pluralize(stats.votes, getVoteNoun(report)),
+    pluralize(stats.actionItems, 'action item')
+  ].join(' · ');
+};
+
+const getTopVotedLines = (report: RetroReport): string[] =>
+  report.topVotedItems
+    .slice(0, MAX_TOP_VOTED_ITEMS)
+    .map((item, index) => `${index + 1}. ${getItemText(item)} (${item.columnName}, ${pluralize(item.voteCount, getVoteNoun(report))})`);
+
+const getActionLines = ({ actionItems }: RetroReport): string[] => {
+  const lines = actionItems.slice(0, MAX_ACTION_ITEMS).map(item => {
+    const due = item.dueDate ? `, due ${formatDueDate(item.dueDate, 'MMM d')}` : '';
+    return `${item.title} — ${item.assigneeName}${due}`;
+  });
+  if (actionItems.length > MAX_ACTION_ITEMS) {
+    lines.push(`…and ${actionItems.length - MAX_ACTION_ITEMS} more`);
+  }
+  return lines;
+};
+
+// Slack treats &, < and > as control characters in mrkdwn text
+const escapeSlack = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// A Slack Block Kit message; text is the fallback shown in notifications
+export const buildSlackSummary = (report: RetroReport, retroUrl?: string) => {
+  const topVoted = getTopVotedLines(report);
+  const actions = getActionLines(report);
+  const section = (heading: string, lines: string[], empty: string) => ({
+    type: 'section',
+    text: {
+      type: 'mrkdwn',
+      text: `*${heading}*\n${lines.length > 0 ? lines.map(escapeSlack).join('\n') : `_${empty}_`}`
+    }
+  });
+
+  return {
+    text: getTitle(report),
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: getTitle(report).slice(0, 150) } },
+      { type: 'context', elements: [{ type: 'mrkdwn', text: escapeSlack(getParticipationLine(report)) }] },
+      section('Top voted items', topVoted, 'No voted items'),
+      section('Action items', actions.map(line => `• ${line}`), 'No action items created'),
+      ...(retroUrl ? [{
+        type: 'actions',
+        elements: [{ type: 'button', text: { type: 'plain_text', text: 'Open retro' }, url: retroUrl }]
+      }] : [])
+    ]
+  };
+};
+
+// A Teams message carrying an Adaptive Card
+export const buildTeamsSummary = (report: RetroReport, retroUrl?: string) => {
+  const topVoted = getTopVotedLines(report);
+  const actions = getActionLines(report);
+  const textBlock = (text: string, options: Record<string, unknown> = {}) => ({ type: 'TextBlock', text, wrap: true, ...options });
+  const section = (heading: string, lines: string[], empty: string) => [
+    textBlock(heading, { weight: 'Bolder', spacing: 'Medium' }),
+    ...(lines.length > 0 ? lines.map(line => textBlock(line, { spacing: 'Small' })) : [textBlock(empty, { isSubtle: true })])
+  ];
+
+  return {
+    type: 'message',
+    attachments: [{
+      contentType: 'application/vnd.microsoft.card.adaptive',
+      contentUrl: null,
+      content: {
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        type: 'AdaptiveCard',
+        version: '1.4',
+        body: [
+          textBlock(getTitle(report), { size: 'Large', weight: 'Bolder' }),
+          {
+            type: 'FactSet',
+            facts: [
+              { title: 'Participants', value: String(report.stats.participants) },
+              { title: 'Cards', value: String(report.stats.cards) },
+              { title: report.voteUnit === 'points' ? 'Points' : 'Votes', value: String(report.stats.votes) },
+              { title: 'Action items', value: String(report.stats.actionItems) }
+            ]
+          },
+          ...section('Top voted items', topVoted, 'No voted items'),
+          ...section('Action items', actions, 'No action items created')
+        ],
+        ...(retroUrl && { actions: [{ type: 'Action.OpenUrl', title: 'Open retro', url: retroUrl }] })
+      }
+    }]
+  };
+};
+
+/**
+ * Post the end-of-retro summary to the incoming webhook at CHAT_WEBHOOK_URL, formatted for
+ * CHAT_WEBHOOK_FORMAT ('slack', the default, or 'teams'). With APP_URL set, the message links to the retro.
+ * Runs in the background of a live session, so failures are logged rather than thrown.
+ * @returns Whether the summary was posted
+ */
+export const postRetroSummary = async (retroId: string, report: RetroReport): Promise<boolean> => {
+  const url = process.env.CHAT_WEBHOOK_URL;
+  if (!url) return false;
+
+  const chatFormat = process.env.CHAT_WEBHOOK_FORMAT || 'slack';
+  if (!CHAT_FORMATS.includes(chatFormat as ChatFormat)) {
+    console.error(`Unknown CHAT_WEBHOOK_FORMAT "${chatFormat}" (expected "slack" or "teams")`);
+    return false;
+  }
+
+  const retroUrl = process.env.APP_URL ? `${process.env.APP_URL.replace(/\/+$/, '')}/retro/${retroId}` : undefined;
+  try {
+    const message = chatFormat === 'teams' ? buildTeamsSummary(report, retroUrl) : buildSlackSummary(report, retroUrl);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      console.error(`Error posting retro summary: chat webhook responded with ${response.status}`);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error posting retro summary:', error);
+    return false;
+  }
+};
@@ -0,0 +1,19 @@
+import { format } from 'date-fns';
+
+// Due dates are calendar days (yyyy-mm-dd); items without one have an empty string
+const DUE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Whether a due date names a real day, e.g. not "next friday" or 2025-02-30
+export const isValidDueDate = (dueDate: string): boolean => {
+  if (!DUE_DATE_PATTERN.test(dueDate)) return false;
+  const date = new Date(`${dueDate}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(dueDate);
+};
+
+/**
+ * Format a due date with a date-fns pattern. Items saved before due dates were validated may
+ * hold any text, which is shown as it is rather than failing the whole message or document.
+ */
+export const formatDueDate = (dueDate: string, pattern: string): string => {
+  return isValidDueDate(dueDate) ? format(new Date(`${dueDate}T00:00:00`), pattern) : dueDate;
+};
@@ -0,0 +1,147 @@
+import { createArrayCsvStringifier } from 'csv-writer';
+import ExcelJS from 'exceljs';
+import { Retro } from '../models/Retro';
+import { Template } from '../models/Template';
+import { Reactions, RoomSnapshot, VoteData } from '../types';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx'];
+
+// One table of the export: a worksheet in Excel, a titled section in CSV
+export interface ExportSheet {
+  name: string;
+  header: string[];
+  rows: Array<Array<string | number>>;
+}
+
+export interface RetroExportInput {
+  retro: Retro;
+  template?: Template;
+  room?: RoomSnapshot;
+  // Names of the participants by id, where known (only live rooms remember them)
+  participantNames: Record<string, string>;
+}
+
+const UNKNOWN_PARTICIPANT = 'Unknown participant';
+
+const countVotes = (votes: VoteData, itemId: string): number => (votes[itemId] || []).length;
+
+// e.g. "👍 2, 🎉 1"
+const formatReactions = (reactions: Reactions, cardId: string): string =>
+  Object.entries(reactions[cardId] || {})
+    .filter(([, reactors]) => reactors.length > 0)
+    .map(([emoji, reactors]) => `${emoji} ${reactors.length}`)
+    .join(', ');
+
+/**
+ * The retro's results as tables of cards, groups, action items and participants.
+ * Who wrote which card is left out; in anonymous retros so are per-participant counts.
+ */
+export const buildExportSheets = ({ retro, template, room, participantNames }: RetroExportInput): ExportSheet[] => {
+  const cards = room?.cards || [];
+  const groups = room?.cardGroups || [];
+  const votes = room?.votes || {};
+  const reactions = room?.reactions || {};
+
+  const columnName = (columnId: string) => template?.columns.find(column => column.id === columnId)?.name || columnId;
+  // Groups have no title of their own, so they are numbered in the order they were made
+  const groupLabel = (groupId: string) => {
+    const index = groups.findIndex(group => group.id === groupId);
+    return index === -1 ? '' : `Group ${index + 1}`;
+  };
+  // Groups list their cards; the cards themselves don't point back at a group
+  const cardGroupLabel = (cardId: string) => {
+    const group = groups.find(group => group.cardIds.includes(cardId));
+    return group ? groupLabel(group.id) : '';
+  };
+
+  const participantIds = new Set<string>(Object.keys(participantNames));
+  cards.forEach(card => participantIds.add(card.authorId));
+  Object.values(votes).forEach(voters => voters.forEach(voterId => participantIds.add(voterId)));
+  room?.comments.forEach(comment => participantIds.add(comment.authorId));
+  const nameOf = (participantId: string) =>
+    participantNames[participantId] ||
+    room?.comments.find(comment => comment.authorId === participantId)?.authorName ||
+    UNKNOWN_PARTICIPANT;
+
+  return [
+    {
+      name: 'Cards',
+      header: ['Column', 'Content', 'Group', 'Votes', 'Reactions'],
+      rows: cards.map(card => [
+        columnName(card.columnId),
+        card.content,
+        cardGroupLabel(card.id),
+        countVotes(votes, card.id),
+        formatReactions(reactions, card.id)
+      ])
+    },
+    {
+      name: 'Groups',
+      header: ['Group', 'Column', 'Cards', 'Votes'],
+      rows: groups.map(group => [
+        groupLabel(group.id),
+        columnName(group.columnId),
+        cards.filter(card => group.cardIds.includes(card.id)).map(card => card.content).join('\n'),
+        countVotes(votes, group.id)
+      ])
+    },
+    {
+      name: 'Action Items',
+      header: ['Title', 'Description', 'Assignee', 'Priority', 'Due Date', 'Status'],
+      rows: (room?.actionItems || []).map(item => [
+        item.title,
+        item.description,
+        item.assigneeId ? nameOf(item.assigneeId) : '',
+        item.priority,
+        item.dueDate,
+        item.status
+      ])
+    },
+    {
+      name: 'Participants',
+      header: retro.isAnonymous ? ['Name'] : ['Name', 'Cards', 'Votes'],
+      rows: Array.from(participantIds).map(participantId => {
+        const name = nameOf(participantId);
+        if (retro.isAnonymous) return [name];
+        return [
+          name,
+          cards.filter(card => card.authorId === participantId).length,
+          Object.values(votes).reduce((total, voters) => total + voters.filter(voterId => voterId === participantId).length, 0)
+        ];
+      })
+    }
+  ];
+};
+
+// Text starting like a formula (e.g. a card "=HYPERLINK(...)") is quoted so spreadsheets show it as text
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+const escapeFormula = (cell: string | number): string | number =>
+  typeof cell === 'string' && FORMULA_PREFIXES.some(prefix => cell.startsWith(prefix)) ? `'${cell}` : cell;
+
+const escapeRows = (rows: ExportSheet['rows']) => rows.map(row => row.map(escapeFormula));
+
+// All sheets in one CSV file, each under a line with its name and separated by a blank line
+export const toCsv = (sheets: ExportSheet[]): string =>
+  sheets
+    .map(sheet => {
+      const stringifier = createArrayCsvStringifier({ header: sheet.header });
+      return `${sheet.name}\n${stringifier.getHeaderString()}${stringifier.stringifyRecords(escapeRows(sheet.rows))}`;
+    })
+    .join('\n');
+
+// An Excel workbook with a worksheet per sheet
+export const toXlsx = async (sheets: ExportSheet[]): Promise<Buffer> => {
+  const workbook = new ExcelJS.Workbook();
+  sheets.forEach(sheet => {
+    const worksheet = workbook.addWorksheet(sheet.name);
+    worksheet.addRow(sheet.header).font = { bold: true };
+    worksheet.addRows(escapeRows(sheet.rows));
+    worksheet.columns.forEach(column => {
+      column.width = 20;
+    });
+  });
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
@@ -0,0 +1,20 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+// Only the hash is stored with the retro; the token itself is handed to the facilitator once
+export const hashFacilitatorToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+export const createFacilitatorToken = (): { token: string; tokenHash: string } => {
+  const token = randomBytes(24).toString('base64url');
+  return { token, tokenHash: hashFacilitatorToken(token) };
+};
+
+// Whether a token presented by a client matches the stored hash
+export const matchesFacilitatorToken = (tokenHash: string | undefined, token: string | null | undefined): boolean => {
+  if (!tokenHash || !token) return false;
+
+  const expected = Buffer.from(tokenHash, 'hex');
+  const actual = Buffer.from(hashFacilitatorToken(token), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
@@ -0,0 +1,209 @@
+import { Retro } from '../models/Retro';
+import { ActionItem, ExternalIssue } from '../types';
+
+/**
+ * Issue tracker that action items can be pushed to, e.g. Jira.
+ * Implementations throw an IssueTrackerError when the tracker can't be reached or refuses a request.
+ */
+export interface IssueTrackerConnector {
+  // Shown to users, e.g. "Push to Jira"
+  readonly name: string;
+  createIssue(actionItem: ActionItem, retro: Retro): Promise<ExternalIssue>;
+  // The item's status as tracked by the issue, or null if the tracker doesn't say
+  getIssueStatus(issue: ExternalIssue): Promise<ActionItem['status'] | null>;
+}
+
+export class IssueTrackerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IssueTrackerError';
+  }
+}
+
+const ACTION_ITEM_STATUSES: readonly ActionItem['status'][] = ['pending', 'in_progress', 'completed'];
+// Requests to the tracker are given up after this long, so a hanging tracker doesn't hang the request
+const REQUEST_TIMEOUT_MS = 10000;
+
+const PRIORITY_LABELS: Record<ActionItem['priority'], string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High'
+};
+
+// Send a JSON request to the tracker and parse its JSON reply (null for an empty body)
+const requestJson = async (url: string, init: RequestInit): Promise<any> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...init.headers },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+  } catch (error) {
+    throw new IssueTrackerError(`Could not reach the issue tracker: ${(error as Error).message}`);
+  }
+
+  if (!response.ok) {
+    throw new IssueTrackerError(`The issue tracker responded with ${response.status}`);
+  }
+  const text = await response.text();
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    throw new IssueTrackerError('The issue tracker sent an invalid response');
+  }
+};
+
+/**
+ * Posts action items to a URL as JSON: { event: 'action-item.created', retro, actionItem }.
+ * The receiver may reply with { key, url } to name the issue it created; otherwise the action item id is used.
+ * Status is asked for with { event: 'action-item.status', issue } and read from a { status } reply.
+ */
+export class WebhookIssueTracker implements IssueTrackerConnector {
+  readonly name = 'Webhook';
+
+  constructor(private url: string) {}
+
+  async createIssue(actionItem: ActionItem, retro: Retro): Promise<ExternalIssue> {
+    const reply = await requestJson(this.url, {
+      method: 'POST',
+      body: JSON.stringify({
+        event: 'action-item.created',
+        retro: { id: retro.id, sessionName: retro.sessionName },
+        actionItem
+      })
+    });
+
+    return {
+      tracker: this.name,
+      key: typeof reply?.key === 'string' ? reply.key : actionItem.id,
+      ...(typeof reply?.url === 'string' && { url: reply.url })
+    };
+  }
+
+  async getIssueStatus(issue: ExternalIssue): Promise<ActionItem['status'] | null> {
+    const reply = await requestJson(this.url, {
+      method: 'POST',
+      body: JSON.stringify({ event: 'action-item.status', issue })
+    });
+    return ACTION_ITEM_STATUSES.includes(reply?.status) ? reply.status : null;
+  }
+}
+
+export interface JiraConfig {
+  baseUrl: string;
+  email: string;
+  apiToken: string;
+  projectKey: string;
+  issueType: string;
+}
+
+// Jira groups its workflow statuses into these categories
+const JIRA_STATUS_CATEGORIES: Record<string, ActionItem['status']> = {
+  new: 'pending',
+  indeterminate: 'in_progress',
+  done: 'completed'
+};
+
+/**
+ * Creates issues through the Jira REST API (v2) and reads their status category back.
+ */
+export class JiraIssueTracker implements IssueTrackerConnector {
+  readonly name = 'Jira';
+
+  constructor(private config: JiraConfig) {}
+
+  private get headers() {
+    const credentials = Buffer.from(`${this.config.email}:${this.config.apiToken}`).toString('base64');
+    return { Authorization: `Basic ${credentials}` };
+  }
+
+  private get baseUrl() {
+    return this.config.baseUrl.replace(/\/+$/, '');
+  }
+
+  async createIssue(actionItem: ActionItem, retro: Retro): Promise<ExternalIssue> {
+    const details = [
+      actionItem.description,
+      `Priority: ${PRIORITY_LABELS[actionItem.priority]}`,
+      ...(actionItem.dueDate ? [`Due: ${actionItem.dueDate}`] : []),
+      `From retrospective: ${retro.sessionName}`
+    ].filter(Boolean);
+
+    const reply = await requestJson(`${this.baseUrl}/rest/api/2/issue`, {
+      method: 'POST',
+      headers: this.headers,
+      body: JSON.stringify({
+        fields: {
+          project: { key: this.config.projectKey },
+          issuetype: { name: this.config.issueType },
+          summary: actionItem.title,
+          description: details.join('\n\n')
+        }
+      })
+    });
+    if (typeof reply?.key !== 'string') {
+      throw new IssueTrackerError('Jira did not return an issue key');
+    }
+
+    return { tracker: this.name, key: reply.key, url: `${this.baseUrl}/browse/${reply.key}` };
+  }
+
+  async getIssueStatus(issue: ExternalIssue): Promise<ActionItem['status'] | null> {
+    const reply = await requestJson(
+      `${this.baseUrl}/rest/api/2/issue/${encodeURIComponent(issue.key)}?fields=status`,
+      { method: 'GET', headers: this.headers }
+    );
+    return JIRA_STATUS_CATEGORIES[reply?.fields?.status?.statusCategory?.key] || null;
+  }
+}
+
+/**
+ * Create the connector selected by the ISSUE_TRACKER env var ('webhook' or 'jira'), or null when unset.
+ * The webhook posts to ISSUE_TRACKER_WEBHOOK_URL; Jira is reached at JIRA_BASE_URL as JIRA_EMAIL with
+ * JIRA_API_TOKEN and files issues of JIRA_ISSUE_TYPE (defaults to Task) in JIRA_PROJECT_KEY.
+ */
+export const createIssueTracker = (): IssueTrackerConnector | null => {
+  const tracker = process.env.ISSUE_TRACKER;
+
+  switch (tracker) {
+    case undefined:
+    case '':
+      return null;
+    case 'webhook':
+      if (!process.env.ISSUE_TRACKER_WEBHOOK_URL) {
+        throw new Error('ISSUE_TRACKER_WEBHOOK_URL is required for the webhook issue tracker');
+      }
+      return new WebhookIssueTracker(process.env.ISSUE_TRACKER_WEBHOOK_URL);
+    case 'jira': {
+      const { JIRA_BASE_URL, JIRA_EMAIL, JIRA_API_TOKEN, JIRA_PROJECT_KEY } = process.env;
+      if (!JIRA_BASE_URL || !JIRA_EMAIL || !JIRA_API_TOKEN || !JIRA_PROJECT_KEY) {
+        throw new Error('JIRA_BASE_URL, JIRA_EMAIL, JIRA_API_TOKEN and JIRA_PROJECT_KEY are required for the Jira issue tracker');
+      }
+      return new JiraIssueTracker({
+        baseUrl: JIRA_BASE_URL,
+        email: JIRA_EMAIL,
+        apiToken: JIRA_API_TOKEN,
+        projectKey: JIRA_PROJECT_KEY,
+        issueType: process.env.JIRA_ISSUE_TYPE || 'Task'
+      });
+    }
+    default:
+      throw new Error(`Unknown ISSUE_TRACKER "${tracker}" (expected "webhook" or "jira")`);
+  }
+};
+
+// Created lazily so the env vars from .env are read after dotenv has loaded
+let issueTracker: IssueTrackerConnector | null | undefined;
+
+export const getIssueTracker = (): IssueTrackerConnector | null => {
+  if (issueTracker === undefined) {
+    issueTracker = createIssueTracker();
+  }
+  return issueTracker;
+};
+
+// Replace the connector (e.g. with a custom IssueTrackerConnector implementation), or turn it off with null
+export const setIssueTracker = (connector: IssueTrackerConnector | null): void => {
+  issueTracker = connector;
+};
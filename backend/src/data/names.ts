@@ -43,6 +43,9 @@ const allNameCategories = [animals, plants, colors, celestial, elements];
 // Keep track of used names per session to avoid duplicates
 const usedNamesPerRetro: Map<string, Set<string>> = new Map();
 
+// Deck names accepted for a retro's nameDeck
+export const NAME_DECKS = ['random', 'animals', 'plants', 'colors', 'celestial', 'elements'] as const;
+
 // Keep track of name deck preference per retro
 const nameDeckPerRetro: Map<string, string> = new Map();
 
@@ -0,0 +1,263 @@
+import { format } from 'date-fns';
+import { Retro } from '../models/Retro';
+import { Template } from '../models/Template';
+import { ReportActionItem, ReportColumn, ReportItem, RetroReport } from '../models/Report';
+import { ActionItem, Card, RoomSnapshot } from '../types';
+import { getParticipantIds } from './analytics';
+import { formatDueDate as formatDueDay } from './dueDates';
+
+const MAX_TOP_VOTED_ITEMS = 10;
+// Color for cards in columns the template no longer has
+const UNKNOWN_COLUMN_COLOR = '#6b7280';
+// Shown instead of comment authors in anonymous retros
+const ANONYMOUS_AUTHOR = 'Anonymous';
+
+const STATUS_LABELS: Record<ActionItem['status'], string> = {
+  pending: 'Pending',
+  in_progress: 'In Progress',
+  completed: 'Completed'
+};
+
+export interface RetroReportInput {
+  retro: Retro;
+  template?: Template;
+  room?: RoomSnapshot;
+  // Names of the participants by id, where known (only live rooms remember them)
+  participantNames: Record<string, string>;
+}
+
+// Cards and groups as discussed in the retro: a group stands in for its cards
+const getReportItems = (template: Template | undefined, room: RoomSnapshot, isAnonymous: boolean): ReportItem[] => {
+  const items: ReportItem[] = [];
+  const processedCardIds = new Set<string>();
+
+  const toItem = (id: string, columnId: string, cards: Card[]): ReportItem => {
+    const column = template?.columns.find(other => other.id === columnId);
+    const cardIds = cards.map(card => card.id);
+    return {
+      id,
+      columnId,
+      columnName: column?.name || columnId,
+      color: column?.color || UNKNOWN_COLUMN_COLOR,
+      cards: cards.map(card => card.content),
+      voteCount: (room.votes[id] || []).length,
+      comments: room.comments
+        .filter(comment => comment.itemId === id || cardIds.includes(comment.itemId))
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+        .map(({ authorName, content }) => ({ authorName: isAnonymous ? ANONYMOUS_AUTHOR : authorName, content }))
+    };
+  };
+
+  room.cards.forEach(card => {
+    if (processedCardIds.has(card.id)) return;
+
+    const group = room.cardGroups.find(other => other.cardIds.includes(card.id));
+    if (group) {
+      const groupCards = group.cardIds
+        .map(id => room.cards.find(other => other.id === id))
+        .filter(Boolean) as Card[];
+      items.push(toItem(group.id, group.columnId, groupCards));
+      group.cardIds.forEach(id => processedCardIds.add(id));
+    } else {
+      items.push(toItem(card.id, card.columnId, [card]));
+      processedCardIds.add(card.id);
+    }
+  });
+
+  return items;
+};
+
+// The data of a retro report, gathered from the retro's room state
+export const buildRetroReport = ({ retro, template, room, participantNames }: RetroReportInput): RetroReport => {
+  const items = room ? getReportItems(template, room, retro.isAnonymous) : [];
+  const actionItems = room?.actionItems || [];
+  const participantIds = new Set([...Object.keys(participantNames), ...getParticipantIds(room)]);
+
+  const columns: ReportColumn[] = [...(template?.columns || [])]
+    .sort((a, b) => a.order - b.order)
+    .map(column => ({
+      id: column.id,
+      name: column.name,
+      color: column.color,
+      items: items.filter(item => item.columnId === column.id)
+    }));
+
+  return {
+    sessionName: retro.sessionName,
+    context: retro.context,
+    templateName: template?.name || 'Unknown',
+    createdAt: retro.createdAt,
+    isAnonymous: retro.isAnonymous,
+    voteUnit: !retro.votingMethod || retro.votingMethod === 'dots' ? 'votes' : 'points',
+    stats: {
+      participants: participantIds.size,
+      cards: room?.cards.length || 0,
+      votes: items.reduce((total, item) => total + item.voteCount, 0),
+      actionItems: actionItems.length,
+      highPriorityActions: actionItems.filter(item => item.priority === 'high').length
+    },
+    topVotedItems: items
+      .filter(item => item.voteCount > 0)
+      .sort((a, b) => b.voteCount - a.voteCount)
+      .slice(0, MAX_TOP_VOTED_ITEMS),
+    actionItems: actionItems.map((item): ReportActionItem => ({
+      title: item.title,
+      description: item.description,
+      assigneeName: (item.assigneeId && participantNames[item.assigneeId]) || 'Unassigned',
+      priority: item.priority,
+      dueDate: item.dueDate,
+      status: item.status
+    })),
+    columns
+  };
+};
+
+const formatDate = (date: Date | string): string => format(new Date(date), 'MMMM d, yyyy');
+
+const formatDueDate = (dueDate: string): string => (dueDate ? formatDueDay(dueDate, 'MMM d, yyyy') : 'Not set');
+
+// Groups read as their cards joined together, as on the board
+const getItemText = (item: ReportItem): string => item.cards.join(' • ');
+
+// Text on a single Markdown line; table cells also need their pipes escaped
+const toMarkdownLine = (text: string): string => text.replace(/\s*\n\s*/g, ' ');
+const toMarkdownCell = (text: string): string => toMarkdownLine(text).replace(/\|/g, '\\|');
+
+export const renderMarkdownReport = (report: RetroReport): string => {
+  const { stats, voteUnit } = report;
+  const lines: string[] = [
+    `# ${toMarkdownLine(report.sessionName || 'Retrospective Report')}`,
+    '',
+    `${formatDate(report.createdAt)} · ${report.templateName} template${report.isAnonymous ? ' · Anonymous feedback' : ''}`,
+    ''
+  ];
+  if (report.context) {
+    lines.push(...report.context.split('\n').map(line => `> ${line}`), '');
+  }
+
+  lines.push(
+    '## Summary',
+    '',
+    `| Participants | Cards | ${voteUnit === 'points' ? 'Points' : 'Votes'} | Actions | High priority |`,
+    '| --- | --- | --- | --- | --- |',
+    `| ${stats.participants} | ${stats.cards} | ${stats.votes} | ${stats.actionItems} | ${stats.highPriorityActions} |`,
+    '',
+    '## Top Voted Items',
+    ''
+  );
+  if (report.topVotedItems.length === 0) {
+    lines.push('No voted items');
+  }
+  report.topVotedItems.forEach((item, index) => {
+    lines.push(`${index + 1}. ${toMarkdownLine(getItemText(item))} — ${item.columnName}, ${item.voteCount} ${voteUnit}`);
+  });
+
+  lines.push('', '## Action Items', '');
+  if (report.actionItems.length === 0) {
+    lines.push('No action items created');
+  } else {
+    lines.push('| Action | Assignee | Priority | Due Date | Status |', '| --- | --- | --- | --- | --- |');
+    report.actionItems.forEach(item => {
+      const action = item.description ? `**${toMarkdownCell(item.title)}**<br>${toMarkdownCell(item.description)}` : `**${toMarkdownCell(item.title)}**`;
+      lines.push(`| ${action} | ${toMarkdownCell(item.assigneeName)} | ${item.priority} | ${toMarkdownCell(formatDueDate(item.dueDate))} | ${STATUS_LABELS[item.status]} |`);
+    });
+  }
+
+  lines.push('', '## Feedback by Category');
+  report.columns.forEach(column => {
+    lines.push('', `### ${toMarkdownLine(column.name)}`, '');
+    if (column.items.length === 0) {
+      lines.push('No feedback');
+    }
+    column.items.forEach(item => {
+      lines.push(`- ${toMarkdownLine(getItemText(item))}${item.voteCount > 0 ? ` (${item.voteCount} ${voteUnit})` : ''}`);
+      item.comments.forEach(comment => {
+        lines.push(`  - ${toMarkdownLine(comment.authorName)}: ${toMarkdownLine(comment.content)}`);
+      });
+    });
+  });
+
+  return `${lines.join('\n')}\n`;
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Column colors come from the template; everything else is neutral so the page fits any wiki or email
+const REPORT_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111827; max-width: 960px; margin: 0 auto; padding: 32px 16px; line-height: 1.5; }
+  h1 { margin-bottom: 4px; }
+  .meta, .empty { color: #6b7280; }
+  blockquote { margin: 16px 0; padding-left: 12px; border-left: 3px solid #d1d5db; color: #4b5563; }
+  .stats { display: flex; flex-wrap: wrap; gap: 12px; margin: 24px 0; }
+  .stat { flex: 1; min-width: 120px; background: #f3f4f6; border-radius: 8px; padding: 12px; text-align: center; }
+  .stat strong { display: block; font-size: 24px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .column { border-left: 4px solid; padding-left: 12px; margin-bottom: 16px; }
+  .tag { font-size: 12px; padding: 2px 8px; border-radius: 9999px; }
+  .comments { color: #4b5563; font-size: 14px; }
+`;
+
+const renderItemHtml = (item: ReportItem, voteUnit: string): string => {
+  const cards = item.cards.length > 1
+    ? `<ul>${item.cards.map(card => `<li>${escapeHtml(card)}</li>`).join('')}</ul>`
+    : escapeHtml(item.cards[0] || '');
+  const votes = item.voteCount > 0 ? ` <span class="meta">(${item.voteCount} ${voteUnit})</span>` : '';
+  const comments = item.comments.length > 0
+    ? `<ul class="comments">${item.comments.map(comment => `<li><strong>${escapeHtml(comment.authorName)}:</strong> ${escapeHtml(comment.content)}</li>`).join('')}</ul>`
+    : '';
+  return `<li>${cards}${votes}${comments}</li>`;
+};
+
+// A standalone HTML page with inline styles, readable without the app
+export const renderHtmlReport = (report: RetroReport): string => {
+  const { stats, voteUnit } = report;
+  const title = escapeHtml(report.sessionName || 'Retrospective Report');
+  const statTiles = [
+    ['Participants', stats.participants],
+    ['Cards', stats.cards],
+    [voteUnit === 'points' ? 'Points' : 'Votes', stats.votes],
+    ['Actions', stats.actionItems],
+    ['High Priority', stats.highPriorityActions]
+  ].map(([label, value]) => `<div class="stat"><strong>${value}</strong>${label}</div>`).join('');
+
+  const topVoted = report.topVotedItems.length === 0
+    ? '<p class="empty">No voted items</p>'
+    : `<ol>${report.topVotedItems.map(item => `<li>${escapeHtml(getItemText(item))} <span class="tag" style="background: ${item.color}20; color: ${item.color}">${escapeHtml(item.columnName)}</span> <span class="meta">${item.voteCount} ${voteUnit}</span></li>`).join('')}</ol>`;
+
+  const actionItems = report.actionItems.length === 0
+    ? '<p class="empty">No action items created</p>'
+    : `<table><thead><tr><th>Action</th><th>Assignee</th><th>Priority</th><th>Due Date</th><th>Status</th></tr></thead><tbody>${report.actionItems.map(item => `<tr><td><strong>${escapeHtml(item.title)}</strong>${item.description ? `<br><span class="meta">${escapeHtml(item.description)}</span>` : ''}</td><td>${escapeHtml(item.assigneeName)}</td><td>${item.priority}</td><td>${escapeHtml(formatDueDate(item.dueDate))}</td><td>${STATUS_LABELS[item.status]}</td></tr>`).join('')}</tbody></table>`;
+
+  const columns = report.columns.map(column => `<section class="column" style="border-color: ${column.color}"><h3>${escapeHtml(column.name)}</h3>${column.items.length === 0 ? '<p class="empty">No feedback</p>' : `<ul>${column.items.map(item => renderItemHtml(item, voteUnit)).join('')}</ul>`}</section>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="meta">${formatDate(report.createdAt)} · ${escapeHtml(report.templateName)} template${report.isAnonymous ? ' · Anonymous feedback' : ''}</p>
+${report.context ? `<blockquote>${escapeHtml(report.context)}</blockquote>` : ''}
+<div class="stats">${statTiles}</div>
+<h2>Top Voted Items</h2>
+${topVoted}
+<h2>Action Items</h2>
+${actionItems}
+<h2>Feedback by Category</h2>
+${columns}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,482 @@
+import fs from 'fs';
+import path from 'path';
+import { Retro } from '../models/Retro';
+import { Participant } from '../models/Participant';
+import { User } from '../models/User';
+import { Team } from '../models/Team';
+import { Template } from '../models/Template';
+import { WebhookDelivery, WebhookSubscription } from '../models/Webhook';
+import { RoomSnapshot } from '../types';
+
+/**
+ * Storage backend for retrospectives, stored participants, live room state, the
+ * user accounts and teams that decide who may take part in team retros, the
+ * custom templates retros are made from (system templates live in data/templates.ts),
+ * and webhook subscriptions with their delivery log.
+ * Implementations only persist data; ids and timestamps are assigned in data/retros.ts,
+ * data/users.ts, data/templates.ts and data/webhooks.ts.
+ */
+export interface RetroRepository {
+  getAllRetros(): Retro[];
+  getRetroById(id: string): Retro | undefined;
+  insertRetro(retro: Retro): Retro;
+  replaceRetro(retro: Retro): Retro | null;
+  deleteRetro(id: string): boolean;
+  addParticipant(participant: Participant): Participant;
+  getParticipantsByRetroId(retroId: string): Participant[];
+  deleteParticipantsByRetroId(retroId: string): void;
+  getRoomState(retroId: string): RoomSnapshot | undefined;
+  saveRoomState(snapshot: RoomSnapshot): void;
+  deleteRoomState(retroId: string): void;
+  getAllUsers(): User[];
+  insertUser(user: User): User;
+  getAllTeams(): Team[];
+  insertTeam(team: Team): Team;
+  replaceTeam(team: Team): Team | null;
+  getCustomTemplates(): Template[];
+  insertTemplate(template: Template): Template;
+  replaceTemplate(template: Template): Template | null;
+  deleteTemplate(id: string): boolean;
+  getWebhookSubscriptions(): WebhookSubscription[];
+  insertWebhookSubscription(subscription: WebhookSubscription): WebhookSubscription;
+  deleteWebhookSubscription(id: string): boolean;
+  // Deliveries are logged newest first; saving one that is already logged updates it in place
+  getWebhookDeliveries(): WebhookDelivery[];
+  saveWebhookDelivery(delivery: WebhookDelivery): WebhookDelivery;
+  deleteWebhookDelivery(id: string): boolean;
+}
+
+/**
+ * Keeps everything in process memory. Data is lost when the server restarts.
+ */
+export class InMemoryRetroRepository implements RetroRepository {
+  protected rooms: Map<string, RoomSnapshot> = new Map();
+
+  constructor(
+    protected retros: Retro[] = [],
+    protected participants: Participant[] = [],
+    protected users: User[] = [],
+    protected teams: Team[] = [],
+    protected templates: Template[] = [],
+    protected webhookSubscriptions: WebhookSubscription[] = [],
+    protected webhookDeliveries: WebhookDelivery[] = []
+  ) {}
+
+  getAllRetros(): Retro[] {
+    return this.retros;
+  }
+
+  getRetroById(id: string): Retro | undefined {
+    return this.retros.find(retro => retro.id === id);
+  }
+
+  insertRetro(retro: Retro): Retro {
+    this.retros.push(retro);
+    return retro;
+  }
+
+  replaceRetro(retro: Retro): Retro | null {
+    const index = this.retros.findIndex(r => r.id === retro.id);
+    if (index === -1) return null;
+
+    this.retros[index] = retro;
+    return retro;
+  }
+
+  deleteRetro(id: string): boolean {
+    const index = this.retros.findIndex(retro => retro.id === id);
+    if (index === -1) return false;
+
+    this.retros.splice(index, 1);
+    return true;
+  }
+
+  addParticipant(participant: Participant): Participant {
+    this.participants.push(participant);
+    return participant;
+  }
+
+  getParticipantsByRetroId(retroId: string): Participant[] {
+    return this.participants.filter(p => p.retroId === retroId);
+  }
+
+  deleteParticipantsByRetroId(retroId: string): void {
+    for (let i = this.participants.length - 1; i >= 0; i--) {
+      if (this.participants[i].retroId === retroId) {
+        this.participants.splice(i, 1);
+      }
+    }
+  }
+
+  getRoomState(retroId: string): RoomSnapshot | undefined {
+    const snapshot = this.rooms.get(retroId);
+    return snapshot ? structuredClone(snapshot) : undefined;
+  }
+
+  saveRoomState(snapshot: RoomSnapshot): void {
+    // Clone so later in-place mutations of the live room don't leak into the stored copy
+    this.rooms.set(snapshot.id, structuredClone(snapshot));
+  }
+
+  deleteRoomState(retroId: string): void {
+    this.rooms.delete(retroId);
+  }
+
+  getAllUsers(): User[] {
+    return this.users;
+  }
+
+  insertUser(user: User): User {
+    this.users.push(user);
+    return user;
+  }
+
+  getAllTeams(): Team[] {
+    return this.teams;
+  }
+
+  insertTeam(team: Team): Team {
+    this.teams.push(team);
+    return team;
+  }
+
+  replaceTeam(team: Team): Team | null {
+    const index = this.teams.findIndex(t => t.id === team.id);
+    if (index === -1) return null;
+
+    this.teams[index] = team;
+    return team;
+  }
+
+  getCustomTemplates(): Template[] {
+    return this.templates;
+  }
+
+  insertTemplate(template: Template): Template {
+    this.templates.push(template);
+    return template;
+  }
+
+  replaceTemplate(template: Template): Template | null {
+    const index = this.templates.findIndex(t => t.id === template.id);
+    if (index === -1) return null;
+
+    this.templates[index] = template;
+    return template;
+  }
+
+  deleteTemplate(id: string): boolean {
+    const index = this.templates.findIndex(template => template.id === id);
+    if (index === -1) return false;
+
+    this.templates.splice(index, 1);
+    return true;
+  }
+
+  getWebhookSubscriptions(): WebhookSubscription[] {
+    return this.webhookSubscriptions;
+  }
+
+  insertWebhookSubscription(subscription: WebhookSubscription): WebhookSubscription {
+    this.webhookSubscriptions.push(subscription);
+    return subscription;
+  }
+
+  deleteWebhookSubscription(id: string): boolean {
+    const index = this.webhookSubscriptions.findIndex(subscription => subscription.id === id);
+    if (index === -1) return false;
+
+    this.webhookSubscriptions.splice(index, 1);
+    return true;
+  }
+
+  getWebhookDeliveries(): WebhookDelivery[] {
+    return this.webhookDeliveries;
+  }
+
+  saveWebhookDelivery(delivery: WebhookDelivery): WebhookDelivery {
+    const index = this.webhookDeliveries.findIndex(d => d.id === delivery.id);
+    if (index === -1) {
+      this.webhookDeliveries.unshift(delivery);
+    } else {
+      this.webhookDeliveries[index] = delivery;
+    }
+    return delivery;
+  }
+
+  deleteWebhookDelivery(id: string): boolean {
+    const index = this.webhookDeliveries.findIndex(delivery => delivery.id === id);
+    if (index === -1) return false;
+
+    this.webhookDeliveries.splice(index, 1);
+    return true;
+  }
+}
+
+interface StoreFile {
+  retros: Retro[];
+  participants: Participant[];
+  rooms: { [retroId: string]: RoomSnapshot };
+  users: User[];
+  teams: Team[];
+  templates: Template[];
+  webhookSubscriptions: WebhookSubscription[];
+  webhookDeliveries: WebhookDelivery[];
+}
+
+/**
+ * Durable storage in a single JSON file. The whole store is held in memory and
+ * rewritten (via a temp file + rename) after every mutation, which is plenty for
+ * the handful of retros a deployment keeps around.
+ */
+export class FileRetroRepository extends InMemoryRetroRepository {
+  constructor(
+    private filePath: string,
+    retros: Retro[] = [],
+    participants: Participant[] = [],
+    users: User[] = [],
+    teams: Team[] = [],
+    templates: Template[] = [],
+    webhookSubscriptions: WebhookSubscription[] = [],
+    webhookDeliveries: WebhookDelivery[] = []
+  ) {
+    super(retros, participants, users, teams, templates, webhookSubscriptions, webhookDeliveries);
+    this.load();
+  }
+
+  insertRetro(retro: Retro): Retro {
+    const inserted = super.insertRetro(retro);
+    this.flush();
+    return inserted;
+  }
+
+  replaceRetro(retro: Retro): Retro | null {
+    const replaced = super.replaceRetro(retro);
+    if (replaced) this.flush();
+    return replaced;
+  }
+
+  deleteRetro(id: string): boolean {
+    const deleted = super.deleteRetro(id);
+    if (deleted) this.flush();
+    return deleted;
+  }
+
+  addParticipant(participant: Participant): Participant {
+    const added = super.addParticipant(participant);
+    this.flush();
+    return added;
+  }
+
+  deleteParticipantsByRetroId(retroId: string): void {
+    super.deleteParticipantsByRetroId(retroId);
+    this.flush();
+  }
+
+  saveRoomState(snapshot: RoomSnapshot): void {
+    super.saveRoomState(snapshot);
+    this.flush();
+  }
+
+  deleteRoomState(retroId: string): void {
+    super.deleteRoomState(retroId);
+    this.flush();
+  }
+
+  insertUser(user: User): User {
+    const inserted = super.insertUser(user);
+    this.flush();
+    return inserted;
+  }
+
+  insertTeam(team: Team): Team {
+    const inserted = super.insertTeam(team);
+    this.flush();
+    return inserted;
+  }
+
+  replaceTeam(team: Team): Team | null {
+    const replaced = super.replaceTeam(team);
+    if (replaced) this.flush();
+    return replaced;
+  }
+
+  insertTemplate(template: Template): Template {
+    const inserted = super.insertTemplate(template);
+    this.flush();
+    return inserted;
+  }
+
+  replaceTemplate(template: Template): Template | null {
+    const replaced = super.replaceTemplate(template);
+    if (replaced) this.flush();
+    return replaced;
+  }
+
+  deleteTemplate(id: string): boolean {
+    const deleted = super.deleteTemplate(id);
+    if (deleted) this.flush();
+    return deleted;
+  }
+
+  insertWebhookSubscription(subscription: WebhookSubscription): WebhookSubscription {
+    const inserted = super.insertWebhookSubscription(subscription);
+    this.flush();
+    return inserted;
+  }
+
+  deleteWebhookSubscription(id: string): boolean {
+    const deleted = super.deleteWebhookSubscription(id);
+    if (deleted) this.flush();
+    return deleted;
+  }
+
+  saveWebhookDelivery(delivery: WebhookDelivery): WebhookDelivery {
+    const saved = super.saveWebhookDelivery(delivery);
+    this.flush();
+    return saved;
+  }
+
+  deleteWebhookDelivery(id: string): boolean {
+    const deleted = super.deleteWebhookDelivery(id);
+    if (deleted) this.flush();
+    return deleted;
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const data: Partial<StoreFile> = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+
+    (data.retros || []).forEach(retro => {
+      this.retros.push({
+        ...retro,
+        scheduledAt: retro.scheduledAt ? new Date(retro.scheduledAt) : retro.scheduledAt,
+        createdAt: new Date(retro.createdAt),
+        updatedAt: new Date(retro.updatedAt)
+      });
+    });
+    (data.participants || []).forEach(participant => {
+      this.participants.push({ ...participant, joinedAt: new Date(participant.joinedAt) });
+    });
+    Object.values(data.rooms || {}).forEach(snapshot => {
+      this.rooms.set(snapshot.id, snapshot);
+    });
+    // Stores written before accounts, templates and webhooks were persisted have none of them
+    (data.users || []).forEach(user => {
+      this.users.push({ ...user, createdAt: new Date(user.createdAt) });
+    });
+    (data.teams || []).forEach(team => {
+      this.teams.push({ ...team, createdAt: new Date(team.createdAt) });
+    });
+    (data.templates || []).forEach(template => {
+      this.templates.push({ ...template, createdAt: new Date(template.createdAt), updatedAt: new Date(template.updatedAt) });
+    });
+    (data.webhookSubscriptions || []).forEach(subscription => {
+      this.webhookSubscriptions.push({ ...subscription, createdAt: new Date(subscription.createdAt) });
+    });
+    (data.webhookDeliveries || []).forEach(delivery => {
+      this.webhookDeliveries.push({
+        ...delivery,
+        attempts: delivery.attempts.map(attempt => ({ ...attempt, at: new Date(attempt.at) })),
+        createdAt: new Date(delivery.createdAt)
+      });
+    });
+
+    console.log(`Loaded ${this.retros.length} retros, ${this.rooms.size} rooms and ${this.users.length} users from ${this.filePath}`);
+  }
+
+  private flush(): void {
+    const data: StoreFile = {
+      retros: this.retros,
+      participants: this.participants,
+      rooms: Object.fromEntries(this.rooms),
+      users: this.users,
+      teams: this.teams,
+      templates: this.templates,
+      webhookSubscriptions: this.webhookSubscriptions,
+      webhookDeliveries: this.webhookDeliveries
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+export const DEFAULT_STORAGE_PATH = path.join(process.cwd(), 'storage', 'retros.json');
+
+/**
+ * Create the repository selected by the RETRO_STORAGE env var ('memory' or 'file').
+ * The file backend writes to RETRO_STORAGE_PATH (defaults to ./storage/retros.json).
+ * @param retros - Backing array for retros
+ * @param participants - Backing array for stored participants
+ * @param users - Backing array for user accounts
+ * @param teams - Backing array for teams
+ * @param templates - Backing array for custom templates
+ * @param webhookSubscriptions - Backing array for webhook subscriptions
+ * @param webhookDeliveries - Backing array for the webhook delivery log
+ */
+export const createRetroRepository = (
+  retros: Retro[] = [],
+  participants: Participant[] = [],
+  users: User[] = [],
+  teams: Team[] = [],
+  templates: Template[] = [],
+  webhookSubscriptions: WebhookSubscription[] = [],
+  webhookDeliveries: WebhookDelivery[] = []
+): RetroRepository => {
+  const storage = process.env.RETRO_STORAGE || 'memory';
+  const storagePath = process.env.RETRO_STORAGE_PATH || DEFAULT_STORAGE_PATH;
+
+  switch (storage) {
+    case 'memory':
+      return new InMemoryRetroRepository(retros, participants, users, teams, templates, webhookSubscriptions, webhookDeliveries);
+    case 'file':
+      return new FileRetroRepository(
+        storagePath, retros, participants, users, teams, templates, webhookSubscriptions, webhookDeliveries
+      );
+    default:
+      throw new Error(`Unknown RETRO_STORAGE "${storage}" (expected "memory" or "file")`);
+  }
+};
+
+// In-memory storage for retrospectives (backing store of the default repository)
+export const retros: Retro[] = [];
+
+// In-memory storage for participants
+export const participants: Participant[] = [];
+
+// In-memory storage for user accounts
+export const users: User[] = [];
+
+// In-memory storage for teams
+export const teams: Team[] = [];
+
+// In-memory storage for custom templates
+export const customTemplates: Template[] = [];
+
+// In-memory storage for webhook subscriptions
+export const webhookSubscriptions: WebhookSubscription[] = [];
+
+// In-memory webhook delivery log, newest first
+export const webhookDeliveries: WebhookDelivery[] = [];
+
+// Created lazily so RETRO_STORAGE from .env is read after dotenv has loaded
+let repository: RetroRepository | null = null;
+
+// The repository shared by retros, accounts (data/users.ts), templates (data/templates.ts) and webhooks (data/webhooks.ts)
+export const getRetroRepository = (): RetroRepository => {
+  if (!repository) {
+    repository = createRetroRepository(
+      retros, participants, users, teams, customTemplates, webhookSubscriptions, webhookDeliveries
+    );
+  }
+  return repository;
+};
+
+// Replace the storage backend (e.g. with a custom RetroRepository implementation)
+export const setRetroRepository = (newRepository: RetroRepository): void => {
+  repository = newRepository;
+};
@@ -0,0 +1,45 @@
+import { Retro, RetroStatus } from '../models/Retro';
+import { getRetroById, updateRetro } from './retros';
+
+export const RETRO_STATUSES: readonly RetroStatus[] = ['draft', 'active', 'voting', 'completed'];
+
+// Statuses each status may move to; completed retros are final
+const STATUS_TRANSITIONS: Record<RetroStatus, readonly RetroStatus[]> = {
+  draft: ['active', 'voting', 'completed'],
+  active: ['voting', 'completed'],
+  voting: ['active', 'completed'],
+  completed: []
+};
+
+export const isRetroStatus = (value: unknown): value is RetroStatus => {
+  return typeof value === 'string' && (RETRO_STATUSES as readonly string[]).includes(value);
+};
+
+// Staying in the same status is always allowed
+export const canTransitionStatus = (from: RetroStatus, to: RetroStatus): boolean => {
+  return from === to || STATUS_TRANSITIONS[from].includes(to);
+};
+
+// Status a retro is in while the given stage is shown
+export const getStatusForStage = (stageId: string): RetroStatus => {
+  switch (stageId) {
+    case 'vote':
+      return 'voting';
+    case 'report':
+      return 'completed';
+    default:
+      return 'active';
+  }
+};
+
+/**
+ * Move a retro to a new status if the lifecycle allows it.
+ * @returns The updated retro, or null if the retro is unknown, already in that status or the move isn't allowed
+ */
+export const transitionRetroStatus = (retroId: string, status: RetroStatus): Retro | null => {
+  const retro = getRetroById(retroId);
+  if (!retro || !isRetroStatus(retro.status) || retro.status === status) return null;
+  if (!canTransitionStatus(retro.status, status)) return null;
+
+  return updateRetro(retroId, { status });
+};
@@ -1,26 +1,47 @@
-import { Retro } from '../models/Retro';
+import { Retro, RetroFilters } from '../models/Retro';
+import { Participant } from '../models/Participant';
+import { RoomSnapshot } from '../types';
+import { getRetroRepository } from './repository';
 
-// In-memory storage for retrospectives
-export const retros: Retro[] = [];
-
-// In-memory storage for participants
-export interface Participant {
-  id: string;
-  retroId: string;
-  name: string; // Random generated name
-  joinedAt: Date;
-}
-
-export const participants: Participant[] = [];
+export { Participant };
+export { retros, participants, setRetroRepository } from './repository';
 
 // Helper function to get all retros
 export const getAllRetros = (): Retro[] => {
-  return retros.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  return getRetroRepository().getAllRetros().sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
+
+// Retros matching all the given filters, newest first
+export const findRetros = (filters: RetroFilters): Retro[] => {
+  const search = filters.search?.trim().toLowerCase();
+
+  return getAllRetros().filter(retro => {
+    if (search && !`${retro.sessionName}\n${retro.context}`.toLowerCase().includes(search)) return false;
+    if (filters.templateId && retro.templateId !== filters.templateId) return false;
+    if (filters.status && retro.status !== filters.status) return false;
+    if (filters.teamId && retro.teamId !== filters.teamId) return false;
+    if (filters.from && retro.createdAt < filters.from) return false;
+    if (filters.to && retro.createdAt > filters.to) return false;
+    return true;
+  });
+};
+
+// The team's most recent retro created before the given one, if the retro belongs to a team
+export const getPreviousTeamRetro = (retro: Retro): Retro | undefined => {
+  if (!retro.teamId) return undefined;
+  return findRetros({ teamId: retro.teamId }).find(
+    other => other.id !== retro.id && other.createdAt < retro.createdAt
+  );
 };
 
 // Helper function to get a retro by ID
 export const getRetroById = (id: string): Retro | undefined => {
-  return retros.find(retro => retro.id === id);
+  return getRetroRepository().getRetroById(id);
+};
+
+// The retro whose report is shared under the given link id
+export const getRetroByReportShareId = (shareId: string): Retro | undefined => {
+  return getRetroRepository().getAllRetros().find(retro => retro.reportShareId === shareId);
 };
 
 // Helper function to create a retro
@@ -32,38 +53,30 @@ export const createRetro = (retro: Omit<Retro, 'id' | 'createdAt' | 'updatedAt'>
     createdAt: now,
     updatedAt: now
   };
-  retros.push(newRetro);
-  return newRetro;
+  return getRetroRepository().insertRetro(newRetro);
 };
 
 // Helper function to update a retro
 export const updateRetro = (id: string, updates: Partial<Omit<Retro, 'id' | 'createdAt' | 'updatedAt'>>): Retro | null => {
-  const index = retros.findIndex(retro => retro.id === id);
-  if (index === -1) return null;
-  
-  retros[index] = {
-    ...retros[index],
+  const existing = getRetroRepository().getRetroById(id);
+  if (!existing) return null;
+
+  return getRetroRepository().replaceRetro({
+    ...existing,
     ...updates,
     updatedAt: new Date()
-  };
-  
-  return retros[index];
+  });
 };
 
 // Helper function to delete a retro
 export const deleteRetro = (id: string): boolean => {
-  const index = retros.findIndex(retro => retro.id === id);
-  if (index === -1) return false;
-  
-  retros.splice(index, 1);
-  // Also remove participants
-  const participantIndices = participants
-    .map((p, i) => (p.retroId === id ? i : -1))
-    .filter(i => i !== -1)
-    .reverse();
-  
-  participantIndices.forEach(i => participants.splice(i, 1));
-  
+  const repo = getRetroRepository();
+  if (!repo.deleteRetro(id)) return false;
+
+  // Also remove participants and any saved room state
+  repo.deleteParticipantsByRetroId(id);
+  repo.deleteRoomState(id);
+
   return true;
 };
 
@@ -74,11 +87,25 @@ export const addParticipant = (participant: Omit<Participant, 'id' | 'joinedAt'>
     id: `participant-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
     joinedAt: new Date()
   };
-  participants.push(newParticipant);
-  return newParticipant;
+  return getRetroRepository().addParticipant(newParticipant);
 };
 
 // Helper function to get participants for a retro
 export const getParticipantsByRetroId = (retroId: string): Participant[] => {
-  return participants.filter(p => p.retroId === retroId);
+  return getRetroRepository().getParticipantsByRetroId(retroId);
+};
+
+// Helper function to get the saved state of a retro's live room
+export const getRoomState = (retroId: string): RoomSnapshot | undefined => {
+  return getRetroRepository().getRoomState(retroId);
+};
+
+// Helper function to save the state of a retro's live room
+export const saveRoomState = (snapshot: RoomSnapshot): void => {
+  getRetroRepository().saveRoomState(snapshot);
+};
+
+// Helper function to remove the saved state of a retro's live room
+export const deleteRoomState = (retroId: string): void => {
+  getRetroRepository().deleteRoomState(retroId);
 };
@@ -0,0 +1,46 @@
+import { Retro } from '../models/Retro';
+import { User } from '../models/User';
+import { getTeamById } from './users';
+import { matchesFacilitatorToken } from './facilitatorTokens';
+
+// Roles from most to least privileged; each role may do everything the roles below it can
+export type Role = 'admin' | 'facilitator' | 'member' | 'viewer';
+
+const ROLE_RANK: Record<Role, number> = {
+  admin: 3,
+  facilitator: 2,
+  member: 1,
+  viewer: 0
+};
+
+export const hasRole = (role: Role, minimum: Role): boolean => {
+  return ROLE_RANK[role] >= ROLE_RANK[minimum];
+};
+
+// Role outside of any retro: admins by account, other accounts are members and anonymous callers viewers
+export const getAccountRole = (user: User | undefined): Role => {
+  if (!user) return 'viewer';
+  return user.role === 'admin' ? 'admin' : 'member';
+};
+
+/**
+ * Resolve what a caller may do with a retro.
+ * The retro's owner and whoever holds its facilitator token facilitate it. Retros that belong to a
+ * team are only open to its members (everyone else can watch); other retros are open to everyone.
+ * @param user - The logged-in account, if any
+ * @param facilitatorToken - The facilitator token presented by the caller, if any
+ */
+export const getRetroRole = (
+  retro: Retro,
+  user: User | undefined,
+  facilitatorToken?: string | null
+): Role => {
+  if (user?.role === 'admin') return 'admin';
+  if ((user && user.id === retro.ownerId) || matchesFacilitatorToken(retro.facilitatorTokenHash, facilitatorToken)) {
+    return 'facilitator';
+  }
+
+  if (!retro.teamId) return 'member';
+  const team = getTeamById(retro.teamId);
+  return user && team?.memberIds.includes(user.id) ? 'member' : 'viewer';
+};
@@ -1,6 +1,12 @@
-import { Template } from '../models/Template';
+import { v4 as uuidv4 } from 'uuid';
+import { Template, TemplateFile, TEMPLATE_FILE_SCHEMA, TEMPLATE_FILE_VERSION } from '../models/Template';
+import { getRetroRepository } from './repository';
 
-export const templates: Template[] = [
+// Custom templates are kept with the retros made from them
+export { customTemplates } from './repository';
+
+// Built-in templates (isDefault: true), which never change
+export const systemTemplates: Template[] = [
   {
     id: '0',
     name: 'What Went Well, What Went Less Well, What to Try Next, What Puzzles Us',
@@ -184,12 +190,51 @@ export const templates: Template[] = [
   }
 ];
 
-// Helper function to get all templates
+// Helper function to get all templates, system ones first
 export const getAllTemplates = (): Template[] => {
-  return templates;
+  return [...systemTemplates, ...getRetroRepository().getCustomTemplates()];
 };
 
 // Helper function to get a template by ID
 export const getTemplateById = (id: string): Template | undefined => {
-  return templates.find(template => template.id === id);
+  return getAllTemplates().find(template => template.id === id);
+};
+
+export const createTemplate = (
+  template: Pick<Template, 'name' | 'description' | 'columns' | 'createdBy' | 'stages' | 'icebreakerQuestions' | 'options'>
+): Template => {
+  const now = new Date();
+  const newTemplate: Template = {
+    ...template,
+    id: uuidv4(),
+    isDefault: false,
+    createdAt: now,
+    updatedAt: now
+  };
+  return getRetroRepository().insertTemplate(newTemplate);
+};
+
+export const updateTemplate = (
+  id: string,
+  updates: Partial<Pick<Template, 'name' | 'description' | 'columns'>>
+): Template | null => {
+  const template = getTemplateById(id);
+  if (!template || template.isDefault) return null;
+
+  return getRetroRepository().replaceTemplate({ ...template, ...updates, updatedAt: new Date() });
+};
+
+export const deleteTemplate = (id: string): boolean => {
+  return getRetroRepository().deleteTemplate(id);
+};
+
+// Template as a portable file; ids, ownership and timestamps are left out so it can be imported anywhere
+export const toTemplateFile = (template: Template): TemplateFile => {
+  const { name, description, columns, stages, icebreakerQuestions, options } = template;
+  return {
+    schema: TEMPLATE_FILE_SCHEMA,
+    version: TEMPLATE_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    template: { name, description, columns, stages, icebreakerQuestions, options }
+  };
 };
@@ -0,0 +1,85 @@
+import { v4 as uuidv4 } from 'uuid';
+import { User, PublicUser } from '../models/User';
+import { Team, TeamWithMembers } from '../models/Team';
+import { getRetroRepository } from './repository';
+
+// Accounts and teams are kept with the retros, so team retros keep their members across restarts
+export { users, teams } from './repository';
+
+export const toPublicUser = (user: User): PublicUser => {
+  const { passwordHash: _passwordHash, ...publicUser } = user;
+  return publicUser;
+};
+
+export const getUserById = (id: string): User | undefined => {
+  return getRetroRepository().getAllUsers().find(user => user.id === id);
+};
+
+export const getUserByEmail = (email: string): User | undefined => {
+  const normalized = email.trim().toLowerCase();
+  return getRetroRepository().getAllUsers().find(user => user.email === normalized);
+};
+
+// Accounts registered with an email listed in ADMIN_EMAILS (comma-separated) are admins
+const isAdminEmail = (email: string): boolean => {
+  return (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .some(adminEmail => adminEmail.trim().toLowerCase() === email);
+};
+
+export const createUser = (user: Omit<User, 'id' | 'role' | 'createdAt'>): User => {
+  const email = user.email.trim().toLowerCase();
+  const newUser: User = {
+    ...user,
+    email,
+    role: isAdminEmail(email) ? 'admin' : 'member',
+    id: uuidv4(),
+    createdAt: new Date()
+  };
+  return getRetroRepository().insertUser(newUser);
+};
+
+export const getTeamById = (id: string): Team | undefined => {
+  return getRetroRepository().getAllTeams().find(team => team.id === id);
+};
+
+// Teams the user is a member of
+export const getTeamsForUser = (userId: string): Team[] => {
+  return getRetroRepository().getAllTeams().filter(team => team.memberIds.includes(userId));
+};
+
+// The creator starts out as the only member
+export const createTeam = (name: string, createdBy: string): Team => {
+  const newTeam: Team = {
+    id: uuidv4(),
+    name,
+    memberIds: [createdBy],
+    createdBy,
+    createdAt: new Date()
+  };
+  return getRetroRepository().insertTeam(newTeam);
+};
+
+export const addTeamMember = (teamId: string, userId: string): Team | null => {
+  const team = getTeamById(teamId);
+  if (!team) return null;
+
+  if (team.memberIds.includes(userId)) return team;
+  return getRetroRepository().replaceTeam({ ...team, memberIds: [...team.memberIds, userId] });
+};
+
+export const removeTeamMember = (teamId: string, userId: string): Team | null => {
+  const team = getTeamById(teamId);
+  if (!team) return null;
+
+  return getRetroRepository().replaceTeam({ ...team, memberIds: team.memberIds.filter(id => id !== userId) });
+};
+
+export const toTeamWithMembers = (team: Team): TeamWithMembers => {
+  const { memberIds, ...rest } = team;
+  const members = memberIds
+    .map(getUserById)
+    .filter((user): user is User => !!user)
+    .map(user => ({ id: user.id, name: user.name, email: user.email }));
+  return { ...rest, members };
+};
@@ -0,0 +1,172 @@
+import { createHmac } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Retro } from '../models/Retro';
+import {
+  CreateWebhookDTO,
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookPayload,
+  WebhookSubscription
+} from '../models/Webhook';
+import { getRetroRepository } from './repository';
+
+// Subscriptions and their delivery log are kept with the retros they report on
+export { webhookSubscriptions, webhookDeliveries } from './repository';
+
+export const SIGNATURE_HEADER = 'X-TeamRetro-Signature';
+
+// Attempts per delivery, the first one included
+export const MAX_DELIVERY_ATTEMPTS = 4;
+// Deliveries kept in the log per subscription; older ones are dropped
+const MAX_LOGGED_DELIVERIES = 50;
+const REQUEST_TIMEOUT_MS = 10000;
+
+export const getWebhookSubscriptions = (): WebhookSubscription[] => getRetroRepository().getWebhookSubscriptions();
+
+export const getWebhookSubscriptionById = (id: string): WebhookSubscription | undefined => {
+  return getWebhookSubscriptions().find(subscription => subscription.id === id);
+};
+
+export const createWebhookSubscription = (data: CreateWebhookDTO, createdBy: string): WebhookSubscription => {
+  const subscription: WebhookSubscription = {
+    id: uuidv4(),
+    url: data.url,
+    secret: data.secret,
+    events: Array.from(new Set(data.events)),
+    createdBy,
+    createdAt: new Date()
+  };
+  return getRetroRepository().insertWebhookSubscription(subscription);
+};
+
+// Removes the subscription along with its delivery log
+export const deleteWebhookSubscription = (id: string): boolean => {
+  const repository = getRetroRepository();
+  if (!repository.deleteWebhookSubscription(id)) return false;
+
+  getWebhookDeliveries(id).forEach(delivery => repository.deleteWebhookDelivery(delivery.id));
+  return true;
+};
+
+// The subscription's deliveries, newest first
+export const getWebhookDeliveries = (subscriptionId: string): WebhookDelivery[] => {
+  return getRetroRepository().getWebhookDeliveries().filter(delivery => delivery.subscriptionId === subscriptionId);
+};
+
+/**
+ * Signature sent in the X-TeamRetro-Signature header: "sha256=" followed by the hex HMAC-SHA256 of the
+ * request body, keyed with the subscription's secret. Receivers recompute it to check the sender.
+ */
+export const signWebhookPayload = (secret: string, body: string): string => {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+};
+
+// Wait before retry n (1-based): WEBHOOK_RETRY_DELAY_MS (default 1s), doubled for every further retry
+const getRetryDelay = (retry: number): number => {
+  const baseDelay = Number(process.env.WEBHOOK_RETRY_DELAY_MS) || 1000;
+  return baseDelay * 2 ** (retry - 1);
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms).unref());
+
+// Subscribers that are down, overloaded or rate limiting are retried; other refusals are final
+const isRetryable = (attempt: WebhookAttempt): boolean => {
+  return attempt.statusCode === null || attempt.statusCode === 429 || attempt.statusCode >= 500;
+};
+
+const sendAttempt = async (subscription: WebhookSubscription, delivery: WebhookDelivery): Promise<WebhookAttempt> => {
+  const body = JSON.stringify(delivery.payload);
+  const at = new Date();
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-TeamRetro-Event': delivery.event,
+        'X-TeamRetro-Delivery': delivery.id,
+        [SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, body)
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    return response.ok
+      ? { at, statusCode: response.status }
+      : { at, statusCode: response.status, error: `Responded with ${response.status}` };
+  } catch (error) {
+    return { at, statusCode: null, error: (error as Error).message };
+  }
+};
+
+// Every attempt is saved to the log as it is made
+const deliver = async (subscription: WebhookSubscription, delivery: WebhookDelivery): Promise<WebhookDelivery> => {
+  const repository = getRetroRepository();
+  for (let attemptNumber = 1; attemptNumber <= MAX_DELIVERY_ATTEMPTS; attemptNumber++) {
+    const attempt = await sendAttempt(subscription, delivery);
+    delivery.attempts.push(attempt);
+
+    if (!attempt.error) {
+      delivery.status = 'delivered';
+      return repository.saveWebhookDelivery(delivery);
+    }
+    if (!isRetryable(attempt) || attemptNumber === MAX_DELIVERY_ATTEMPTS) break;
+    repository.saveWebhookDelivery(delivery);
+    await sleep(getRetryDelay(attemptNumber));
+  }
+
+  delivery.status = 'failed';
+  return repository.saveWebhookDelivery(delivery);
+};
+
+const logDelivery = (delivery: WebhookDelivery) => {
+  const repository = getRetroRepository();
+  repository.saveWebhookDelivery(delivery);
+  getWebhookDeliveries(delivery.subscriptionId).slice(MAX_LOGGED_DELIVERIES).forEach(stale => {
+    repository.deleteWebhookDelivery(stale.id);
+  });
+};
+
+/**
+ * Send a retro event to every subscription that asked for it. Deliveries run in the background and
+ * are retried with exponential backoff, so callers don't need to wait; the returned promise settles
+ * once every delivery has succeeded or given up.
+ * @param data - Event-specific fields added to the payload next to the retro, e.g. the new stage
+ */
+export const emitWebhookEvent = (
+  event: WebhookEvent,
+  retro: Retro,
+  data: Record<string, unknown> = {}
+): Promise<WebhookDelivery[]> => {
+  const subscriptions = getWebhookSubscriptions().filter(subscription => subscription.events.includes(event));
+
+  return Promise.all(subscriptions.map(subscription => {
+    const id = uuidv4();
+    const createdAt = new Date();
+    const payload: WebhookPayload = {
+      id,
+      event,
+      createdAt: createdAt.toISOString(),
+      retro: {
+        id: retro.id,
+        sessionName: retro.sessionName,
+        status: retro.status,
+        templateId: retro.templateId,
+        teamId: retro.teamId,
+        createdAt: retro.createdAt
+      },
+      ...data
+    };
+    const delivery: WebhookDelivery = {
+      id,
+      subscriptionId: subscription.id,
+      event,
+      payload,
+      status: 'pending',
+      attempts: [],
+      createdAt
+    };
+
+    logDelivery(delivery);
+    return deliver(subscription, delivery);
+  }));
+};
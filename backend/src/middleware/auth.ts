@@ -0,0 +1,56 @@
+import { Request, Response, NextFunction } from 'express';
+import { randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { User } from '../models/User';
+import { getUserById } from '../data/users';
+
+const AUTH_TOKEN_EXPIRY = '7d';
+
+// Without JWT_SECRET a per-process secret is used, so logins don't survive a restart
+let fallbackSecret: string | null = null;
+
+const getJwtSecret = (): string => {
+  if (process.env.JWT_SECRET) return process.env.JWT_SECRET;
+
+  if (!fallbackSecret) {
+    console.warn('JWT_SECRET is not set - using a random secret, logins will not survive a restart');
+    fallbackSecret = randomBytes(32).toString('hex');
+  }
+  return fallbackSecret;
+};
+
+export const signAuthToken = (user: User): string => {
+  return jwt.sign({ sub: user.id }, getJwtSecret(), { expiresIn: AUTH_TOKEN_EXPIRY });
+};
+
+/**
+ * Resolve a JWT to the user it was issued to.
+ * @returns The user, or undefined if the token is missing, invalid, expired or the user no longer exists
+ */
+export const getUserFromAuthToken = (token: string | null | undefined): User | undefined => {
+  if (!token) return undefined;
+
+  try {
+    const payload = jwt.verify(token, getJwtSecret());
+    return typeof payload === 'object' && typeof payload.sub === 'string' ? getUserById(payload.sub) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const getBearerToken = (req: Request): string | undefined => {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : undefined;
+};
+
+// Reject requests without a valid "Authorization: Bearer <token>" header; the user is put on res.locals.user
+export const requireAuth = (req: Request, res: Response, next: NextFunction): void => {
+  const user = getUserFromAuthToken(getBearerToken(req));
+  if (!user) {
+    res.status(401).json({ message: 'Authentication required' });
+    return;
+  }
+
+  res.locals.user = user;
+  next();
+};
@@ -5,6 +5,14 @@ export interface AppError extends Error {
   isOperational?: boolean;
 }
 
+// An expected error (bad input, missing permission) to pass to next(); its message is shown to the client
+export const createAppError = (message: string, statusCode: number): AppError => {
+  const error: AppError = new Error(message);
+  error.statusCode = statusCode;
+  error.isOperational = true;
+  return error;
+};
+
 export const errorHandler = (
   err: AppError,
   req: Request,
@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRetroById } from '../data/retros';
+import { Role, hasRole, getAccountRole, getRetroRole } from '../data/roles';
+import { getBearerToken, getUserFromAuthToken } from './auth';
+import { createAppError } from './errorHandler';
+
+const FORBIDDEN_MESSAGE = 'You do not have permission to do that';
+
+const getBearerUser = (req: Request) => getUserFromAuthToken(getBearerToken(req));
+
+// Put the caller's account (if they sent a valid Bearer token) on res.locals.user without requiring one
+export const optionalAuth = (req: Request, res: Response, next: NextFunction): void => {
+  res.locals.user = getBearerUser(req);
+  next();
+};
+
+// Require an account-wide role; the role is put on res.locals.role
+export const requireRole = (minimum: Role) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const user = getBearerUser(req);
+    const role = getAccountRole(user);
+    if (!hasRole(role, minimum)) {
+      next(createAppError(FORBIDDEN_MESSAGE, 403));
+      return;
+    }
+
+    res.locals.user = user;
+    res.locals.role = role;
+    next();
+  };
+};
+
+/**
+ * Require a role on the retro whose id is in the given route parameter (req.params.id by default).
+ * Facilitators without an account prove their role with the X-Facilitator-Token header.
+ * Unknown retros are passed on so the controller can 404.
+ */
+export const requireRetroRole = (minimum: Role, param: string = 'id') => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const retro = getRetroById(req.params[param]);
+    if (!retro) {
+      next();
+      return;
+    }
+
+    const user = getBearerUser(req);
+    const role = getRetroRole(retro, user, req.header('X-Facilitator-Token'));
+    if (!hasRole(role, minimum)) {
+      next(createAppError(FORBIDDEN_MESSAGE, 403));
+      return;
+    }
+
+    res.locals.user = user;
+    res.locals.role = role;
+    next();
+  };
+};
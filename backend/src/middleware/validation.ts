@@ -1,4 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
+import { NAME_DECKS } from '../data/names';
+import { DEFAULT_VOTING_LIMITS } from '../models/Retro';
+import { isRetroStatus } from '../data/retroLifecycle';
+import { EXPORT_FORMATS, ExportFormat } from '../data/export';
+import { TEMPLATE_FILE_SCHEMA, TEMPLATE_FILE_VERSION } from '../models/Template';
+import { REPORT_FORMATS, ReportFormat } from '../models/Report';
+import { WEBHOOK_EVENTS, WebhookEvent } from '../models/Webhook';
 
 export const validateRetroCreation = (req: Request, res: Response, next: NextFunction): void => {
   const { sessionName, templateId } = req.body;
@@ -15,3 +22,275 @@ export const validateRetroCreation = (req: Request, res: Response, next: NextFun
 
   next();
 };
+
+export const MAX_RETRO_PAGE_SIZE = 100;
+
+const isPositiveInteger = (value: unknown): boolean => {
+  return typeof value === 'string' && /^\d+$/.test(value) && Number(value) > 0;
+};
+
+const isDate = (value: unknown): boolean => {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+};
+
+// Query parameters for listing retros: page, pageSize, q, templateId, status, teamId, from and to
+export const validateRetroQuery = (req: Request, res: Response, next: NextFunction): void => {
+  const { page, pageSize, status, from, to } = req.query;
+
+  if (page !== undefined && !isPositiveInteger(page)) {
+    res.status(400).json({ message: 'Page must be a positive whole number' });
+    return;
+  }
+
+  if (pageSize !== undefined && (!isPositiveInteger(pageSize) || Number(pageSize) > MAX_RETRO_PAGE_SIZE)) {
+    res.status(400).json({ message: `Page size must be a whole number from 1 to ${MAX_RETRO_PAGE_SIZE}` });
+    return;
+  }
+
+  if (status !== undefined && !isRetroStatus(status)) {
+    res.status(400).json({ message: 'Status must be one of: draft, active, voting, completed' });
+    return;
+  }
+
+  if ((from !== undefined && !isDate(from)) || (to !== undefined && !isDate(to))) {
+    res.status(400).json({ message: 'Date range must use valid dates' });
+    return;
+  }
+
+  next();
+};
+
+// Query parameters for team analytics: teamId (required), from and to
+export const validateAnalyticsQuery = (req: Request, res: Response, next: NextFunction): void => {
+  const { teamId, from, to } = req.query;
+
+  if (typeof teamId !== 'string' || teamId.length === 0) {
+    res.status(400).json({ message: 'Team is required' });
+    return;
+  }
+  if ((from !== undefined && !isDate(from)) || (to !== undefined && !isDate(to))) {
+    res.status(400).json({ message: 'Date range must use valid dates' });
+    return;
+  }
+
+  next();
+};
+
+// Query parameters for a retro export: format, csv (default) or xlsx
+export const validateExportQuery = (req: Request, res: Response, next: NextFunction): void => {
+  const { format } = req.query;
+
+  if (format !== undefined && !EXPORT_FORMATS.includes(format as ExportFormat)) {
+    res.status(400).json({ message: 'Format must be csv or xlsx' });
+    return;
+  }
+
+  next();
+};
+
+// Query parameters for a retro report: format, html (default) or md
+export const validateReportQuery = (req: Request, res: Response, next: NextFunction): void => {
+  const { format } = req.query;
+
+  if (format !== undefined && !REPORT_FORMATS.includes(format as ReportFormat)) {
+    res.status(400).json({ message: 'Format must be md or html' });
+    return;
+  }
+
+  next();
+};
+
+const isHttpUrl = (value: unknown): boolean => {
+  if (typeof value !== 'string') return false;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Body of a new webhook subscription: url, secret and the events to send
+export const validateWebhook = (req: Request, res: Response, next: NextFunction): void => {
+  const { url, secret, events } = req.body;
+
+  if (!isHttpUrl(url)) {
+    res.status(400).json({ message: 'URL must be a valid http or https URL' });
+    return;
+  }
+  if (typeof secret !== 'string' || secret.trim().length === 0) {
+    res.status(400).json({ message: 'Secret is required' });
+    return;
+  }
+  if (!Array.isArray(events) || events.length === 0 ||
+      !events.every(event => WEBHOOK_EVENTS.includes(event as WebhookEvent))) {
+    res.status(400).json({ message: `Events must be one or more of: ${WEBHOOK_EVENTS.join(', ')}` });
+    return;
+  }
+
+  next();
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+export const validateRegistration = (req: Request, res: Response, next: NextFunction): void => {
+  const { email, name, password } = req.body;
+
+  if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+    res.status(400).json({ message: 'A valid email is required' });
+    return;
+  }
+
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    res.status(400).json({ message: 'Name is required' });
+    return;
+  }
+
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    return;
+  }
+
+  next();
+};
+
+export const MIN_TEMPLATE_COLUMNS = 2;
+export const MAX_TEMPLATE_COLUMNS = 8;
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// A name and 2-8 columns with unique ids, hex colors and unique orders; returns the first problem found
+const getTemplateError = (template: any): string | null => {
+  const { name, description, columns } = template;
+
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    return 'Template name is required';
+  }
+  if (description !== undefined && typeof description !== 'string') {
+    return 'Description must be text';
+  }
+  if (!Array.isArray(columns) || columns.length < MIN_TEMPLATE_COLUMNS || columns.length > MAX_TEMPLATE_COLUMNS) {
+    return `A template needs between ${MIN_TEMPLATE_COLUMNS} and ${MAX_TEMPLATE_COLUMNS} columns`;
+  }
+
+  const ids = new Set<string>();
+  const orders = new Set<number>();
+  for (const column of columns) {
+    if (typeof column?.id !== 'string' || column.id.trim().length === 0 ||
+        typeof column.name !== 'string' || column.name.trim().length === 0) {
+      return 'Each column needs an id and a name';
+    }
+    if (typeof column.color !== 'string' || !HEX_COLOR_PATTERN.test(column.color)) {
+      return 'Column colors must be hex colors like #3b82f6';
+    }
+    if (column.placeholder !== undefined && typeof column.placeholder !== 'string') {
+      return 'Column placeholders must be text';
+    }
+    if (!Number.isInteger(column.order)) {
+      return 'Column order must be a whole number';
+    }
+    if (ids.has(column.id)) {
+      return 'Column ids must be unique';
+    }
+    if (orders.has(column.order)) {
+      return 'Column orders must be unique';
+    }
+    ids.add(column.id);
+    orders.add(column.order);
+  }
+
+  return null;
+};
+
+// Body of POST/PUT /api/templates
+export const validateTemplate = (req: Request, res: Response, next: NextFunction): void => {
+  const error = getTemplateError(req.body);
+  if (error) {
+    res.status(400).json({ message: error });
+    return;
+  }
+
+  next();
+};
+
+const STAGE_IDS = ['previous-actions', 'icebreaker', 'brainstorm', 'group', 'vote', 'discuss', 'review', 'report'];
+const MAX_ICEBREAKER_QUESTIONS = 50;
+const BOOLEAN_OPTIONS = ['reactionsEnabled', 'commentsEnabled', 'commentReactionsEnabled'] as const;
+
+// Problems with the retro defaults a template file may carry, one message per problem
+const getTemplateDefaultsErrors = (template: any): string[] => {
+  const errors: string[] = [];
+  const { stages, icebreakerQuestions, options } = template;
+
+  if (stages !== undefined) {
+    if (!Array.isArray(stages)) {
+      errors.push('"stages" must be a list');
+    } else {
+      const seen = new Set<string>();
+      stages.forEach((stage: any, index: number) => {
+        if (!STAGE_IDS.includes(stage?.id) || seen.has(stage.id)) {
+          errors.push(`stages[${index}] must have a unique id, one of: ${STAGE_IDS.join(', ')}`);
+        } else if (typeof stage.name !== 'string' || typeof stage.enabled !== 'boolean' ||
+                   typeof stage.duration !== 'number' || stage.duration < 0) {
+          errors.push(`stages[${index}] needs a name, a duration of 0 or more and enabled true or false`);
+        }
+        seen.add(stage?.id);
+      });
+    }
+  }
+
+  if (icebreakerQuestions !== undefined) {
+    if (!Array.isArray(icebreakerQuestions) || icebreakerQuestions.length === 0 ||
+        icebreakerQuestions.length > MAX_ICEBREAKER_QUESTIONS) {
+      errors.push(`"icebreakerQuestions" must be a list of 1 to ${MAX_ICEBREAKER_QUESTIONS} questions`);
+    } else if (icebreakerQuestions.some((question: unknown) => typeof question !== 'string' || question.trim().length === 0)) {
+      errors.push('Icebreaker questions must be non-empty text');
+    }
+  }
+
+  if (options !== undefined) {
+    if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+      errors.push('"options" must be an object');
+    } else {
+      if (options.nameDeck !== undefined && !NAME_DECKS.includes(options.nameDeck)) {
+        errors.push(`"options.nameDeck" must be one of: ${NAME_DECKS.join(', ')}`);
+      }
+      if (options.votingMethod !== undefined &&
+          !Object.prototype.hasOwnProperty.call(DEFAULT_VOTING_LIMITS, options.votingMethod)) {
+        errors.push(`"options.votingMethod" must be one of: ${Object.keys(DEFAULT_VOTING_LIMITS).join(', ')}`);
+      }
+      BOOLEAN_OPTIONS.forEach(option => {
+        if (options[option] !== undefined && typeof options[option] !== 'boolean') {
+          errors.push(`"options.${option}" must be true or false`);
+        }
+      });
+    }
+  }
+
+  return errors;
+};
+
+// Body of POST /api/templates/import: a template file as written by GET /api/templates/:id/export.
+// All problems found are listed in "errors" so a broken file can be fixed in one go.
+export const validateTemplateFile = (req: Request, res: Response, next: NextFunction): void => {
+  const file = req.body;
+  const errors: string[] = [];
+
+  if (file?.schema !== TEMPLATE_FILE_SCHEMA) {
+    errors.push(`Not a template file ("schema" must be "${TEMPLATE_FILE_SCHEMA}")`);
+  } else if (file.version !== TEMPLATE_FILE_VERSION) {
+    errors.push(`Unsupported template file version ${JSON.stringify(file.version)} (expected ${TEMPLATE_FILE_VERSION})`);
+  } else if (typeof file.template !== 'object' || file.template === null || Array.isArray(file.template)) {
+    errors.push('"template" is required');
+  } else {
+    const templateError = getTemplateError(file.template);
+    if (templateError) errors.push(templateError);
+    errors.push(...getTemplateDefaultsErrors(file.template));
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({ message: 'Invalid template file', errors });
+    return;
+  }
+
+  next();
+};
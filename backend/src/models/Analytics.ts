@@ -0,0 +1,40 @@
+// Cards one template column received in a retro
+export interface ColumnCardCount {
+  columnId: string;
+  columnName: string;
+  color: string;
+  count: number;
+}
+
+// One retro's data point in the team trends; rates are 0-1, or null when there is nothing to measure
+export interface RetroTrendPoint {
+  retroId: string;
+  sessionName: string;
+  createdAt: Date;
+  cardsPerColumn: ColumnCardCount[];
+  actionItems: { total: number; completed: number };
+  actionCompletionRate: number | null;
+  // Distinct people who added a card or voted, against the team's size
+  participants: number;
+  participationRate: number | null;
+  // Share of all votes that went to the three most voted items
+  voteConcentration: number | null;
+}
+
+// A word that keeps coming back in cards across retros
+export interface RecurringTheme {
+  term: string;
+  // Retros whose cards mention it, and how many cards do in total
+  retroCount: number;
+  cardCount: number;
+}
+
+export interface TeamAnalytics {
+  teamId: string;
+  teamSize: number;
+  // Oldest retro first
+  retros: RetroTrendPoint[];
+  // Across all the retros' action items
+  actionCompletionRate: number | null;
+  recurringThemes: RecurringTheme[];
+}
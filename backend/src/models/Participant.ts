@@ -0,0 +1,6 @@
+export interface Participant {
+  id: string;
+  retroId: string;
+  name: string; // Random generated name
+  joinedAt: Date;
+}
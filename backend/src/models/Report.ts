@@ -0,0 +1,54 @@
+import { ActionItem } from '../types';
+
+export type ReportFormat = 'md' | 'html';
+
+export const REPORT_FORMATS: ReportFormat[] = ['md', 'html'];
+
+export interface ReportComment {
+  authorName: string;
+  content: string;
+}
+
+// A card, or a group of cards, with its votes and the comments left on it
+export interface ReportItem {
+  id: string;
+  columnId: string;
+  columnName: string;
+  color: string;
+  // Contents of the card, or of each card in the group
+  cards: string[];
+  voteCount: number;
+  comments: ReportComment[];
+}
+
+export interface ReportColumn {
+  id: string;
+  name: string;
+  color: string;
+  items: ReportItem[];
+}
+
+export interface ReportActionItem extends Pick<ActionItem, 'title' | 'description' | 'priority' | 'dueDate' | 'status'> {
+  assigneeName: string;
+}
+
+// Everything a retro report shows, independent of how it is rendered
+export interface RetroReport {
+  sessionName: string;
+  context: string;
+  templateName: string;
+  createdAt: Date;
+  isAnonymous: boolean;
+  // Ranked and points voting are tallied in points rather than votes
+  voteUnit: 'votes' | 'points';
+  stats: {
+    participants: number;
+    cards: number;
+    votes: number;
+    actionItems: number;
+    highPriorityActions: number;
+  };
+  topVotedItems: ReportItem[];
+  actionItems: ReportActionItem[];
+  columns: ReportColumn[];
+}
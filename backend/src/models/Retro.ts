@@ -5,6 +5,19 @@ export interface RetroStage {
   enabled: boolean;
 }
 
+// dots: one click = one vote; ranked: order your top N (Borda count); points: distribute a budget
+export type VotingMethod = 'dots' | 'ranked' | 'points';
+
+// votingLimit means dots to place, items to rank, or points to distribute, depending on the method
+export const DEFAULT_VOTING_LIMITS: Record<VotingMethod, number> = {
+  dots: 5,
+  ranked: 3,
+  points: 10
+};
+
+// draft until the facilitator opens the retro, then active, voting during the vote stage and completed once reported
+export type RetroStatus = 'draft' | 'active' | 'voting' | 'completed';
+
 export interface Retro {
   id: string;
   sessionName: string;
@@ -12,13 +25,29 @@ export interface Retro {
   templateId: string;
   isAnonymous: boolean;
   votingLimit: number;
+  // Retros created before voting methods existed use dots
+  votingMethod?: VotingMethod;
+  // Most votes one participant may give a single item (no cap when null)
+  maxVotesPerItem?: number | null;
+  // Secret ballot: tallies stay hidden until the facilitator reveals them
+  blindVoting?: boolean;
   timerDuration: number | null;
-  status: 'draft' | 'active' | 'voting' | 'completed';
+  status: RetroStatus;
+  // When the session is planned to start (null when it isn't scheduled)
+  scheduledAt?: Date | null;
   stages?: RetroStage[];
   reactionsEnabled?: boolean;
   commentsEnabled?: boolean;
   commentReactionsEnabled?: boolean;
   nameDeck?: string;
+  // SHA-256 of the facilitator token; never sent to clients
+  facilitatorTokenHash?: string;
+  // Account that created the retro, if it was created while logged in
+  ownerId?: string;
+  // Team the retro belongs to; only its members may take part, everyone else can watch
+  teamId?: string;
+  // Random id of the read-only report link, once a facilitator has shared the report
+  reportShareId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -29,10 +58,34 @@ export interface CreateRetroDTO {
   templateId: string;
   isAnonymous: boolean;
   votingLimit?: number;
+  votingMethod?: VotingMethod;
+  maxVotesPerItem?: number | null;
+  blindVoting?: boolean;
   timerDuration?: number;
   stages?: RetroStage[];
   reactionsEnabled?: boolean;
   commentsEnabled?: boolean;
   commentReactionsEnabled?: boolean;
   nameDeck?: string;
+  teamId?: string;
+  scheduledAt?: string | null;
+}
+
+// Filters for listing retros; every given filter must match
+export interface RetroFilters {
+  // Case-insensitive text found in the session name or context
+  search?: string;
+  templateId?: string;
+  status?: RetroStatus;
+  teamId?: string;
+  // Created at or after / at or before
+  from?: Date;
+  to?: Date;
+}
+
+// How much happened in a retro, shown in the retro history
+export interface RetroCounts {
+  cards: number;
+  votes: number;
+  actionItems: number;
 }
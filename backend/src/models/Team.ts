@@ -0,0 +1,12 @@
+export interface Team {
+  id: string;
+  name: string;
+  memberIds: string[];
+  createdBy: string;
+  createdAt: Date;
+}
+
+// Team as sent to clients, with members resolved to names
+export interface TeamWithMembers extends Omit<Team, 'memberIds'> {
+  members: { id: string; name: string; email: string }[];
+}
@@ -1,14 +1,28 @@
+import { RetroStage, VotingMethod } from './Retro';
+
 export interface Template {
   id: string;
   name: string;
   description: string;
   columns: TemplateColumn[];
+  // Defaults for retros using the template (the app defaults apply when unset)
+  stages?: RetroStage[];
+  icebreakerQuestions?: string[];
+  options?: TemplateOptions;
   isDefault: boolean;
   createdBy: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface TemplateOptions {
+  nameDeck?: string;
+  votingMethod?: VotingMethod;
+  reactionsEnabled?: boolean;
+  commentsEnabled?: boolean;
+  commentReactionsEnabled?: boolean;
+}
+
 export interface TemplateColumn {
   id: string;
   name: string;
@@ -47,3 +61,15 @@ export const DEFAULT_TEMPLATES = {
     ],
   },
 };
+
+// Identifies exported template files; bump the version when the file layout changes
+export const TEMPLATE_FILE_SCHEMA = 'teamretro.template';
+export const TEMPLATE_FILE_VERSION = 1;
+
+// Portable template as exported to and imported from JSON files
+export interface TemplateFile {
+  schema: typeof TEMPLATE_FILE_SCHEMA;
+  version: typeof TEMPLATE_FILE_VERSION;
+  exportedAt: string;
+  template: Pick<Template, 'name' | 'description' | 'columns' | 'stages' | 'icebreakerQuestions' | 'options'>;
+}
@@ -0,0 +1,20 @@
+// Account-wide role; retro-level roles (facilitator, member, viewer) are resolved per retro
+export type AccountRole = 'admin' | 'member';
+
+export interface User {
+  id: string;
+  email: string; // Stored lowercased
+  name: string;
+  passwordHash: string; // bcrypt
+  role: AccountRole;
+  createdAt: Date;
+}
+
+// User as sent to clients
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+export interface CreateUserDTO {
+  email: string;
+  name: string;
+  password: string;
+}
@@ -0,0 +1,62 @@
+// Retro lifecycle events webhooks can subscribe to
+export type WebhookEvent = 'retro.created' | 'retro.stage-changed' | 'retro.completed' | 'action-item.added';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['retro.created', 'retro.stage-changed', 'retro.completed', 'action-item.added'];
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  // Key for the HMAC-SHA256 signature of each payload; never sent to clients
+  secret: string;
+  // Events the subscriber is sent
+  events: WebhookEvent[];
+  createdBy: string;
+  createdAt: Date;
+}
+
+// Subscription as sent to clients
+export type PublicWebhookSubscription = Omit<WebhookSubscription, 'secret'>;
+
+export interface CreateWebhookDTO {
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+}
+
+// Body of every webhook request
+export interface WebhookPayload {
+  // Same as the delivery id, so receivers can tell retries of one event apart from new events
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  retro: {
+    id: string;
+    sessionName: string;
+    status: string;
+    templateId: string;
+    teamId?: string;
+    createdAt: Date;
+  };
+  [key: string]: unknown;
+}
+
+export interface WebhookAttempt {
+  at: Date;
+  // HTTP status of the subscriber's response; null when it couldn't be reached
+  statusCode: number | null;
+  error?: string;
+}
+
+// pending while attempts remain, delivered once the subscriber answered with a 2xx, failed after the last attempt
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// One event sent to one subscription, with every attempt made to deliver it
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  createdAt: Date;
+}
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { getActions, getActionsCalendar, getTracker, pushAction, syncAction, updateAction } from '../controllers/actionController';
+import { requireAuth } from '../middleware/auth';
+import { requireRetroRole } from '../middleware/rbac';
+
+const router = Router();
+
+// Team action tracker; team members and facilitators may update a retro's action items
+router.get('/', requireAuth, getActions);
+router.get('/actions.ics', requireAuth, getActionsCalendar);
+router.patch('/:retroId/:actionId', requireRetroRole('member', 'retroId'), updateAction);
+
+// Issue tracker integration: push an item to the configured tracker and sync its status back.
+// Both reach an outside system, so they take a logged-in facilitator of the retro.
+router.get('/tracker', getTracker);
+router.post('/:retroId/:actionId/push', requireAuth, requireRetroRole('facilitator', 'retroId'), pushAction);
+router.post('/:retroId/:actionId/sync', requireAuth, requireRetroRole('facilitator', 'retroId'), syncAction);
+
+export default router;
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { getTeamAnalytics } from '../controllers/analyticsController';
+import { requireAuth } from '../middleware/auth';
+import { validateAnalyticsQuery } from '../middleware/validation';
+
+const router = Router();
+
+// Team trends are only visible to the team's members (and admins)
+router.get('/', requireAuth, validateAnalyticsQuery, getTeamAnalytics);
+
+export default router;
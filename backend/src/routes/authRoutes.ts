@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { register, login, getCurrentUser } from '../controllers/authController';
+import { validateRegistration } from '../middleware/validation';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+// Auth routes - clients send the returned token as "Authorization: Bearer <token>"
+router.post('/register', validateRegistration, register);
+router.post('/login', login);
+router.get('/me', requireAuth, getCurrentUser);
+
+export default router;
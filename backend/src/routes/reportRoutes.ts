@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { getSharedReport } from '../controllers/reportController';
+import { validateReportQuery } from '../middleware/validation';
+
+const router = Router();
+
+// Read-only retro reports shared by a facilitator (?format=html|md)
+router.get('/:shareId', validateReportQuery, getSharedReport);
+
+export default router;
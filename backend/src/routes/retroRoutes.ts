@@ -6,19 +6,43 @@ import {
   updateRetro,
   deleteRetro,
   updateRetroStatus,
+  getRetroInvite,
 } from '../controllers/retroController';
-import { validateRetroCreation } from '../middleware/validation';
+import { getPreviousActions } from '../controllers/actionController';
+import { exportRetro } from '../controllers/exportController';
+import { getRetroReport, shareRetroReport } from '../controllers/reportController';
+import {
+  validateExportQuery,
+  validateReportQuery,
+  validateRetroCreation,
+  validateRetroQuery
+} from '../middleware/validation';
+import { optionalAuth, requireRetroRole } from '../middleware/rbac';
 
 const router = Router();
 
-// Retro CRUD routes
-router.get('/', getAllRetros);
+// Retro CRUD routes; only the retro's facilitators (and admins) may change or delete it
+router.get('/', optionalAuth, validateRetroQuery, getAllRetros);
 router.get('/:id', getRetroById);
-router.post('/', validateRetroCreation, createRetro);
-router.patch('/:id', updateRetro);
-router.delete('/:id', deleteRetro);
+router.post('/', optionalAuth, validateRetroCreation, createRetro);
+router.patch('/:id', requireRetroRole('facilitator'), updateRetro);
+router.delete('/:id', requireRetroRole('facilitator'), deleteRetro);
+
+// iCalendar invite for scheduled retros, linking to the join page
+router.get('/:id/invite.ics', getRetroInvite);
+
+// Unfinished action items of the team's previous retro, for those who may take part in this one
+router.get('/:id/previous-actions', requireRetroRole('member'), getPreviousActions);
+
+// Results as a CSV or Excel download (?format=csv|xlsx)
+router.get('/:id/export', validateExportQuery, exportRetro);
+
+// Report as standalone HTML or Markdown (?format=html|md, add ?download for a file);
+// facilitators can share it through a read-only link
+router.get('/:id/report', validateReportQuery, getRetroReport);
+router.post('/:id/report/share', requireRetroRole('facilitator'), shareRetroReport);
 
 // Update retro status
-router.patch('/:id/status', updateRetroStatus);
+router.patch('/:id/status', requireRetroRole('facilitator'), updateRetroStatus);
 
 export default router;
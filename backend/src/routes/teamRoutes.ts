@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import {
+  getMyTeams,
+  getTeamById,
+  createTeam,
+  addTeamMember,
+  removeTeamMember,
+} from '../controllers/teamController';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+// Team routes (all require a logged-in member)
+router.use(requireAuth);
+router.get('/', getMyTeams);
+router.get('/:id', getTeamById);
+router.post('/', createTeam);
+router.post('/:id/members', addTeamMember);
+router.delete('/:id/members/:userId', removeTeamMember);
+
+export default router;
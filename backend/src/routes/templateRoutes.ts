@@ -1,10 +1,27 @@
 import { Router } from 'express';
-import { getAllTemplates, getTemplateById } from '../controllers/templateController';
+import {
+  getAllTemplates,
+  getTemplateById,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+  exportTemplate,
+  importTemplate,
+} from '../controllers/templateController';
+import { requireRole } from '../middleware/rbac';
+import { validateTemplate, validateTemplateFile } from '../middleware/validation';
 
 const router = Router();
 
-// Template routes
-router.get('/', getAllTemplates);
-router.get('/:id', getTemplateById);
+// Template routes; anyone, including anonymous viewers, may read templates
+router.get('/', requireRole('viewer'), getAllTemplates);
+router.get('/:id', requireRole('viewer'), getTemplateById);
+router.get('/:id/export', requireRole('viewer'), exportTemplate);
+
+// Custom templates need an account; the controller checks ownership
+router.post('/', requireRole('member'), validateTemplate, createTemplate);
+router.post('/import', requireRole('member'), validateTemplateFile, importTemplate);
+router.put('/:id', requireRole('member'), validateTemplate, updateTemplate);
+router.delete('/:id', requireRole('member'), deleteTemplate);
 
 export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { getWebhooks, createWebhook, deleteWebhook, getWebhookDeliveryLog } from '../controllers/webhookController';
+import { requireRole } from '../middleware/rbac';
+import { validateWebhook } from '../middleware/validation';
+
+const router = Router();
+
+// Webhook subscriptions are managed by admins
+router.use(requireRole('admin'));
+router.get('/', getWebhooks);
+router.post('/', validateWebhook, createWebhook);
+router.delete('/:id', deleteWebhook);
+router.get('/:id/deliveries', getWebhookDeliveryLog);
+
+export default router;
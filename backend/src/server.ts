@@ -30,14 +30,24 @@ app.get('/health', (_req, res) => {
 // Import routes
 import templateRoutes from './routes/templateRoutes';
 import retroRoutes from './routes/retroRoutes';
+import authRoutes from './routes/authRoutes';
+import teamRoutes from './routes/teamRoutes';
+import actionRoutes from './routes/actionRoutes';
+import analyticsRoutes from './routes/analyticsRoutes';
+import reportRoutes from './routes/reportRoutes';
+import webhookRoutes from './routes/webhookRoutes';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 
 // API Routes
 app.use('/api/templates', templateRoutes);
 app.use('/api/retros', retroRoutes);
-// app.use('/api/auth', authRoutes);
+app.use('/api/auth', authRoutes);
+app.use('/api/teams', teamRoutes);
+app.use('/api/actions', actionRoutes);
+app.use('/api/analytics', analyticsRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/webhooks', webhookRoutes);
 // app.use('/api/cards', cardRoutes);
-// app.use('/api/actions', actionRoutes);
 // app.use('/api/users', userRoutes);
 
 // Serve static files from the frontend build directory
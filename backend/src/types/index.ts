@@ -1,5 +1,6 @@
 // Shared types for backend WebSocket and data operations
 import { WebSocket } from 'ws';
+import { Role } from '../data/roles';
 
 export interface Participant {
   id: string;
@@ -9,6 +10,10 @@ export interface Participant {
   joinedAt: Date;
   isCreator: boolean;
   isConnected: boolean;
+  // Id of the logged-in user account behind the socket, if any
+  accountId?: string;
+  // The account's role on the retro (admin, member or viewer); facilitators are tracked by the room
+  role?: Role;
 }
 
 // Participant data sent to clients (without WebSocket reference)
@@ -34,6 +39,14 @@ export interface CardGroup {
   columnId: string;
 }
 
+// Issue an action item was pushed to in an issue tracker
+export interface ExternalIssue {
+  // Name of the tracker's connector, e.g. "Jira"
+  tracker: string;
+  key: string;
+  url?: string;
+}
+
 export interface ActionItem {
   id: string;
   title: string;
@@ -42,6 +55,19 @@ export interface ActionItem {
   priority: 'low' | 'medium' | 'high';
   dueDate: string;
   status: 'pending' | 'in_progress' | 'completed';
+  // The unfinished item of an earlier retro this item was carried over from
+  carriedOverFrom?: { retroId: string; actionItemId: string };
+  externalIssue?: ExternalIssue;
+}
+
+// Fields of an action item that can be changed outside of a live session
+export type ActionItemChanges = Partial<Pick<ActionItem, 'status' | 'assigneeId' | 'dueDate' | 'externalIssue'>>;
+
+// An action item listed outside its retro, e.g. by the team action tracker
+export interface TrackedActionItem extends ActionItem {
+  retroId: string;
+  retroName: string;
+  retroCreatedAt: Date;
 }
 
 export interface VoteData {
@@ -56,6 +82,18 @@ export interface Reactions {
   [cardId: string]: { [emoji: string]: string[] };
 }
 
+// Comment thread entry attached to a card or a card group
+export interface Comment {
+  id: string;
+  itemId: string;
+  authorId: string;
+  authorName: string;
+  content: string;
+  createdAt: Date;
+  updatedAt: Date | null;
+  reactions: { [emoji: string]: string[] };
+}
+
 export interface IcebreakerState {
   currentQuestionIndex: number;
   questions: string[];
@@ -64,10 +102,29 @@ export interface IcebreakerState {
   answers: { [participantId: string]: string };
 }
 
+// What happens when the stage timer runs out: nothing, a move to the next stage, or everyone marked done
+export type TimerExpiryAction = 'none' | 'advance-stage' | 'mark-all-done';
+
+// The facilitator's countdown for a stage, kept by the server so every client shows the same time
+export interface StageTimer {
+  // Index of the stage the timer was started in
+  stageIndex: number;
+  // Seconds the timer was set to, extensions included
+  duration: number;
+  isRunning: boolean;
+  // When a running timer runs out (null while paused or after it ran out)
+  deadline: string | null;
+  // Seconds left; for a running timer, as of when the state was sent
+  remaining: number;
+  onExpire: TimerExpiryAction;
+}
+
 export interface RetroRoom {
   id: string;
   participants: Map<string, Participant>;
   creatorId: string;
+  // Participants the creator has given facilitator powers alongside their own
+  coFacilitatorIds: string[];
   currentStage: number;
   cards: Card[];
   cardGroups: CardGroup[];
@@ -76,9 +133,17 @@ export interface RetroRoom {
   discussedItems: string[];
   stageDoneStatus: StageDoneStatus;
   reactions: Reactions;
+  comments: Comment[];
   icebreakerState: IcebreakerState;
+  // Whether the facilitator has revealed the tallies of a blind vote
+  votesRevealed: boolean;
+  // The current stage's timer, null until the facilitator starts one
+  timer: StageTimer | null;
 }
 
+// Serializable room state persisted by the retro repository (live sockets excluded)
+export type RoomSnapshot = Omit<RetroRoom, 'participants'>;
+
 export interface DisconnectedUser {
   retroId: string;
   name: string;
@@ -101,4 +166,51 @@ export type MessageType =
   | 'vote-remove'
   | 'discuss-update'
   | 'action-item-update'
-  | 'reaction-toggle';
+  | 'reaction-toggle'
+  | 'comment-add'
+  | 'comment-edit'
+  | 'comment-delete'
+  | 'comment-reaction-toggle'
+  | 'votes-reveal'
+  | 'points-set'
+  | 'ranking-set'
+  | 'transfer-facilitator'
+  | 'co-facilitator-update'
+  | 'facilitator-token-regenerate';
+
+// Reasons a client message was rejected, sent back in an 'error' message
+export type WsErrorCode =
+  | 'invalid-message'
+  | 'forbidden'
+  | 'wrong-stage'
+  | 'not-found'
+  | 'disabled'
+  | 'limit-reached'
+  | 'locked';
+
+export interface WsErrorMessage {
+  type: 'error';
+  code: WsErrorCode;
+  message: string;
+  // Type of the rejected client message, when known
+  requestType?: string;
+}
+
+// A participant's voting allowance, sent to them whenever it changes
+export interface VoteBudgetMessage {
+  type: 'vote-budget';
+  userId: string;
+  // null when the retro isn't known (no limits are enforced)
+  votingLimit: number | null;
+  maxVotesPerItem: number | null;
+  votesRemaining: number | null;
+  // The participant's own votes per item
+  votesByItem: { [itemId: string]: number };
+}
+
+// How many participants are done voting in a blind vote, sent to the facilitator
+export interface VoteProgressMessage {
+  type: 'vote-progress';
+  finishedCount: number;
+  participantCount: number;
+}
@@ -0,0 +1,305 @@
+import { MessageType, WsErrorCode } from '../types';
+import { isValidDueDate } from '../data/dueDates';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+interface FieldSchema {
+  type: FieldType;
+  optional?: boolean;
+  // Allowed values for string fields
+  values?: readonly string[];
+  // String fields holding a day (yyyy-mm-dd), or empty for none
+  format?: 'date';
+  // Nested fields for object fields
+  fields?: MessageSchema;
+  // Element type for array fields
+  items?: FieldType;
+}
+
+type MessageSchema = { [field: string]: FieldSchema };
+
+export interface MessageRule {
+  schema: MessageSchema;
+  // Stage ids during which the message is accepted (any stage when omitted)
+  stages?: readonly string[];
+  // Only facilitators (the room creator and co-facilitators) may send the message (or only these actions of it)
+  facilitatorOnly?: boolean;
+  facilitatorOnlyActions?: readonly string[];
+  // Only the lead facilitator (the room creator) may send the message
+  leadOnly?: boolean;
+}
+
+// The sender's part in the room: the lead facilitator, a co-facilitator, a participant, or a viewer
+// (someone outside the team a retro belongs to) who may only watch
+export type SenderRole = 'facilitator' | 'co-facilitator' | 'participant' | 'viewer';
+
+const ICEBREAKER_ACTIONS = ['answering-started', 'answer-completed', 'question-changed', 'question-edited'] as const;
+const DISCUSS_ACTIONS = [
+  'item-changed',
+  'item-marked-discussed',
+  'item-unmarked-discussed',
+  'timer-started',
+  'timer-paused',
+  'timer-resumed',
+  'timer-reset'
+] as const;
+const TIMER_ACTIONS = ['start', 'pause', 'resume', 'extend', 'reset'] as const;
+const TIMER_EXPIRY_ACTIONS = ['none', 'advance-stage', 'mark-all-done'] as const;
+const ACTION_ITEM_ACTIONS = ['action-added', 'action-updated', 'action-deleted'] as const;
+
+const actionItemSchema: MessageSchema = {
+  id: { type: 'string' },
+  title: { type: 'string' },
+  description: { type: 'string', optional: true },
+  assigneeId: { type: 'string', optional: true },
+  priority: { type: 'string', values: ['low', 'medium', 'high'] },
+  dueDate: { type: 'string', optional: true, format: 'date' },
+  status: { type: 'string', values: ['pending', 'in_progress', 'completed'] },
+  carriedOverFrom: {
+    type: 'object',
+    optional: true,
+    fields: { retroId: { type: 'string' }, actionItemId: { type: 'string' } }
+  },
+  externalIssue: {
+    type: 'object',
+    optional: true,
+    fields: { tracker: { type: 'string' }, key: { type: 'string' }, url: { type: 'string', optional: true } }
+  }
+};
+
+export const MESSAGE_RULES: Record<MessageType, MessageRule> = {
+  'stage-change': {
+    schema: { stageIndex: { type: 'number' } },
+    facilitatorOnly: true
+  },
+  'mark-stage-done': {
+    schema: { stageId: { type: 'string' }, isDone: { type: 'boolean' } }
+  },
+  'timer-update': {
+    schema: {
+      action: { type: 'string', values: TIMER_ACTIONS },
+      // Seconds to start with (defaults to the stage's duration) or to add
+      duration: { type: 'number', optional: true },
+      seconds: { type: 'number', optional: true },
+      onExpire: { type: 'string', optional: true, values: TIMER_EXPIRY_ACTIONS }
+    },
+    facilitatorOnly: true
+  },
+  'icebreaker-update': {
+    schema: {
+      action: { type: 'string', values: ICEBREAKER_ACTIONS },
+      answer: { type: 'string', optional: true },
+      questionIndex: { type: 'number', optional: true },
+      newQuestion: { type: 'string', optional: true }
+    },
+    stages: ['icebreaker'],
+    facilitatorOnlyActions: ['answering-started', 'question-changed', 'question-edited']
+  },
+  'card-create': {
+    schema: {
+      card: {
+        type: 'object',
+        fields: {
+          id: { type: 'string' },
+          columnId: { type: 'string' },
+          content: { type: 'string' }
+        }
+      }
+    },
+    stages: ['brainstorm']
+  },
+  'card-update': {
+    schema: {
+      card: {
+        type: 'object',
+        fields: {
+          id: { type: 'string' },
+          content: { type: 'string', optional: true }
+        }
+      }
+    },
+    stages: ['brainstorm']
+  },
+  'card-delete': {
+    schema: { cardId: { type: 'string' } },
+    stages: ['brainstorm']
+  },
+  'cards-group': {
+    schema: { groupId: { type: 'string' }, cardIds: { type: 'array', items: 'string' }, columnId: { type: 'string' } },
+    stages: ['group']
+  },
+  'card-ungroup': {
+    schema: { cardId: { type: 'string' }, groupId: { type: 'string', optional: true } },
+    stages: ['group']
+  },
+  'vote-add': {
+    schema: { itemId: { type: 'string' }, columnId: { type: 'string', optional: true } },
+    stages: ['vote']
+  },
+  'vote-remove': {
+    schema: { itemId: { type: 'string' } },
+    stages: ['vote']
+  },
+  'discuss-update': {
+    schema: {
+      action: { type: 'string', values: DISCUSS_ACTIONS },
+      itemIndex: { type: 'number', optional: true },
+      itemId: { type: 'string', optional: true },
+      duration: { type: 'number', optional: true }
+    },
+    stages: ['discuss'],
+    facilitatorOnly: true
+  },
+  'action-item-update': {
+    schema: {
+      action: { type: 'string', values: ACTION_ITEM_ACTIONS },
+      actionItem: { type: 'object', optional: true, fields: actionItemSchema },
+      actionItemId: { type: 'string', optional: true }
+    },
+    stages: ['previous-actions', 'discuss', 'review'],
+    facilitatorOnlyActions: ['action-updated', 'action-deleted']
+  },
+  'reaction-toggle': {
+    schema: { cardId: { type: 'string' }, emoji: { type: 'string' } },
+    stages: ['group']
+  },
+  'comment-add': {
+    schema: { itemId: { type: 'string' }, content: { type: 'string' } },
+    stages: ['group', 'discuss']
+  },
+  'comment-edit': {
+    schema: { commentId: { type: 'string' }, content: { type: 'string' } },
+    stages: ['group', 'discuss']
+  },
+  'comment-delete': {
+    schema: { commentId: { type: 'string' } },
+    stages: ['group', 'discuss']
+  },
+  'comment-reaction-toggle': {
+    schema: { commentId: { type: 'string' }, emoji: { type: 'string' } },
+    stages: ['group', 'discuss']
+  },
+  'votes-reveal': {
+    schema: {},
+    stages: ['vote'],
+    facilitatorOnly: true
+  },
+  'points-set': {
+    schema: { itemId: { type: 'string' }, points: { type: 'number' } },
+    stages: ['vote']
+  },
+  'ranking-set': {
+    schema: { ranking: { type: 'array', items: 'string' } },
+    stages: ['vote']
+  },
+  'transfer-facilitator': {
+    schema: { participantId: { type: 'string' } },
+    leadOnly: true
+  },
+  'co-facilitator-update': {
+    schema: { participantId: { type: 'string' }, isCoFacilitator: { type: 'boolean' } },
+    leadOnly: true
+  },
+  'facilitator-token-regenerate': {
+    schema: {},
+    leadOnly: true
+  }
+};
+
+const matchesType = (value: unknown, type: FieldType): boolean => {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+const validateFields = (data: any, schema: MessageSchema, path: string): string | null => {
+  for (const [field, rule] of Object.entries(schema)) {
+    const value = data[field];
+    const name = path ? `${path}.${field}` : field;
+
+    if (value === undefined || value === null) {
+      if (rule.optional) continue;
+      return `"${name}" is required`;
+    }
+    if (!matchesType(value, rule.type)) {
+      const article = rule.type === 'object' || rule.type === 'array' ? 'an' : 'a';
+      return `"${name}" must be ${article} ${rule.type}`;
+    }
+    if (rule.values && !rule.values.includes(value)) {
+      return `"${name}" must be one of: ${rule.values.join(', ')}`;
+    }
+    if (rule.format === 'date' && value !== '' && !isValidDueDate(value)) {
+      return `"${name}" must be a date (yyyy-mm-dd)`;
+    }
+    if (rule.items && !value.every((item: unknown) => matchesType(item, rule.items!))) {
+      return `"${name}" must only contain ${rule.items} values`;
+    }
+    if (rule.fields) {
+      const nestedError = validateFields(value, rule.fields, name);
+      if (nestedError) return nestedError;
+    }
+  }
+  return null;
+};
+
+// Own-property lookup so types like "toString" don't resolve to Object.prototype members
+export const getMessageRule = (type: string): MessageRule | undefined => {
+  return Object.prototype.hasOwnProperty.call(MESSAGE_RULES, type) ? MESSAGE_RULES[type as MessageType] : undefined;
+};
+
+/**
+ * Check a parsed client message against the schema of its type.
+ * Unknown fields are allowed and ignored.
+ * @returns A description of the first problem found, or null if the message is valid
+ */
+export const validateMessage = (data: any): string | null => {
+  if (typeof data !== 'object' || data === null || typeof data.type !== 'string') {
+    return 'Message must be an object with a "type"';
+  }
+
+  const rule = getMessageRule(data.type);
+  if (!rule) {
+    return `Unknown message type "${data.type}"`;
+  }
+
+  return validateFields(data, rule.schema, '');
+};
+
+/**
+ * Check that the sender may send a (valid) message in the room's current state.
+ * Ownership of individual cards and comments is checked by the handlers.
+ * @param role - The sender's role in the room
+ * @param stageId - Id of the current stage, or undefined if the retro's stages are unknown
+ */
+export const checkMessagePermission = (
+  data: any,
+  role: SenderRole,
+  stageId: string | undefined
+): { code: WsErrorCode; message: string } | null => {
+  const rule = getMessageRule(data.type);
+  if (!rule) return null;
+
+  if (role === 'viewer') {
+    return { code: 'forbidden', message: 'Viewers can only watch this retro' };
+  }
+  if (rule.leadOnly && role !== 'facilitator') {
+    return { code: 'forbidden', message: 'Only the lead facilitator can do that' };
+  }
+  const facilitatorOnly = rule.facilitatorOnly || (rule.facilitatorOnlyActions?.includes(data.action) ?? false);
+  if (facilitatorOnly && role === 'participant') {
+    return { code: 'forbidden', message: 'Only the facilitator can do that' };
+  }
+
+  if (rule.stages && stageId !== undefined && !rule.stages.includes(stageId)) {
+    return { code: 'wrong-stage', message: `That isn't possible during the ${stageId} stage` };
+  }
+
+  return null;
+};
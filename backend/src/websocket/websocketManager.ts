@@ -1,16 +1,97 @@
 import { WebSocket, WebSocketServer } from 'ws';
 import { v4 as uuidv4 } from 'uuid';
 import { generateRandomName, clearUsedNames, setNameDeck } from '../data/names';
-import { getRetroById } from '../data/retros';
-import { Participant, RetroRoom, DisconnectedUser } from '../types';
+import { getRetroById, getRoomState, saveRoomState, updateRetro } from '../data/retros';
+import { getTemplateById } from '../data/templates';
+import { createFacilitatorToken, matchesFacilitatorToken } from '../data/facilitatorTokens';
+import { getUserFromAuthToken } from '../middleware/auth';
+import { getRetroRole } from '../data/roles';
+import { getStatusForStage, transitionRetroStatus } from '../data/retroLifecycle';
+import { emitWebhookEvent } from '../data/webhooks';
+import { buildRetroReport } from '../data/report';
+import { postRetroSummary } from '../data/chatSummary';
+import { User } from '../models/User';
+import {
+  ActionItem,
+  ActionItemChanges,
+  Participant,
+  RetroRoom,
+  RoomSnapshot,
+  DisconnectedUser,
+  MessageType,
+  Comment,
+  Card,
+  VoteData,
+  Reactions,
+  WsErrorCode,
+  WsErrorMessage,
+  VoteBudgetMessage,
+  VoteProgressMessage,
+  StageTimer
+} from '../types';
+import { Retro, RetroCounts, RetroStatus, VotingMethod } from '../models/Retro';
+import { validateMessage, checkMessagePermission, SenderRole } from './messageRules';
 
 // Store for disconnected users (to allow reconnection within a time window)
 const disconnectedUsers: Map<string, DisconnectedUser> = new Map();
 const RECONNECT_TIMEOUT = 5 * 60 * 1000; // 5 minutes to reconnect
+// Hash of the secret each user was last handed on joining, by user id. Ids are shown to everyone,
+// so taking back a facilitator's id needs this secret (the lead may not hold the facilitator token).
+const resumeTokenHashes: Map<string, string> = new Map();
+const SNAPSHOT_INTERVAL = 30 * 1000; // Save all live rooms every 30 seconds
+
+// Placeholder sent instead of other users' ids in anonymous retros
+const ANONYMOUS_ID = 'anonymous';
+
+// Icebreaker questions for retros whose template doesn't bring its own
+const DEFAULT_ICEBREAKER_QUESTIONS = [
+  "How would you describe your current mood?",
+  "What is one movie or series that you'd watch again and again?",
+  "What's your favorite way to spend a weekend?",
+  "What's one skill you'd love to learn?",
+  "What's your go-to comfort food?",
+  "If you could have dinner with anyone, dead or alive, who would it be?"
+];
+
+// How each voting method is described in error messages
+const VOTING_METHOD_NAMES: Record<VotingMethod, string> = {
+  dots: 'dot',
+  ranked: 'ranked-choice',
+  points: 'points'
+};
+
+// Messages that change room state and are snapshotted immediately
+const MUTATING_MESSAGE_TYPES: Set<MessageType> = new Set<MessageType>([
+  'stage-change',
+  'mark-stage-done',
+  'icebreaker-update',
+  'card-create',
+  'card-update',
+  'card-delete',
+  'cards-group',
+  'card-ungroup',
+  'vote-add',
+  'vote-remove',
+  'discuss-update',
+  'action-item-update',
+  'reaction-toggle',
+  'comment-add',
+  'comment-edit',
+  'comment-delete',
+  'comment-reaction-toggle',
+  'votes-reveal',
+  'points-set',
+  'ranking-set',
+  'transfer-facilitator',
+  'co-facilitator-update',
+  'timer-update',
+]);
 
 class WebSocketManager {
   private wss: WebSocketServer | null = null;
   private rooms: Map<string, RetroRoom> = new Map();
+  // Pending expiry of each room's running stage timer
+  private timerTimeouts: Map<string, ReturnType<typeof setTimeout>> = new Map();
 
   initialize(server: any) {
     this.wss = new WebSocketServer({ server });
@@ -47,13 +128,18 @@ class WebSocketManager {
         return;
       }
 
-      // Extract retroId and optional userId from URL: /ws/retro/{retroId}?userId={userId}
+      // Extract retroId and optional params from URL:
+      // /ws/retro/{retroId}?userId={userId}&resumeToken={secret}&facilitatorToken={token}&authToken={jwt}
       const urlMatch = req.url?.match(/\/ws\/retro\/([^\/\?]+)/);
       const retroId = urlMatch?.[1];
       
-      // Parse query parameters for userId (for reconnection)
+      // Parse query parameters for userId (for reconnection) and the facilitator token
       const urlParams = new URLSearchParams(req.url?.split('?')[1] || '');
       const existingUserId = urlParams.get('userId');
+      const resumeToken = urlParams.get('resumeToken');
+      const facilitatorToken = urlParams.get('facilitatorToken');
+      // Browsers can't set headers on a WebSocket, so logged-in users pass their JWT here
+      const account = getUserFromAuthToken(urlParams.get('authToken'));
 
       if (!retroId) {
         console.log('WebSocket connection rejected: no retroId');
@@ -61,7 +147,7 @@ class WebSocketManager {
         return;
       }
 
-      this.handleConnection(ws, retroId, existingUserId);
+      this.handleConnection(ws, retroId, existingUserId, resumeToken, facilitatorToken, account);
     });
 
     // Cleanup disconnected users periodically
@@ -70,61 +156,56 @@ class WebSocketManager {
       disconnectedUsers.forEach((data, odUserId) => {
         if (now - data.disconnectedAt.getTime() > RECONNECT_TIMEOUT) {
           disconnectedUsers.delete(odUserId);
+          resumeTokenHashes.delete(odUserId);
           console.log(`Cleaned up disconnected user session: ${odUserId}`);
         }
       });
     }, 60000); // Check every minute
+
+    // Snapshot live rooms periodically as a safety net for state not covered by messages
+    setInterval(() => {
+      this.rooms.forEach(room => this.persistRoom(room));
+    }, SNAPSHOT_INTERVAL);
   }
 
-  private handleConnection(ws: WebSocket, retroId: string, existingUserId: string | null) {
+  private handleConnection(
+    ws: WebSocket,
+    retroId: string,
+    existingUserId: string | null,
+    resumeToken: string | null = null,
+    facilitatorToken: string | null = null,
+    account?: User
+  ) {
     let userId: string;
     let userName: string;
     let isReconnection = false;
 
     // Get or create room
     if (!this.rooms.has(retroId)) {
-      // Set the name deck for this retro session
-      const retro = getRetroById(retroId);
-      if (retro && retro.nameDeck) {
-        setNameDeck(retroId, retro.nameDeck);
-      }
-      
-      console.log(`Creating new room for retro ${retroId}`);
-      this.rooms.set(retroId, {
-        id: retroId,
-        participants: new Map(),
-        creatorId: '',
-        currentStage: 0,
-        cards: [],
-        cardGroups: [],
-        votes: {},
-        actionItems: [],
-        discussedItems: [],
-        stageDoneStatus: {},
-        reactions: {},
-        icebreakerState: {
-          currentQuestionIndex: 0,
-          questions: [
-            "How would you describe your current mood?",
-            "What is one movie or series that you'd watch again and again?",
-            "What's your favorite way to spend a weekend?",
-            "What's one skill you'd love to learn?",
-            "What's your go-to comfort food?",
-            "If you could have dinner with anyone, dead or alive, who would it be?"
-          ],
-          isAnswering: false,
-          answeredParticipants: [],
-          answers: {}
-        }
-      });
+      const newRoom = this.createRoom(retroId);
+      this.rooms.set(retroId, newRoom);
+      // A timer restored from storage picks up where it left off (or runs out right away)
+      this.scheduleTimer(newRoom);
     } else {
       console.log(`Room ${retroId} already exists`);
     }
 
     const room = this.rooms.get(retroId)!;
+    const retro = getRetroById(retroId);
+    const facilitatorTokenHash = retro?.facilitatorTokenHash;
+
+    // Facilitator ids are shown to everyone in participants-update, so when the retro has a
+    // facilitator token, taking one back needs the secret handed out on joining. The token
+    // holder can also take back the lead facilitator's id.
+    const isFacilitatorId = !!existingUserId &&
+      (existingUserId === room.creatorId || room.coFacilitatorIds.includes(existingUserId));
+    const resumeTokenHash = existingUserId ? resumeTokenHashes.get(existingUserId) : undefined;
+    const canResumeUserId = !isFacilitatorId || !facilitatorTokenHash ||
+      matchesFacilitatorToken(resumeTokenHash, resumeToken) ||
+      (existingUserId === room.creatorId && matchesFacilitatorToken(facilitatorTokenHash, facilitatorToken));
 
     // Check if this is a reconnection attempt
-    if (existingUserId) {
+    if (existingUserId && canResumeUserId) {
       // Check if user exists in disconnected users
       const disconnectedUser = disconnectedUsers.get(existingUserId);
       if (disconnectedUser && disconnectedUser.retroId === retroId) {
@@ -160,22 +241,42 @@ class WebSocketManager {
       userName = generateRandomName(retroId);
     }
 
+    // Logged-in users are shown by their real name unless the retro is anonymous
+    if (account && !this.isAnonymousRetro(retroId)) {
+      userName = account.name;
+    }
+
     // Determine if this user should be the creator
-    // User is creator if: room has no creator, OR user's ID matches room's creatorId, 
-    // OR room was just created and all previous participants are disconnected (StrictMode recovery)
     console.log(`Room ${retroId} - current creatorId: "${room.creatorId}", participants count: ${room.participants.size}`);
-    
-    const connectedParticipants = Array.from(room.participants.values()).filter(p => p.isConnected);
-    const roomHasNoActiveCreator = !room.creatorId || 
-      (room.creatorId && !room.participants.get(room.creatorId)?.isConnected && connectedParticipants.length === 0);
-    
-    if (roomHasNoActiveCreator && room.creatorId !== userId) {
-      room.creatorId = userId;
-      console.log(`User ${userName} (${userId}) is the room creator (new or recovered)`);
-    } else if (room.creatorId === userId) {
-      console.log(`User ${userName} (${userId}) is reconnecting as the room creator`);
+
+    if (facilitatorTokenHash) {
+      // Only the holder of the facilitator token becomes the creator. Someone still in the room
+      // (e.g. after handing the role over) keeps their current role on a quick reconnect.
+      if (matchesFacilitatorToken(facilitatorTokenHash, facilitatorToken) &&
+          room.creatorId !== userId && !room.participants.has(userId)) {
+        this.assignFacilitator(room, userId);
+        console.log(`User ${userName} (${userId}) is the room creator (facilitator token)`);
+      } else if (room.creatorId === userId) {
+        console.log(`User ${userName} (${userId}) is reconnecting as the room creator`);
+      } else {
+        console.log(`User ${userName} (${userId}) is NOT the creator - creator is ${room.creatorId}`);
+      }
     } else {
-      console.log(`User ${userName} (${userId}) is NOT the creator - creator is ${room.creatorId}`);
+      // Retros without a facilitator token (unknown or created before tokens existed):
+      // User is creator if: room has no creator, OR user's ID matches room's creatorId, 
+      // OR room was just created and all previous participants are disconnected (StrictMode recovery)
+      const connectedParticipants = Array.from(room.participants.values()).filter(p => p.isConnected);
+      const roomHasNoActiveCreator = !room.creatorId || 
+        (room.creatorId && !room.participants.get(room.creatorId)?.isConnected && connectedParticipants.length === 0);
+      
+      if (roomHasNoActiveCreator && room.creatorId !== userId) {
+        room.creatorId = userId;
+        console.log(`User ${userName} (${userId}) is the room creator (new or recovered)`);
+      } else if (room.creatorId === userId) {
+        console.log(`User ${userName} (${userId}) is reconnecting as the room creator`);
+      } else {
+        console.log(`User ${userName} (${userId}) is NOT the creator - creator is ${room.creatorId}`);
+      }
     }
 
     const participant: Participant = {
@@ -185,35 +286,60 @@ class WebSocketManager {
       retroId,
       joinedAt: new Date(),
       isCreator: userId === room.creatorId,
-      isConnected: true
+      isConnected: true,
+      accountId: account?.id,
+      // The facilitator token was handled above, so only the account decides the role here
+      role: retro ? getRetroRole(retro, account) : 'member'
     };
 
     room.participants.set(userId, participant);
+    this.persistRoom(room);
+
+    // A fresh secret on every connection, so a leaked one stops working once its owner is back
+    const { token: newResumeToken, tokenHash: newResumeTokenHash } = createFacilitatorToken();
+    resumeTokenHashes.set(userId, newResumeTokenHash);
 
     // Send user their ID, name, and current state
+    const { id: _id, creatorId: _creatorId, ...savedState } = this.toSnapshot(room);
+    const snapshotState = { ...savedState, timer: this.getTimerState(room) };
+    // Until a blind vote is revealed, participants only get their own votes back
+    const roomState = this.areVotesHidden(room)
+      ? { ...snapshotState, votes: this.getOwnVotes(snapshotState.votes, userId) }
+      : snapshotState;
+    const currentState = this.isAnonymousRetro(retroId)
+      ? {
+          ...roomState,
+          cards: roomState.cards.map(card => this.anonymizeCard(card, userId)),
+          votes: this.anonymizeVotes(roomState.votes, userId),
+          reactions: this.anonymizeReactions(roomState.reactions, userId),
+          comments: roomState.comments.map(comment => this.anonymizeComment(comment, userId))
+        }
+      : roomState;
     ws.send(JSON.stringify({
       type: 'user-joined',
       userId,
       userName,
       isCreator: userId === room.creatorId,
       isReconnection,
-      // Send current room state for state restoration
-      currentState: {
-        currentStage: room.currentStage,
-        cards: room.cards,
-        cardGroups: room.cardGroups,
-        votes: room.votes,
-        actionItems: room.actionItems,
-        discussedItems: room.discussedItems,
-        stageDoneStatus: room.stageDoneStatus,
-        reactions: room.reactions,
-        icebreakerState: room.icebreakerState
-      }
+      resumeToken: newResumeToken,
+      // Send current room state (live or restored from a snapshot) for state restoration
+      currentState
     }));
 
+    ws.send(JSON.stringify(this.getVoteBudget(room, userId)));
+    if (this.areVotesHidden(room)) {
+      this.sendToFacilitators(room, this.getVoteProgress(room));
+    }
+
     // Broadcast updated participants list to all
     this.broadcastParticipants(retroId, isReconnection ? undefined : participant);
 
+    // The facilitator opening a draft retro starts it
+    if (userId === room.creatorId && retro?.status === 'draft') {
+      const stageId = this.getCurrentStageId(room);
+      this.setRetroStatus(retroId, stageId ? getStatusForStage(stageId) : 'active');
+    }
+
     // Track if user has sent any messages (to detect bots that connect but don't interact)
     let hasInteracted = isReconnection; // Reconnecting users count as having interacted
 
@@ -231,32 +357,126 @@ class WebSocketManager {
     console.log(`User ${userName} (${userId}) ${isReconnection ? 'reconnected to' : 'joined'} retro ${retroId}`);
   }
 
+  // Restore a room from the repository, or start a fresh one
+  private createRoom(retroId: string): RetroRoom {
+    // Set the name deck for this retro session
+    const retro = getRetroById(retroId);
+    if (retro && retro.nameDeck) {
+      setNameDeck(retroId, retro.nameDeck);
+    }
+
+    const snapshot = getRoomState(retroId);
+    if (snapshot) {
+      console.log(`Restoring room for retro ${retroId} from storage`);
+      // Snapshots saved before comments, blind voting, co-facilitators or stage timers existed lack those fields
+      return {
+        ...snapshot,
+        coFacilitatorIds: snapshot.coFacilitatorIds || [],
+        comments: snapshot.comments || [],
+        votesRevealed: snapshot.votesRevealed || false,
+        timer: snapshot.timer || null,
+        participants: new Map()
+      };
+    }
+
+    console.log(`Creating new room for retro ${retroId}`);
+    const templateQuestions = retro && getTemplateById(retro.templateId)?.icebreakerQuestions;
+    return {
+      id: retroId,
+      participants: new Map(),
+      creatorId: '',
+      coFacilitatorIds: [],
+      currentStage: 0,
+      cards: [],
+      cardGroups: [],
+      votes: {},
+      actionItems: [],
+      discussedItems: [],
+      stageDoneStatus: {},
+      reactions: {},
+      comments: [],
+      votesRevealed: false,
+      timer: null,
+      icebreakerState: {
+        currentQuestionIndex: 0,
+        // Templates can bring their own questions (copied, as facilitators may edit them in the room)
+        questions: [...(templateQuestions || DEFAULT_ICEBREAKER_QUESTIONS)],
+        isAnswering: false,
+        answeredParticipants: [],
+        answers: {}
+      }
+    };
+  }
+
+  // Room state without the live participant sockets
+  private toSnapshot(room: RetroRoom): RoomSnapshot {
+    const { participants: _participants, ...snapshot } = room;
+    return snapshot;
+  }
+
+  // Save the room state to the repository so it survives restarts and empty rooms
+  private persistRoom(room: RetroRoom) {
+    saveRoomState(this.toSnapshot(room));
+  }
+
+  // Drop an empty room from memory, keeping its snapshot for later rehydration
+  private closeRoom(room: RetroRoom) {
+    // A running timer is saved with its deadline and rescheduled when the room reopens
+    this.cancelTimerTimeout(room.id);
+    this.persistRoom(room);
+    clearUsedNames(room.id);
+    this.rooms.delete(room.id);
+    console.log(`Room ${room.id} closed (state saved)`);
+  }
+
   private handleMessage(userId: string, retroId: string, message: string) {
+    const room = this.rooms.get(retroId);
+    if (!room) return;
+
+    let data: any;
     try {
-      const data = JSON.parse(message.toString());
-      const room = this.rooms.get(retroId);
-
-      if (!room) return;
-
-      switch (data.type) {
-        case 'stage-change':
-          // Only creator can change stages
-          if (room.creatorId === userId) {
-            room.currentStage = data.stageIndex;
-            // Reset stage done status when stage changes
-            room.stageDoneStatus = {};
-            this.broadcastToRoom(retroId, {
-              type: 'stage-change',
-              stageIndex: data.stageIndex
-            }, userId);
+      data = JSON.parse(message.toString());
+    } catch {
+      this.sendError(room, userId, 'invalid-message', 'Message is not valid JSON');
+      return;
+    }
+
+    // Reject malformed messages and ones the sender isn't allowed to send right now
+    const validationError = validateMessage(data);
+    if (validationError) {
+      this.sendError(room, userId, 'invalid-message', validationError, data?.type);
+      return;
+    }
+    const permissionError = checkMessagePermission(data, this.getSenderRole(room, userId), this.getCurrentStageId(room));
+    if (permissionError) {
+      this.sendError(room, userId, permissionError.code, permissionError.message, data.type);
+      return;
+    }
+    // Completed retros are read-only
+    if (MUTATING_MESSAGE_TYPES.has(data.type) && getRetroById(retroId)?.status === 'completed') {
+      this.sendError(room, userId, 'locked', 'This retro is completed and can no longer be changed', data.type);
+      return;
+    }
+
+    try {
+      switch (data.type as MessageType) {
+        case 'stage-change': {
+          const stageCount = this.getEnabledStageIds(retroId)?.length;
+          if (!Number.isInteger(data.stageIndex) || data.stageIndex < 0 ||
+              (stageCount !== undefined && data.stageIndex >= stageCount)) {
+            return this.sendError(room, userId, 'invalid-message', 'Unknown stage', data.type);
           }
+
+          this.changeStage(room, data.stageIndex, userId);
           break;
+        }
 
-        case 'mark-stage-done':
+        case 'mark-stage-done': {
           // Track user's done status for a stage
           const stageId = data.stageId;
           const isDone = data.isDone;
-          
+
+
           if (!room.stageDoneStatus[stageId]) {
             room.stageDoneStatus[stageId] = [];
           }
@@ -275,30 +495,97 @@ class WebSocketManager {
             isDone,
             stageDoneStatus: room.stageDoneStatus
           });
+          if (stageId === 'vote' && this.areVotesHidden(room)) {
+            this.sendToFacilitators(room, this.getVoteProgress(room));
+          }
           break;
+        }
 
-        case 'timer-update':
-          // Broadcast timer updates to all participants
-          if (room.creatorId === userId) {
-            this.broadcastToRoom(retroId, {
-              type: 'timer-update',
-              ...data
-            }, userId);
+        case 'timer-update': {
+          const { timer } = room;
+          const isCurrentTimer = !!timer && timer.stageIndex === room.currentStage;
+
+          switch (data.action) {
+            case 'start': {
+              const duration = data.duration ?? this.getStageDuration(room);
+              if (!(duration > 0)) {
+                return this.sendError(room, userId, 'invalid-message', 'The timer needs a duration', data.type);
+              }
+              room.timer = {
+                stageIndex: room.currentStage,
+                duration,
+                isRunning: true,
+                deadline: new Date(Date.now() + duration * 1000).toISOString(),
+                remaining: duration,
+                onExpire: data.onExpire || 'none'
+              };
+              break;
+            }
+            case 'pause':
+              if (!isCurrentTimer || !timer.isRunning) {
+                return this.sendError(room, userId, 'invalid-message', 'The timer is not running', data.type);
+              }
+              room.timer = { ...this.getTimerState(room)!, isRunning: false, deadline: null };
+              break;
+            case 'resume':
+              if (!isCurrentTimer || timer.isRunning || timer.remaining <= 0) {
+                return this.sendError(room, userId, 'invalid-message', 'The timer is not paused', data.type);
+              }
+              room.timer = {
+                ...timer,
+                isRunning: true,
+                deadline: new Date(Date.now() + timer.remaining * 1000).toISOString()
+              };
+              break;
+            case 'extend': {
+              if (!isCurrentTimer || !(data.seconds > 0)) {
+                return this.sendError(room, userId, 'invalid-message', 'Only a started timer can be extended by a positive number of seconds', data.type);
+              }
+              const current = this.getTimerState(room)!;
+              // A timer that already ran out starts counting down again
+              const isRunning = current.isRunning || current.remaining <= 0;
+              const remaining = current.remaining + data.seconds;
+              room.timer = {
+                ...current,
+                duration: current.duration + data.seconds,
+                isRunning,
+                deadline: isRunning ? new Date(Date.now() + remaining * 1000).toISOString() : null,
+                remaining
+              };
+              break;
+            }
+            case 'reset':
+              room.timer = null;
+              break;
           }
+
+          this.scheduleTimer(room);
+          this.broadcastToRoom(retroId, { type: 'timer-update', timer: this.getTimerState(room) });
           break;
+        }
+
+        case 'icebreaker-update': {
+          const { questions } = room.icebreakerState;
+          const hasValidQuestionIndex = Number.isInteger(data.questionIndex) &&
+            data.questionIndex >= 0 && data.questionIndex < questions.length;
+          if ((data.action === 'question-changed' || data.action === 'question-edited') && !hasValidQuestionIndex) {
+            return this.sendError(room, userId, 'invalid-message', 'Unknown question', data.type);
+          }
+
+          // Participants can only complete their own answer
+          const answeringParticipant = data.action === 'answer-completed' ? room.participants.get(userId) : undefined;
 
-        case 'icebreaker-update':
           // Store icebreaker state based on action
           switch (data.action) {
             case 'answering-started':
               room.icebreakerState.isAnswering = true;
               break;
             case 'answer-completed':
-              if (data.participantId && !room.icebreakerState.answeredParticipants.includes(data.participantId)) {
-                room.icebreakerState.answeredParticipants.push(data.participantId);
+              if (!room.icebreakerState.answeredParticipants.includes(userId)) {
+                room.icebreakerState.answeredParticipants.push(userId);
               }
-              if (data.participantId && data.answer) {
-                room.icebreakerState.answers[data.participantId] = data.answer;
+              if (data.answer) {
+                room.icebreakerState.answers[userId] = data.answer;
               }
               break;
             case 'question-changed':
@@ -308,57 +595,82 @@ class WebSocketManager {
               room.icebreakerState.answers = {};
               break;
             case 'question-edited':
-              if (data.questionIndex !== undefined && data.newQuestion) {
-                room.icebreakerState.questions[data.questionIndex] = data.newQuestion;
+              if (data.newQuestion) {
+                questions[data.questionIndex] = data.newQuestion;
               }
               break;
           }
-          
+
           // Broadcast icebreaker updates to all participants (including sender)
           this.broadcastToRoom(retroId, {
             type: 'icebreaker-update',
             action: data.action,
             participant: data.participant,
-            participantId: data.participantId,
-            participantName: data.participantName,
+            participantId: answeringParticipant ? userId : data.participantId,
+            participantName: answeringParticipant ? answeringParticipant.name : data.participantName,
             answer: data.answer,
             questionIndex: data.questionIndex,
             newQuestion: data.newQuestion
           });
           break;
+        }
+
+        case 'card-create': {
+          if (room.cards.some(c => c.id === data.card.id)) {
+            return this.sendError(room, userId, 'invalid-message', 'A card with this id already exists', data.type);
+          }
 
-        case 'card-create':
-          // Store card in room state
-          room.cards.push(data.card);
-          // Broadcast card creation to all participants
+          // The author is always the sender, whatever the client claims
+          const card: Card = { ...data.card, authorId: userId };
+          room.cards.push(card);
+          // Broadcast card creation to all other participants
           this.broadcastToRoom(retroId, {
             type: 'card-created',
-            card: data.card
+            card: this.isAnonymousRetro(retroId) ? this.anonymizeCard(card) : card
           }, userId);
           break;
+        }
 
-        case 'card-update':
-          // Update card in room state
+        case 'card-update': {
+          // Only the author can edit a card (clients may not know authors in anonymous retros)
           const cardIndex = room.cards.findIndex(c => c.id === data.card.id);
-          if (cardIndex !== -1) {
-            room.cards[cardIndex] = { ...room.cards[cardIndex], ...data.card };
+          if (cardIndex === -1) {
+            return this.sendError(room, userId, 'not-found', 'Card not found', data.type);
+          }
+          if (room.cards[cardIndex].authorId !== userId) {
+            return this.sendError(room, userId, 'forbidden', 'You can only edit your own cards', data.type);
           }
-          // Broadcast card update to all participants
+
+          const card: Card = { ...room.cards[cardIndex], ...data.card, authorId: userId };
+          room.cards[cardIndex] = card;
+          // Broadcast card update to all other participants
           this.broadcastToRoom(retroId, {
             type: 'card-updated',
-            card: data.card
+            card: this.isAnonymousRetro(retroId) ? this.anonymizeCard(card) : card
           }, userId);
           break;
+        }
 
-        case 'card-delete':
-          // Remove card from room state
+        case 'card-delete': {
+          // Only the author can delete a card
+          const card = room.cards.find(c => c.id === data.cardId);
+          if (!card) {
+            return this.sendError(room, userId, 'not-found', 'Card not found', data.type);
+          }
+          if (card.authorId !== userId) {
+            return this.sendError(room, userId, 'forbidden', 'You can only delete your own cards', data.type);
+          }
+
+          // Remove card and its comment thread from room state
           room.cards = room.cards.filter(c => c.id !== data.cardId);
+          room.comments = room.comments.filter(c => c.itemId !== data.cardId);
           // Broadcast card deletion to all participants
           this.broadcastToRoom(retroId, {
             type: 'card-deleted',
             cardId: data.cardId
           }, userId);
           break;
+        }
 
         case 'cards-group':
           // Update groups in room state
@@ -396,35 +708,121 @@ class WebSocketManager {
           }, userId);
           break;
 
-        case 'vote-add':
+        case 'vote-add': {
+          if (this.getVotingMethod(retroId) !== 'dots') {
+            return this.sendVotingMethodError(room, userId, data.type);
+          }
+          // Enforce the retro's vote limits, resyncing the voter's counter on rejection
+          const budget = this.getVoteBudget(room, userId);
+          if (budget.votesRemaining !== null && budget.votesRemaining <= 0) {
+            this.sendError(room, userId, 'limit-reached', `You've used all ${budget.votingLimit} votes`, data.type);
+            return this.sendToUser(room, userId, budget);
+          }
+          if (budget.maxVotesPerItem !== null && (budget.votesByItem[data.itemId] || 0) >= budget.maxVotesPerItem) {
+            this.sendError(room, userId, 'limit-reached', `You can give at most ${budget.maxVotesPerItem} votes to one item`, data.type);
+            return this.sendToUser(room, userId, budget);
+          }
+
           // Store vote in room state (allow multiple votes per user on same item)
           if (!room.votes[data.itemId]) {
             room.votes[data.itemId] = [];
           }
-          room.votes[data.itemId].push(data.userId);
-          // Broadcast vote addition to all participants
-          this.broadcastToRoom(retroId, {
-            type: 'vote-added',
-            itemId: data.itemId,
-            columnId: data.columnId,
-            voterId: data.userId
-          }, userId);
+          room.votes[data.itemId].push(userId);
+          if (this.areVotesHidden(room)) {
+            // Blind vote: only the facilitator hears about it, and only as a count
+            this.sendToFacilitators(room, this.getVoteProgress(room));
+          } else {
+            // Broadcast vote addition to all other participants
+            this.broadcastToRoom(retroId, {
+              type: 'vote-added',
+              itemId: data.itemId,
+              columnId: data.columnId,
+              voterId: this.isAnonymousRetro(retroId) ? ANONYMOUS_ID : userId
+            }, userId);
+          }
+          this.sendToUser(room, userId, this.getVoteBudget(room, userId));
           break;
+        }
 
         case 'vote-remove':
+          if (this.getVotingMethod(retroId) !== 'dots') {
+            return this.sendVotingMethodError(room, userId, data.type);
+          }
           // Remove one vote from room state (only one instance, not all)
           if (room.votes[data.itemId]) {
-            const voteIndex = room.votes[data.itemId].indexOf(data.userId);
+            const voteIndex = room.votes[data.itemId].indexOf(userId);
             if (voteIndex !== -1) {
               room.votes[data.itemId].splice(voteIndex, 1);
             }
           }
-          // Broadcast vote removal to all participants
-          this.broadcastToRoom(retroId, {
-            type: 'vote-removed',
-            itemId: data.itemId,
-            voterId: data.userId
-          }, userId);
+          if (this.areVotesHidden(room)) {
+            this.sendToFacilitators(room, this.getVoteProgress(room));
+          } else {
+            // Broadcast vote removal to all participants
+            this.broadcastToRoom(retroId, {
+              type: 'vote-removed',
+              itemId: data.itemId,
+              voterId: this.isAnonymousRetro(retroId) ? ANONYMOUS_ID : userId
+            }, userId);
+          }
+          this.sendToUser(room, userId, this.getVoteBudget(room, userId));
+          break;
+
+        case 'points-set': {
+          if (this.getVotingMethod(retroId) !== 'points') {
+            return this.sendVotingMethodError(room, userId, data.type);
+          }
+          if (!Number.isInteger(data.points) || data.points < 0) {
+            return this.sendError(room, userId, 'invalid-message', '"points" must be a whole number of 0 or more', data.type);
+          }
+
+          const budget = this.getVoteBudget(room, userId);
+          const currentPoints = budget.votesByItem[data.itemId] || 0;
+          if (budget.votesRemaining !== null && data.points - currentPoints > budget.votesRemaining) {
+            this.sendError(room, userId, 'limit-reached', `You only have ${budget.votingLimit} points to distribute`, data.type);
+            return this.sendToUser(room, userId, budget);
+          }
+          if (budget.maxVotesPerItem !== null && data.points > budget.maxVotesPerItem) {
+            this.sendError(room, userId, 'limit-reached', `You can give at most ${budget.maxVotesPerItem} points to one item`, data.type);
+            return this.sendToUser(room, userId, budget);
+          }
+
+          this.setUserVotes(room, userId, { ...budget.votesByItem, [data.itemId]: data.points });
+          this.broadcastVotes(room, userId);
+          this.sendToUser(room, userId, this.getVoteBudget(room, userId));
+          break;
+        }
+
+        case 'ranking-set': {
+          if (this.getVotingMethod(retroId) !== 'ranked') {
+            return this.sendVotingMethodError(room, userId, data.type);
+          }
+          const ranking: string[] = data.ranking;
+          if (new Set(ranking).size !== ranking.length) {
+            return this.sendError(room, userId, 'invalid-message', 'Each item can only be ranked once', data.type);
+          }
+          const rankSize = getRetroById(retroId)?.votingLimit ?? ranking.length;
+          if (ranking.length > rankSize) {
+            this.sendError(room, userId, 'limit-reached', `You can rank at most ${rankSize} items`, data.type);
+            return this.sendToUser(room, userId, this.getVoteBudget(room, userId));
+          }
+
+          // Borda count: first place earns rankSize points, each place below it one less
+          const points: { [itemId: string]: number } = {};
+          ranking.forEach((itemId, position) => {
+            points[itemId] = rankSize - position;
+          });
+          this.setUserVotes(room, userId, points);
+          this.broadcastVotes(room, userId);
+          this.sendToUser(room, userId, this.getVoteBudget(room, userId));
+          break;
+        }
+
+        case 'votes-reveal':
+          if (getRetroById(retroId)?.blindVoting !== true) {
+            return this.sendError(room, userId, 'disabled', 'Blind voting is not enabled for this retro', data.type);
+          }
+          this.revealVotes(room);
           break;
 
         case 'discuss-update':
@@ -446,16 +844,22 @@ class WebSocketManager {
           }, userId);
           break;
 
-        case 'action-item-update':
+        case 'action-item-update': {
+          const requiredField = data.action === 'action-deleted' ? 'actionItemId' : 'actionItem';
+          if (!data[requiredField]) {
+            return this.sendError(room, userId, 'invalid-message', `"${requiredField}" is required`, data.type);
+          }
+
           // Store action items in room state
-          if (data.action === 'action-added' && data.actionItem) {
+          if (data.action === 'action-added') {
             room.actionItems.push(data.actionItem);
-          } else if (data.action === 'action-updated' && data.actionItem) {
+          } else if (data.action === 'action-updated') {
             const actionIndex = room.actionItems.findIndex(a => a.id === data.actionItem.id);
-            if (actionIndex !== -1) {
-              room.actionItems[actionIndex] = data.actionItem;
+            if (actionIndex === -1) {
+              return this.sendError(room, userId, 'not-found', 'Action item not found', data.type);
             }
-          } else if (data.action === 'action-deleted' && data.actionItemId) {
+            room.actionItems[actionIndex] = data.actionItem;
+          } else {
             room.actionItems = room.actionItems.filter(a => a.id !== data.actionItemId);
           }
           // Broadcast action item updates to all participants
@@ -465,12 +869,23 @@ class WebSocketManager {
             actionItem: data.actionItem,
             actionItemId: data.actionItemId
           }, userId);
+
+          const retro = getRetroById(retroId);
+          if (data.action === 'action-added' && retro) {
+            void emitWebhookEvent('action-item.added', retro, { actionItem: data.actionItem });
+          }
           break;
+        }
+
+        case 'reaction-toggle': {
+          if (!this.isRetroOptionEnabled(retroId, 'reactionsEnabled')) {
+            return this.sendError(room, userId, 'disabled', 'Reactions are turned off for this retro', data.type);
+          }
 
-        case 'reaction-toggle':
           // Toggle reaction on a card
           const { cardId, emoji } = data;
-          
+
+
           if (!room.reactions[cardId]) {
             room.reactions[cardId] = {};
           }
@@ -498,20 +913,520 @@ class WebSocketManager {
           }
           
           // Broadcast updated reactions to all participants
+          if (this.isAnonymousRetro(retroId)) {
+            this.broadcastToEach(retroId, recipientId => ({
+              type: 'reaction-update',
+              reactions: this.anonymizeReactions(room.reactions, recipientId)
+            }));
+          } else {
+            this.broadcastToRoom(retroId, {
+              type: 'reaction-update',
+              reactions: room.reactions
+            });
+          }
+          break;
+        }
+
+        case 'comment-add': {
+          // Comments can be switched off when the retro is created
+          if (!this.isRetroOptionEnabled(retroId, 'commentsEnabled')) {
+            return this.sendError(room, userId, 'disabled', 'Comments are turned off for this retro', data.type);
+          }
+
+          const content = data.content.trim();
+          if (!content) {
+            return this.sendError(room, userId, 'invalid-message', 'Comment cannot be empty', data.type);
+          }
+
+          const comment: Comment = {
+            id: uuidv4(),
+            itemId: data.itemId,
+            authorId: userId,
+            authorName: room.participants.get(userId)?.name || 'Unknown',
+            content,
+            createdAt: new Date(),
+            updatedAt: null,
+            reactions: {}
+          };
+          room.comments.push(comment);
+
+          // Broadcast to everyone including the sender, since the server assigns the id
+          this.broadcastComment(retroId, 'comment-added', comment);
+          break;
+        }
+
+        case 'comment-edit': {
+          if (!this.isRetroOptionEnabled(retroId, 'commentsEnabled')) {
+            return this.sendError(room, userId, 'disabled', 'Comments are turned off for this retro', data.type);
+          }
+
+          const comment = room.comments.find(c => c.id === data.commentId);
+          const content = data.content.trim();
+          if (!comment) {
+            return this.sendError(room, userId, 'not-found', 'Comment not found', data.type);
+          }
+          // Only the author can edit their comment
+          if (comment.authorId !== userId) {
+            return this.sendError(room, userId, 'forbidden', 'You can only edit your own comments', data.type);
+          }
+          if (!content) {
+            return this.sendError(room, userId, 'invalid-message', 'Comment cannot be empty', data.type);
+          }
+
+          comment.content = content;
+          comment.updatedAt = new Date();
+
+          this.broadcastComment(retroId, 'comment-updated', comment);
+          break;
+        }
+
+        case 'comment-delete': {
+          if (!this.isRetroOptionEnabled(retroId, 'commentsEnabled')) {
+            return this.sendError(room, userId, 'disabled', 'Comments are turned off for this retro', data.type);
+          }
+
+          const comment = room.comments.find(c => c.id === data.commentId);
+          if (!comment) {
+            return this.sendError(room, userId, 'not-found', 'Comment not found', data.type);
+          }
+          // Authors can delete their own comments, facilitators can delete any
+          if (comment.authorId !== userId && !this.isFacilitator(room, userId)) {
+            return this.sendError(room, userId, 'forbidden', 'You can only delete your own comments', data.type);
+          }
+
+          room.comments = room.comments.filter(c => c.id !== comment.id);
+
           this.broadcastToRoom(retroId, {
-            type: 'reaction-update',
-            reactions: room.reactions
+            type: 'comment-deleted',
+            commentId: comment.id,
+            itemId: comment.itemId
           });
           break;
+        }
+
+        case 'comment-reaction-toggle': {
+          if (!this.isRetroOptionEnabled(retroId, 'commentsEnabled') ||
+              !this.isRetroOptionEnabled(retroId, 'commentReactionsEnabled')) {
+            return this.sendError(room, userId, 'disabled', 'Comment reactions are turned off for this retro', data.type);
+          }
+
+          const comment = room.comments.find(c => c.id === data.commentId);
+          if (!comment) {
+            return this.sendError(room, userId, 'not-found', 'Comment not found', data.type);
+          }
+
+          const reactors = comment.reactions[data.emoji] || [];
+          comment.reactions[data.emoji] = reactors.includes(userId)
+            ? reactors.filter(id => id !== userId)
+            : [...reactors, userId];
+
+          // Clean up empty arrays
+          if (comment.reactions[data.emoji].length === 0) {
+            delete comment.reactions[data.emoji];
+          }
+
+          this.broadcastComment(retroId, 'comment-updated', comment);
+          break;
+        }
+
+        case 'facilitator-token-regenerate': {
+          // Invalidates the old token; connected facilitators keep their roles
+          const { token, tokenHash } = createFacilitatorToken();
+          if (!updateRetro(retroId, { facilitatorTokenHash: tokenHash })) {
+            return this.sendError(room, userId, 'not-found', 'Retrospective not found', data.type);
+          }
+          this.sendToUser(room, userId, { type: 'facilitator-token', token });
+          break;
+        }
+
+        case 'transfer-facilitator': {
+          const target = room.participants.get(data.participantId);
+          if (!target || !target.isConnected) {
+            return this.sendError(room, userId, 'not-found', 'Participant not found', data.type);
+          }
+          if (target.id === userId) break;
+
+          // The outgoing facilitator stays on as a co-facilitator
+          room.coFacilitatorIds = [...room.coFacilitatorIds.filter(id => id !== userId), userId];
+          this.assignFacilitator(room, target.id);
+          break;
+        }
+
+        case 'co-facilitator-update': {
+          const target = room.participants.get(data.participantId);
+          if (!target || !target.isConnected) {
+            return this.sendError(room, userId, 'not-found', 'Participant not found', data.type);
+          }
+          if (target.id === room.creatorId) {
+            return this.sendError(room, userId, 'invalid-message', 'The lead facilitator cannot be a co-facilitator', data.type);
+          }
+
+          room.coFacilitatorIds = room.coFacilitatorIds.filter(id => id !== target.id);
+          if (data.isCoFacilitator) {
+            room.coFacilitatorIds.push(target.id);
+          }
+          this.sendToUser(room, target.id, { type: 'co-facilitator-assigned', isCoFacilitator: data.isCoFacilitator });
+          this.broadcastParticipants(retroId);
+          break;
+        }
 
         default:
           break;
       }
+
+      if (MUTATING_MESSAGE_TYPES.has(data.type)) {
+        this.persistRoom(room);
+      }
     } catch (error) {
       console.error('Error handling message:', error);
     }
   }
 
+  // Retro-level feature flags default to enabled when not set (see createRetro)
+  private isRetroOptionEnabled(
+    retroId: string,
+    option: 'reactionsEnabled' | 'commentsEnabled' | 'commentReactionsEnabled'
+  ): boolean {
+    return getRetroById(retroId)?.[option] !== false;
+  }
+
+  // Ids of the retro's enabled stages in order, or undefined if the retro isn't known
+  private getEnabledStageIds(retroId: string): string[] | undefined {
+    const stages = getRetroById(retroId)?.stages;
+    return stages?.filter(stage => stage.enabled).map(stage => stage.id);
+  }
+
+  private getCurrentStageId(room: RetroRoom): string | undefined {
+    return this.getEnabledStageIds(room.id)?.[room.currentStage];
+  }
+
+  // Move everyone to another stage; the sender (if any) already shows it
+  private changeStage(room: RetroRoom, stageIndex: number, excludeUserId?: string) {
+    const retroId = room.id;
+    room.currentStage = stageIndex;
+    // Reset stage done status when stage changes
+    room.stageDoneStatus = {};
+    // Each stage's timer is started anew
+    room.timer = null;
+    this.cancelTimerTimeout(retroId);
+    this.broadcastToRoom(retroId, {
+      type: 'stage-change',
+      stageIndex
+    }, excludeUserId);
+
+    // Moving past the vote stage reveals a blind vote so later stages see the totals
+    const voteStageIndex = this.getEnabledStageIds(retroId)?.indexOf('vote') ?? -1;
+    if (this.areVotesHidden(room) && voteStageIndex !== -1 && stageIndex > voteStageIndex) {
+      this.revealVotes(room);
+    }
+
+    const stageId = this.getCurrentStageId(room);
+    if (stageId) {
+      this.setRetroStatus(retroId, getStatusForStage(stageId));
+    }
+    const retro = getRetroById(retroId);
+    if (retro) {
+      void emitWebhookEvent('retro.stage-changed', retro, { stage: { index: stageIndex, id: stageId ?? null } });
+    }
+  }
+
+  // Configured duration of the current stage in seconds, the default for its timer
+  private getStageDuration(room: RetroRoom): number {
+    const stages = getRetroById(room.id)?.stages?.filter(stage => stage.enabled);
+    return stages?.[room.currentStage]?.duration || 0;
+  }
+
+  // The room's timer with the seconds left counted from its deadline
+  private getTimerState(room: RetroRoom): StageTimer | null {
+    const { timer } = room;
+    if (!timer?.isRunning || !timer.deadline) return timer;
+
+    const remaining = Math.max(0, Math.ceil((new Date(timer.deadline).getTime() - Date.now()) / 1000));
+    return { ...timer, remaining };
+  }
+
+  private cancelTimerTimeout(retroId: string) {
+    clearTimeout(this.timerTimeouts.get(retroId));
+    this.timerTimeouts.delete(retroId);
+  }
+
+  // Arrange for the room's running timer to run out at its deadline
+  private scheduleTimer(room: RetroRoom) {
+    this.cancelTimerTimeout(room.id);
+    const { timer } = room;
+    if (!timer?.isRunning || !timer.deadline) return;
+
+    const delay = Math.max(0, new Date(timer.deadline).getTime() - Date.now());
+    this.timerTimeouts.set(room.id, setTimeout(() => this.expireTimer(room), delay));
+  }
+
+  // Stop the timer at zero, tell everyone and carry out what the facilitator chose to happen next
+  private expireTimer(room: RetroRoom) {
+    this.timerTimeouts.delete(room.id);
+    const { timer } = room;
+    if (!timer?.isRunning || this.rooms.get(room.id) !== room) return;
+
+    room.timer = { ...timer, isRunning: false, deadline: null, remaining: 0 };
+    this.broadcastToRoom(room.id, { type: 'timer-update', timer: room.timer, expired: true });
+
+    // Completed retros are read-only, and a timer from an earlier stage has nothing left to act on
+    if (getRetroById(room.id)?.status !== 'completed' && timer.stageIndex === room.currentStage) {
+      if (timer.onExpire === 'advance-stage') {
+        const stageCount = this.getEnabledStageIds(room.id)?.length;
+        if (stageCount === undefined || room.currentStage < stageCount - 1) {
+          this.changeStage(room, room.currentStage + 1);
+        }
+      } else if (timer.onExpire === 'mark-all-done') {
+        this.markEveryoneDone(room);
+      }
+    }
+    this.persistRoom(room);
+  }
+
+  // Mark every connected participant done with the current stage, e.g. when its time is up
+  private markEveryoneDone(room: RetroRoom) {
+    const stageId = this.getCurrentStageId(room);
+    if (!stageId) return;
+
+    room.stageDoneStatus[stageId] = Array.from(room.participants.values())
+      .filter(p => p.isConnected)
+      .map(p => p.id);
+    this.broadcastToRoom(room.id, {
+      type: 'stage-done-update',
+      stageId,
+      stageDoneStatus: room.stageDoneStatus
+    });
+    if (stageId === 'vote' && this.areVotesHidden(room)) {
+      this.sendToFacilitators(room, this.getVoteProgress(room));
+    }
+  }
+
+  // Move the retro along its lifecycle and announce the change
+  private setRetroStatus(retroId: string, status: RetroStatus) {
+    const retro = transitionRetroStatus(retroId, status);
+    if (retro) {
+      this.broadcastRetroStatus(retroId, status);
+      if (status === 'completed') {
+        void emitWebhookEvent('retro.completed', retro);
+        this.postSummary(retro);
+      }
+    }
+  }
+
+  // Share the results of a retro that reached its Report stage in the team's chat
+  private postSummary(retro: Retro) {
+    const room = this.rooms.get(retro.id);
+    const report = buildRetroReport({
+      retro,
+      template: getTemplateById(retro.templateId),
+      room: room && this.toSnapshot(room),
+      participantNames: this.getParticipantNames(retro.id)
+    });
+    void postRetroSummary(retro.id, report);
+  }
+
+  // How many more votes a participant may cast, along with their current votes
+  private getVoteBudget(room: RoomSnapshot, userId: string): VoteBudgetMessage {
+    const retro = getRetroById(room.id);
+    const votingLimit = retro?.votingLimit ?? null;
+
+    const votesByItem: { [itemId: string]: number } = {};
+    let votesUsed = 0;
+    Object.entries(room.votes).forEach(([itemId, voters]) => {
+      const count = voters.filter(id => id === userId).length;
+      if (count > 0) {
+        votesByItem[itemId] = count;
+        // Ranked votes hold Borda points, but the limit counts ranked items
+        votesUsed += retro?.votingMethod === 'ranked' ? 1 : count;
+      }
+    });
+
+    return {
+      type: 'vote-budget',
+      userId,
+      votingLimit,
+      maxVotesPerItem: retro?.maxVotesPerItem ?? null,
+      votesRemaining: votingLimit === null ? null : Math.max(votingLimit - votesUsed, 0),
+      votesByItem
+    };
+  }
+
+  private getVotingMethod(retroId: string): VotingMethod {
+    return getRetroById(retroId)?.votingMethod ?? 'dots';
+  }
+
+  private sendVotingMethodError(room: RetroRoom, userId: string, requestType: string) {
+    const method = VOTING_METHOD_NAMES[this.getVotingMethod(room.id)];
+    this.sendError(room, userId, 'disabled', `This retro uses ${method} voting`, requestType);
+  }
+
+  // Replace all of a participant's votes with the given count per item
+  private setUserVotes(room: RetroRoom, userId: string, votesByItem: { [itemId: string]: number }) {
+    const itemIds = new Set([...Object.keys(room.votes), ...Object.keys(votesByItem)]);
+    itemIds.forEach(itemId => {
+      const voters = [
+        ...(room.votes[itemId] || []).filter(id => id !== userId),
+        ...Array(votesByItem[itemId] || 0).fill(userId)
+      ];
+      if (voters.length > 0) {
+        room.votes[itemId] = voters;
+      } else {
+        delete room.votes[itemId];
+      }
+    });
+  }
+
+  // Share the full tallies after a change touching several items (progress only during a blind vote)
+  private broadcastVotes(room: RetroRoom, excludeUserId: string) {
+    if (this.areVotesHidden(room)) {
+      this.sendToFacilitators(room, this.getVoteProgress(room));
+      return;
+    }
+    const isAnonymous = this.isAnonymousRetro(room.id);
+    this.broadcastToEach(room.id, recipientId => ({
+      type: 'votes-updated',
+      votes: isAnonymous ? this.anonymizeVotes(room.votes, recipientId) : room.votes
+    }), excludeUserId);
+  }
+
+  // Admins may do anything the lead facilitator can; viewers (outsiders to a team retro) can only watch
+  private getSenderRole(room: RetroRoom, userId: string): SenderRole {
+    const role = room.participants.get(userId)?.role;
+    if (room.creatorId === userId || role === 'admin' || role === 'facilitator') return 'facilitator';
+    if (room.coFacilitatorIds.includes(userId)) return 'co-facilitator';
+    return role === 'viewer' ? 'viewer' : 'participant';
+  }
+
+  private isFacilitator(room: RetroRoom, userId: string): boolean {
+    const role = this.getSenderRole(room, userId);
+    return role === 'facilitator' || role === 'co-facilitator';
+  }
+
+  private sendToFacilitators(room: RetroRoom, message: any) {
+    [room.creatorId, ...room.coFacilitatorIds].forEach(id => this.sendToUser(room, id, message));
+  }
+
+  // Make a participant the lead facilitator and tell the old and new one
+  private assignFacilitator(room: RetroRoom, newCreatorId: string) {
+    const previousCreatorId = room.creatorId;
+    room.creatorId = newCreatorId;
+    room.coFacilitatorIds = room.coFacilitatorIds.filter(id => id !== newCreatorId);
+    room.participants.forEach(p => {
+      p.isCreator = p.id === newCreatorId;
+    });
+
+    this.sendToUser(room, newCreatorId, { type: 'creator-assigned', isCreator: true });
+    if (previousCreatorId && previousCreatorId !== newCreatorId) {
+      this.sendToUser(room, previousCreatorId, { type: 'creator-assigned', isCreator: false });
+    }
+    this.broadcastParticipants(room.id);
+  }
+
+  // Hand the room to a co-facilitator, or else the longest-present participant, once the facilitator is gone
+  private promoteNextFacilitator(room: RetroRoom) {
+    const connected = Array.from(room.participants.values())
+      .filter(p => p.isConnected)
+      .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime());
+    const next = connected.find(p => room.coFacilitatorIds.includes(p.id)) || connected[0];
+    if (!next) return;
+
+    console.log(`Promoting ${next.name} (${next.id}) to facilitator of retro ${room.id}`);
+    this.assignFacilitator(room, next.id);
+    this.persistRoom(room);
+  }
+
+  private areVotesHidden(room: RetroRoom): boolean {
+    return getRetroById(room.id)?.blindVoting === true && !room.votesRevealed;
+  }
+
+  private getOwnVotes(votes: VoteData, userId: string): VoteData {
+    const own: VoteData = {};
+    Object.entries(votes).forEach(([itemId, voters]) => {
+      const mine = voters.filter(id => id === userId);
+      if (mine.length > 0) own[itemId] = mine;
+    });
+    return own;
+  }
+
+  // Participants count as finished once they mark the vote stage done or use up their votes
+  private getVoteProgress(room: RetroRoom): VoteProgressMessage {
+    const connected = Array.from(room.participants.values()).filter(p => p.isConnected);
+    const doneIds = room.stageDoneStatus['vote'] || [];
+    const finishedCount = connected.filter(p =>
+      doneIds.includes(p.id) || this.getVoteBudget(room, p.id).votesRemaining === 0
+    ).length;
+
+    return { type: 'vote-progress', finishedCount, participantCount: connected.length };
+  }
+
+  // Publish every vote at once, ending the secret ballot
+  private revealVotes(room: RetroRoom) {
+    room.votesRevealed = true;
+    const isAnonymous = this.isAnonymousRetro(room.id);
+    this.broadcastToEach(room.id, recipientId => ({
+      type: 'votes-revealed',
+      votes: isAnonymous ? this.anonymizeVotes(room.votes, recipientId) : room.votes
+    }));
+  }
+
+  private sendToUser(room: RetroRoom, userId: string, message: any) {
+    const ws = room.participants.get(userId)?.ws;
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+
+  // Tell a single participant why their message was rejected
+  private sendError(room: RetroRoom, userId: string, code: WsErrorCode, message: string, requestType?: string) {
+    const error: WsErrorMessage = { type: 'error', code, message, requestType };
+    this.sendToUser(room, userId, error);
+  }
+
+  private isAnonymousRetro(retroId: string): boolean {
+    return getRetroById(retroId)?.isAnonymous === true;
+  }
+
+  // Hide a card's author from everyone except the author themselves
+  private anonymizeCard(card: Card, recipientId?: string): Card {
+    return card.authorId === recipientId ? card : { ...card, authorId: ANONYMOUS_ID };
+  }
+
+  // Replace other users' ids so counts survive but identities don't
+  private anonymizeVotes(votes: VoteData, recipientId: string): VoteData {
+    const anonymized: VoteData = {};
+    Object.entries(votes).forEach(([itemId, voters]) => {
+      anonymized[itemId] = voters.map(id => (id === recipientId ? id : ANONYMOUS_ID));
+    });
+    return anonymized;
+  }
+
+  private anonymizeReactions(reactions: Reactions, recipientId: string): Reactions {
+    const anonymized: Reactions = {};
+    Object.entries(reactions).forEach(([cardId, emojis]) => {
+      anonymized[cardId] = this.anonymizeVotes(emojis, recipientId);
+    });
+    return anonymized;
+  }
+
+  // Hide who wrote and reacted to a comment from everyone except the author themselves
+  private anonymizeComment(comment: Comment, recipientId: string): Comment {
+    const isOwn = comment.authorId === recipientId;
+    return {
+      ...comment,
+      authorId: isOwn ? comment.authorId : ANONYMOUS_ID,
+      authorName: isOwn ? comment.authorName : 'Anonymous',
+      reactions: this.anonymizeVotes(comment.reactions, recipientId)
+    };
+  }
+
+  private broadcastComment(retroId: string, type: 'comment-added' | 'comment-updated', comment: Comment) {
+    if (!this.isAnonymousRetro(retroId)) {
+      this.broadcastToRoom(retroId, { type, comment });
+      return;
+    }
+    this.broadcastToEach(retroId, recipientId => ({ type, comment: this.anonymizeComment(comment, recipientId) }));
+  }
+
   private handleDisconnect(userId: string, retroId: string, hasInteracted: boolean = true) {
     const room = this.rooms.get(retroId);
     if (!room) return;
@@ -524,13 +1439,15 @@ class WebSocketManager {
       // Remove them immediately without storing for reconnection
       if (!hasInteracted && connectionDuration < 5000) {
         room.participants.delete(userId);
+        room.coFacilitatorIds = room.coFacilitatorIds.filter(id => id !== userId);
+        resumeTokenHashes.delete(userId);
         console.log(`Quick disconnect detected: ${participant.name} (${userId}) removed immediately (likely bot/preview)`);
         
         // If room is empty, clean it up
         if (room.participants.size === 0) {
-          clearUsedNames(retroId);
-          this.rooms.delete(retroId);
-          console.log(`Room ${retroId} cleaned up`);
+          this.closeRoom(room);
+        } else if (room.creatorId === userId) {
+          this.promoteNextFacilitator(room);
         } else {
           // Broadcast updated participants list
           this.broadcastParticipants(retroId);
@@ -565,13 +1482,15 @@ class WebSocketManager {
           currentRoom.participants.delete(userId);
           console.log(`User ${currentParticipant.name} (${userId}) removed after disconnect timeout`);
 
+          currentRoom.coFacilitatorIds = currentRoom.coFacilitatorIds.filter(id => id !== userId);
+
           // If room is empty, clean it up
           if (currentRoom.participants.size === 0) {
-            clearUsedNames(retroId);
-            this.rooms.delete(retroId);
-            console.log(`Room ${retroId} cleaned up`);
+            this.closeRoom(currentRoom);
+          } else if (currentRoom.creatorId === userId) {
+            // The facilitator's reconnect window has passed - hand the room on (broadcasts participants)
+            this.promoteNextFacilitator(currentRoom);
           } else {
-            // Creator remains the same even if they leave - do not reassign
             // Broadcast updated participants list
             this.broadcastParticipants(retroId);
           }
@@ -590,7 +1509,8 @@ class WebSocketManager {
         id: p.id,
         name: p.name,
         joinedAt: p.joinedAt,
-        isCreator: p.id === room.creatorId
+        isCreator: p.id === room.creatorId,
+        isCoFacilitator: room.coFacilitatorIds.includes(p.id)
       }));
 
     const message = JSON.stringify({
@@ -624,10 +1544,97 @@ class WebSocketManager {
     });
   }
 
+  // Send each participant a message built for them (e.g. anonymized with their own id)
+  private broadcastToEach(retroId: string, buildMessage: (recipientId: string) => any, excludeUserId?: string) {
+    const room = this.rooms.get(retroId);
+    if (!room) return;
+
+    room.participants.forEach(participant => {
+      if ((excludeUserId === undefined || participant.id !== excludeUserId) &&
+          participant.ws &&
+          participant.ws.readyState === WebSocket.OPEN) {
+        participant.ws.send(JSON.stringify(buildMessage(participant.id)));
+      }
+    });
+  }
+
   getRoom(retroId: string): RetroRoom | undefined {
     return this.rooms.get(retroId);
   }
 
+  // Whether any votes have been cast in the retro, live or in its saved room state
+  hasVotes(retroId: string): boolean {
+    const room = this.rooms.get(retroId) || getRoomState(retroId);
+    return !!room && Object.values(room.votes).some(voters => voters.length > 0);
+  }
+
+  // Cards, votes and action items in the retro, live or from its saved room state
+  getRetroCounts(retroId: string): RetroCounts {
+    const room = this.rooms.get(retroId) || getRoomState(retroId);
+    if (!room) return { cards: 0, votes: 0, actionItems: 0 };
+
+    return {
+      cards: room.cards.length,
+      votes: Object.values(room.votes).reduce((total, voters) => total + voters.length, 0),
+      actionItems: room.actionItems.length
+    };
+  }
+
+  // The retro's room state, live or as last saved
+  getRoomSnapshot(retroId: string): RoomSnapshot | undefined {
+    const room = this.rooms.get(retroId);
+    return room ? this.toSnapshot(room) : getRoomState(retroId);
+  }
+
+  // Names of the people in the retro's live room by participant id (saved room state has no names)
+  getParticipantNames(retroId: string): Record<string, string> {
+    const room = this.rooms.get(retroId);
+    if (!room) return {};
+
+    return Object.fromEntries(Array.from(room.participants.values()).map(p => [p.id, p.name]));
+  }
+
+  // The retro's action items, live or from its saved room state
+  getActionItems(retroId: string): ActionItem[] {
+    const room = this.rooms.get(retroId) || getRoomState(retroId);
+    return room ? room.actionItems : [];
+  }
+
+  /**
+   * Change an action item outside of the live session flow, e.g. from the team action tracker.
+   * A live room is updated and told about the change; otherwise the saved room state is.
+   * @returns The updated action item, or null if the retro has no such item
+   */
+  updateActionItem(retroId: string, actionItemId: string, changes: ActionItemChanges): ActionItem | null {
+    const room = this.rooms.get(retroId) || getRoomState(retroId);
+    const existing = room?.actionItems.find(item => item.id === actionItemId);
+    if (!room || !existing) return null;
+
+    const actionItem = { ...existing, ...changes };
+    room.actionItems = room.actionItems.map(item => (item.id === actionItemId ? actionItem : item));
+
+    if (this.rooms.has(retroId)) {
+      this.persistRoom(room as RetroRoom);
+      this.broadcastToRoom(retroId, { type: 'action-item-update', action: 'action-updated', actionItem });
+    } else {
+      saveRoomState(room);
+    }
+    return actionItem;
+  }
+
+  // Send every connected participant their budget, e.g. after the retro's vote limits change
+  broadcastVoteBudgets(retroId: string) {
+    const room = this.rooms.get(retroId);
+    if (!room) return;
+
+    this.broadcastToEach(retroId, recipientId => this.getVoteBudget(room, recipientId));
+  }
+
+  // Tell everyone in the room about the retro's new status, e.g. after the facilitator changed it over HTTP
+  broadcastRetroStatus(retroId: string, status: RetroStatus) {
+    this.broadcastToRoom(retroId, { type: 'retro-status', status });
+  }
+
   getRoomParticipants(retroId: string) {
     const room = this.rooms.get(retroId);
     if (!room) return [];
@@ -638,7 +1645,8 @@ class WebSocketManager {
         id: p.id,
         name: p.name,
         joinedAt: p.joinedAt,
-        isCreator: p.id === room.creatorId
+        isCreator: p.id === room.creatorId,
+        isCoFacilitator: room.coFacilitatorIds.includes(p.id)
       }));
   }
 }
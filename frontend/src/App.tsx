@@ -2,6 +2,11 @@ import { Routes, Route, Navigate, useParams } from 'react-router-dom';
 import LandingPage from './pages/LandingPage';
 import RetroBoard from './pages/RetroBoard';
 import JoinRetro from './pages/JoinRetro';
+import LoginPage from './pages/LoginPage';
+import TeamsPage from './pages/TeamsPage';
+import HistoryPage from './pages/HistoryPage';
+import ActionsPage from './pages/ActionsPage';
+import AnalyticsPage from './pages/AnalyticsPage';
 
 // Redirect component to handle legacy /retro/:retroId URLs
 function RedirectToJoin() {
@@ -13,6 +18,11 @@ function App() {
   return (
     <Routes>
       <Route path="/" element={<LandingPage />} />
+      <Route path="/login" element={<LoginPage />} />
+      <Route path="/teams" element={<TeamsPage />} />
+      <Route path="/history" element={<HistoryPage />} />
+      <Route path="/actions" element={<ActionsPage />} />
+      <Route path="/analytics" element={<AnalyticsPage />} />
       {/* Join/Preview page - no WebSocket connection, safe for Teams bot preview */}
       <Route path="/retro/:retroId/join" element={<JoinRetro />} />
       {/* Actual retro board - WebSocket connection happens here */}
@@ -17,6 +17,26 @@ vi.mock('../pages/JoinRetro', () => ({
   default: () => <div data-testid="join-retro">Join Retro</div>,
 }));
 
+vi.mock('../pages/LoginPage', () => ({
+  default: () => <div data-testid="login-page">Login Page</div>,
+}));
+
+vi.mock('../pages/TeamsPage', () => ({
+  default: () => <div data-testid="teams-page">Teams Page</div>,
+}));
+
+vi.mock('../pages/HistoryPage', () => ({
+  default: () => <div data-testid="history-page">History Page</div>,
+}));
+
+vi.mock('../pages/ActionsPage', () => ({
+  default: () => <div data-testid="actions-page">Actions Page</div>,
+}));
+
+vi.mock('../pages/AnalyticsPage', () => ({
+  default: () => <div data-testid="analytics-page">Analytics Page</div>,
+}));
+
 describe('App Component', () => {
   const renderApp = (initialRoute: string) => {
     return render(
@@ -49,6 +69,31 @@ describe('App Component', () => {
     expect(screen.getByTestId('join-retro')).toBeInTheDocument();
   });
 
+  it('renders login page on /login route', () => {
+    renderApp('/login');
+    expect(screen.getByTestId('login-page')).toBeInTheDocument();
+  });
+
+  it('renders teams page on /teams route', () => {
+    renderApp('/teams');
+    expect(screen.getByTestId('teams-page')).toBeInTheDocument();
+  });
+
+  it('renders history page on /history route', () => {
+    renderApp('/history');
+    expect(screen.getByTestId('history-page')).toBeInTheDocument();
+  });
+
+  it('renders actions page on /actions route', () => {
+    renderApp('/actions');
+    expect(screen.getByTestId('actions-page')).toBeInTheDocument();
+  });
+
+  it('renders analytics page on /analytics route', () => {
+    renderApp('/analytics');
+    expect(screen.getByTestId('analytics-page')).toBeInTheDocument();
+  });
+
   it('redirects unknown routes to landing page', () => {
     renderApp('/unknown-route');
     expect(screen.getByTestId('landing-page')).toBeInTheDocument();
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import BasicInfoTab from '@/components/BasicInfoTab';
 import { UseFormRegister, FieldErrors } from 'react-hook-form';
 import { CreateRetroData, Template } from '@/types/retro';
@@ -79,6 +79,29 @@ describe('BasicInfoTab', () => {
       
       expect(mockRegister).toHaveBeenCalledWith('templateId', { required: 'Template is required' });
     });
+
+    it('registers an optional start time', () => {
+      render(<BasicInfoTab {...defaultProps} />);
+
+      expect(mockRegister).toHaveBeenCalledWith('scheduledAt');
+      expect(screen.getByLabelText('Start time')).toHaveAttribute('type', 'datetime-local');
+    });
+
+    it('offers the team picker only to users with teams', () => {
+      const { rerender } = render(<BasicInfoTab {...defaultProps} />);
+      expect(screen.queryByLabelText('Team')).not.toBeInTheDocument();
+
+      rerender(
+        <BasicInfoTab
+          {...defaultProps}
+          teams={[{ id: 'team-1', name: 'Platform', createdBy: 'user-1', createdAt: new Date(), members: [] }]}
+        />
+      );
+
+      expect(mockRegister).toHaveBeenCalledWith('teamId');
+      expect(screen.getByRole('option', { name: 'No team' })).toHaveValue('');
+      expect(screen.getByRole('option', { name: 'Platform' })).toHaveValue('team-1');
+    });
   });
 
   describe('Error Display', () => {
@@ -109,4 +132,26 @@ describe('BasicInfoTab', () => {
       expect(screen.queryByText('Template is required')).not.toBeInTheDocument();
     });
   });
+
+  describe('Custom templates', () => {
+    it('offers to create and edit templates when given handlers', () => {
+      const onCreateTemplate = vi.fn();
+      const onEditTemplate = vi.fn();
+      render(<BasicInfoTab {...defaultProps} onCreateTemplate={onCreateTemplate} onEditTemplate={onEditTemplate} />);
+
+      fireEvent.click(screen.getByText('Create template'));
+      fireEvent.click(screen.getByText('Edit template'));
+
+      expect(onCreateTemplate).toHaveBeenCalled();
+      expect(onEditTemplate).toHaveBeenCalled();
+      expect(screen.queryByText('Log in to build your own templates')).not.toBeInTheDocument();
+    });
+
+    it('asks to log in without a create handler', () => {
+      render(<BasicInfoTab {...defaultProps} />);
+
+      expect(screen.getByText('Log in to build your own templates')).toBeInTheDocument();
+      expect(screen.queryByText('Edit template')).not.toBeInTheDocument();
+    });
+  });
 });
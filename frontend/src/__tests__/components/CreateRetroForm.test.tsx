@@ -13,7 +13,18 @@ vi.mock('react-hot-toast', () => ({
 // Mock the API module
 vi.mock('@/services/api', () => ({
   getTemplates: vi.fn(),
+  getTeams: vi.fn(),
   createRetro: vi.fn(),
+  createTemplate: vi.fn(),
+  updateTemplate: vi.fn(),
+  deleteTemplate: vi.fn(),
+  importTemplate: vi.fn(),
+  exportTemplate: vi.fn(),
+}));
+
+let mockUser: { id: string; name: string; role: 'admin' | 'member' } | null = null;
+vi.mock('@/context/AuthContext', () => ({
+  useAuth: () => ({ user: mockUser }),
 }));
 
 describe('CreateRetroForm', () => {
@@ -40,8 +51,10 @@ describe('CreateRetroForm', () => {
 
   beforeEach(async () => {
     vi.clearAllMocks();
+    mockUser = null;
     const api = await import('@/services/api');
     vi.mocked(api.getTemplates).mockResolvedValue(mockTemplates);
+    vi.mocked(api.getTeams).mockResolvedValue([]);
     vi.mocked(api.createRetro).mockResolvedValue(mockRetro);
   });
 
@@ -182,6 +195,72 @@ describe('CreateRetroForm', () => {
       });
     });
 
+    it('sends the start time of a scheduled retro as an ISO date', async () => {
+      const api = await import('@/services/api');
+      render(<CreateRetroForm onSuccess={mockOnSuccess} onCancel={mockOnCancel} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Start Instantly')).toBeInTheDocument();
+      });
+      await fillRequiredFields();
+      fireEvent.change(screen.getByLabelText('Start time'), { target: { value: '2030-05-01T09:30' } });
+      fireEvent.click(screen.getByText('Start Instantly'));
+
+      await waitFor(() => {
+        expect(api.createRetro).toHaveBeenCalledWith(expect.objectContaining({
+          scheduledAt: new Date('2030-05-01T09:30').toISOString(),
+        }));
+      });
+    });
+
+    it('creates a team retro that starts by following up on previous actions', async () => {
+      const api = await import('@/services/api');
+      mockUser = { id: 'user-1', name: 'Ada', role: 'member' };
+      vi.mocked(api.getTeams).mockResolvedValue([
+        { id: 'team-1', name: 'Platform', createdBy: 'user-1', createdAt: new Date(), members: [] },
+      ]);
+      render(<CreateRetroForm onSuccess={mockOnSuccess} onCancel={mockOnCancel} />);
+
+      await waitFor(() => {
+        expect(screen.getByRole('option', { name: 'Platform' })).toBeInTheDocument();
+      });
+      fireEvent.change(screen.getByPlaceholderText('e.g., Sprint 42 Retrospective'), { target: { value: 'Sprint 42' } });
+      fireEvent.change(screen.getByDisplayValue('Select a template'), { target: { value: 'template1' } });
+      fireEvent.change(screen.getByLabelText('Team'), { target: { value: 'team-1' } });
+      fireEvent.click(screen.getByText('Process'));
+      fireEvent.click(screen.getByRole('button', { name: 'Enable previous actions phase' }));
+      fireEvent.click(screen.getByText('Start Instantly'));
+
+      await waitFor(() => {
+        expect(api.createRetro).toHaveBeenCalledWith(expect.objectContaining({
+          teamId: 'team-1',
+          stages: expect.arrayContaining([
+            { id: 'previous-actions', name: 'Previous Actions', duration: 0, enabled: true },
+          ]),
+        }));
+      });
+    });
+
+    it('leaves out the team and previous actions when no team is picked', async () => {
+      const api = await import('@/services/api');
+      render(<CreateRetroForm onSuccess={mockOnSuccess} onCancel={mockOnCancel} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Start Instantly')).toBeInTheDocument();
+      });
+      await fillRequiredFields();
+      fireEvent.click(screen.getByText('Process'));
+      fireEvent.click(screen.getByRole('button', { name: 'Enable previous actions phase' }));
+      fireEvent.click(screen.getByText('Start Instantly'));
+
+      await waitFor(() => {
+        expect(api.createRetro).toHaveBeenCalledWith(expect.objectContaining({
+          teamId: undefined,
+          stages: expect.arrayContaining([expect.objectContaining({ id: 'previous-actions', enabled: false })]),
+        }));
+      });
+    });
+
     it('submits form via Start Retrospective button on Options tab', async () => {
       const api = await import('@/services/api');
       render(<CreateRetroForm onSuccess={mockOnSuccess} onCancel={mockOnCancel} />);
@@ -223,6 +302,24 @@ describe('CreateRetroForm', () => {
       });
     });
 
+    it('stores the facilitator token returned for the new retro', async () => {
+      const api = await import('@/services/api');
+      vi.mocked(api.createRetro).mockResolvedValue({ ...mockRetro, facilitatorToken: 'secret-token' });
+      render(<CreateRetroForm onSuccess={mockOnSuccess} onCancel={mockOnCancel} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Start Instantly')).toBeInTheDocument();
+      });
+
+      await fillRequiredFields();
+      fireEvent.click(screen.getByText('Start Instantly'));
+
+      await waitFor(() => {
+        expect(localStorage.getItem(`retro_facilitatorToken_${mockRetro.id}`)).toBe('secret-token');
+      });
+      localStorage.removeItem(`retro_facilitatorToken_${mockRetro.id}`);
+    });
+
     it('shows success toast after successful submission', async () => {
       const toast = await import('react-hot-toast');
       render(<CreateRetroForm onSuccess={mockOnSuccess} onCancel={mockOnCancel} />);
@@ -242,6 +339,159 @@ describe('CreateRetroForm', () => {
     });
   });
 
+  describe('Template Builder', () => {
+    it('asks logged-out users to log in to build templates', async () => {
+      render(<CreateRetroForm onSuccess={mockOnSuccess} onCancel={mockOnCancel} />);
+
+      expect(await screen.findByText('Log in to build your own templates')).toBeInTheDocument();
+      expect(screen.queryByText('Create template')).not.toBeInTheDocument();
+    });
+
+    it('saves a new template and selects it', async () => {
+      mockUser = { id: 'user-1', name: 'Ada', role: 'member' };
+      const api = await import('@/services/api');
+      const saved = {
+        id: 'template-9',
+        name: 'Keep/Drop',
+        description: '',
+        isDefault: false,
+        createdBy: 'user-1',
+        columns: [],
+      };
+      vi.mocked(api.createTemplate).mockResolvedValue(saved);
+      render(<CreateRetroForm onSuccess={mockOnSuccess} onCancel={mockOnCancel} />);
+
+      fireEvent.click(await screen.findByText('Create template'));
+      fireEvent.change(screen.getByLabelText('Template Name *'), { target: { value: 'Keep/Drop' } });
+      fireEvent.change(screen.getByLabelText('Column 1 name'), { target: { value: 'Keep' } });
+      fireEvent.change(screen.getByLabelText('Column 2 name'), { target: { value: 'Drop' } });
+      fireEvent.click(screen.getByText('Save Template'));
+
+      await waitFor(() => {
+        expect(screen.getByRole('combobox')).toHaveValue('template-9');
+      });
+      expect(api.createTemplate).toHaveBeenCalledWith(expect.objectContaining({ name: 'Keep/Drop' }));
+      // The saved template is the user's own, so it can be edited
+      expect(screen.getByText('Edit template')).toBeInTheDocument();
+    });
+
+    it('only offers to edit custom templates the user built', async () => {
+      mockUser = { id: 'user-1', name: 'Ada', role: 'member' };
+      render(<CreateRetroForm onSuccess={mockOnSuccess} onCancel={mockOnCancel} />);
+
+      await screen.findByText('Create template');
+      fireEvent.change(screen.getByRole('combobox'), { target: { value: 'template2' } });
+
+      expect(screen.queryByText('Edit template')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Template Files', () => {
+    const importedTemplate = {
+      id: 'template-9',
+      name: 'Keep/Drop',
+      description: '',
+      isDefault: false,
+      createdBy: 'user-1',
+      columns: [],
+      stages: [
+        { id: 'brainstorm', name: 'Brainstorm', duration: 0, enabled: true },
+        { id: 'vote', name: 'Vote', duration: 0, enabled: true },
+        { id: 'report', name: 'Report', duration: 0, enabled: true },
+      ],
+      options: { nameDeck: 'plants', reactionsEnabled: false },
+    };
+
+    const chooseFile = (contents: string) => {
+      const input = document.querySelector('input[type="file"]') as HTMLInputElement;
+      fireEvent.change(input, { target: { files: [new File([contents], 'keep-drop.template.json', { type: 'application/json' })] } });
+    };
+
+    beforeEach(() => {
+      mockUser = { id: 'user-1', name: 'Ada', role: 'member' };
+    });
+
+    it('imports a template file, selects it and applies its defaults', async () => {
+      const api = await import('@/services/api');
+      vi.mocked(api.importTemplate).mockResolvedValue(importedTemplate);
+      render(<CreateRetroForm onSuccess={mockOnSuccess} onCancel={mockOnCancel} />);
+
+      await screen.findByText('Import template');
+      fireEvent.change(screen.getByPlaceholderText('e.g., Sprint 42 Retrospective'), { target: { value: 'Test Session' } });
+      chooseFile('{"schema":"teamretro.template","version":1}');
+
+      await waitFor(() => {
+        expect(screen.getByRole('combobox')).toHaveValue('template-9');
+      });
+      expect(api.importTemplate).toHaveBeenCalledWith({ schema: 'teamretro.template', version: 1 });
+
+      fireEvent.click(screen.getByText('Options'));
+      await waitFor(() => {
+        expect(screen.getByLabelText('Select participant name theme')).toHaveValue('plants');
+      });
+      fireEvent.click(screen.getByText('Start Retrospective'));
+
+      await waitFor(() => {
+        expect(api.createRetro).toHaveBeenCalledWith(expect.objectContaining({
+          templateId: 'template-9',
+          nameDeck: 'plants',
+          reactionsEnabled: false,
+          commentsEnabled: true,
+          stages: expect.arrayContaining([
+            expect.objectContaining({ id: 'icebreaker', enabled: false }),
+            expect.objectContaining({ id: 'vote', enabled: true }),
+            expect.objectContaining({ id: 'discuss', enabled: false }),
+          ]),
+        }));
+      });
+    });
+
+    it('reports files that are not JSON or that the server rejects', async () => {
+      const api = await import('@/services/api');
+      const toast = await import('react-hot-toast');
+      vi.mocked(api.importTemplate).mockRejectedValue({
+        response: { data: { message: 'Invalid template file', errors: ['Template name is required', '"options" must be an object'] } },
+      });
+      render(<CreateRetroForm onSuccess={mockOnSuccess} onCancel={mockOnCancel} />);
+
+      await screen.findByText('Import template');
+      chooseFile('not json');
+      await waitFor(() => {
+        expect(toast.default.error).toHaveBeenCalledWith('keep-drop.template.json is not a JSON file');
+      });
+      expect(api.importTemplate).not.toHaveBeenCalled();
+
+      chooseFile('{}');
+      await waitFor(() => {
+        expect(toast.default.error).toHaveBeenCalledWith(
+          'Invalid template file: Template name is required; "options" must be an object'
+        );
+      });
+    });
+
+    it('downloads the selected template as a file', async () => {
+      const api = await import('@/services/api');
+      vi.mocked(api.exportTemplate).mockResolvedValue({ schema: 'teamretro.template', version: 1 });
+      const createObjectURL = vi.fn(() => 'blob:template');
+      const revokeObjectURL = vi.fn();
+      Object.assign(URL, { createObjectURL, revokeObjectURL });
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+      render(<CreateRetroForm onSuccess={mockOnSuccess} onCancel={mockOnCancel} />);
+
+      await screen.findByText('Import template');
+      expect(screen.queryByText('Export template')).not.toBeInTheDocument();
+      fireEvent.change(screen.getByRole('combobox'), { target: { value: 'template1' } });
+      fireEvent.click(screen.getByText('Export template'));
+
+      await waitFor(() => {
+        expect(click).toHaveBeenCalled();
+      });
+      expect(api.exportTemplate).toHaveBeenCalledWith('template1');
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:template');
+      click.mockRestore();
+    });
+  });
+
   describe('Error Handling', () => {
     it('shows error toast when template fetch fails', async () => {
       const api = await import('@/services/api');
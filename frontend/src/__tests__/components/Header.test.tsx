@@ -21,10 +21,22 @@ vi.mock('@/context/ThemeContext', () => ({
   ThemeProvider: ({ children }: { children: React.ReactNode }) => children,
 }));
 
+// Mock the AuthContext
+const mockLogout = vi.fn();
+let mockUser: { id: string; name: string; email: string } | null = null;
+
+vi.mock('@/context/AuthContext', () => ({
+  useAuth: () => ({
+    user: mockUser,
+    logout: mockLogout,
+  }),
+}));
+
 describe('Header Component', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockTheme = 'light';
+    mockUser = null;
   });
 
   const renderHeader = () => {
@@ -152,6 +164,33 @@ describe('Header Component', () => {
     });
   });
 
+  describe('Account Controls', () => {
+    it('shows a log in button when logged out', () => {
+      renderHeader();
+
+      expect(screen.getByRole('button', { name: /log in/i })).toBeInTheDocument();
+      expect(screen.queryByText('Teams')).not.toBeInTheDocument();
+      expect(screen.queryByText('History')).not.toBeInTheDocument();
+      expect(screen.queryByText('Actions')).not.toBeInTheDocument();
+      expect(screen.queryByText('Analytics')).not.toBeInTheDocument();
+    });
+
+    it('shows the user, teams, history, actions and analytics links and log out when logged in', async () => {
+      const user = userEvent.setup();
+      mockUser = { id: 'user-1', name: 'Ada Lovelace', email: 'ada@example.com' };
+      renderHeader();
+
+      expect(screen.getByText('Ada Lovelace')).toBeInTheDocument();
+      expect(screen.getByRole('link', { name: /teams/i })).toHaveAttribute('href', '/teams');
+      expect(screen.getByRole('link', { name: /history/i })).toHaveAttribute('href', '/history');
+      expect(screen.getByRole('link', { name: /actions/i })).toHaveAttribute('href', '/actions');
+      expect(screen.getByRole('link', { name: /analytics/i })).toHaveAttribute('href', '/analytics');
+
+      await user.click(screen.getByRole('button', { name: /log out/i }));
+      expect(mockLogout).toHaveBeenCalled();
+    });
+  });
+
   describe('Keyboard Navigation', () => {
     it('theme toggle button is keyboard accessible', async () => {
       const user = userEvent.setup();
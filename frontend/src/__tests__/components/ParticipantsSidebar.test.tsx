@@ -91,6 +91,67 @@ describe('ParticipantsSidebar', () => {
     });
   });
 
+  describe('Facilitator Controls', () => {
+    it('lets the lead facilitator hand over the role', () => {
+      const onTransferFacilitator = vi.fn();
+      render(<ParticipantsSidebar {...defaultProps} onTransferFacilitator={onTransferFacilitator} />);
+
+      fireEvent.click(screen.getByLabelText('Make facilitator: Bob'));
+
+      expect(onTransferFacilitator).toHaveBeenCalledWith('user2');
+      expect(screen.queryByLabelText('Make facilitator: Alice')).not.toBeInTheDocument();
+    });
+
+    it('lets the lead facilitator promote and demote co-facilitators', () => {
+      const onSetCoFacilitator = vi.fn();
+      const participants = [
+        { id: 'user1', name: 'Alice', joinedAt: new Date(), isCreator: true },
+        { id: 'user2', name: 'Bob', joinedAt: new Date(), isCoFacilitator: true },
+        { id: 'user3', name: 'Charlie', joinedAt: new Date() },
+      ];
+      render(
+        <ParticipantsSidebar {...defaultProps} participants={participants} onSetCoFacilitator={onSetCoFacilitator} />
+      );
+
+      expect(screen.getByText(/Co-facilitator/)).toBeInTheDocument();
+      fireEvent.click(screen.getByLabelText('Remove co-facilitator: Bob'));
+      fireEvent.click(screen.getByLabelText('Make co-facilitator: Charlie'));
+
+      expect(onSetCoFacilitator).toHaveBeenCalledWith('user2', false);
+      expect(onSetCoFacilitator).toHaveBeenCalledWith('user3', true);
+    });
+
+    it('lets the lead facilitator regenerate the facilitator key', () => {
+      const onRegenerateFacilitatorToken = vi.fn();
+      render(<ParticipantsSidebar {...defaultProps} onRegenerateFacilitatorToken={onRegenerateFacilitatorToken} />);
+
+      fireEvent.click(screen.getByText('Regenerate facilitator key'));
+
+      expect(onRegenerateFacilitatorToken).toHaveBeenCalled();
+    });
+
+    it('shows co-facilitators a note and progress but no role controls', () => {
+      const participants = [
+        { id: 'user1', name: 'Alice', joinedAt: new Date(), isCreator: true },
+        { id: 'user2', name: 'Bob', joinedAt: new Date(), isCoFacilitator: true },
+      ];
+      render(
+        <ParticipantsSidebar
+          {...defaultProps}
+          participants={participants}
+          currentUserId="user2"
+          currentStageId="vote"
+          onTransferFacilitator={vi.fn()}
+          onSetCoFacilitator={vi.fn()}
+        />
+      );
+
+      expect(screen.getByText('You are a co-facilitator')).toBeInTheDocument();
+      expect(screen.getByText('Progress')).toBeInTheDocument();
+      expect(screen.queryByLabelText(/Make facilitator/)).not.toBeInTheDocument();
+    });
+  });
+
   describe('Progress Tracking', () => {
     it('shows progress bar during brainstorm stage for creator', () => {
       render(
@@ -3,19 +3,31 @@ import { render, screen, fireEvent } from '@testing-library/react';
 import ProcessTab from '@/components/ProcessTab';
 
 describe('ProcessTab', () => {
+  const mockSetPreviousActionsEnabled = vi.fn();
   const mockSetIcebreakerEnabled = vi.fn();
   const mockSetGroupEnabled = vi.fn();
   const mockSetVoteEnabled = vi.fn();
+  const mockSetVotingMethod = vi.fn();
+  const mockSetMaxVotesPerItem = vi.fn();
+  const mockSetBlindVoting = vi.fn();
   const mockSetDiscussEnabled = vi.fn();
   const mockSetReviewEnabled = vi.fn();
 
   const defaultProps = {
+    previousActionsEnabled: false,
+    setPreviousActionsEnabled: mockSetPreviousActionsEnabled,
     icebreakerEnabled: true,
     setIcebreakerEnabled: mockSetIcebreakerEnabled,
     groupEnabled: true,
     setGroupEnabled: mockSetGroupEnabled,
     voteEnabled: true,
     setVoteEnabled: mockSetVoteEnabled,
+    votingMethod: 'dots' as const,
+    setVotingMethod: mockSetVotingMethod,
+    maxVotesPerItem: null,
+    setMaxVotesPerItem: mockSetMaxVotesPerItem,
+    blindVoting: false,
+    setBlindVoting: mockSetBlindVoting,
     discussEnabled: true,
     setDiscussEnabled: mockSetDiscussEnabled,
     reviewEnabled: true,
@@ -30,6 +42,7 @@ describe('ProcessTab', () => {
     it('renders all phase sections', () => {
       render(<ProcessTab {...defaultProps} />);
       
+      expect(screen.getByText('Previous Actions')).toBeInTheDocument();
       expect(screen.getByText('Icebreaker')).toBeInTheDocument();
       expect(screen.getByText('Brainstorm')).toBeInTheDocument();
       expect(screen.getByText('Group')).toBeInTheDocument();
@@ -55,6 +68,14 @@ describe('ProcessTab', () => {
   });
 
   describe('Toggle Functionality', () => {
+    it('toggles previous actions phase when clicked', () => {
+      render(<ProcessTab {...defaultProps} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Enable previous actions phase' }));
+
+      expect(mockSetPreviousActionsEnabled).toHaveBeenCalledWith(true);
+    });
+
     it('toggles icebreaker phase when clicked', () => {
       render(<ProcessTab {...defaultProps} />);
       
@@ -161,6 +182,52 @@ describe('ProcessTab', () => {
     });
   });
 
+  describe('Vote Limits', () => {
+    it('sets the max votes per item', () => {
+      render(<ProcessTab {...defaultProps} />);
+
+      fireEvent.change(screen.getByLabelText('Max votes per item'), { target: { value: '2' } });
+      expect(mockSetMaxVotesPerItem).toHaveBeenCalledWith(2);
+    });
+
+    it('clears the max votes per item', () => {
+      render(<ProcessTab {...defaultProps} maxVotesPerItem={3} />);
+
+      const select = screen.getByLabelText('Max votes per item') as HTMLSelectElement;
+      expect(select.value).toBe('3');
+      fireEvent.change(select, { target: { value: '' } });
+      expect(mockSetMaxVotesPerItem).toHaveBeenCalledWith(null);
+    });
+
+    it('hides the vote settings when voting is disabled', () => {
+      render(<ProcessTab {...defaultProps} voteEnabled={false} />);
+
+      expect(screen.queryByLabelText('Max votes per item')).not.toBeInTheDocument();
+      expect(screen.queryByText('Blind voting')).not.toBeInTheDocument();
+    });
+
+    it('sets the voting method and hides the per-item cap for ranked voting', () => {
+      const { rerender } = render(<ProcessTab {...defaultProps} />);
+
+      fireEvent.change(screen.getByLabelText('Voting method'), { target: { value: 'ranked' } });
+      expect(mockSetVotingMethod).toHaveBeenCalledWith('ranked');
+
+      rerender(<ProcessTab {...defaultProps} votingMethod="ranked" />);
+      expect(screen.queryByLabelText('Max votes per item')).not.toBeInTheDocument();
+    });
+
+    it('toggles blind voting', () => {
+      const { rerender } = render(<ProcessTab {...defaultProps} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Enable blind voting' }));
+      expect(mockSetBlindVoting).toHaveBeenCalledWith(true);
+
+      rerender(<ProcessTab {...defaultProps} blindVoting={true} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Disable blind voting' }));
+      expect(mockSetBlindVoting).toHaveBeenCalledWith(false);
+    });
+  });
+
   describe('Accessibility', () => {
     it('has accessible toggle buttons with aria-labels', () => {
       render(<ProcessTab {...defaultProps} />);
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import TemplateBuilder from '@/components/TemplateBuilder';
+import { Template } from '@/types/retro';
+
+vi.mock('react-hot-toast', () => ({
+  default: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('@/services/api', () => ({
+  createTemplate: vi.fn(),
+  updateTemplate: vi.fn(),
+  deleteTemplate: vi.fn(),
+}));
+
+describe('TemplateBuilder', () => {
+  const onSaved = vi.fn();
+  const onDeleted = vi.fn();
+  const onCancel = vi.fn();
+
+  const customTemplate: Template = {
+    id: 'template-9',
+    name: 'Keep/Drop',
+    description: 'Short and sweet',
+    isDefault: false,
+    createdBy: 'user-1',
+    columns: [
+      { id: 'drop', name: 'Drop', color: '#ef4444', order: 2, placeholder: '' },
+      { id: 'keep', name: 'Keep', color: '#22c55e', order: 1, placeholder: 'What should we keep?' },
+    ],
+  };
+
+  const renderBuilder = (template?: Template) => render(
+    <TemplateBuilder template={template} onSaved={onSaved} onDeleted={onDeleted} onCancel={onCancel} />
+  );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('starts a new template with two empty columns', () => {
+    renderBuilder();
+
+    expect(screen.getByText('New Template')).toBeInTheDocument();
+    expect(screen.getByLabelText('Column 1 name')).toHaveValue('');
+    expect(screen.getByLabelText('Column 2 name')).toHaveValue('');
+    expect(screen.queryByLabelText('Column 3 name')).not.toBeInTheDocument();
+    expect(screen.getByLabelText('Remove column 1')).toBeDisabled();
+  });
+
+  it('adds, recolors and reorders columns and saves them with ids and order', async () => {
+    const api = await import('@/services/api');
+    vi.mocked(api.createTemplate).mockResolvedValue({ ...customTemplate, id: 'template-10' });
+    renderBuilder();
+
+    fireEvent.change(screen.getByLabelText('Template Name *'), { target: { value: 'Sailboat' } });
+    fireEvent.change(screen.getByLabelText('Column 1 name'), { target: { value: 'Wind' } });
+    fireEvent.change(screen.getByLabelText('Column 2 name'), { target: { value: 'Anchor' } });
+    fireEvent.click(screen.getByText('Add Column'));
+    fireEvent.change(screen.getByLabelText('Column 3 name'), { target: { value: 'Wind' } });
+    fireEvent.change(screen.getByLabelText('Column 3 color'), { target: { value: '#123456' } });
+    fireEvent.change(screen.getByLabelText('Column 3 placeholder'), { target: { value: 'More wind?' } });
+    fireEvent.click(screen.getByLabelText('Move column 3 up'));
+    fireEvent.click(screen.getByText('Save Template'));
+
+    await waitFor(() => {
+      expect(onSaved).toHaveBeenCalledWith(expect.objectContaining({ id: 'template-10' }));
+    });
+    expect(api.createTemplate).toHaveBeenCalledWith({
+      name: 'Sailboat',
+      description: '',
+      columns: [
+        { id: 'wind', name: 'Wind', color: '#10b981', order: 1, placeholder: '' },
+        { id: 'wind-2', name: 'Wind', color: '#123456', order: 2, placeholder: 'More wind?' },
+        { id: 'anchor', name: 'Anchor', color: '#ef4444', order: 3, placeholder: '' },
+      ],
+    });
+  });
+
+  it('does not save without a template name or column names', async () => {
+    const api = await import('@/services/api');
+    const toast = await import('react-hot-toast');
+    renderBuilder();
+
+    fireEvent.click(screen.getByText('Save Template'));
+    expect(toast.default.error).toHaveBeenCalledWith('Give the template a name');
+
+    fireEvent.change(screen.getByLabelText('Template Name *'), { target: { value: 'Sailboat' } });
+    fireEvent.click(screen.getByText('Save Template'));
+    expect(toast.default.error).toHaveBeenCalledWith('Every column needs a name');
+    expect(api.createTemplate).not.toHaveBeenCalled();
+  });
+
+  it('edits an existing template in column order, keeping column ids', async () => {
+    const api = await import('@/services/api');
+    vi.mocked(api.updateTemplate).mockResolvedValue(customTemplate);
+    renderBuilder(customTemplate);
+
+    expect(screen.getByText('Edit Template')).toBeInTheDocument();
+    expect(screen.getByLabelText('Column 1 name')).toHaveValue('Keep');
+
+    fireEvent.change(screen.getByLabelText('Column 2 name'), { target: { value: 'Let go' } });
+    fireEvent.click(screen.getByText('Save Template'));
+
+    await waitFor(() => {
+      expect(api.updateTemplate).toHaveBeenCalledWith('template-9', expect.objectContaining({
+        columns: [
+          expect.objectContaining({ id: 'keep', order: 1 }),
+          expect.objectContaining({ id: 'drop', name: 'Let go', order: 2 }),
+        ],
+      }));
+    });
+  });
+
+  it('deletes a template and shows server errors', async () => {
+    const api = await import('@/services/api');
+    const toast = await import('react-hot-toast');
+    vi.mocked(api.deleteTemplate).mockRejectedValueOnce({
+      response: { data: { message: 'Template is used by existing retrospectives' } },
+    });
+    renderBuilder(customTemplate);
+
+    fireEvent.click(screen.getByText('Delete Template'));
+    await waitFor(() => {
+      expect(toast.default.error).toHaveBeenCalledWith('Template is used by existing retrospectives');
+    });
+    expect(onDeleted).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('Delete Template'));
+    await waitFor(() => {
+      expect(onDeleted).toHaveBeenCalledWith('template-9');
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import CommentThread from '../../../components/retroComponents/CommentThread';
+import { Comment } from '@/types/retroBoard';
+
+function createMockWs() {
+  return {
+    send: vi.fn(),
+    readyState: WebSocket.OPEN,
+  } as unknown as WebSocket;
+}
+
+describe('CommentThread', () => {
+  let ws: WebSocket;
+
+  const sampleComments: Comment[] = [
+    {
+      id: 'comment-1',
+      itemId: 'card-1',
+      authorId: 'user-1',
+      authorName: 'Happy Panda',
+      content: 'Good point',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: null,
+      reactions: { '👍': ['user-2'] },
+    },
+    {
+      id: 'comment-2',
+      itemId: 'card-1',
+      authorId: 'user-2',
+      authorName: 'Brave Tiger',
+      content: 'We should follow up',
+      createdAt: '2024-01-01T00:01:00.000Z',
+      updatedAt: '2024-01-01T00:02:00.000Z',
+      reactions: {},
+    },
+  ];
+
+  const defaultProps = {
+    itemId: 'card-1',
+    comments: sampleComments,
+    currentUserId: 'user-1',
+    retroId: 'retro-123',
+    commentReactionsEnabled: true,
+  };
+
+  beforeEach(() => {
+    ws = createMockWs();
+  });
+
+  const getSentMessage = () => JSON.parse((ws.send as ReturnType<typeof vi.fn>).mock.calls[0][0]);
+
+  describe('Rendering', () => {
+    it('shows the comment count and hides the thread by default', () => {
+      render(<CommentThread {...defaultProps} ws={ws} />);
+
+      expect(screen.getByText('2 comments')).toBeInTheDocument();
+      expect(screen.queryByText('Good point')).not.toBeInTheDocument();
+    });
+
+    it('shows "Comment" when there are no comments', () => {
+      render(<CommentThread {...defaultProps} comments={[]} ws={ws} />);
+
+      expect(screen.getByText('Comment')).toBeInTheDocument();
+    });
+
+    it('expands the thread when toggled', () => {
+      render(<CommentThread {...defaultProps} ws={ws} />);
+
+      fireEvent.click(screen.getByTitle('Show comments'));
+
+      expect(screen.getByText('Good point')).toBeInTheDocument();
+      expect(screen.getByText('Brave Tiger')).toBeInTheDocument();
+      expect(screen.getByText('(edited)')).toBeInTheDocument();
+    });
+
+    it('opens immediately when defaultOpen is set', () => {
+      render(<CommentThread {...defaultProps} ws={ws} defaultOpen />);
+
+      expect(screen.getByText('Good point')).toBeInTheDocument();
+    });
+
+    it('hides reactions when comment reactions are disabled', () => {
+      render(<CommentThread {...defaultProps} ws={ws} defaultOpen commentReactionsEnabled={false} />);
+
+      expect(screen.queryByTitle('React with 👍')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Permissions', () => {
+    it('only lets the author edit or delete their own comments', () => {
+      render(<CommentThread {...defaultProps} ws={ws} defaultOpen />);
+
+      expect(screen.getAllByTitle('Edit comment')).toHaveLength(1);
+      expect(screen.getAllByTitle('Delete comment')).toHaveLength(1);
+    });
+
+    it('lets the room creator delete any comment', () => {
+      render(<CommentThread {...defaultProps} ws={ws} defaultOpen currentUserId="user-3" isRoomCreator />);
+
+      expect(screen.queryByTitle('Edit comment')).not.toBeInTheDocument();
+      expect(screen.getAllByTitle('Delete comment')).toHaveLength(2);
+    });
+  });
+
+  describe('WebSocket Messages', () => {
+    it('sends comment-add with the trimmed content', () => {
+      render(<CommentThread {...defaultProps} ws={ws} defaultOpen />);
+
+      fireEvent.change(screen.getByLabelText('Add a comment'), { target: { value: '  Nice  ' } });
+      fireEvent.click(screen.getByTitle('Post comment'));
+
+      expect(getSentMessage()).toEqual({
+        type: 'comment-add',
+        itemId: 'card-1',
+        content: 'Nice',
+        retroId: 'retro-123',
+      });
+    });
+
+    it('does not send empty comments', () => {
+      render(<CommentThread {...defaultProps} ws={ws} defaultOpen />);
+
+      fireEvent.change(screen.getByLabelText('Add a comment'), { target: { value: '   ' } });
+      fireEvent.keyDown(screen.getByLabelText('Add a comment'), { key: 'Enter' });
+
+      expect(ws.send).not.toHaveBeenCalled();
+    });
+
+    it('sends comment-edit when saving an edit', () => {
+      render(<CommentThread {...defaultProps} ws={ws} defaultOpen />);
+
+      fireEvent.click(screen.getByTitle('Edit comment'));
+      fireEvent.change(screen.getByLabelText('Edit comment'), { target: { value: 'Great point' } });
+      fireEvent.click(screen.getByTitle('Save comment'));
+
+      expect(getSentMessage()).toEqual({
+        type: 'comment-edit',
+        commentId: 'comment-1',
+        content: 'Great point',
+        retroId: 'retro-123',
+      });
+    });
+
+    it('sends comment-delete', () => {
+      render(<CommentThread {...defaultProps} ws={ws} defaultOpen />);
+
+      fireEvent.click(screen.getByTitle('Delete comment'));
+
+      expect(getSentMessage()).toEqual({ type: 'comment-delete', commentId: 'comment-1', retroId: 'retro-123' });
+    });
+
+    it('sends comment-reaction-toggle', () => {
+      render(<CommentThread {...defaultProps} ws={ws} defaultOpen />);
+
+      fireEvent.click(screen.getAllByTitle('React with 🎉')[0]);
+
+      expect(getSentMessage()).toEqual({
+        type: 'comment-reaction-toggle',
+        commentId: 'comment-1',
+        emoji: '🎉',
+        retroId: 'retro-123',
+      });
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import PreviousActionsStage from '@/components/retroComponents/PreviousActionsStage';
+import { ActionItem } from '@/types/retroBoard';
+
+vi.mock('react-hot-toast', () => ({
+  default: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('@/services/api', () => ({
+  getPreviousActions: vi.fn(),
+  updateAction: vi.fn(),
+}));
+
+describe('PreviousActionsStage', () => {
+  let mockWs: { send: ReturnType<typeof vi.fn>; readyState: number };
+  const mockSetActionItems = vi.fn();
+
+  const openItem: ActionItem = {
+    id: 'action-1',
+    title: 'Fix flaky tests',
+    description: 'The e2e suite fails every other run',
+    assigneeId: 'participant-9',
+    priority: 'high',
+    dueDate: '2025-03-20',
+    status: 'in_progress',
+  };
+
+  const previousRetro = { id: 'retro-1', sessionName: 'Sprint 41', createdAt: '2025-03-01T10:00:00Z' };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockWs = { send: vi.fn(), readyState: WebSocket.OPEN };
+    const api = await import('@/services/api');
+    vi.mocked(api.getPreviousActions).mockResolvedValue({ retro: previousRetro, actionItems: [openItem] });
+  });
+
+  const renderStage = (props: Partial<React.ComponentProps<typeof PreviousActionsStage>> = {}) =>
+    render(
+      <PreviousActionsStage
+        ws={mockWs as unknown as WebSocket}
+        retroId="retro-2"
+        isRoomCreator={true}
+        actionItems={[]}
+        setActionItems={mockSetActionItems}
+        {...props}
+      />
+    );
+
+  it("lists the unfinished action items of the team's previous retro", async () => {
+    const api = await import('@/services/api');
+    renderStage({ isRoomCreator: false });
+
+    await waitFor(() => {
+      expect(screen.getByText('Fix flaky tests')).toBeInTheDocument();
+    });
+    expect(api.getPreviousActions).toHaveBeenCalledWith('retro-2');
+    expect(screen.getByText('Sprint 41')).toBeInTheDocument();
+    expect(screen.getByText('In Progress')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /carry over/i })).not.toBeInTheDocument();
+  });
+
+  it('says so when there is no earlier team retro', async () => {
+    const api = await import('@/services/api');
+    vi.mocked(api.getPreviousActions).mockResolvedValue({ retro: null, actionItems: [] });
+    renderStage();
+
+    await waitFor(() => {
+      expect(screen.getByText('There is no earlier team retro to follow up on')).toBeInTheDocument();
+    });
+  });
+
+  it('carries an item over into this retro, unassigned and linked to the original', async () => {
+    renderStage();
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Carry over' })).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Carry over' }));
+
+    const sent = JSON.parse(mockWs.send.mock.calls[0][0]);
+    expect(sent).toMatchObject({
+      type: 'action-item-update',
+      action: 'action-added',
+      retroId: 'retro-2',
+      actionItem: {
+        title: 'Fix flaky tests',
+        status: 'in_progress',
+        assigneeId: '',
+        carriedOverFrom: { retroId: 'retro-1', actionItemId: 'action-1' },
+      },
+    });
+    expect(sent.actionItem.id).not.toBe('action-1');
+    expect(mockSetActionItems).toHaveBeenCalled();
+  });
+
+  it('shows items that were carried over already', async () => {
+    renderStage({
+      actionItems: [{ ...openItem, id: 'action-7', carriedOverFrom: { retroId: 'retro-1', actionItemId: 'action-1' } }],
+    });
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Carried over' })).toBeDisabled();
+    });
+  });
+
+  it('updates the status of a previous item', async () => {
+    const api = await import('@/services/api');
+    vi.mocked(api.updateAction).mockResolvedValue({ ...openItem, status: 'completed' });
+    renderStage();
+    await waitFor(() => {
+      expect(screen.getByLabelText('Status of Fix flaky tests')).toHaveValue('in_progress');
+    });
+
+    fireEvent.change(screen.getByLabelText('Status of Fix flaky tests'), { target: { value: 'completed' } });
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Status of Fix flaky tests')).toHaveValue('completed');
+    });
+    expect(api.updateAction).toHaveBeenCalledWith('retro-1', 'action-1', { status: 'completed' });
+    expect(screen.getByRole('button', { name: 'Carry over' })).toBeDisabled();
+  });
+});
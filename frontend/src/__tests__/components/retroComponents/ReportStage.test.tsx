@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import ReportStage from '@/components/retroComponents/ReportStage';
-import { Template, Card, CardGroup, VoteData, Participant, ActionItem } from '@/types/retroBoard';
+import { Template, Card, CardGroup, VoteData, Participant, ActionItem, Comment } from '@/types/retroBoard';
 import toast from 'react-hot-toast';
 
 // Mock react-hot-toast
@@ -58,6 +58,12 @@ vi.mock('jspdf', () => ({
   }),
 }));
 
+vi.mock('@/services/api', () => ({
+  exportRetro: vi.fn(),
+  getRetroReport: vi.fn(),
+  shareRetroReport: vi.fn(),
+}));
+
 // Mock the retroUtils module
 vi.mock('@/types/retroUtils', () => ({
   getTotalVotes: vi.fn((votes: VoteData) => {
@@ -94,9 +100,15 @@ vi.mock('@/types/retroUtils', () => ({
     });
     return result;
   }),
+  getVoterCount: vi.fn((votes: VoteData, itemId: string) => new Set(votes[itemId] || []).size),
+  getVoteUnit: vi.fn((votingMethod: string = 'dots') => (votingMethod === 'dots' ? 'votes' : 'points')),
+  getVotingMethodLabel: vi.fn((votingMethod: string) => (votingMethod === 'ranked' ? 'Ranked choice (Borda count)' : 'Points allocation')),
   getColumnInfo: vi.fn((template: Template, columnId: string) => {
     return template?.columns.find(c => c.id === columnId);
   }),
+  getItemComments: vi.fn((comments: Comment[], itemId: string, cardIds: string[] = []) => {
+    return comments.filter(c => c.itemId === itemId || cardIds.includes(c.itemId));
+  }),
   getAssigneeName: vi.fn((participants: Participant[], assigneeId: string) => {
     const p = participants.find(p => p.id === assigneeId);
     return p ? p.name : 'Unassigned';
@@ -298,6 +310,17 @@ describe('ReportStage', () => {
       expect(screen.getByText('Top Voted Items')).toBeInTheDocument();
     });
 
+    it('labels tallies as points for other voting methods', () => {
+      const { rerender } = render(<ReportStage {...defaultProps} />);
+      expect(screen.queryByText('Ranked choice (Borda count)')).not.toBeInTheDocument();
+
+      rerender(<ReportStage {...defaultProps} votingMethod="ranked" />);
+      expect(screen.getByText('Ranked choice (Borda count)')).toBeInTheDocument();
+      expect(screen.getByText('Points')).toBeInTheDocument();
+      expect(screen.getByText('3 points')).toBeInTheDocument();
+      expect(screen.getByText('from 3 people')).toBeInTheDocument();
+    });
+
     it('displays top voted items sorted by votes', () => {
       render(<ReportStage {...defaultProps} />);
 
@@ -398,6 +421,25 @@ describe('ReportStage', () => {
       const cardElements = screen.getAllByText('Missed deadline');
       expect(cardElements.length).toBeGreaterThan(0);
     });
+
+    it('displays comments under their cards', () => {
+      const comments: Comment[] = [
+        {
+          id: 'comment1',
+          itemId: 'card2',
+          authorId: 'user3',
+          authorName: 'Charlie',
+          content: 'Scope grew mid-sprint',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: null,
+          reactions: {},
+        },
+      ];
+      render(<ReportStage {...defaultProps} comments={comments} />);
+
+      expect(screen.getByText('Scope grew mid-sprint')).toBeInTheDocument();
+      expect(screen.getByText('Charlie:')).toBeInTheDocument();
+    });
   });
 
   describe('Participants Section', () => {
@@ -424,6 +466,14 @@ describe('ReportStage', () => {
 
       expect(screen.getByText(/Facilitator/)).toBeInTheDocument();
     });
+
+    it('marks anonymous sessions', () => {
+      const { rerender } = render(<ReportStage {...defaultProps} />);
+      expect(screen.queryByText('Anonymous feedback')).not.toBeInTheDocument();
+
+      rerender(<ReportStage {...defaultProps} isAnonymous />);
+      expect(screen.getByText('Anonymous feedback')).toBeInTheDocument();
+    });
   });
 
   describe('PDF Download', () => {
@@ -461,6 +511,29 @@ describe('ReportStage', () => {
       });
     });
 
+    it('includes comments in the generated PDF', async () => {
+      const comments: Comment[] = [
+        {
+          id: 'comment1',
+          itemId: 'card1',
+          authorId: 'user2',
+          authorName: 'Bob',
+          content: 'Mostly from the payments module',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: null,
+          reactions: {},
+        },
+      ];
+      render(<ReportStage {...defaultProps} comments={comments} />);
+
+      fireEvent.click(screen.getByRole('button', { name: /download pdf/i }));
+
+      await waitFor(() => {
+        expect(mockSave).toHaveBeenCalled();
+      });
+      expect(mockText).toHaveBeenCalledWith('Bob: Mostly from the payments module', expect.any(Number), expect.any(Number));
+    });
+
     it('has disabled state class', () => {
       render(<ReportStage {...defaultProps} />);
 
@@ -469,6 +542,86 @@ describe('ReportStage', () => {
     });
   });
 
+  describe('Server Downloads', () => {
+    it('downloads the results exported by the server', async () => {
+      const api = await import('@/services/api');
+      const file = new Blob(['Cards']);
+      vi.mocked(api.exportRetro).mockResolvedValue(file);
+      const createObjectURL = vi.fn(() => 'blob:export');
+      const revokeObjectURL = vi.fn();
+      Object.assign(URL, { createObjectURL, revokeObjectURL });
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+      render(<ReportStage {...defaultProps} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Download Excel' }));
+
+      await waitFor(() => {
+        expect(click).toHaveBeenCalled();
+      });
+      expect(api.exportRetro).toHaveBeenCalledWith(defaultProps.retroId, 'xlsx');
+      expect(createObjectURL).toHaveBeenCalledWith(file);
+      expect((click.mock.contexts[0] as HTMLAnchorElement).download).toBe('sprint-42-retrospective.xlsx');
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:export');
+      click.mockRestore();
+    });
+
+    it('downloads the Markdown report rendered by the server', async () => {
+      const api = await import('@/services/api');
+      vi.mocked(api.getRetroReport).mockResolvedValue(new Blob(['# Sprint 42']));
+      Object.assign(URL, { createObjectURL: vi.fn(() => 'blob:report'), revokeObjectURL: vi.fn() });
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+      render(<ReportStage {...defaultProps} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Download Markdown' }));
+
+      await waitFor(() => {
+        expect(click).toHaveBeenCalled();
+      });
+      expect(api.getRetroReport).toHaveBeenCalledWith(defaultProps.retroId, 'md');
+      expect((click.mock.contexts[0] as HTMLAnchorElement).download).toBe('sprint-42-retrospective-report.md');
+      click.mockRestore();
+    });
+
+    it('shows an error when the export fails', async () => {
+      const api = await import('@/services/api');
+      vi.mocked(api.exportRetro).mockRejectedValue(new Error('Network error'));
+      render(<ReportStage {...defaultProps} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Download CSV' }));
+
+      await waitFor(() => {
+        expect(toast.error).toHaveBeenCalledWith('Failed to export CSV file');
+      });
+      expect(screen.getByRole('button', { name: 'Download CSV' })).not.toBeDisabled();
+    });
+  });
+
+  describe('Report Sharing', () => {
+    it('only offers facilitators to share the report', () => {
+      const { rerender } = render(<ReportStage {...defaultProps} />);
+      expect(screen.queryByRole('button', { name: 'Share report' })).not.toBeInTheDocument();
+
+      rerender(<ReportStage {...defaultProps} isRoomCreator />);
+      expect(screen.getByRole('button', { name: 'Share report' })).toBeInTheDocument();
+    });
+
+    it('copies the read-only report link', async () => {
+      const api = await import('@/services/api');
+      vi.mocked(api.shareRetroReport).mockResolvedValue('https://retro.example.com/api/reports/abc');
+      const writeText = vi.fn().mockResolvedValue(undefined);
+      Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+      render(<ReportStage {...defaultProps} isRoomCreator />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Share report' }));
+
+      await waitFor(() => {
+        expect(toast.success).toHaveBeenCalledWith('Report link copied to clipboard!');
+      });
+      expect(api.shareRetroReport).toHaveBeenCalledWith(defaultProps.retroId);
+      expect(writeText).toHaveBeenCalledWith('https://retro.example.com/api/reports/abc');
+    });
+  });
+
   describe('Edge Cases', () => {
     it('handles empty retro context', () => {
       render(<ReportStage {...defaultProps} retroContext="" />);
@@ -1,5 +1,5 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import ReviewStage from '@/components/retroComponents/ReviewStage';
 import { Template, Card, CardGroup, VoteData, Participant, ActionItem } from '@/types/retroBoard';
 
@@ -43,7 +43,16 @@ vi.mock('@/types/retroUtils', () => ({
   getParticipantStats: vi.fn(() => []),
 }));
 
+vi.mock('@/services/api', () => ({
+  getActionsCalendar: vi.fn(),
+  getIssueTracker: vi.fn(),
+  pushActionToTracker: vi.fn(),
+  syncActionFromTracker: vi.fn(),
+}));
+
 import toast from 'react-hot-toast';
+import { getParticipantStats } from '@/types/retroUtils';
+import { getActionsCalendar, getIssueTracker, pushActionToTracker, syncActionFromTracker } from '@/services/api';
 
 describe('ReviewStage', () => {
   // Mock WebSocket
@@ -121,6 +130,7 @@ describe('ReviewStage', () => {
       readyState: WebSocket.OPEN,
     };
     mockSetActionItems = vi.fn() as unknown as React.Dispatch<React.SetStateAction<ActionItem[]>>;
+    vi.mocked(getIssueTracker).mockResolvedValue(null);
   });
 
   describe('Rendering', () => {
@@ -454,6 +464,17 @@ describe('ReviewStage', () => {
       expect(screen.getAllByText('Alice').length).toBeGreaterThan(0);
       expect(screen.getAllByText('Bob').length).toBeGreaterThan(0);
     });
+
+    it('hides per-participant card and vote counts in anonymous sessions', () => {
+      vi.mocked(getParticipantStats).mockReturnValue({ cardsCreated: 17, votesGiven: 19, actionsAssigned: 13 });
+
+      render(<ReviewStage {...defaultProps} isAnonymous />);
+
+      expect(screen.getByText(/anonymous session/)).toBeInTheDocument();
+      expect(screen.queryByText('17')).not.toBeInTheDocument();
+      expect(screen.queryByText('19')).not.toBeInTheDocument();
+      expect(screen.getAllByText('13').length).toBeGreaterThan(0);
+    });
   });
 
   describe('Edge Cases', () => {
@@ -553,4 +574,111 @@ describe('ReviewStage', () => {
       expect(screen.getByText('Completed task')).toBeInTheDocument();
     });
   });
+  describe('Issue Tracker', () => {
+    const pushedItem: ActionItem = {
+      ...sampleActionItems[0],
+      externalIssue: { tracker: 'Jira', key: 'OPS-1', url: 'https://jira.example.com/browse/OPS-1' },
+    };
+
+    // Pushing takes a logged-in facilitator
+    beforeEach(() => {
+      localStorage.setItem('authToken', 'jwt-token');
+    });
+
+    afterEach(() => {
+      localStorage.removeItem('authToken');
+    });
+
+    it('offers tracker buttons only to a logged-in facilitator', async () => {
+      vi.mocked(getIssueTracker).mockResolvedValue('Jira');
+      const { unmount } = render(<ReviewStage {...defaultProps} isRoomCreator={false} />);
+      expect(getIssueTracker).not.toHaveBeenCalled();
+      unmount();
+
+      localStorage.removeItem('authToken');
+      render(<ReviewStage {...defaultProps} />);
+      expect(getIssueTracker).not.toHaveBeenCalled();
+      expect(screen.queryByText('Push to Jira')).not.toBeInTheDocument();
+    });
+
+    it('offers no push button when no tracker is configured', async () => {
+      render(<ReviewStage {...defaultProps} />);
+
+      await waitFor(() => expect(getIssueTracker).toHaveBeenCalled());
+      expect(screen.queryByText(/Push to/)).not.toBeInTheDocument();
+    });
+
+    it('pushes an action item and stores the returned issue', async () => {
+      vi.mocked(getIssueTracker).mockResolvedValue('Jira');
+      vi.mocked(pushActionToTracker).mockResolvedValue(pushedItem);
+      render(<ReviewStage {...defaultProps} setActionItems={mockSetActionItems} />);
+
+      fireEvent.click((await screen.findAllByText('Push to Jira'))[0]);
+
+      await waitFor(() => expect(toast.success).toHaveBeenCalledWith('Created OPS-1 in Jira'));
+      expect(pushActionToTracker).toHaveBeenCalledWith('retro123', 'action1');
+      const updater = vi.mocked(mockSetActionItems).mock.calls[0][0] as (prev: ActionItem[]) => ActionItem[];
+      expect(updater(sampleActionItems)[0]).toEqual(pushedItem);
+    });
+
+    it('shows the error from the server when pushing fails', async () => {
+      vi.mocked(getIssueTracker).mockResolvedValue('Jira');
+      vi.mocked(pushActionToTracker).mockRejectedValue({ response: { data: { message: 'The issue tracker responded with 401' } } });
+      render(<ReviewStage {...defaultProps} />);
+
+      fireEvent.click((await screen.findAllByText('Push to Jira'))[0]);
+
+      await waitFor(() => expect(toast.error).toHaveBeenCalledWith('The issue tracker responded with 401'));
+    });
+
+    it('shows the issue key of pushed items and syncs their status', async () => {
+      vi.mocked(getIssueTracker).mockResolvedValue('Jira');
+      vi.mocked(syncActionFromTracker).mockResolvedValue({ ...pushedItem, status: 'completed' });
+      render(<ReviewStage {...defaultProps} actionItems={[pushedItem]} />);
+
+      expect(screen.getByRole('link', { name: 'OPS-1' })).toHaveAttribute('href', 'https://jira.example.com/browse/OPS-1');
+      fireEvent.click(await screen.findByTitle('Sync status from Jira'));
+
+      await waitFor(() => expect(syncActionFromTracker).toHaveBeenCalledWith('retro123', 'action1'));
+      expect(screen.queryByText('Push to Jira')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Due Date Calendar', () => {
+    it('offers no calendar download outside a team', () => {
+      render(<ReviewStage {...defaultProps} />);
+
+      expect(screen.queryByRole('button', { name: 'Due dates' })).not.toBeInTheDocument();
+    });
+
+    it('downloads the team calendar of action item due dates', async () => {
+      const file = new Blob(['BEGIN:VCALENDAR']);
+      vi.mocked(getActionsCalendar).mockResolvedValue(file);
+      const createObjectURL = vi.fn(() => 'blob:actions');
+      const revokeObjectURL = vi.fn();
+      Object.assign(URL, { createObjectURL, revokeObjectURL });
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+      render(<ReviewStage {...defaultProps} teamId="team-1" />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Due dates' }));
+
+      await waitFor(() => {
+        expect(click).toHaveBeenCalled();
+      });
+      expect(getActionsCalendar).toHaveBeenCalledWith('team-1');
+      expect(createObjectURL).toHaveBeenCalledWith(file);
+      expect((click.mock.contexts[0] as HTMLAnchorElement).download).toBe('actions.ics');
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:actions');
+      click.mockRestore();
+    });
+
+    it('shows the error from the server when the download fails', async () => {
+      vi.mocked(getActionsCalendar).mockRejectedValue({ response: { data: { message: 'Team not found' } } });
+      render(<ReviewStage {...defaultProps} teamId="team-1" />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Due dates' }));
+
+      await waitFor(() => expect(toast.error).toHaveBeenCalledWith('Team not found'));
+    });
+  });
 });
@@ -206,6 +206,121 @@ describe('VoteStage', () => {
     });
   });
 
+  describe('Per-item Cap', () => {
+    it('disables voting on an item that reached the cap', () => {
+      const votes: VoteData = {
+        card1: ['user1', 'user1'],
+      };
+
+      render(<VoteStage {...defaultProps} votes={votes} maxVotesPerItem={2} />);
+
+      const voteButtons = screen.getAllByTitle('Add vote');
+      expect(voteButtons[0]).toBeDisabled();
+      expect(voteButtons[1]).not.toBeDisabled();
+      expect(screen.getByText('Up to 2 votes per item')).toBeInTheDocument();
+    });
+
+    it('does not show the cap when there is none', () => {
+      render(<VoteStage {...defaultProps} />);
+
+      expect(screen.queryByText(/per item/)).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Points Voting', () => {
+    it('sets the points for an item', () => {
+      render(<VoteStage {...defaultProps} votingMethod="points" votingLimit={10} />);
+
+      expect(screen.getByText('Distribute 10 Points')).toBeInTheDocument();
+      fireEvent.change(screen.getAllByLabelText('Points')[0], { target: { value: '4' } });
+
+      expect(mockSetVotes).toHaveBeenCalled();
+      expect(mockWs.send).toHaveBeenCalledWith(
+        JSON.stringify({ type: 'points-set', retroId: 'retro123', itemId: 'card1', points: 4 })
+      );
+    });
+
+    it('does not spend more points than are left', () => {
+      const votes: VoteData = {
+        card2: Array(9).fill('user1'),
+      };
+
+      render(<VoteStage {...defaultProps} votingMethod="points" votingLimit={10} votes={votes} />);
+      fireEvent.change(screen.getAllByLabelText('Points')[1], { target: { value: '2' } });
+
+      expect(mockWs.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Ranked Voting', () => {
+    it('adds items to the ranking', () => {
+      render(<VoteStage {...defaultProps} votingMethod="ranked" votingLimit={3} />);
+
+      expect(screen.getByText('Rank Your Top 3')).toBeInTheDocument();
+      fireEvent.click(screen.getAllByTitle('Add to ranking')[1]);
+
+      expect(mockWs.send).toHaveBeenCalledWith(
+        JSON.stringify({ type: 'ranking-set', retroId: 'retro123', ranking: ['card2'] })
+      );
+    });
+
+    it('shows and reorders our ranking', () => {
+      // Borda points: card3 ranked first, card1 second
+      const votes: VoteData = {
+        card3: ['user1', 'user1', 'user1'],
+        card1: ['user1', 'user1', 'user2'],
+      };
+
+      render(<VoteStage {...defaultProps} votingMethod="ranked" votingLimit={3} votes={votes} />);
+
+      expect(screen.getByText('Your Ranking')).toBeInTheDocument();
+      expect(screen.getByText('1')).toBeInTheDocument(); // one rank left
+      fireEvent.click(screen.getAllByTitle('Move up')[1]);
+
+      expect(mockWs.send).toHaveBeenCalledWith(
+        JSON.stringify({ type: 'ranking-set', retroId: 'retro123', ranking: ['card1', 'card3'] })
+      );
+    });
+  });
+
+  describe('Blind Voting', () => {
+    const votes: VoteData = {
+      card2: ['user1'],
+    };
+
+    it('hides tallies until the votes are revealed', () => {
+      render(<VoteStage {...defaultProps} votes={votes} isBlind={true} />);
+
+      expect(screen.getByText(/Blind voting: vote counts stay hidden/)).toBeInTheDocument();
+      expect(screen.queryByText('Top Voted')).not.toBeInTheDocument();
+      expect(screen.queryByText('(1 votes)')).not.toBeInTheDocument();
+      expect(screen.queryByText('Reveal votes')).not.toBeInTheDocument();
+    });
+
+    it('lets the facilitator see progress and reveal the votes', () => {
+      render(
+        <VoteStage
+          {...defaultProps}
+          votes={votes}
+          isBlind={true}
+          isRoomCreator={true}
+          voteProgress={{ finishedCount: 2, participantCount: 5 }}
+        />
+      );
+
+      expect(screen.getByText('2 of 5 finished')).toBeInTheDocument();
+      fireEvent.click(screen.getByText('Reveal votes'));
+      expect(mockWs.send).toHaveBeenCalledWith(JSON.stringify({ type: 'votes-reveal', retroId: 'retro123' }));
+    });
+
+    it('shows tallies once revealed', () => {
+      render(<VoteStage {...defaultProps} votes={votes} isBlind={true} votesRevealed={true} />);
+
+      expect(screen.queryByText(/Blind voting/)).not.toBeInTheDocument();
+      expect(screen.getByText('Top Voted')).toBeInTheDocument();
+    });
+  });
+
   describe('Unvoting', () => {
     it('shows remove vote button only when user has voted', () => {
       const votes: VoteData = {
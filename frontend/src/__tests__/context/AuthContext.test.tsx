@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { ReactNode } from 'react';
+import { AuthProvider, useAuth } from '@/context/AuthContext';
+
+vi.mock('@/services/api', () => ({
+  login: vi.fn(),
+  register: vi.fn(),
+  getCurrentUser: vi.fn(),
+}));
+
+const mockUser = { id: 'user-1', name: 'Ada', email: 'ada@example.com', role: 'member' as const, createdAt: new Date() };
+
+describe('AuthContext', () => {
+  const wrapper = ({ children }: { children: ReactNode }) => <AuthProvider>{children}</AuthProvider>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('starts logged out without a stored token', async () => {
+    const api = await import('@/services/api');
+    const { result } = renderHook(() => useAuth(), { wrapper });
+
+    expect(result.current.user).toBeNull();
+    expect(result.current.isLoading).toBe(false);
+    expect(api.getCurrentUser).not.toHaveBeenCalled();
+  });
+
+  it('restores the user from a stored token', async () => {
+    const api = await import('@/services/api');
+    vi.mocked(api.getCurrentUser).mockResolvedValue({ ...mockUser, teams: [] });
+    localStorage.setItem('authToken', 'jwt-token');
+
+    const { result } = renderHook(() => useAuth(), { wrapper });
+
+    expect(result.current.isLoading).toBe(true);
+    await waitFor(() => {
+      expect(result.current.user).toEqual(mockUser);
+    });
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it('drops a stored token the server rejects', async () => {
+    const api = await import('@/services/api');
+    vi.mocked(api.getCurrentUser).mockRejectedValue(new Error('Unauthorized'));
+    localStorage.setItem('authToken', 'expired-token');
+
+    const { result } = renderHook(() => useAuth(), { wrapper });
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+    expect(result.current.user).toBeNull();
+    expect(localStorage.getItem('authToken')).toBeNull();
+  });
+
+  it('stores the token on login and clears it on logout', async () => {
+    const api = await import('@/services/api');
+    vi.mocked(api.login).mockResolvedValue({ token: 'jwt-token', user: mockUser });
+    const { result } = renderHook(() => useAuth(), { wrapper });
+
+    await act(async () => {
+      await result.current.login({ email: 'ada@example.com', password: 'password1' });
+    });
+
+    expect(result.current.user).toEqual(mockUser);
+    expect(localStorage.getItem('authToken')).toBe('jwt-token');
+
+    act(() => {
+      result.current.logout();
+    });
+
+    expect(result.current.user).toBeNull();
+    expect(localStorage.getItem('authToken')).toBeNull();
+  });
+
+  it('logs in after registering', async () => {
+    const api = await import('@/services/api');
+    vi.mocked(api.register).mockResolvedValue({ token: 'jwt-token', user: mockUser });
+    const { result } = renderHook(() => useAuth(), { wrapper });
+
+    await act(async () => {
+      await result.current.register({ name: 'Ada', email: 'ada@example.com', password: 'password1' });
+    });
+
+    expect(result.current.user).toEqual(mockUser);
+    expect(localStorage.getItem('authToken')).toBe('jwt-token');
+  });
+
+  it('throws when used outside an AuthProvider', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => renderHook(() => useAuth())).toThrow('useAuth must be used within an AuthProvider');
+
+    consoleSpy.mockRestore();
+  });
+});
@@ -501,6 +501,25 @@ describe('useRetroWebSocket', () => {
       });
     });
 
+    it('handles retro-status message', async () => {
+      const { result } = renderHook(() =>
+        useRetroWebSocket({ retroId: 'retro-123', enabledStages })
+      );
+      expect(result.current.retroStatus).toBeNull();
+
+      await waitFor(() => {
+        expect(mockWebSocketInstance).not.toBeNull();
+      });
+
+      act(() => {
+        mockWebSocketInstance?.simulateMessage({ type: 'retro-status', status: 'completed' });
+      });
+
+      await waitFor(() => {
+        expect(result.current.retroStatus).toBe('completed');
+      });
+    });
+
     it('handles stage-done-update message', async () => {
       const { result } = renderHook(() =>
         useRetroWebSocket({ retroId: 'retro-123', enabledStages })
@@ -543,6 +562,56 @@ describe('useRetroWebSocket', () => {
       });
     });
 
+    it('handles comment-added, comment-updated and comment-deleted messages', async () => {
+      const { result } = renderHook(() =>
+        useRetroWebSocket({ retroId: 'retro-123', enabledStages })
+      );
+
+      await waitFor(() => {
+        expect(mockWebSocketInstance).not.toBeNull();
+      });
+
+      const comment = {
+        id: 'comment-1',
+        itemId: 'card-1',
+        authorId: 'user-1',
+        authorName: 'Happy Panda',
+        content: 'Agreed',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: null,
+        reactions: {},
+      };
+
+      act(() => {
+        mockWebSocketInstance?.simulateMessage({ type: 'comment-added', comment });
+        // Duplicate deliveries are ignored
+        mockWebSocketInstance?.simulateMessage({ type: 'comment-added', comment });
+      });
+
+      await waitFor(() => {
+        expect(result.current.comments).toHaveLength(1);
+      });
+
+      act(() => {
+        mockWebSocketInstance?.simulateMessage({
+          type: 'comment-updated',
+          comment: { ...comment, content: 'Strongly agreed', updatedAt: '2024-01-01T00:01:00.000Z' },
+        });
+      });
+
+      await waitFor(() => {
+        expect(result.current.comments[0].content).toBe('Strongly agreed');
+      });
+
+      act(() => {
+        mockWebSocketInstance?.simulateMessage({ type: 'comment-deleted', commentId: 'comment-1', itemId: 'card-1' });
+      });
+
+      await waitFor(() => {
+        expect(result.current.comments).toHaveLength(0);
+      });
+    });
+
     it('handles action-item-update (add) message', async () => {
       const { result } = renderHook(() =>
         useRetroWebSocket({ retroId: 'retro-123', enabledStages })
@@ -728,6 +797,27 @@ describe('useRetroWebSocket', () => {
       });
     });
 
+    it('handles co-facilitator-assigned message', async () => {
+      renderHook(() =>
+        useRetroWebSocket({ retroId: 'retro-123', enabledStages })
+      );
+
+      await waitFor(() => {
+        expect(mockWebSocketInstance).not.toBeNull();
+      });
+
+      act(() => {
+        mockWebSocketInstance?.simulateMessage({
+          type: 'co-facilitator-assigned',
+          isCoFacilitator: true,
+        });
+      });
+
+      await waitFor(() => {
+        expect(toast.success).toHaveBeenCalledWith('You are now a co-facilitator');
+      });
+    });
+
     it('handles user-joined with reconnection', async () => {
       renderHook(() =>
         useRetroWebSocket({ retroId: 'retro-123', enabledStages })
@@ -852,9 +942,159 @@ describe('useRetroWebSocket', () => {
         expect(toast).toHaveBeenCalled();
       });
     });
+
+    it('handles vote-budget message and reconciles our votes', async () => {
+      const { result } = renderHook(() =>
+        useRetroWebSocket({ retroId: 'retro-123', enabledStages })
+      );
+
+      await waitFor(() => {
+        expect(mockWebSocketInstance).not.toBeNull();
+      });
+
+      // An optimistic vote the server rejected, next to someone else's vote
+      act(() => {
+        result.current.setVotes({ 'card-1': ['user-1', 'user-2', 'user-1'] });
+      });
+
+      act(() => {
+        mockWebSocketInstance?.simulateMessage({
+          type: 'vote-budget',
+          userId: 'user-1',
+          votingLimit: 5,
+          maxVotesPerItem: 1,
+          votesRemaining: 4,
+          votesByItem: { 'card-1': 1 },
+        });
+      });
+
+      await waitFor(() => {
+        expect(result.current.voteBudget?.votesRemaining).toBe(4);
+        expect(result.current.votes['card-1']).toEqual(['user-2', 'user-1']);
+      });
+    });
+
+    it('handles vote-progress and votes-revealed messages', async () => {
+      const { result } = renderHook(() =>
+        useRetroWebSocket({ retroId: 'retro-123', enabledStages })
+      );
+
+      await waitFor(() => {
+        expect(mockWebSocketInstance).not.toBeNull();
+      });
+
+      act(() => {
+        mockWebSocketInstance?.simulateMessage({ type: 'vote-progress', finishedCount: 1, participantCount: 3 });
+      });
+
+      await waitFor(() => {
+        expect(result.current.voteProgress).toEqual({ finishedCount: 1, participantCount: 3 });
+        expect(result.current.votesRevealed).toBe(false);
+      });
+
+      act(() => {
+        mockWebSocketInstance?.simulateMessage({
+          type: 'votes-revealed',
+          votes: { 'card-1': ['user-1', 'user-2'] },
+        });
+      });
+
+      await waitFor(() => {
+        expect(result.current.votesRevealed).toBe(true);
+        expect(result.current.votes).toEqual({ 'card-1': ['user-1', 'user-2'] });
+      });
+    });
+
+    it('handles votes-updated message', async () => {
+      const { result } = renderHook(() =>
+        useRetroWebSocket({ retroId: 'retro-123', enabledStages })
+      );
+
+      await waitFor(() => {
+        expect(mockWebSocketInstance).not.toBeNull();
+      });
+
+      act(() => {
+        mockWebSocketInstance?.simulateMessage({
+          type: 'votes-updated',
+          votes: { 'card-1': ['user-2', 'user-2', 'user-2'] },
+        });
+      });
+
+      await waitFor(() => {
+        expect(result.current.votes).toEqual({ 'card-1': ['user-2', 'user-2', 'user-2'] });
+      });
+    });
+
+    it('follows the server stage timer and drops it on stage change', async () => {
+      const timer = {
+        stageIndex: 0,
+        duration: 300,
+        isRunning: true,
+        deadline: '2099-01-01T10:05:00.000Z',
+        remaining: 240,
+        onExpire: 'none',
+      };
+      const { result } = renderHook(() =>
+        useRetroWebSocket({ retroId: 'retro-123', enabledStages })
+      );
+
+      await waitFor(() => {
+        expect(mockWebSocketInstance).not.toBeNull();
+      });
+
+      act(() => {
+        mockWebSocketInstance?.simulateMessage({ type: 'user-joined', userId: 'user-1', currentState: { timer } });
+      });
+      await waitFor(() => {
+        expect(result.current.stageTimer).toEqual(timer);
+      });
+
+      act(() => {
+        mockWebSocketInstance?.simulateMessage({
+          type: 'timer-update',
+          timer: { ...timer, isRunning: false, deadline: null, remaining: 0 },
+          expired: true,
+        });
+      });
+      await waitFor(() => {
+        expect(result.current.stageTimer?.remaining).toBe(0);
+      });
+      expect(toast.success).toHaveBeenCalledWith('Time is up for this stage!');
+
+      act(() => {
+        mockWebSocketInstance?.simulateMessage({ type: 'stage-change', stageIndex: 1 });
+      });
+      await waitFor(() => {
+        expect(result.current.stageTimer).toBeNull();
+      });
+    });
   });
 
   describe('WebSocket Error Handling', () => {
+    it('shows a toast when the server rejects a message', async () => {
+      renderHook(() =>
+        useRetroWebSocket({ retroId: 'retro-123', enabledStages })
+      );
+
+      await waitFor(() => {
+        expect(mockWebSocketInstance).not.toBeNull();
+      });
+
+      act(() => {
+        mockWebSocketInstance?.simulateMessage({
+          type: 'error',
+          code: 'forbidden',
+          message: 'You can only edit your own cards',
+          requestType: 'card-update',
+        });
+      });
+
+      await waitFor(() => {
+        expect(toast.error).toHaveBeenCalledWith('You can only edit your own cards');
+      });
+    });
+
     it('handles WebSocket errors', async () => {
       renderHook(() =>
         useRetroWebSocket({ retroId: 'retro-123', enabledStages })
@@ -930,6 +1170,86 @@ describe('useRetroWebSocket', () => {
 
       sessionStorage.removeItem('retro_userId_retro-123');
     });
+
+    it('stores the resume token and sends it back when reconnecting', async () => {
+      const { unmount } = renderHook(() =>
+        useRetroWebSocket({ retroId: 'retro-123', enabledStages })
+      );
+
+      await waitFor(() => {
+        expect(mockWebSocketInstance).not.toBeNull();
+      });
+
+      act(() => {
+        mockWebSocketInstance?.simulateMessage({
+          type: 'user-joined',
+          userId: 'user-123',
+          userName: 'John',
+          resumeToken: 'resume-secret'
+        });
+      });
+      unmount();
+      mockWebSocketInstance = null;
+
+      renderHook(() =>
+        useRetroWebSocket({ retroId: 'retro-123', enabledStages })
+      );
+
+      await waitFor(() => {
+        expect(mockWebSocketInstance).not.toBeNull();
+        expect(mockWebSocketInstance?.url).toContain('userId=user-123&resumeToken=resume-secret');
+      });
+
+      sessionStorage.removeItem('retro_userId_retro-123');
+      sessionStorage.removeItem('retro_resumeToken_retro-123');
+    });
+
+    it('sends the stored facilitator token when connecting', async () => {
+      localStorage.setItem('retro_facilitatorToken_retro-123', 'secret-token');
+
+      renderHook(() =>
+        useRetroWebSocket({ retroId: 'retro-123', enabledStages })
+      );
+
+      await waitFor(() => {
+        expect(mockWebSocketInstance).not.toBeNull();
+        expect(mockWebSocketInstance?.url).toContain('facilitatorToken=secret-token');
+      });
+
+      localStorage.removeItem('retro_facilitatorToken_retro-123');
+    });
+
+    it('sends the login token when connecting', async () => {
+      localStorage.setItem('authToken', 'jwt-token');
+
+      renderHook(() =>
+        useRetroWebSocket({ retroId: 'retro-123', enabledStages })
+      );
+
+      await waitFor(() => {
+        expect(mockWebSocketInstance).not.toBeNull();
+        expect(mockWebSocketInstance?.url).toContain('authToken=jwt-token');
+      });
+
+      localStorage.removeItem('authToken');
+    });
+
+    it('stores a regenerated facilitator token', async () => {
+      renderHook(() =>
+        useRetroWebSocket({ retroId: 'retro-123', enabledStages })
+      );
+
+      await waitFor(() => {
+        expect(mockWebSocketInstance).not.toBeNull();
+      });
+
+      act(() => {
+        mockWebSocketInstance?.simulateMessage({ type: 'facilitator-token', token: 'new-token' });
+      });
+
+      expect(localStorage.getItem('retro_facilitatorToken_retro-123')).toBe('new-token');
+      localStorage.removeItem('retro_facilitatorToken_retro-123');
+    });
   });
 
 });
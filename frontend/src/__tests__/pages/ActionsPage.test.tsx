@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import ActionsPage from '../../pages/ActionsPage';
+
+let mockAuth: { user: { id: string; name: string } | null; isLoading: boolean };
+vi.mock('@/context/AuthContext', () => ({
+  useAuth: () => mockAuth,
+}));
+
+vi.mock('@/services/api', () => ({
+  getActions: vi.fn(),
+  getTeams: vi.fn(),
+  updateAction: vi.fn(),
+}));
+
+vi.mock('react-hot-toast', () => ({
+  default: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('@/components/Header', () => ({
+  default: () => <div data-testid="header">Header</div>,
+}));
+
+const trackedItem = {
+  id: 'action-1',
+  title: 'Fix flaky tests',
+  description: 'The e2e suite fails every other run',
+  assigneeId: '',
+  priority: 'high' as const,
+  dueDate: '2025-03-20',
+  status: 'pending' as const,
+  retroId: 'retro-1',
+  retroName: 'Sprint 41',
+  retroCreatedAt: '2025-03-04T10:00:00Z',
+};
+
+describe('ActionsPage', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockAuth = { user: { id: 'user-1', name: 'Ada' }, isLoading: false };
+    const api = await import('@/services/api');
+    vi.mocked(api.getTeams).mockResolvedValue([
+      { id: 'team-1', name: 'Platform', createdBy: 'user-1', createdAt: new Date(), members: [] },
+      { id: 'team-2', name: 'Mobile', createdBy: 'user-1', createdAt: new Date(), members: [] },
+    ]);
+    vi.mocked(api.getActions).mockResolvedValue([trackedItem]);
+  });
+
+  const renderPage = () =>
+    render(
+      <MemoryRouter initialEntries={['/actions']}>
+        <Routes>
+          <Route path="/actions" element={<ActionsPage />} />
+          <Route path="/login" element={<div data-testid="login-page" />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+  it('redirects to the login page when logged out', () => {
+    mockAuth = { user: null, isLoading: false };
+    renderPage();
+
+    expect(screen.getByTestId('login-page')).toBeInTheDocument();
+  });
+
+  it("lists the first team's open action items with the retro they came from", async () => {
+    const api = await import('@/services/api');
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('Fix flaky tests')).toBeInTheDocument();
+    });
+    expect(api.getActions).toHaveBeenCalledWith('team-1', 'open');
+    expect(screen.getByRole('link', { name: 'Sprint 41' })).toHaveAttribute('href', '/retro/retro-1/join');
+    expect(screen.getByText('Mar 4, 2025')).toBeInTheDocument();
+    expect(screen.getByText('Mar 20, 2025')).toBeInTheDocument();
+  });
+
+  it('filters by team and status', async () => {
+    const api = await import('@/services/api');
+    renderPage();
+    await waitFor(() => {
+      expect(screen.getByRole('option', { name: 'Mobile' })).toBeInTheDocument();
+    });
+
+    fireEvent.change(screen.getByLabelText('Team'), { target: { value: 'team-2' } });
+    fireEvent.change(screen.getByLabelText('Status'), { target: { value: 'completed' } });
+
+    await waitFor(() => {
+      expect(api.getActions).toHaveBeenLastCalledWith('team-2', 'completed');
+    });
+  });
+
+  it('updates the status of an action item', async () => {
+    const api = await import('@/services/api');
+    const toast = await import('react-hot-toast');
+    vi.mocked(api.updateAction).mockResolvedValue({ ...trackedItem, status: 'completed' });
+    renderPage();
+    await waitFor(() => {
+      expect(screen.getByLabelText('Status of Fix flaky tests')).toHaveValue('pending');
+    });
+
+    fireEvent.change(screen.getByLabelText('Status of Fix flaky tests'), { target: { value: 'completed' } });
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Status of Fix flaky tests')).toHaveValue('completed');
+    });
+    expect(api.updateAction).toHaveBeenCalledWith('retro-1', 'action-1', { status: 'completed' });
+    expect(toast.default.success).toHaveBeenCalledWith('Action item updated');
+  });
+
+  it('points users without a team to the teams page', async () => {
+    const api = await import('@/services/api');
+    vi.mocked(api.getTeams).mockResolvedValue([]);
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByRole('link', { name: 'Create or join a team' })).toHaveAttribute('href', '/teams');
+    });
+    expect(api.getActions).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import AnalyticsPage from '../../pages/AnalyticsPage';
+import { RetroTrendPoint, TeamAnalytics } from '@/types/analytics';
+
+let mockAuth: { user: { id: string; name: string } | null; isLoading: boolean };
+vi.mock('@/context/AuthContext', () => ({
+  useAuth: () => mockAuth,
+}));
+
+vi.mock('@/services/api', () => ({
+  getTeamAnalytics: vi.fn(),
+  getTeams: vi.fn(),
+}));
+
+vi.mock('react-hot-toast', () => ({
+  default: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('@/components/Header', () => ({
+  default: () => <div data-testid="header">Header</div>,
+}));
+
+const trendPoint = (changes: Partial<RetroTrendPoint>): RetroTrendPoint => ({
+  retroId: 'retro-1',
+  sessionName: 'Sprint 41',
+  createdAt: '2025-03-04T10:00:00Z',
+  cardsPerColumn: [
+    { columnId: 'went-well', columnName: 'Went Well', color: '#10b981', count: 3 },
+    { columnId: 'to-improve', columnName: 'To Improve', color: '#ef4444', count: 1 },
+  ],
+  actionItems: { total: 2, completed: 1 },
+  actionCompletionRate: 0.5,
+  participants: 3,
+  participationRate: 0.75,
+  voteConcentration: 0.6,
+  ...changes,
+});
+
+const analytics: TeamAnalytics = {
+  teamId: 'team-1',
+  teamSize: 4,
+  retros: [
+    trendPoint({}),
+    trendPoint({
+      retroId: 'retro-2',
+      sessionName: 'Sprint 42',
+      createdAt: '2025-03-18T10:00:00Z',
+      actionItems: { total: 0, completed: 0 },
+      actionCompletionRate: null,
+      participationRate: 0.25,
+      voteConcentration: null,
+    }),
+  ],
+  actionCompletionRate: 0.5,
+  recurringThemes: [{ term: 'deployments', retroCount: 2, cardCount: 3 }],
+};
+
+describe('AnalyticsPage', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockAuth = { user: { id: 'user-1', name: 'Ada' }, isLoading: false };
+    const api = await import('@/services/api');
+    vi.mocked(api.getTeams).mockResolvedValue([
+      { id: 'team-1', name: 'Platform', createdBy: 'user-1', createdAt: new Date(), members: [] },
+      { id: 'team-2', name: 'Mobile', createdBy: 'user-1', createdAt: new Date(), members: [] },
+    ]);
+    vi.mocked(api.getTeamAnalytics).mockResolvedValue(analytics);
+  });
+
+  const renderPage = () =>
+    render(
+      <MemoryRouter initialEntries={['/analytics']}>
+        <Routes>
+          <Route path="/analytics" element={<AnalyticsPage />} />
+          <Route path="/login" element={<div data-testid="login-page" />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+  it('redirects to the login page when logged out', () => {
+    mockAuth = { user: null, isLoading: false };
+    renderPage();
+
+    expect(screen.getByTestId('login-page')).toBeInTheDocument();
+  });
+
+  it("summarises the first team's trends", async () => {
+    const api = await import('@/services/api');
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('Average participation')).toBeInTheDocument();
+    });
+    expect(api.getTeamAnalytics).toHaveBeenCalledWith('team-1', {});
+    expect(screen.getByText('Retros').previousSibling).toHaveTextContent('2');
+    expect(screen.getByText('Average participation').previousSibling).toHaveTextContent('50%');
+    expect(screen.getByText('Average vote concentration').previousSibling).toHaveTextContent('60%');
+  });
+
+  it('charts each retro, oldest first', async () => {
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('Cards per column')).toBeInTheDocument();
+    });
+    expect(screen.getAllByText('Sprint 41')).toHaveLength(4);
+    expect(screen.getAllByTitle('Went Well: 3')[0]).toHaveStyle({ backgroundColor: '#10b981' });
+    expect(screen.getByText('75%')).toBeInTheDocument();
+    expect(screen.getByText('25%')).toBeInTheDocument();
+    expect(screen.getAllByText('–')).toHaveLength(2);
+  });
+
+  it('lists recurring themes', async () => {
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('deployments')).toBeInTheDocument();
+    });
+    expect(screen.getByText('2 retros, 3 cards')).toBeInTheDocument();
+  });
+
+  it('reloads for another team and date range', async () => {
+    const api = await import('@/services/api');
+    renderPage();
+    await waitFor(() => {
+      expect(screen.getByRole('option', { name: 'Mobile' })).toBeInTheDocument();
+    });
+
+    fireEvent.change(screen.getByLabelText('Team'), { target: { value: 'team-2' } });
+    fireEvent.change(screen.getByLabelText('From date'), { target: { value: '2025-03-10' } });
+
+    await waitFor(() => {
+      expect(api.getTeamAnalytics).toHaveBeenLastCalledWith('team-2', {
+        from: new Date('2025-03-10T00:00:00').toISOString(),
+      });
+    });
+  });
+
+  it('says so when the team has no retros in the period', async () => {
+    const api = await import('@/services/api');
+    vi.mocked(api.getTeamAnalytics).mockResolvedValue({ ...analytics, retros: [], actionCompletionRate: null, recurringThemes: [] });
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('No retros in this period')).toBeInTheDocument();
+    });
+  });
+
+  it('points users without a team to the teams page', async () => {
+    const api = await import('@/services/api');
+    vi.mocked(api.getTeams).mockResolvedValue([]);
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByRole('link', { name: 'Create or join a team' })).toHaveAttribute('href', '/teams');
+    });
+    expect(api.getTeamAnalytics).not.toHaveBeenCalled();
+  });
+});
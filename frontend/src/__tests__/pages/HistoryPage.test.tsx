@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import HistoryPage from '../../pages/HistoryPage';
+
+let mockAuth: { user: { id: string; name: string } | null; isLoading: boolean };
+vi.mock('@/context/AuthContext', () => ({
+  useAuth: () => mockAuth,
+}));
+
+vi.mock('@/services/api', () => ({
+  getRetros: vi.fn(),
+  getTemplates: vi.fn(),
+  getTeams: vi.fn(),
+}));
+
+vi.mock('react-hot-toast', () => ({
+  default: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('@/components/Header', () => ({
+  default: () => <div data-testid="header">Header</div>,
+}));
+
+const sprintRetro = {
+  id: 'retro-1',
+  sessionName: 'Sprint 42',
+  context: 'Release week',
+  templateId: 'template-1',
+  isAnonymous: false,
+  votingLimit: 5,
+  timerDuration: null,
+  status: 'completed' as const,
+  createdAt: new Date('2025-03-04T10:00:00Z'),
+  updatedAt: new Date('2025-03-04T10:00:00Z'),
+  counts: { cards: 12, votes: 30, actionItems: 4 },
+};
+
+describe('HistoryPage', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockAuth = { user: { id: 'user-1', name: 'Ada' }, isLoading: false };
+    const api = await import('@/services/api');
+    vi.mocked(api.getRetros).mockResolvedValue({ retros: [sprintRetro], total: 1, page: 1, pageSize: 10 });
+    vi.mocked(api.getTemplates).mockResolvedValue([
+      { id: 'template-1', name: 'Start Stop Continue', description: '', isDefault: true, columns: [] },
+    ]);
+    vi.mocked(api.getTeams).mockResolvedValue([
+      { id: 'team-1', name: 'Platform', createdBy: 'user-1', createdAt: new Date(), members: [] },
+    ]);
+  });
+
+  const renderPage = () =>
+    render(
+      <MemoryRouter initialEntries={['/history']}>
+        <Routes>
+          <Route path="/history" element={<HistoryPage />} />
+          <Route path="/login" element={<div data-testid="login-page" />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+  it('redirects to the login page when logged out', () => {
+    mockAuth = { user: null, isLoading: false };
+    renderPage();
+
+    expect(screen.getByTestId('login-page')).toBeInTheDocument();
+  });
+
+  it('lists past retros with their template, status and counts', async () => {
+    const api = await import('@/services/api');
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByRole('link', { name: 'Sprint 42' })).toHaveAttribute('href', '/retro/retro-1/join');
+    });
+    expect(screen.getByText('Release week')).toBeInTheDocument();
+    expect(screen.getByText('Mar 4, 2025')).toBeInTheDocument();
+    expect(screen.getByRole('cell', { name: 'Start Stop Continue' })).toBeInTheDocument();
+    expect(screen.getByRole('cell', { name: 'completed' })).toBeInTheDocument();
+    expect(screen.getByText('12')).toBeInTheDocument();
+    expect(screen.getByText('30')).toBeInTheDocument();
+    expect(screen.getByText('4')).toBeInTheDocument();
+    expect(api.getRetros).toHaveBeenCalledWith({ page: 1, pageSize: 10 });
+  });
+
+  it('searches and filters with query parameters', async () => {
+    const api = await import('@/services/api');
+    renderPage();
+    await waitFor(() => {
+      expect(screen.getByRole('option', { name: 'Platform' })).toBeInTheDocument();
+    });
+
+    fireEvent.change(screen.getByLabelText('Search retros'), { target: { value: ' sprint ' } });
+    fireEvent.change(screen.getByLabelText('Team'), { target: { value: 'team-1' } });
+    fireEvent.change(screen.getByLabelText('Template'), { target: { value: 'template-1' } });
+    fireEvent.change(screen.getByLabelText('Status'), { target: { value: 'completed' } });
+    fireEvent.change(screen.getByLabelText('From date'), { target: { value: '2025-03-01' } });
+    fireEvent.change(screen.getByLabelText('To date'), { target: { value: '2025-03-31' } });
+
+    await waitFor(() => {
+      expect(api.getRetros).toHaveBeenLastCalledWith({
+        page: 1,
+        pageSize: 10,
+        q: 'sprint',
+        teamId: 'team-1',
+        templateId: 'template-1',
+        status: 'completed',
+        from: new Date('2025-03-01T00:00:00').toISOString(),
+        to: new Date('2025-03-31T23:59:59.999').toISOString(),
+      });
+    });
+  });
+
+  it('pages through results and starts over when a filter changes', async () => {
+    const api = await import('@/services/api');
+    vi.mocked(api.getRetros).mockResolvedValue({ retros: [sprintRetro], total: 25, page: 1, pageSize: 10 });
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('Page 1 of 3 (25 retros)')).toBeInTheDocument();
+    });
+    expect(screen.getByRole('button', { name: /previous/i })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: /next/i }));
+    await waitFor(() => {
+      expect(api.getRetros).toHaveBeenLastCalledWith({ page: 2, pageSize: 10 });
+    });
+
+    fireEvent.change(screen.getByLabelText('Status'), { target: { value: 'draft' } });
+    await waitFor(() => {
+      expect(api.getRetros).toHaveBeenLastCalledWith({ page: 1, pageSize: 10, status: 'draft' });
+    });
+  });
+
+  it('shows an empty state and reports load failures', async () => {
+    const api = await import('@/services/api');
+    const toast = await import('react-hot-toast');
+    vi.mocked(api.getRetros).mockResolvedValueOnce({ retros: [], total: 0, page: 1, pageSize: 10 });
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('No retrospectives found')).toBeInTheDocument();
+    });
+
+    vi.mocked(api.getRetros).mockRejectedValueOnce(new Error('Network error'));
+    fireEvent.change(screen.getByLabelText('Search retros'), { target: { value: 'x' } });
+    await waitFor(() => {
+      expect(toast.default.error).toHaveBeenCalledWith('Failed to load retrospectives');
+    });
+  });
+});
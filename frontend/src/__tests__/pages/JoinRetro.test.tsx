@@ -2,7 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, waitFor } from '../utils/test-utils';
 import userEvent from '@testing-library/user-event';
 import JoinRetro from '../../pages/JoinRetro';
-import api from '@/services/api';
+import api, { getRetroInvite } from '@/services/api';
 import toast from 'react-hot-toast';
 
 const mockNavigate = vi.fn();
@@ -21,6 +21,7 @@ vi.mock('@/services/api', () => ({
   default: {
     get: vi.fn(),
   },
+  getRetroInvite: vi.fn(),
 }));
 
 vi.mock('react-hot-toast', () => ({
@@ -172,6 +173,71 @@ describe('JoinRetro Component', () => {
         expect(screen.getByText(/active/i)).toBeInTheDocument();
       });
     });
+
+    it('shows when a scheduled retro starts', async () => {
+      vi.mocked(api.get).mockResolvedValue({
+        data: { ...mockRetroData, status: 'draft', scheduledAt: '2099-03-02T09:30:00Z' },
+      });
+
+      render(<JoinRetro />);
+
+      await waitFor(() => {
+        expect(screen.getByText(/starts at .*march 2/i)).toBeInTheDocument();
+      });
+    });
+
+    it('downloads a calendar invite for a scheduled retro', async () => {
+      const user = userEvent.setup();
+      const file = new Blob(['BEGIN:VCALENDAR']);
+      vi.mocked(api.get).mockResolvedValue({
+        data: { ...mockRetroData, status: 'draft', scheduledAt: '2099-03-02T09:30:00Z' },
+      });
+      vi.mocked(getRetroInvite).mockResolvedValue(file);
+      const createObjectURL = vi.fn(() => 'blob:invite');
+      const revokeObjectURL = vi.fn();
+      Object.assign(URL, { createObjectURL, revokeObjectURL });
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+      render(<JoinRetro />);
+
+      await user.click(await screen.findByRole('button', { name: /add to calendar/i }));
+
+      await waitFor(() => {
+        expect(click).toHaveBeenCalled();
+      });
+      expect(getRetroInvite).toHaveBeenCalledWith('test-retro-123');
+      expect(createObjectURL).toHaveBeenCalledWith(file);
+      expect((click.mock.contexts[0] as HTMLAnchorElement).download).toBe('sprint-42-retrospective.ics');
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:invite');
+      click.mockRestore();
+    });
+
+    it('shows an error when the invite cannot be downloaded', async () => {
+      const user = userEvent.setup();
+      vi.mocked(api.get).mockResolvedValue({
+        data: { ...mockRetroData, status: 'draft', scheduledAt: '2099-03-02T09:30:00Z' },
+      });
+      vi.mocked(getRetroInvite).mockRejectedValue(new Error('Network error'));
+      render(<JoinRetro />);
+
+      await user.click(await screen.findByRole('button', { name: /add to calendar/i }));
+
+      await waitFor(() => {
+        expect(toast.error).toHaveBeenCalledWith('Failed to download calendar invite');
+      });
+    });
+
+    it('does not show a start time once it has passed', async () => {
+      vi.mocked(api.get).mockResolvedValue({
+        data: { ...mockRetroData, scheduledAt: '2025-01-02T09:30:00Z' },
+      });
+
+      render(<JoinRetro />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Sprint 42 Retrospective')).toBeInTheDocument();
+      });
+      expect(screen.queryByText(/starts at/i)).not.toBeInTheDocument();
+    });
   });
 
   describe('Header Section', () => {
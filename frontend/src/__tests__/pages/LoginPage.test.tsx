@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import LoginPage from '../../pages/LoginPage';
+
+const mockNavigate = vi.fn();
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...actual,
+    useNavigate: () => mockNavigate,
+  };
+});
+
+const mockLogin = vi.fn();
+const mockRegister = vi.fn();
+vi.mock('@/context/AuthContext', () => ({
+  useAuth: () => ({
+    login: mockLogin,
+    register: mockRegister,
+  }),
+}));
+
+vi.mock('react-hot-toast', () => ({
+  default: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('@/components/Header', () => ({
+  default: () => <div data-testid="header">Header</div>,
+}));
+
+describe('LoginPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderPage = () =>
+    render(
+      <MemoryRouter>
+        <LoginPage />
+      </MemoryRouter>
+    );
+
+  const fillIn = (label: string, value: string) => {
+    fireEvent.change(screen.getByLabelText(label), { target: { value } });
+  };
+
+  it('logs in and returns to the landing page', async () => {
+    mockLogin.mockResolvedValue(undefined);
+    renderPage();
+
+    expect(screen.queryByLabelText('Name')).not.toBeInTheDocument();
+    fillIn('Email', 'ada@example.com');
+    fillIn('Password', 'password1');
+    fireEvent.click(screen.getAllByRole('button', { name: 'Log in' })[1]);
+
+    await waitFor(() => {
+      expect(mockLogin).toHaveBeenCalledWith({ email: 'ada@example.com', password: 'password1' });
+      expect(mockNavigate).toHaveBeenCalledWith('/');
+    });
+  });
+
+  it('creates an account from the sign up tab', async () => {
+    mockRegister.mockResolvedValue(undefined);
+    renderPage();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Sign up' }));
+    fillIn('Name', 'Ada Lovelace');
+    fillIn('Email', 'ada@example.com');
+    fillIn('Password', 'password1');
+    fireEvent.click(screen.getByRole('button', { name: 'Create account' }));
+
+    await waitFor(() => {
+      expect(mockRegister).toHaveBeenCalledWith({ name: 'Ada Lovelace', email: 'ada@example.com', password: 'password1' });
+    });
+  });
+
+  it('shows the server error when login fails', async () => {
+    const toast = await import('react-hot-toast');
+    mockLogin.mockRejectedValue({ response: { data: { message: 'Invalid email or password' } } });
+    renderPage();
+
+    fillIn('Email', 'ada@example.com');
+    fillIn('Password', 'wrong-password');
+    fireEvent.click(screen.getAllByRole('button', { name: 'Log in' })[1]);
+
+    await waitFor(() => {
+      expect(toast.default.error).toHaveBeenCalledWith('Invalid email or password');
+    });
+    expect(mockNavigate).not.toHaveBeenCalled();
+  });
+});
@@ -1,8 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, waitFor } from '../utils/test-utils';
+import userEvent from '@testing-library/user-event';
 import RetroBoard from '../../pages/RetroBoard';
 import * as api from '@/services/api';
 import toast from 'react-hot-toast';
+import { StageTimer } from '@/types/retroBoard';
 
 const mockNavigate = vi.fn();
 const mockRetroId = 'retro-456';
@@ -54,6 +56,7 @@ let mockParticipants = [
   { id: 'user-456', name: 'Bob', isCreator: false },
 ];
 let mockStageDoneStatus: Record<string, string[]> = {};
+let mockStageTimer: StageTimer | null = null;
 
 vi.mock('@/hooks/useRetroWebSocket', () => ({
   useRetroWebSocket: () => ({
@@ -69,6 +72,7 @@ vi.mock('@/hooks/useRetroWebSocket', () => ({
     reactions: {},
     icebreakerState: null,
     currentStageIndex: mockCurrentStageIndex,
+    stageTimer: mockStageTimer,
     setCards: mockSetCards,
     setCardGroups: mockSetCardGroups,
     setVotes: mockSetVotes,
@@ -80,6 +84,10 @@ vi.mock('@/hooks/useRetroWebSocket', () => ({
 }));
 
 // Mock all stage components
+vi.mock('@/components/retroComponents/PreviousActionsStage', () => ({
+  default: () => <div data-testid="previous-actions-stage">Previous Actions Stage</div>,
+}));
+
 vi.mock('@/components/retroComponents/IcebreakerStage', () => ({
   default: () => <div data-testid="icebreaker-stage">Icebreaker Stage</div>,
 }));
@@ -151,6 +159,7 @@ describe('RetroBoard Component', () => {
       { id: 'user-456', name: 'Bob', isCreator: false },
     ];
     mockStageDoneStatus = {};
+    mockStageTimer = null;
   });
 
   describe('Loading State', () => {
@@ -205,6 +214,25 @@ describe('RetroBoard Component', () => {
         expect(screen.getByText('Q1 Planning Retro')).toBeInTheDocument();
       });
     });
+
+    it('shows completed retros as read-only', async () => {
+      vi.mocked(api.getRetroById).mockResolvedValue({ ...mockRetroData, status: 'completed' });
+
+      render(<RetroBoard />);
+
+      await waitFor(() => {
+        expect(screen.getByText('This retro is completed and can no longer be changed')).toBeInTheDocument();
+      });
+    });
+
+    it('does not show the read-only notice while the retro is active', async () => {
+      render(<RetroBoard />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Q1 Planning Retro')).toBeInTheDocument();
+      });
+      expect(screen.queryByText('This retro is completed and can no longer be changed')).not.toBeInTheDocument();
+    });
   });
 
   describe('Stage Progress Bar', () => {
@@ -733,48 +761,127 @@ describe('RetroBoard Component', () => {
         expect(mockSendMessage).toHaveBeenCalledWith({ type: 'stage-change', stageIndex: 1 });
       });
     });
+
+    it('asks for confirmation before moving on to the report', async () => {
+      mockCurrentStageIndex = 5; // Review stage
+      const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(false);
+
+      render(<RetroBoard />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Q1 Planning Retro')).toBeInTheDocument();
+      });
+
+      screen.getByRole('button', { name: /next stage/i }).click();
+      expect(confirmSpy).toHaveBeenCalled();
+      expect(mockSetCurrentStageIndex).not.toHaveBeenCalled();
+      expect(mockSendMessage).not.toHaveBeenCalled();
+
+      confirmSpy.mockReturnValue(true);
+      screen.getByRole('button', { name: /next stage/i }).click();
+      expect(mockSendMessage).toHaveBeenCalledWith({ type: 'stage-change', stageIndex: 6 });
+
+      confirmSpy.mockRestore();
+    });
+
+    it('disables stage navigation once the retro is completed', async () => {
+      mockCurrentStageIndex = 6; // Report stage (last)
+      vi.mocked(api.getRetroById).mockResolvedValue({ ...mockRetroData, status: 'completed' });
+
+      render(<RetroBoard />);
+
+      await waitFor(() => {
+        expect(screen.getByText('This retro is completed and can no longer be changed')).toBeInTheDocument();
+      });
+
+      expect(screen.getByRole('button', { name: /previous stage/i })).toBeDisabled();
+      expect(screen.getByRole('button', { name: /next stage/i })).toBeDisabled();
+    });
   });
 
   describe('Timer Interaction', () => {
+    const runningTimer: StageTimer = {
+      stageIndex: 0,
+      duration: 300,
+      isRunning: true,
+      deadline: '2099-01-01T10:05:00.000Z',
+      remaining: 125,
+      onExpire: 'advance-stage',
+    };
+
     beforeEach(() => {
       vi.mocked(api.getRetroById).mockResolvedValue(mockRetroData);
     });
 
-    it('clicking start timer shows pause button', async () => {
+    it('asks the server to start the timer with the chosen expiry action', async () => {
+      const user = userEvent.setup();
       render(<RetroBoard />);
-      
+
       await waitFor(() => {
         expect(screen.getByText('Q1 Planning Retro')).toBeInTheDocument();
       });
-      
-      const startButton = screen.getByText('Start Timer');
-      startButton.click();
-      
+
+      await user.selectOptions(screen.getByTitle('When time is up'), 'advance-stage');
+      await user.click(screen.getByText('Start Timer'));
+
+      expect(mockSendMessage).toHaveBeenCalledWith({ type: 'timer-update', action: 'start', onExpire: 'advance-stage' });
+    });
+
+    it('shows the time left on the server timer and its controls', async () => {
+      const user = userEvent.setup();
+      mockStageTimer = runningTimer;
+      render(<RetroBoard />);
+
       await waitFor(() => {
-        expect(screen.getByText('Pause Timer')).toBeInTheDocument();
+        expect(screen.getByText('Time remaining: 2:05')).toBeInTheDocument();
       });
+      expect(screen.getByText('Moves on to the next stage when time is up')).toBeInTheDocument();
+
+      await user.click(screen.getByText('Pause Timer'));
+      expect(mockSendMessage).toHaveBeenCalledWith({ type: 'timer-update', action: 'pause' });
+
+      await user.click(screen.getByTitle('Add a minute'));
+      expect(mockSendMessage).toHaveBeenCalledWith({ type: 'timer-update', action: 'extend', seconds: 60 });
+
+      await user.click(screen.getByTitle('Reset Timer'));
+      expect(mockSendMessage).toHaveBeenCalledWith({ type: 'timer-update', action: 'reset' });
     });
 
-    it('clicking pause button shows start button again', async () => {
+    it('offers to resume a paused timer', async () => {
+      mockStageTimer = { ...runningTimer, isRunning: false, deadline: null, remaining: 90 };
       render(<RetroBoard />);
-      
+
       await waitFor(() => {
-        expect(screen.getByText('Q1 Planning Retro')).toBeInTheDocument();
+        expect(screen.getByText('Paused with 1:30 left')).toBeInTheDocument();
       });
-      
-      // Start the timer
-      screen.getByText('Start Timer').click();
-      
+      screen.getByText('Resume Timer').click();
+
+      expect(mockSendMessage).toHaveBeenCalledWith({ type: 'timer-update', action: 'resume' });
+    });
+
+    it('shows participants the timer without its controls', async () => {
+      mockParticipants = [
+        { id: 'user-123', name: 'Alice', isCreator: false },
+        { id: 'user-456', name: 'Bob', isCreator: true },
+      ];
+      mockStageTimer = { ...runningTimer, isRunning: false, deadline: null, remaining: 0 };
+      render(<RetroBoard />);
+
       await waitFor(() => {
-        expect(screen.getByText('Pause Timer')).toBeInTheDocument();
+        expect(screen.getByText('Time is up')).toBeInTheDocument();
       });
-      
-      // Pause the timer
-      screen.getByText('Pause Timer').click();
-      
+      expect(screen.queryByText('Start Timer')).not.toBeInTheDocument();
+      expect(screen.queryByTitle('Reset Timer')).not.toBeInTheDocument();
+    });
+
+    it('ignores a timer left over from another stage', async () => {
+      mockStageTimer = { ...runningTimer, stageIndex: 1 };
+      render(<RetroBoard />);
+
       await waitFor(() => {
-        expect(screen.getByText('Start Timer')).toBeInTheDocument();
+        expect(screen.getByText('Duration: 5 minutes')).toBeInTheDocument();
       });
+      expect(screen.queryByText(/Time remaining/)).not.toBeInTheDocument();
     });
   });
 
@@ -991,6 +1098,23 @@ describe('RetroBoard Component', () => {
         expect(screen.getByTestId('report-stage')).toBeInTheDocument();
       });
     });
+
+    it('renders previous actions stage when a retro starts with it', async () => {
+      mockCurrentStageIndex = 0;
+      vi.mocked(api.getRetroById).mockResolvedValue({
+        ...mockRetroData,
+        stages: [
+          { id: 'previous-actions', name: 'Previous Actions', duration: 0, enabled: true },
+          ...mockRetroData.stages!,
+        ],
+      });
+
+      render(<RetroBoard />);
+
+      await waitFor(() => {
+        expect(screen.getByTestId('previous-actions-stage')).toBeInTheDocument();
+      });
+    });
   });
 
   describe('formatTime Function', () => {
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import TeamsPage from '../../pages/TeamsPage';
+
+let mockAuth: { user: { id: string; name: string } | null; isLoading: boolean };
+vi.mock('@/context/AuthContext', () => ({
+  useAuth: () => mockAuth,
+}));
+
+vi.mock('@/services/api', () => ({
+  getTeams: vi.fn(),
+  createTeam: vi.fn(),
+  addTeamMember: vi.fn(),
+  removeTeamMember: vi.fn(),
+}));
+
+vi.mock('react-hot-toast', () => ({
+  default: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('@/components/Header', () => ({
+  default: () => <div data-testid="header">Header</div>,
+}));
+
+const ada = { id: 'user-1', name: 'Ada', email: 'ada@example.com' };
+const bob = { id: 'user-2', name: 'Bob', email: 'bob@example.com' };
+const platformTeam = { id: 'team-1', name: 'Platform', createdBy: 'user-1', createdAt: new Date(), members: [ada] };
+
+describe('TeamsPage', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockAuth = { user: ada, isLoading: false };
+    const api = await import('@/services/api');
+    vi.mocked(api.getTeams).mockResolvedValue([platformTeam]);
+  });
+
+  const renderPage = () =>
+    render(
+      <MemoryRouter initialEntries={['/teams']}>
+        <Routes>
+          <Route path="/teams" element={<TeamsPage />} />
+          <Route path="/login" element={<div data-testid="login-page" />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+  it('redirects to the login page when logged out', () => {
+    mockAuth = { user: null, isLoading: false };
+    renderPage();
+
+    expect(screen.getByTestId('login-page')).toBeInTheDocument();
+  });
+
+  it('lists the user\'s teams and members', async () => {
+    renderPage();
+
+    expect(await screen.findByText('Platform')).toBeInTheDocument();
+    expect(screen.getByText('Ada (You)')).toBeInTheDocument();
+  });
+
+  it('creates a team', async () => {
+    const api = await import('@/services/api');
+    vi.mocked(api.createTeam).mockResolvedValue({ ...platformTeam, id: 'team-2', name: 'Mobile' });
+    renderPage();
+
+    fireEvent.change(screen.getByLabelText('New team name'), { target: { value: 'Mobile' } });
+    fireEvent.click(screen.getByRole('button', { name: /create team/i }));
+
+    expect(await screen.findByText('Mobile')).toBeInTheDocument();
+    expect(api.createTeam).toHaveBeenCalledWith('Mobile');
+  });
+
+  it('adds and removes members', async () => {
+    const api = await import('@/services/api');
+    vi.mocked(api.addTeamMember).mockResolvedValue({ ...platformTeam, members: [ada, bob] });
+    vi.mocked(api.removeTeamMember).mockResolvedValue(platformTeam);
+    renderPage();
+
+    fireEvent.change(await screen.findByLabelText('Add member to Platform'), { target: { value: 'bob@example.com' } });
+    fireEvent.click(screen.getByRole('button', { name: /add/i }));
+
+    expect(await screen.findByText('Bob')).toBeInTheDocument();
+    expect(api.addTeamMember).toHaveBeenCalledWith('team-1', 'bob@example.com');
+
+    fireEvent.click(screen.getByLabelText('Remove Bob'));
+
+    await waitFor(() => {
+      expect(screen.queryByText('Bob')).not.toBeInTheDocument();
+    });
+    expect(api.removeTeamMember).toHaveBeenCalledWith('team-1', 'user-2');
+  });
+});
@@ -2,11 +2,13 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import type { Template, Retro, CreateRetroData } from '@/types/retro';
 
 // Create mock functions using vi.hoisted to ensure they're available before imports
-const { mockGet, mockPost, mockPatch, mockDelete } = vi.hoisted(() => ({
+const { mockGet, mockPost, mockPut, mockPatch, mockDelete, mockUseRequest } = vi.hoisted(() => ({
   mockGet: vi.fn(),
   mockPost: vi.fn(),
+  mockPut: vi.fn(),
   mockPatch: vi.fn(),
   mockDelete: vi.fn(),
+  mockUseRequest: vi.fn(),
 }));
 
 // Mock axios.create to return an instance with our mock methods
@@ -15,14 +17,50 @@ vi.mock('axios', () => ({
     create: vi.fn(() => ({
       get: mockGet,
       post: mockPost,
+      put: mockPut,
       patch: mockPatch,
       delete: mockDelete,
+      interceptors: { request: { use: mockUseRequest } },
     })),
   },
 }));
 
 // Import after mocking
-import { getTemplates, getTemplateById, createRetro, getRetroById, updateRetro, deleteRetro } from '@/services/api';
+import {
+  getTemplates,
+  getTemplateById,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+  exportTemplate,
+  importTemplate,
+  createRetro,
+  getRetros,
+  getRetroById,
+  updateRetro,
+  deleteRetro,
+  register,
+  login,
+  getCurrentUser,
+  createTeam,
+  addTeamMember,
+  removeTeamMember,
+  getActions,
+  updateAction,
+  getPreviousActions,
+  getActionsCalendar,
+  getIssueTracker,
+  pushActionToTracker,
+  syncActionFromTracker,
+  getTeamAnalytics,
+  exportRetro,
+  getRetroReport,
+  shareRetroReport,
+  getRetroInvite,
+} from '@/services/api';
+
+// Captured before clearAllMocks runs in beforeEach
+const authInterceptor = mockUseRequest.mock.calls[0][0];
 
 describe('API Service', () => {
   beforeEach(() => {
@@ -99,6 +137,45 @@ describe('API Service', () => {
     });
   });
 
+  describe('Custom template API', () => {
+    const templateData = {
+      name: 'Keep/Drop',
+      description: '',
+      columns: [
+        { id: 'keep', name: 'Keep', color: '#22c55e', order: 1, placeholder: '' },
+        { id: 'drop', name: 'Drop', color: '#ef4444', order: 2, placeholder: '' },
+      ],
+    };
+
+    it('creates, updates and deletes templates', async () => {
+      const template = { ...templateData, id: 'template-9', isDefault: false };
+      mockPost.mockResolvedValue({ data: template });
+      mockPut.mockResolvedValue({ data: template });
+      mockDelete.mockResolvedValue({ data: null });
+
+      expect(await createTemplate(templateData)).toEqual(template);
+      expect(mockPost).toHaveBeenCalledWith('/templates', templateData);
+
+      expect(await updateTemplate('template-9', templateData)).toEqual(template);
+      expect(mockPut).toHaveBeenCalledWith('/templates/template-9', templateData);
+
+      await deleteTemplate('template-9');
+      expect(mockDelete).toHaveBeenCalledWith('/templates/template-9');
+    });
+
+    it('exports and imports template files', async () => {
+      const templateFile = { schema: 'teamretro.template', version: 1, template: templateData };
+      mockGet.mockResolvedValue({ data: templateFile });
+      mockPost.mockResolvedValue({ data: { ...templateData, id: 'template-10', isDefault: false } });
+
+      expect(await exportTemplate('template-9')).toEqual(templateFile);
+      expect(mockGet).toHaveBeenCalledWith('/templates/template-9/export');
+
+      expect((await importTemplate(templateFile)).id).toBe('template-10');
+      expect(mockPost).toHaveBeenCalledWith('/templates/import', templateFile);
+    });
+  });
+
   describe('Retro API', () => {
     describe('createRetro', () => {
       it('creates a new retro successfully', async () => {
@@ -152,6 +229,18 @@ describe('API Service', () => {
     });
 
     describe('getRetroById', () => {
+      it('fetches a filtered page of retros', async () => {
+        const retroPage = { retros: [], total: 0, page: 2, pageSize: 10 };
+        mockGet.mockResolvedValue({ data: retroPage });
+
+        const result = await getRetros({ q: 'sprint', status: 'completed', page: 2, pageSize: 10 });
+
+        expect(mockGet).toHaveBeenCalledWith('/retros', {
+          params: { q: 'sprint', status: 'completed', page: 2, pageSize: 10 },
+        });
+        expect(result).toEqual(retroPage);
+      });
+
       it('fetches retro by ID successfully', async () => {
         const mockRetro: Retro = {
           id: 'retro-1',
@@ -242,4 +331,147 @@ describe('API Service', () => {
       });
     });
   });
+
+  describe('Auth API', () => {
+    it('adds the stored login token to requests', () => {
+      localStorage.setItem('authToken', 'jwt-token');
+      expect(authInterceptor({ headers: {} }).headers.Authorization).toBe('Bearer jwt-token');
+
+      localStorage.removeItem('authToken');
+      expect(authInterceptor({ headers: {} }).headers.Authorization).toBeUndefined();
+    });
+
+    it('adds the facilitator token to requests for its retro', () => {
+      localStorage.setItem('retro_facilitatorToken_retro-1', 'facilitator-token');
+
+      expect(authInterceptor({ url: '/retros/retro-1/status', headers: {} }).headers['X-Facilitator-Token'])
+        .toBe('facilitator-token');
+      expect(authInterceptor({ url: '/retros/retro-2', headers: {} }).headers['X-Facilitator-Token']).toBeUndefined();
+      expect(authInterceptor({ url: '/templates', headers: {} }).headers['X-Facilitator-Token']).toBeUndefined();
+      expect(authInterceptor({ url: '/actions/retro-1/action-1/push', headers: {} }).headers['X-Facilitator-Token'])
+        .toBe('facilitator-token');
+
+      localStorage.removeItem('retro_facilitatorToken_retro-1');
+    });
+
+    it('registers, logs in and fetches the current user', async () => {
+      const authResponse = { token: 'jwt-token', user: { id: 'user-1', name: 'Ada', email: 'ada@example.com' } };
+      mockPost.mockResolvedValue({ data: authResponse });
+      mockGet.mockResolvedValue({ data: { ...authResponse.user, teams: [] } });
+
+      expect(await register({ name: 'Ada', email: 'ada@example.com', password: 'password1' })).toEqual(authResponse);
+      expect(mockPost).toHaveBeenCalledWith('/auth/register', { name: 'Ada', email: 'ada@example.com', password: 'password1' });
+
+      await login({ email: 'ada@example.com', password: 'password1' });
+      expect(mockPost).toHaveBeenCalledWith('/auth/login', { email: 'ada@example.com', password: 'password1' });
+
+      expect((await getCurrentUser()).teams).toEqual([]);
+      expect(mockGet).toHaveBeenCalledWith('/auth/me');
+    });
+  });
+
+  describe('Team API', () => {
+    it('creates teams and manages members', async () => {
+      const team = { id: 'team-1', name: 'Platform', members: [] };
+      mockPost.mockResolvedValue({ data: team });
+      mockDelete.mockResolvedValue({ data: team });
+
+      await createTeam('Platform');
+      expect(mockPost).toHaveBeenCalledWith('/teams', { name: 'Platform' });
+
+      await addTeamMember('team-1', 'bob@example.com');
+      expect(mockPost).toHaveBeenCalledWith('/teams/team-1/members', { email: 'bob@example.com' });
+
+      expect(await removeTeamMember('team-1', 'user-2')).toEqual(team);
+      expect(mockDelete).toHaveBeenCalledWith('/teams/team-1/members/user-2');
+    });
+  });
+
+  describe('Action API', () => {
+    it('lists team action items, open ones by default', async () => {
+      mockGet.mockResolvedValue({ data: [] });
+
+      await getActions('team-1');
+      expect(mockGet).toHaveBeenCalledWith('/actions', { params: { teamId: 'team-1', status: 'open' } });
+
+      await getActions('team-1', 'completed');
+      expect(mockGet).toHaveBeenCalledWith('/actions', { params: { teamId: 'team-1', status: 'completed' } });
+    });
+
+    it('updates an action item and fetches the previous retro actions', async () => {
+      mockPatch.mockResolvedValue({ data: { id: 'action-1', status: 'completed' } });
+      mockGet.mockResolvedValue({ data: { retro: null, actionItems: [] } });
+
+      expect(await updateAction('retro-1', 'action-1', { status: 'completed' })).toEqual({ id: 'action-1', status: 'completed' });
+      expect(mockPatch).toHaveBeenCalledWith('/actions/retro-1/action-1', { status: 'completed' });
+
+      expect(await getPreviousActions('retro-2')).toEqual({ retro: null, actionItems: [] });
+      expect(mockGet).toHaveBeenCalledWith('/retros/retro-2/previous-actions');
+    });
+
+    it('downloads the team calendar of action item due dates', async () => {
+      const file = new Blob(['BEGIN:VCALENDAR']);
+      mockGet.mockResolvedValue({ data: file });
+
+      expect(await getActionsCalendar('team-1')).toBe(file);
+      expect(mockGet).toHaveBeenCalledWith('/actions/actions.ics', { params: { teamId: 'team-1' }, responseType: 'blob' });
+    });
+
+    it('pushes action items to the issue tracker and syncs them back', async () => {
+      mockGet.mockResolvedValue({ data: { name: 'Jira' } });
+      mockPost.mockResolvedValue({ data: { id: 'action-1', externalIssue: { tracker: 'Jira', key: 'OPS-1' } } });
+
+      expect(await getIssueTracker()).toBe('Jira');
+      expect(mockGet).toHaveBeenCalledWith('/actions/tracker');
+
+      expect((await pushActionToTracker('retro-1', 'action-1')).externalIssue?.key).toBe('OPS-1');
+      expect(mockPost).toHaveBeenCalledWith('/actions/retro-1/action-1/push');
+
+      await syncActionFromTracker('retro-1', 'action-1');
+      expect(mockPost).toHaveBeenCalledWith('/actions/retro-1/action-1/sync');
+    });
+  });
+
+  describe('Retro export and report', () => {
+    it('downloads the results in the requested format', async () => {
+      const file = new Blob(['Cards']);
+      mockGet.mockResolvedValue({ data: file });
+
+      expect(await exportRetro('retro-1', 'xlsx')).toBe(file);
+      expect(mockGet).toHaveBeenCalledWith('/retros/retro-1/export', { params: { format: 'xlsx' }, responseType: 'blob' });
+    });
+
+    it('downloads the rendered report and shares a link to it', async () => {
+      const file = new Blob(['# Sprint 42']);
+      mockGet.mockResolvedValue({ data: file });
+      mockPost.mockResolvedValue({ data: { url: 'https://retro.example.com/api/reports/abc' } });
+
+      expect(await getRetroReport('retro-1', 'md')).toBe(file);
+      expect(mockGet).toHaveBeenCalledWith('/retros/retro-1/report', { params: { format: 'md' }, responseType: 'blob' });
+
+      expect(await shareRetroReport('retro-1')).toBe('https://retro.example.com/api/reports/abc');
+      expect(mockPost).toHaveBeenCalledWith('/retros/retro-1/report/share');
+    });
+
+    it('downloads the calendar invite of a scheduled retro', async () => {
+      const file = new Blob(['BEGIN:VCALENDAR']);
+      mockGet.mockResolvedValue({ data: file });
+
+      expect(await getRetroInvite('retro-1')).toBe(file);
+      expect(mockGet).toHaveBeenCalledWith('/retros/retro-1/invite.ics', { responseType: 'blob' });
+    });
+  });
+
+  describe('Analytics API', () => {
+    it('fetches team analytics for an optional date range', async () => {
+      const analytics = { teamId: 'team-1', teamSize: 3, retros: [], actionCompletionRate: null, recurringThemes: [] };
+      mockGet.mockResolvedValue({ data: analytics });
+
+      expect(await getTeamAnalytics('team-1')).toEqual(analytics);
+      expect(mockGet).toHaveBeenCalledWith('/analytics', { params: { teamId: 'team-1' } });
+
+      await getTeamAnalytics('team-1', { from: '2025-01-01T00:00:00.000Z' });
+      expect(mockGet).toHaveBeenCalledWith('/analytics', { params: { teamId: 'team-1', from: '2025-01-01T00:00:00.000Z' } });
+    });
+  });
 });
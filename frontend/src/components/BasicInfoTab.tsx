@@ -1,13 +1,31 @@
 import { UseFormRegister, FieldErrors } from 'react-hook-form';
 import { CreateRetroData, Template } from '@/types/retro';
+import { Team } from '@/types/auth';
 
 interface BasicInfoTabProps {
   register: UseFormRegister<CreateRetroData>;
   errors: FieldErrors<CreateRetroData>;
   templates: Template[];
+  // The logged-in user's teams; the team picker is hidden when there are none
+  teams?: Team[];
+  // Only passed for logged-in users; onEditTemplate only when they may edit the selected template
+  onCreateTemplate?: () => void;
+  onEditTemplate?: () => void;
+  onImportTemplate?: (file: File) => void;
+  // Only passed while a template is selected
+  onExportTemplate?: () => void;
 }
 
-export default function BasicInfoTab({ register, errors, templates }: BasicInfoTabProps) {
+export default function BasicInfoTab({
+  register,
+  errors,
+  templates,
+  teams = [],
+  onCreateTemplate,
+  onEditTemplate,
+  onImportTemplate,
+  onExportTemplate,
+}: BasicInfoTabProps) {
   return (
     <div className="space-y-6">
       {/* Session Name */}
@@ -39,6 +57,42 @@ export default function BasicInfoTab({ register, errors, templates }: BasicInfoT
         />
       </div>
 
+      {/* Start Time */}
+      <div>
+        <label htmlFor="scheduled-at" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Start time
+        </label>
+        <input
+          id="scheduled-at"
+          type="datetime-local"
+          {...register('scheduledAt')}
+          className="input-field ml-1"
+        />
+        <p className="text-gray-500 dark:text-gray-400 text-sm mt-1 ml-1">
+          Optional. Participants opening the invite link early see when the retro starts.
+        </p>
+      </div>
+
+      {/* Team */}
+      {teams.length > 0 && (
+        <div>
+          <label htmlFor="team-id" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Team
+          </label>
+          <select id="team-id" {...register('teamId')} className="input-field ml-1">
+            <option value="">No team</option>
+            {teams.map((team) => (
+              <option key={team.id} value={team.id}>
+                {team.name}
+              </option>
+            ))}
+          </select>
+          <p className="text-gray-500 dark:text-gray-400 text-sm mt-1 ml-1">
+            Only team members can take part, and the action items show up in the team's action tracker.
+          </p>
+        </div>
+      )}
+
       {/* Template Selection */}
       <div>
         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -58,6 +112,53 @@ export default function BasicInfoTab({ register, errors, templates }: BasicInfoT
         {errors.templateId && (
           <p className="text-red-500 dark:text-red-400 text-sm mt-1">{errors.templateId.message}</p>
         )}
+        <div className="flex gap-4 mt-2 ml-1 text-sm">
+          {onCreateTemplate ? (
+            <button
+              type="button"
+              onClick={onCreateTemplate}
+              className="text-kone-blue dark:text-kone-lightBlue hover:underline"
+            >
+              Create template
+            </button>
+          ) : (
+            <p className="text-gray-500 dark:text-gray-400">Log in to build your own templates</p>
+          )}
+          {onEditTemplate && (
+            <button
+              type="button"
+              onClick={onEditTemplate}
+              className="text-kone-blue dark:text-kone-lightBlue hover:underline"
+            >
+              Edit template
+            </button>
+          )}
+          {onImportTemplate && (
+            <label className="text-kone-blue dark:text-kone-lightBlue hover:underline cursor-pointer">
+              Import template
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="sr-only"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onImportTemplate(file);
+                  // Allow picking the same file again after fixing it
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          )}
+          {onExportTemplate && (
+            <button
+              type="button"
+              onClick={onExportTemplate}
+              className="text-kone-blue dark:text-kone-lightBlue hover:underline"
+            >
+              Export template
+            </button>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -1,11 +1,15 @@
 import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import toast from 'react-hot-toast';
-import { Retro, CreateRetroData, Template } from '@/types/retro';
-import { getTemplates, createRetro } from '@/services/api';
+import { Retro, CreateRetroData, Template, VotingMethod } from '@/types/retro';
+import { Team } from '@/types/auth';
+import { getTemplates, getTeams, createRetro, importTemplate, exportTemplate } from '@/services/api';
+import { saveFacilitatorToken } from '@/services/facilitatorToken';
+import { useAuth } from '@/context/AuthContext';
 import BasicInfoTab from './BasicInfoTab';
 import ProcessTab from './ProcessTab';
 import OptionsTab from './OptionsTab';
+import TemplateBuilder from './TemplateBuilder';
 
 interface CreateRetroFormProps {
   onSuccess: (retro: Retro) => void;
@@ -14,14 +18,32 @@ interface CreateRetroFormProps {
 
 type TabType = 'basic' | 'process' | 'options';
 
+const readFileText = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsText(file);
+});
+
 export default function CreateRetroForm({ onSuccess, onCancel }: CreateRetroFormProps) {
+  const { user } = useAuth();
   const [templates, setTemplates] = useState<Template[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
   const [activeTab, setActiveTab] = useState<TabType>('basic');
+  // The template builder replaces the form while open; editingTemplate is unset for a new template
+  const [isBuilderOpen, setIsBuilderOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<Template | undefined>(undefined);
+  // A new template is selected once its option has rendered, or the select would drop the value
+  const [templateToSelect, setTemplateToSelect] = useState<string | null>(null);
   
   // Process states
+  const [previousActionsEnabled, setPreviousActionsEnabled] = useState(false);
   const [icebreakerEnabled, setIcebreakerEnabled] = useState(true);
   const [groupEnabled, setGroupEnabled] = useState(true);
   const [voteEnabled, setVoteEnabled] = useState(true);
+  const [votingMethod, setVotingMethod] = useState<VotingMethod>('dots');
+  const [maxVotesPerItem, setMaxVotesPerItem] = useState<number | null>(null);
+  const [blindVoting, setBlindVoting] = useState(false);
   const [discussEnabled, setDiscussEnabled] = useState(true);
   const [reviewEnabled, setReviewEnabled] = useState(true);
   
@@ -31,7 +53,7 @@ export default function CreateRetroForm({ onSuccess, onCancel }: CreateRetroForm
   const [commentReactionsEnabled, setCommentReactionsEnabled] = useState(true);
   const [nameDeck, setNameDeck] = useState('random');
   
-  const { register, handleSubmit, formState: { errors } } = useForm<CreateRetroData>({
+  const { register, handleSubmit, setValue, watch, formState: { errors } } = useForm<CreateRetroData>({
     defaultValues: {
       isAnonymous: false,
       votingLimit: 5,
@@ -43,6 +65,13 @@ export default function CreateRetroForm({ onSuccess, onCancel }: CreateRetroForm
     fetchTemplates();
   }, []);
 
+  useEffect(() => {
+    if (!user) return;
+    getTeams()
+      .then(setTeams)
+      .catch(() => toast.error('Failed to load teams'));
+  }, [user]);
+
   const fetchTemplates = async () => {
     try {
       const templates = await getTemplates();
@@ -52,10 +81,102 @@ export default function CreateRetroForm({ onSuccess, onCancel }: CreateRetroForm
     }
   };
 
+  // Custom templates can be edited by whoever built them (and admins)
+  const selectedTemplate = templates.find(template => template.id === watch('templateId'));
+  const canEditSelectedTemplate = !!user && !!selectedTemplate && !selectedTemplate.isDefault &&
+    (selectedTemplate.createdBy === user.id || user.role === 'admin');
+
+  const openTemplateBuilder = (template?: Template) => {
+    setEditingTemplate(template);
+    setIsBuilderOpen(true);
+  };
+
+  const handleTemplateSaved = (saved: Template) => {
+    setTemplates(current => current.some(template => template.id === saved.id)
+      ? current.map(template => (template.id === saved.id ? saved : template))
+      : [...current, saved]);
+    setTemplateToSelect(saved.id);
+    setIsBuilderOpen(false);
+  };
+
+  useEffect(() => {
+    if (templateToSelect && templates.some(template => template.id === templateToSelect)) {
+      setValue('templateId', templateToSelect, { shouldValidate: true });
+      setTemplateToSelect(null);
+    }
+  }, [templates, templateToSelect]);
+
+  // Picking a template applies the retro defaults it brings (e.g. from an imported file)
+  useEffect(() => {
+    if (!selectedTemplate) return;
+    const { stages, options } = selectedTemplate;
+
+    if (stages) {
+      const isEnabled = (stageId: string) => stages.some(stage => stage.id === stageId && stage.enabled);
+      setPreviousActionsEnabled(isEnabled('previous-actions'));
+      setIcebreakerEnabled(isEnabled('icebreaker'));
+      setGroupEnabled(isEnabled('group'));
+      setVoteEnabled(isEnabled('vote'));
+      setDiscussEnabled(isEnabled('discuss'));
+      setReviewEnabled(isEnabled('review'));
+    }
+    if (options?.votingMethod) setVotingMethod(options.votingMethod);
+    if (options?.nameDeck) setNameDeck(options.nameDeck);
+    if (options?.reactionsEnabled !== undefined) setReactionsEnabled(options.reactionsEnabled);
+    if (options?.commentsEnabled !== undefined) setCommentsEnabled(options.commentsEnabled);
+    if (options?.commentReactionsEnabled !== undefined) setCommentReactionsEnabled(options.commentReactionsEnabled);
+  }, [selectedTemplate?.id]);
+
+  const handleImportTemplate = async (file: File) => {
+    let templateFile: unknown;
+    try {
+      templateFile = JSON.parse(await readFileText(file));
+    } catch {
+      toast.error(`${file.name} is not a JSON file`);
+      return;
+    }
+
+    try {
+      const imported = await importTemplate(templateFile);
+      setTemplates(current => [...current, imported]);
+      setTemplateToSelect(imported.id);
+      toast.success(`Imported "${imported.name}"`);
+    } catch (error: any) {
+      const data = error.response?.data;
+      // The server lists every problem with the file
+      const details = data?.errors?.length ? `: ${data.errors.join('; ')}` : '';
+      toast.error(`${data?.message || 'Failed to import template'}${details}`);
+    }
+  };
+
+  const handleExportTemplate = async () => {
+    if (!selectedTemplate) return;
+
+    try {
+      const templateFile = await exportTemplate(selectedTemplate.id);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(templateFile, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${selectedTemplate.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.template.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error('Failed to export template');
+    }
+  };
+
+  const handleTemplateDeleted = (templateId: string) => {
+    setTemplates(current => current.filter(template => template.id !== templateId));
+    setValue('templateId', '');
+    setIsBuilderOpen(false);
+  };
+
   const onSubmit = async (data: CreateRetroData) => {
     try {
       // Build stages configuration based on user selections
       const stages = [
+        // Only team retros have a previous retro to follow up on
+        { id: 'previous-actions', name: 'Previous Actions', duration: 0, enabled: previousActionsEnabled && !!data.teamId },
         { id: 'icebreaker', name: 'Icebreaker', duration: 0, enabled: icebreakerEnabled },
         { id: 'brainstorm', name: 'Brainstorm', duration: 0, enabled: true }, // Always enabled
         { id: 'group', name: 'Group', duration: 0, enabled: groupEnabled },
@@ -67,14 +188,25 @@ export default function CreateRetroForm({ onSuccess, onCancel }: CreateRetroForm
 
       const retroData = {
         ...data,
+        teamId: data.teamId || undefined,
         stages,
+        votingMethod,
+        // Ranked and points voting use the server's default limit for the method
+        votingLimit: votingMethod === 'dots' ? data.votingLimit : undefined,
+        maxVotesPerItem: votingMethod === 'ranked' ? null : maxVotesPerItem,
+        blindVoting: voteEnabled && blindVoting,
         reactionsEnabled,
         commentsEnabled,
         commentReactionsEnabled,
         nameDeck,
+        // datetime-local values are in the browser's time zone
+        scheduledAt: data.scheduledAt ? new Date(data.scheduledAt).toISOString() : null,
       };
 
       const retro = await createRetro(retroData);
+      if (retro.facilitatorToken) {
+        saveFacilitatorToken(retro.id, retro.facilitatorToken);
+      }
       toast.success('Retrospective created successfully!');
       onSuccess(retro);
     } catch (error: any) {
@@ -95,6 +227,17 @@ export default function CreateRetroForm({ onSuccess, onCancel }: CreateRetroForm
     handleSubmit(onSubmit)();
   };
 
+  if (isBuilderOpen) {
+    return (
+      <TemplateBuilder
+        template={editingTemplate}
+        onSaved={handleTemplateSaved}
+        onDeleted={handleTemplateDeleted}
+        onCancel={() => setIsBuilderOpen(false)}
+      />
+    );
+  }
+
   return (
     <div>
       {/* Tabs */}
@@ -153,18 +296,31 @@ export default function CreateRetroForm({ onSuccess, onCancel }: CreateRetroForm
                 register={register} 
                 errors={errors} 
                 templates={templates} 
+                teams={teams}
+                onCreateTemplate={user ? () => openTemplateBuilder() : undefined}
+                onEditTemplate={canEditSelectedTemplate ? () => openTemplateBuilder(selectedTemplate) : undefined}
+                onImportTemplate={user ? handleImportTemplate : undefined}
+                onExportTemplate={selectedTemplate ? handleExportTemplate : undefined}
               />
             )}
 
             {/* Process Tab */}
             {activeTab === 'process' && (
               <ProcessTab
+                previousActionsEnabled={previousActionsEnabled}
+                setPreviousActionsEnabled={setPreviousActionsEnabled}
                 icebreakerEnabled={icebreakerEnabled}
                 setIcebreakerEnabled={setIcebreakerEnabled}
                 groupEnabled={groupEnabled}
                 setGroupEnabled={setGroupEnabled}
                 voteEnabled={voteEnabled}
                 setVoteEnabled={setVoteEnabled}
+                votingMethod={votingMethod}
+                setVotingMethod={setVotingMethod}
+                maxVotesPerItem={maxVotesPerItem}
+                setMaxVotesPerItem={setMaxVotesPerItem}
+                blindVoting={blindVoting}
+                setBlindVoting={setBlindVoting}
                 discussEnabled={discussEnabled}
                 setDiscussEnabled={setDiscussEnabled}
                 reviewEnabled={reviewEnabled}
@@ -1,10 +1,13 @@
-import { Link } from 'react-router-dom';
-import { Moon, Sun } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Moon, Sun, LogIn, LogOut, Users, History, ListChecks, BarChart3 } from 'lucide-react';
 import { useTheme } from '@/context/ThemeContext';
+import { useAuth } from '@/context/AuthContext';
 import logo from '@/images/koneLogo.png';
 
 export default function Header() {
   const { theme, toggleTheme } = useTheme();
+  const { user, logout } = useAuth();
+  const navigate = useNavigate();
 
   return (
     <header className="container mx-auto px-4 py-6">
@@ -26,6 +29,56 @@ export default function Header() {
               <Sun className="w-6 h-6 text-yellow-500 dark:text-yellow-400" />
             )}
           </button>
+          {user ? (
+            <>
+              <Link
+                to="/teams"
+                className="flex items-center gap-1 text-gray-700 dark:text-gray-300 hover:text-kone-blue dark:hover:text-kone-lightBlue transition-colors"
+              >
+                <Users className="w-5 h-5" />
+                Teams
+              </Link>
+              <Link
+                to="/history"
+                className="flex items-center gap-1 text-gray-700 dark:text-gray-300 hover:text-kone-blue dark:hover:text-kone-lightBlue transition-colors"
+              >
+                <History className="w-5 h-5" />
+                History
+              </Link>
+              <Link
+                to="/actions"
+                className="flex items-center gap-1 text-gray-700 dark:text-gray-300 hover:text-kone-blue dark:hover:text-kone-lightBlue transition-colors"
+              >
+                <ListChecks className="w-5 h-5" />
+                Actions
+              </Link>
+              <Link
+                to="/analytics"
+                className="flex items-center gap-1 text-gray-700 dark:text-gray-300 hover:text-kone-blue dark:hover:text-kone-lightBlue transition-colors"
+              >
+                <BarChart3 className="w-5 h-5" />
+                Analytics
+              </Link>
+              <span className="text-gray-900 dark:text-gray-100 font-medium">{user.name}</span>
+              <button
+                type="button"
+                onClick={logout}
+                className="flex items-center gap-1 text-gray-700 dark:text-gray-300 hover:text-kone-blue dark:hover:text-kone-lightBlue transition-colors"
+              >
+                <LogOut className="w-5 h-5" />
+                Log out
+              </button>
+            </>
+          ) : (
+            <button
+              type="button"
+              onClick={() => navigate('/login')}
+              className="flex items-center gap-1 text-gray-700 dark:text-gray-300 hover:text-kone-blue dark:hover:text-kone-lightBlue transition-colors"
+            >
+              <LogIn className="w-5 h-5" />
+              Log in
+            </button>
+          )}
         </div>
       </div>
     </header>
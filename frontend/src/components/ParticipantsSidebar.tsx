@@ -1,4 +1,4 @@
-import { Users, Link as LinkIcon, Crown, CheckCircle2 } from 'lucide-react';
+import { Users, Link as LinkIcon, Crown, CheckCircle2, ShieldCheck, ShieldPlus, ShieldMinus, KeyRound } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 interface Participant {
@@ -6,6 +6,7 @@ interface Participant {
   name: string;
   joinedAt: Date;
   isCreator?: boolean;
+  isCoFacilitator?: boolean;
 }
 
 interface ParticipantsSidebarProps {
@@ -15,6 +16,9 @@ interface ParticipantsSidebarProps {
   creatorId: string;
   stageDoneStatus?: { [stageId: string]: string[] };
   currentStageId?: string;
+  onTransferFacilitator?: (participantId: string) => void;
+  onSetCoFacilitator?: (participantId: string, isCoFacilitator: boolean) => void;
+  onRegenerateFacilitatorToken?: () => void;
 }
 
 export default function ParticipantsSidebar({ 
@@ -23,9 +27,13 @@ export default function ParticipantsSidebar({
   currentUserId,
   creatorId,
   stageDoneStatus = {},
-  currentStageId = ''
+  currentStageId = '',
+  onTransferFacilitator,
+  onSetCoFacilitator,
+  onRegenerateFacilitatorToken
 }: ParticipantsSidebarProps) {
   const isCurrentUserCreator = currentUserId === creatorId;
+  const isCurrentUserCoFacilitator = participants.some((p) => p.id === currentUserId && p.isCoFacilitator);
   
   // Check if user is done with the current stage (only for brainstorm and vote stages)
   const isUserDone = (userId: string): boolean => {
@@ -55,7 +63,7 @@ export default function ParticipantsSidebar({
         </div>
 
         {/* Progress bar for admin - only show during brainstorm/vote stages */}
-        {isCurrentUserCreator && (currentStageId === 'brainstorm' || currentStageId === 'vote') && (
+        {(isCurrentUserCreator || isCurrentUserCoFacilitator) && (currentStageId === 'brainstorm' || currentStageId === 'vote') && (
           <div className="mb-4 p-3 bg-kone-blue/5 dark:bg-kone-blue/10 rounded-lg border border-kone-blue/20 dark:border-kone-lightBlue/20">
             <div className="flex items-center justify-between mb-2">
               <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Progress</span>
@@ -90,6 +98,7 @@ export default function ParticipantsSidebar({
               .map((participant) => {
               const isCreator = participant.id === creatorId;
               const isCurrentUser = participant.id === currentUserId;
+              const isCoFacilitator = !isCreator && !!participant.isCoFacilitator;
               const isDone = isUserDone(participant.id);
               
               return (
@@ -123,8 +132,34 @@ export default function ParticipantsSidebar({
                     </div>
                     <p className="text-xs text-gray-500 dark:text-gray-400">
                       {isDone ? 'Done' : 'Online'}
+                      {isCoFacilitator && ' · Co-facilitator'}
                     </p>
                   </div>
+                  {/* Facilitator controls - only the lead facilitator manages roles */}
+                  {isCurrentUserCreator && !isCurrentUser && (
+                    <div className="flex items-center gap-1">
+                      {onSetCoFacilitator && (
+                        <button
+                          onClick={() => onSetCoFacilitator(participant.id, !isCoFacilitator)}
+                          className="p-1.5 rounded text-gray-500 hover:text-kone-blue hover:bg-gray-200 dark:text-gray-400 dark:hover:text-kone-lightBlue dark:hover:bg-gray-600 transition-colors"
+                          title={isCoFacilitator ? 'Remove co-facilitator' : 'Make co-facilitator'}
+                          aria-label={`${isCoFacilitator ? 'Remove co-facilitator' : 'Make co-facilitator'}: ${participant.name}`}
+                        >
+                          {isCoFacilitator ? <ShieldMinus className="w-4 h-4" /> : <ShieldPlus className="w-4 h-4" />}
+                        </button>
+                      )}
+                      {onTransferFacilitator && (
+                        <button
+                          onClick={() => onTransferFacilitator(participant.id)}
+                          className="p-1.5 rounded text-gray-500 hover:text-yellow-600 hover:bg-gray-200 dark:text-gray-400 dark:hover:text-yellow-400 dark:hover:bg-gray-600 transition-colors"
+                          title="Make facilitator"
+                          aria-label={`Make facilitator: ${participant.name}`}
+                        >
+                          <Crown className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
               );
             })
@@ -151,6 +186,25 @@ export default function ParticipantsSidebar({
               <Crown className="w-4 h-4" />
               <p className="text-xs font-medium">You are the room creator</p>
             </div>
+            {onRegenerateFacilitatorToken && (
+              <button
+                onClick={onRegenerateFacilitatorToken}
+                className="mt-2 flex items-center gap-1 text-xs text-yellow-800 dark:text-yellow-300 hover:underline"
+                title="Issue a new facilitator key; the old one stops working"
+              >
+                <KeyRound className="w-3 h-3" />
+                Regenerate facilitator key
+              </button>
+            )}
+          </div>
+        )}
+
+        {isCurrentUserCoFacilitator && !isCurrentUserCreator && (
+          <div className="mt-4 p-3 bg-kone-blue/5 dark:bg-kone-blue/10 border border-kone-blue/20 dark:border-kone-lightBlue/20 rounded-lg">
+            <div className="flex items-center gap-2 text-kone-blue dark:text-kone-lightBlue">
+              <ShieldCheck className="w-4 h-4" />
+              <p className="text-xs font-medium">You are a co-facilitator</p>
+            </div>
           </div>
         )}
       </div>
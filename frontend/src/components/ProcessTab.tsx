@@ -1,10 +1,23 @@
+import { VotingMethod } from '@/types/retro';
+import { getVotingMethodLabel } from '@/types/retroUtils';
+
+const VOTING_METHODS: VotingMethod[] = ['dots', 'ranked', 'points'];
+
 interface ProcessTabProps {
+  previousActionsEnabled: boolean;
+  setPreviousActionsEnabled: (enabled: boolean) => void;
   icebreakerEnabled: boolean;
   setIcebreakerEnabled: (enabled: boolean) => void;
   groupEnabled: boolean;
   setGroupEnabled: (enabled: boolean) => void;
   voteEnabled: boolean;
   setVoteEnabled: (enabled: boolean) => void;
+  votingMethod: VotingMethod;
+  setVotingMethod: (method: VotingMethod) => void;
+  maxVotesPerItem: number | null;
+  setMaxVotesPerItem: (max: number | null) => void;
+  blindVoting: boolean;
+  setBlindVoting: (enabled: boolean) => void;
   discussEnabled: boolean;
   setDiscussEnabled: (enabled: boolean) => void;
   reviewEnabled: boolean;
@@ -12,12 +25,20 @@ interface ProcessTabProps {
 }
 
 export default function ProcessTab({
+  previousActionsEnabled,
+  setPreviousActionsEnabled,
   icebreakerEnabled,
   setIcebreakerEnabled,
   groupEnabled,
   setGroupEnabled,
   voteEnabled,
   setVoteEnabled,
+  votingMethod,
+  setVotingMethod,
+  maxVotesPerItem,
+  setMaxVotesPerItem,
+  blindVoting,
+  setBlindVoting,
   discussEnabled,
   setDiscussEnabled,
   reviewEnabled,
@@ -29,6 +50,38 @@ export default function ProcessTab({
         Configure how your retrospective session will flow and what phases it will include.
       </p>
 
+      {/* Previous Actions */}
+      <div
+        className={`card border-2 transition-colors ${
+          previousActionsEnabled
+            ? 'bg-white dark:bg-gray-800 border-kone-blue dark:border-kone-lightBlue'
+            : 'bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600'
+        }`}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex-1">
+            <h4 className="font-semibold text-gray-900 dark:text-gray-100 mb-1">Previous Actions</h4>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Follow up on the unfinished action items of your team's last retro. Only for team retros.
+            </p>
+          </div>
+          <div className="flex-shrink-0 ml-4">
+            <button
+              type="button"
+              onClick={() => setPreviousActionsEnabled(!previousActionsEnabled)}
+              aria-label={`${previousActionsEnabled ? 'Disable' : 'Enable'} previous actions phase`}
+              className={`w-12 h-6 rounded-full flex items-center px-1 transition-colors ${
+                previousActionsEnabled ? 'bg-kone-blue dark:bg-kone-lightBlue' : 'bg-gray-300 dark:bg-gray-600'
+              }`}
+            >
+              <div className={`w-4 h-4 bg-white rounded-full transition-transform ${
+                previousActionsEnabled ? 'translate-x-6' : 'translate-x-0'
+              }`}></div>
+            </button>
+          </div>
+        </div>
+      </div>
+
       {/* Icebreaker */}
       <div
         className={`card border-2 transition-colors ${
@@ -132,6 +185,63 @@ export default function ProcessTab({
             </button>
           </div>
         </div>
+        {voteEnabled && (
+          <div className="mt-3 flex items-center justify-between gap-4">
+            <label htmlFor="votingMethod" className="text-sm text-gray-700 dark:text-gray-300">
+              Voting method
+            </label>
+            <select
+              id="votingMethod"
+              value={votingMethod}
+              onChange={(e) => setVotingMethod(e.target.value as VotingMethod)}
+              className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-kone-blue dark:focus:ring-kone-lightBlue"
+            >
+              {VOTING_METHODS.map((method) => (
+                <option key={method} value={method}>{getVotingMethodLabel(method)}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        {voteEnabled && votingMethod !== 'ranked' && (
+          <div className="mt-3 flex items-center justify-between gap-4">
+            <label htmlFor="maxVotesPerItem" className="text-sm text-gray-700 dark:text-gray-300">
+              Max votes per item
+            </label>
+            <select
+              id="maxVotesPerItem"
+              value={maxVotesPerItem ?? ''}
+              onChange={(e) => setMaxVotesPerItem(e.target.value ? Number(e.target.value) : null)}
+              className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-kone-blue dark:focus:ring-kone-lightBlue"
+            >
+              <option value="">No limit</option>
+              {[1, 2, 3, 4, 5].map((max) => (
+                <option key={max} value={max}>{max}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        {voteEnabled && (
+          <div className="mt-3 flex items-center justify-between gap-4">
+            <div>
+              <p className="text-sm text-gray-700 dark:text-gray-300">Blind voting</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Hide vote counts until the facilitator reveals them.
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setBlindVoting(!blindVoting)}
+              aria-label={`${blindVoting ? 'Disable' : 'Enable'} blind voting`}
+              className={`w-12 h-6 flex-shrink-0 rounded-full flex items-center px-1 transition-colors ${
+                blindVoting ? 'bg-kone-blue dark:bg-kone-lightBlue' : 'bg-gray-300 dark:bg-gray-600'
+              }`}
+            >
+              <div className={`w-4 h-4 bg-white rounded-full transition-transform ${
+                blindVoting ? 'translate-x-6' : 'translate-x-0'
+              }`}></div>
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Discuss */}
@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { ArrowUp, ArrowDown, Trash2, Plus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Template, TemplateColumn } from '@/types/retro';
+import { createTemplate, updateTemplate, deleteTemplate } from '@/services/api';
+
+const MIN_COLUMNS = 2;
+const MAX_COLUMNS = 8;
+const COLUMN_COLORS = ['#10b981', '#ef4444', '#3b82f6', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#6b7280'];
+
+// Columns being edited; new columns get an id from their name when the template is saved
+type DraftColumn = Omit<TemplateColumn, 'order'> & { key: string };
+
+interface TemplateBuilderProps {
+  // The custom template to edit, or undefined to build a new one
+  template?: Template;
+  onSaved: (template: Template) => void;
+  onDeleted: (templateId: string) => void;
+  onCancel: () => void;
+}
+
+let nextColumnKey = 0;
+const newColumnKey = () => `column-${nextColumnKey++}`;
+
+const toDraftColumns = (template?: Template): DraftColumn[] => {
+  if (!template) {
+    return [
+      { key: newColumnKey(), id: '', name: '', color: COLUMN_COLORS[0], placeholder: '' },
+      { key: newColumnKey(), id: '', name: '', color: COLUMN_COLORS[1], placeholder: '' },
+    ];
+  }
+  return [...template.columns]
+    .sort((a, b) => a.order - b.order)
+    .map(({ order: _order, ...column }) => ({ ...column, key: newColumnKey() }));
+};
+
+// Lowercase, dash-separated id from a column name, made unique among the template's columns
+const toColumnId = (name: string, takenIds: Set<string>): string => {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'column';
+  let id = base;
+  for (let suffix = 2; takenIds.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+};
+
+export default function TemplateBuilder({ template, onSaved, onDeleted, onCancel }: TemplateBuilderProps) {
+  const [name, setName] = useState(template?.name ?? '');
+  const [description, setDescription] = useState(template?.description ?? '');
+  const [columns, setColumns] = useState<DraftColumn[]>(() => toDraftColumns(template));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateColumn = (key: string, changes: Partial<DraftColumn>) => {
+    setColumns(current => current.map(column => (column.key === key ? { ...column, ...changes } : column)));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setColumns(current => {
+      const reordered = [...current];
+      [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const addColumn = () => {
+    setColumns(current => [
+      ...current,
+      { key: newColumnKey(), id: '', name: '', color: COLUMN_COLORS[current.length % COLUMN_COLORS.length], placeholder: '' },
+    ]);
+  };
+
+  const removeColumn = (key: string) => {
+    setColumns(current => current.filter(column => column.key !== key));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Give the template a name');
+      return;
+    }
+    if (columns.some(column => !column.name.trim())) {
+      toast.error('Every column needs a name');
+      return;
+    }
+
+    // Existing columns keep their ids so cards in retros using the template stay in place
+    const takenIds = new Set(columns.map(column => column.id).filter(Boolean));
+    const templateColumns: TemplateColumn[] = columns.map(({ key: _key, ...column }, index) => {
+      const id = column.id || toColumnId(column.name, takenIds);
+      takenIds.add(id);
+      return { ...column, id, order: index + 1 };
+    });
+    const data = { name, description, columns: templateColumns };
+
+    setIsSaving(true);
+    try {
+      const saved = template ? await updateTemplate(template.id, data) : await createTemplate(data);
+      toast.success(template ? 'Template updated' : 'Template saved');
+      onSaved(saved);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!template) return;
+
+    try {
+      await deleteTemplate(template.id);
+      toast.success('Template deleted');
+      onDeleted(template.id);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to delete template');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+        {template ? 'Edit Template' : 'New Template'}
+      </h3>
+
+      <div>
+        <label htmlFor="template-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Template Name *
+        </label>
+        <input
+          id="template-name"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="input-field"
+          placeholder="e.g., Keep, Drop, Try"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="template-description" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Description
+        </label>
+        <input
+          id="template-description"
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className="input-field"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Columns ({MIN_COLUMNS}-{MAX_COLUMNS})
+        </p>
+        {columns.map((column, index) => (
+          <div key={column.key} className="flex items-center gap-2">
+            <input
+              type="color"
+              value={column.color}
+              onChange={(e) => updateColumn(column.key, { color: e.target.value })}
+              className="w-9 h-9 rounded cursor-pointer flex-shrink-0"
+              aria-label={`Column ${index + 1} color`}
+            />
+            <input
+              type="text"
+              value={column.name}
+              onChange={(e) => updateColumn(column.key, { name: e.target.value })}
+              className="input-field flex-1"
+              placeholder="Column name"
+              aria-label={`Column ${index + 1} name`}
+            />
+            <input
+              type="text"
+              value={column.placeholder}
+              onChange={(e) => updateColumn(column.key, { placeholder: e.target.value })}
+              className="input-field flex-1"
+              placeholder="Placeholder text"
+              aria-label={`Column ${index + 1} placeholder`}
+            />
+            <button
+              type="button"
+              onClick={() => moveColumn(index, -1)}
+              disabled={index === 0}
+              className="p-1.5 rounded text-gray-500 hover:bg-gray-200 dark:text-gray-400 dark:hover:bg-gray-600 disabled:opacity-30"
+              aria-label={`Move column ${index + 1} up`}
+            >
+              <ArrowUp className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => moveColumn(index, 1)}
+              disabled={index === columns.length - 1}
+              className="p-1.5 rounded text-gray-500 hover:bg-gray-200 dark:text-gray-400 dark:hover:bg-gray-600 disabled:opacity-30"
+              aria-label={`Move column ${index + 1} down`}
+            >
+              <ArrowDown className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => removeColumn(column.key)}
+              disabled={columns.length <= MIN_COLUMNS}
+              className="p-1.5 rounded text-gray-500 hover:text-red-600 hover:bg-gray-200 dark:text-gray-400 dark:hover:text-red-400 dark:hover:bg-gray-600 disabled:opacity-30"
+              aria-label={`Remove column ${index + 1}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={addColumn}
+          disabled={columns.length >= MAX_COLUMNS}
+          className="btn-secondary flex items-center gap-2 disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          Add Column
+        </button>
+      </div>
+
+      <div className="flex gap-2 pt-2">
+        <button type="button" onClick={onCancel} className="btn-secondary flex-1">
+          Cancel
+        </button>
+        {template && (
+          <button type="button" onClick={handleDelete} className="btn-secondary flex-1 text-red-600 dark:text-red-400">
+            Delete Template
+          </button>
+        )}
+        <button type="button" onClick={handleSave} disabled={isSaving} className="btn-primary flex-1">
+          Save Template
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { MessageSquare, Pencil, Trash2, Send, X, Check } from 'lucide-react';
+import { Comment } from '@/types/retroBoard';
+
+interface CommentThreadProps {
+  itemId: string;
+  comments: Comment[];
+  currentUserId: string;
+  ws: WebSocket | null;
+  retroId: string;
+  commentReactionsEnabled: boolean;
+  isRoomCreator?: boolean;
+  defaultOpen?: boolean;
+}
+
+// Quick reaction emojis for comments
+const commentEmojis = ['👍', '❤️', '😂', '🎉'];
+
+export default function CommentThread({
+  itemId,
+  comments,
+  currentUserId,
+  ws,
+  retroId,
+  commentReactionsEnabled,
+  isRoomCreator = false,
+  defaultOpen = false,
+}: CommentThreadProps) {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const [newComment, setNewComment] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+
+  const send = (message: object) => {
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ ...message, retroId }));
+    }
+  };
+
+  // Comments are created server-side and come back as 'comment-added'
+  const handleAdd = () => {
+    const content = newComment.trim();
+    if (!content) return;
+
+    send({ type: 'comment-add', itemId, content });
+    setNewComment('');
+  };
+
+  const handleSaveEdit = (commentId: string) => {
+    const content = editContent.trim();
+    if (!content) return;
+
+    send({ type: 'comment-edit', commentId, content });
+    setEditingId(null);
+    setEditContent('');
+  };
+
+  const handleDelete = (commentId: string) => {
+    send({ type: 'comment-delete', commentId });
+  };
+
+  const handleToggleReaction = (commentId: string, emoji: string) => {
+    send({ type: 'comment-reaction-toggle', commentId, emoji });
+  };
+
+  return (
+    <div className="mt-2" onClick={(e) => e.stopPropagation()}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 hover:text-kone-blue dark:hover:text-kone-lightBlue"
+        title={isOpen ? 'Hide comments' : 'Show comments'}
+      >
+        <MessageSquare className="w-3.5 h-3.5" />
+        <span>{comments.length > 0 ? `${comments.length} comment${comments.length === 1 ? '' : 's'}` : 'Comment'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          {comments.map((comment) => {
+            const isAuthor = comment.authorId === currentUserId;
+
+            return (
+              <div key={comment.id} className="p-2 bg-gray-50 dark:bg-gray-700 rounded text-xs">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="font-medium text-gray-700 dark:text-gray-300">{comment.authorName}</span>
+                  {comment.updatedAt && <span className="text-gray-400 italic">(edited)</span>}
+                  {(isAuthor || isRoomCreator) && editingId !== comment.id && (
+                    <div className="ml-auto flex items-center gap-1">
+                      {isAuthor && (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setEditingId(comment.id);
+                            setEditContent(comment.content);
+                          }}
+                          className="p-0.5 text-gray-400 hover:text-kone-blue dark:hover:text-kone-lightBlue"
+                          title="Edit comment"
+                        >
+                          <Pencil className="w-3 h-3" />
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(comment.id)}
+                        className="p-0.5 text-gray-400 hover:text-red-500"
+                        title="Delete comment"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {editingId === comment.id ? (
+                  <div className="flex items-center gap-1">
+                    <input
+                      type="text"
+                      value={editContent}
+                      onChange={(e) => setEditContent(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleSaveEdit(comment.id)}
+                      className="flex-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                      aria-label="Edit comment"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleSaveEdit(comment.id)}
+                      className="p-1 text-green-600 hover:text-green-700"
+                      title="Save comment"
+                    >
+                      <Check className="w-3 h-3" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingId(null)}
+                      className="p-1 text-gray-400 hover:text-gray-600"
+                      title="Cancel editing"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ) : (
+                  <p className="text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-all">{comment.content}</p>
+                )}
+
+                {commentReactionsEnabled && (
+                  <div className="flex items-center gap-1 mt-1 flex-wrap">
+                    {commentEmojis.map((emoji) => {
+                      const reactors = comment.reactions[emoji] || [];
+                      const hasReacted = reactors.includes(currentUserId);
+
+                      return (
+                        <button
+                          key={emoji}
+                          type="button"
+                          onClick={() => handleToggleReaction(comment.id, emoji)}
+                          className={`flex items-center gap-0.5 px-1.5 py-0.5 rounded-full transition-colors ${
+                            hasReacted
+                              ? 'bg-kone-blue/20 dark:bg-kone-lightBlue/20 border border-kone-blue dark:border-kone-lightBlue'
+                              : reactors.length > 0
+                              ? 'bg-gray-100 dark:bg-gray-600'
+                              : 'opacity-40 hover:opacity-100'
+                          }`}
+                          title={`React with ${emoji}`}
+                        >
+                          <span>{emoji}</span>
+                          {reactors.length > 0 && (
+                            <span className="text-gray-600 dark:text-gray-300">{reactors.length}</span>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="flex items-center gap-1">
+            <input
+              type="text"
+              value={newComment}
+              onChange={(e) => setNewComment(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              placeholder="Add a comment..."
+              className="flex-1 px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              aria-label="Add a comment"
+            />
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={!newComment.trim()}
+              className="p-1.5 text-kone-blue dark:text-kone-lightBlue disabled:opacity-40"
+              title="Post comment"
+            >
+              <Send className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 import { useState, useEffect, useMemo } from 'react';
 import { MessageCircle, ChevronLeft, ChevronRight, ThumbsUp, CheckCircle2, Clock, Play, Pause, RotateCcw, Users, Crown } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { Template, Card, CardGroup, VoteData } from '@/types/retroBoard';
-import { getDiscussionItems, getColumnInfo, formatTime } from '@/types/retroUtils';
+import { Template, Card, CardGroup, VoteData, Comment } from '@/types/retroBoard';
+import { getDiscussionItems, getColumnInfo, getItemComments, formatTime } from '@/types/retroUtils';
+import CommentThread from './CommentThread';
 
 interface DiscussStageProps {
   template: Template | undefined;
@@ -15,10 +16,14 @@ interface DiscussStageProps {
   isRoomCreator: boolean;
   discussedItems: Set<string>;
   setDiscussedItems: React.Dispatch<React.SetStateAction<Set<string>>>;
+  comments?: Comment[];
+  commentsEnabled?: boolean;
+  commentReactionsEnabled?: boolean;
 }
 
 export default function DiscussStage({ 
   template, 
+  currentUserId,
   ws, 
   retroId,
   cards, 
@@ -26,7 +31,10 @@ export default function DiscussStage({
   votes,
   isRoomCreator,
   discussedItems,
-  setDiscussedItems
+  setDiscussedItems,
+  comments = [],
+  commentsEnabled = false,
+  commentReactionsEnabled = false
 }: DiscussStageProps) {
   const [currentItemIndex, setCurrentItemIndex] = useState(0);
   const [discussionTimer, setDiscussionTimer] = useState(0);
@@ -349,6 +357,23 @@ export default function DiscussStage({
                 </div>
               )}
 
+              {/* Comments on the current topic */}
+              {commentsEnabled && currentItem && (
+                <div className="mt-4">
+                  <CommentThread
+                    key={currentItem.id}
+                    itemId={currentItem.id}
+                    comments={getItemComments(comments, currentItem.id, currentItem.cards.map(c => c.id))}
+                    currentUserId={currentUserId}
+                    ws={ws}
+                    retroId={retroId}
+                    commentReactionsEnabled={commentReactionsEnabled}
+                    isRoomCreator={isRoomCreator}
+                    defaultOpen
+                  />
+                </div>
+              )}
+
               {/* Navigation and Actions */}
               <div className="flex items-center justify-between mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
                 {isRoomCreator ? (
@@ -1,6 +1,8 @@
 import { useState, useRef, useEffect } from 'react';
 import { Layers, X, Smile } from 'lucide-react';
-import { Template, Card, CardGroup, Reactions } from '@/types/retroBoard';
+import { Template, Card, CardGroup, Reactions, Comment } from '@/types/retroBoard';
+import { getItemComments } from '@/types/retroUtils';
+import CommentThread from './CommentThread';
 
 interface GroupStageProps {
   template: Template | undefined;
@@ -12,6 +14,10 @@ interface GroupStageProps {
   cardGroups: CardGroup[];
   setCardGroups: React.Dispatch<React.SetStateAction<CardGroup[]>>;
   reactions: Reactions;
+  comments?: Comment[];
+  commentsEnabled?: boolean;
+  commentReactionsEnabled?: boolean;
+  isRoomCreator?: boolean;
 }
 
 export default function GroupStage({ 
@@ -23,7 +29,11 @@ export default function GroupStage({
   setCards,
   cardGroups,
   setCardGroups,
-  reactions
+  reactions,
+  comments = [],
+  commentsEnabled = false,
+  commentReactionsEnabled = false,
+  isRoomCreator = false
 }: GroupStageProps) {
   const [draggedCardId, setDraggedCardId] = useState<string | null>(null);
   const [dragOverCardId, setDragOverCardId] = useState<string | null>(null);
@@ -432,6 +442,17 @@ export default function GroupStage({
                               );
                             })}
                           </div>
+                          {commentsEnabled && group && (
+                            <CommentThread
+                              itemId={group.id}
+                              comments={getItemComments(comments, group.id, group.cardIds)}
+                              currentUserId={currentUserId}
+                              ws={ws}
+                              retroId={retroId}
+                              commentReactionsEnabled={commentReactionsEnabled}
+                              isRoomCreator={isRoomCreator}
+                            />
+                          )}
                         </div>
                       ) : (
                         // Single card display
@@ -489,6 +510,17 @@ export default function GroupStage({
                               )}
                             </div>
                           </div>
+                          {commentsEnabled && (
+                            <CommentThread
+                              itemId={card.id}
+                              comments={getItemComments(comments, card.id)}
+                              currentUserId={currentUserId}
+                              ws={ws}
+                              retroId={retroId}
+                              commentReactionsEnabled={commentReactionsEnabled}
+                              isRoomCreator={isRoomCreator}
+                            />
+                          )}
                         </div>
                       )}
                     </div>
@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react';
+import { History, Flag, Calendar, ArrowRightCircle, Check } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ActionItem, PreviousActions } from '@/types/retroBoard';
+import { ACTION_STATUS_LABELS, getPriorityColor, getStatusColor } from '@/types/retroUtils';
+import { getPreviousActions, updateAction } from '@/services/api';
+
+interface PreviousActionsStageProps {
+  ws: WebSocket | null;
+  retroId: string;
+  isRoomCreator: boolean;
+  // This retro's action items, to see what has been carried over already
+  actionItems: ActionItem[];
+  setActionItems: React.Dispatch<React.SetStateAction<ActionItem[]>>;
+}
+
+export default function PreviousActionsStage({
+  ws,
+  retroId,
+  isRoomCreator,
+  actionItems,
+  setActionItems,
+}: PreviousActionsStageProps) {
+  const [previous, setPrevious] = useState<PreviousActions | null>(null);
+
+  useEffect(() => {
+    getPreviousActions(retroId)
+      .then(setPrevious)
+      .catch(() => toast.error('Failed to load previous action items'));
+  }, [retroId]);
+
+  if (!previous) return null;
+
+  const previousRetro = previous.retro;
+  if (!previousRetro) {
+    return (
+      <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+        <History className="w-12 h-12 mx-auto mb-2 opacity-50" />
+        <p className="text-sm">There is no earlier team retro to follow up on</p>
+      </div>
+    );
+  }
+
+  const isCarriedOver = (item: ActionItem) => actionItems.some(
+    (action) => action.carriedOverFrom?.retroId === previousRetro.id && action.carriedOverFrom.actionItemId === item.id
+  );
+
+  // The previous retro's item is updated over HTTP since that retro's session is over
+  const handleStatusChange = async (item: ActionItem, status: ActionItem['status']) => {
+    try {
+      const updated = await updateAction(previousRetro.id, item.id, { status });
+      setPrevious((current) => current && {
+        ...current,
+        actionItems: current.actionItems.map((action) => (action.id === item.id ? updated : action)),
+      });
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update action item');
+    }
+  };
+
+  // Copy the item into this retro; participant ids differ between sessions, so it starts unassigned
+  const handleCarryOver = (item: ActionItem) => {
+    const actionItem: ActionItem = {
+      ...item,
+      id: `action-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      assigneeId: '',
+      carriedOverFrom: { retroId: previousRetro.id, actionItemId: item.id },
+    };
+
+    setActionItems((prev) => [...prev, actionItem]);
+
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({
+        type: 'action-item-update',
+        action: 'action-added',
+        retroId,
+        actionItem,
+      }));
+    }
+
+    toast.success('Action item carried over');
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Unfinished action items from <span className="font-medium">{previousRetro.sessionName}</span> (
+        {new Date(previousRetro.createdAt).toLocaleDateString()})
+      </p>
+
+      {previous.actionItems.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+          <Check className="w-12 h-12 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">Every action item of the last retro is done</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {previous.actionItems.map((item) => (
+            <div key={item.id} className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg flex items-start justify-between gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 dark:text-gray-100 text-sm">{item.title}</p>
+                {item.description && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2 mb-1">{item.description}</p>
+                )}
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className={`text-xs px-2 py-0.5 rounded-full flex items-center gap-1 ${getPriorityColor(item.priority)}`}>
+                    <Flag className="w-3 h-3" />
+                    {item.priority}
+                  </span>
+                  {item.dueDate && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+                      <Calendar className="w-3 h-3" />
+                      {new Date(item.dueDate).toLocaleDateString()}
+                    </span>
+                  )}
+                </div>
+              </div>
+              {isRoomCreator ? (
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <select
+                    value={item.status}
+                    onChange={(e) => handleStatusChange(item, e.target.value as ActionItem['status'])}
+                    aria-label={`Status of ${item.title}`}
+                    className="px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm"
+                  >
+                    {Object.entries(ACTION_STATUS_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => handleCarryOver(item)}
+                    disabled={item.status === 'completed' || isCarriedOver(item)}
+                    className="btn-secondary text-sm py-1.5 flex items-center gap-1 disabled:opacity-50"
+                  >
+                    <ArrowRightCircle className="w-4 h-4" />
+                    {isCarriedOver(item) ? 'Carried over' : 'Carry over'}
+                  </button>
+                </div>
+              ) : (
+                <span className={`text-xs px-2 py-0.5 rounded-full flex-shrink-0 ${getStatusColor(item.status)}`}>
+                  {ACTION_STATUS_LABELS[item.status]}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,17 +10,26 @@ import {
   User,
   TrendingUp,
   BarChart3,
-  AlertCircle
+  AlertCircle,
+  FileSpreadsheet,
+  Share2,
+  LucideIcon
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { format } from 'date-fns';
-import { Template, Card, CardGroup, VoteData, Participant, ActionItem } from '@/types/retroBoard';
+import { Template, Card, CardGroup, VoteData, Participant, ActionItem, Comment } from '@/types/retroBoard';
+import { VotingMethod } from '@/types/retro';
+import { exportRetro, getRetroReport, shareRetroReport } from '@/services/api';
 import {
   getTotalVotes,
   getVoteCount,
+  getVoterCount,
+  getVoteUnit,
+  getVotingMethodLabel,
   getTopVotedItems,
   getCardsByColumn,
   getColumnInfo,
+  getItemComments,
   getAssigneeName,
   getPriorityColor,
   getStatusColor
@@ -36,23 +45,52 @@ interface ReportStageProps {
   votes: VoteData;
   participants: Participant[];
   actionItems: ActionItem[];
+  comments?: Comment[];
+  isAnonymous?: boolean;
+  votingMethod?: VotingMethod;
+  isRoomCreator?: boolean;
 }
 
+// Files the server builds from the saved room state
+interface ServerDownload {
+  label: string;
+  // Appended to the retro name to make the file name
+  fileSuffix: string;
+  icon: LucideIcon;
+  load: (retroId: string) => Promise<Blob>;
+}
+
+const SERVER_DOWNLOADS: ServerDownload[] = [
+  { label: 'CSV', fileSuffix: '.csv', icon: FileSpreadsheet, load: (retroId) => exportRetro(retroId, 'csv') },
+  { label: 'Excel', fileSuffix: '.xlsx', icon: FileSpreadsheet, load: (retroId) => exportRetro(retroId, 'xlsx') },
+  { label: 'Markdown', fileSuffix: '-report.md', icon: FileText, load: (retroId) => getRetroReport(retroId, 'md') },
+  { label: 'HTML', fileSuffix: '-report.html', icon: FileText, load: (retroId) => getRetroReport(retroId, 'html') },
+];
+
 export default function ReportStage({ 
   template, 
+  retroId,
   retroName,
   retroContext,
   cards, 
   cardGroups,
   votes,
   participants,
-  actionItems
+  actionItems,
+  comments = [],
+  isAnonymous = false,
+  votingMethod = 'dots',
+  isRoomCreator = false
 }: ReportStageProps) {
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+  const [downloadingLabel, setDownloadingLabel] = useState<string | null>(null);
 
   // Calculate statistics using shared utilities
   const totalCards = cards.length;
   const totalVotes = getTotalVotes(votes);
+  // Ranked and points voting are tallied in points rather than votes
+  const voteUnit = getVoteUnit(votingMethod);
+  const voteUnitLabel = voteUnit === 'points' ? 'Points' : 'Votes';
   const totalActions = actionItems.length;
   const highPriorityActions = actionItems.filter(a => a.priority === 'high').length;
 
@@ -106,6 +144,19 @@ export default function ReportStage({
         });
       };
 
+      // Helper function to list the comment thread of a card or group
+      const addComments = (itemComments: Comment[], x: number) => {
+        itemComments.forEach((comment) => {
+          checkNewPage(5);
+          pdf.setFont('helvetica', 'italic');
+          pdf.setTextColor(100, 100, 100);
+          const commentText = comment.content.length > 90 ? comment.content.substring(0, 90) + '...' : comment.content;
+          addWrappedText(`${comment.authorName}: ${commentText}`, x, 8, contentWidth - (x - margin) - 5);
+          pdf.setFont('helvetica', 'normal');
+          pdf.setTextColor(0, 0, 0);
+        });
+      };
+
       // ===== HEADER =====
       pdf.setFillColor(0, 82, 147); // KONE blue
       pdf.rect(0, 0, pageWidth, 35, 'F');
@@ -147,7 +198,7 @@ export default function ReportStage({
       const stats = [
         { label: 'Participants', value: participants.length.toString() },
         { label: 'Cards', value: totalCards.toString() },
-        { label: 'Votes', value: totalVotes.toString() },
+        { label: voteUnitLabel, value: totalVotes.toString() },
         { label: 'Actions', value: totalActions.toString() },
         { label: 'High Priority', value: highPriorityActions.toString() }
       ];
@@ -175,6 +226,13 @@ export default function ReportStage({
       pdf.text('Top Voted Items', margin, yPos);
       yPos += 8;
       pdf.setTextColor(0, 0, 0);
+      if (votingMethod !== 'dots') {
+        pdf.setFontSize(9);
+        pdf.setFont('helvetica', 'italic');
+        pdf.text(`Voting method: ${getVotingMethodLabel(votingMethod)}`, margin, yPos);
+        pdf.setFont('helvetica', 'normal');
+        yPos += 6;
+      }
 
       if (topVotedItems.length === 0) {
         pdf.setFontSize(10);
@@ -203,7 +261,7 @@ export default function ReportStage({
           // Vote count
           pdf.setFontSize(9);
           pdf.setTextColor(0, 82, 147);
-          pdf.text(`(${item.voteCount} votes)`, pageWidth - margin, yPos, { align: 'right' });
+          pdf.text(`(${item.voteCount} ${voteUnit})`, pageWidth - margin, yPos, { align: 'right' });
           pdf.setTextColor(0, 0, 0);
           
           yPos += 5;
@@ -318,7 +376,7 @@ export default function ReportStage({
             checkNewPage(10);
             pdf.setFontSize(9);
             pdf.setFont('helvetica', 'normal');
-            const voteText = `(${getVoteCount(votes, card.id)} votes)`;
+            const voteText = `(${getVoteCount(votes, card.id)} ${voteUnit})`;
             pdf.setTextColor(100, 100, 100);
             pdf.text(voteText, pageWidth - margin, yPos, { align: 'right' });
             pdf.setTextColor(0, 0, 0);
@@ -326,6 +384,7 @@ export default function ReportStage({
             pdf.text('•', margin + 3, yPos);
             const cardContent = card.content.length > 80 ? card.content.substring(0, 80) + '...' : card.content;
             addWrappedText(cardContent, margin + 8, 9, contentWidth - 30);
+            addComments(getItemComments(comments, card.id), margin + 12);
           });
 
           // Groups
@@ -335,7 +394,7 @@ export default function ReportStage({
             pdf.setFont('helvetica', 'normal');
             
             pdf.setTextColor(100, 100, 100);
-            pdf.text(`(${group.voteCount} votes)`, pageWidth - margin, yPos, { align: 'right' });
+            pdf.text(`(${group.voteCount} ${voteUnit})`, pageWidth - margin, yPos, { align: 'right' });
             pdf.setTextColor(0, 0, 0);
             
             pdf.text('•', margin + 3, yPos);
@@ -350,6 +409,7 @@ export default function ReportStage({
               pdf.text(`  - ${cardContent}`, margin + 10, yPos);
               yPos += 4;
             });
+            addComments(getItemComments(comments, group.id, group.cards.map(c => c.id)), margin + 12);
             yPos += 2;
           });
         }
@@ -369,6 +429,14 @@ export default function ReportStage({
       pdf.setFont('helvetica', 'normal');
       const participantList = participants.map(p => p.name + (p.isCreator ? ' (Facilitator)' : '')).join(', ');
       addWrappedText(participantList, margin, 10, contentWidth);
+      if (isAnonymous) {
+        yPos += 2;
+        pdf.setFont('helvetica', 'italic');
+        pdf.setTextColor(100, 100, 100);
+        addWrappedText('Anonymous session: cards and votes are not attributed to participants.', margin, 9, contentWidth);
+        pdf.setFont('helvetica', 'normal');
+        pdf.setTextColor(0, 0, 0);
+      }
 
       // ===== FOOTER =====
       const totalPages = pdf.getNumberOfPages();
@@ -398,6 +466,33 @@ export default function ReportStage({
 
 
 
+  const handleServerDownload = async (download: ServerDownload) => {
+    setDownloadingLabel(download.label);
+    try {
+      const file = await download.load(retroId);
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${retroName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'retro'}${download.fileSuffix}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(`Failed to export ${download.label} file`);
+    } finally {
+      setDownloadingLabel(null);
+    }
+  };
+
+  const handleShareReport = async () => {
+    try {
+      const url = await shareRetroReport(retroId);
+      await navigator.clipboard.writeText(url);
+      toast.success('Report link copied to clipboard!');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to share report');
+    }
+  };
+
   if (!template) {
     return (
       <div className="text-center py-12">
@@ -422,7 +517,7 @@ export default function ReportStage({
               </p>
             </div>
           </div>
-          <div className="flex items-center gap-2">
+          <div className="flex items-center flex-wrap gap-2">
             <button
               onClick={handleDownloadPdf}
               disabled={isGeneratingPdf}
@@ -431,6 +526,26 @@ export default function ReportStage({
               <Download className="w-4 h-4" />
               {isGeneratingPdf ? 'Generating...' : 'Download PDF'}
             </button>
+            {SERVER_DOWNLOADS.map((download) => (
+              <button
+                key={download.label}
+                onClick={() => handleServerDownload(download)}
+                disabled={downloadingLabel !== null}
+                className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-800 text-indigo-700 dark:text-indigo-300 border border-indigo-300 dark:border-indigo-700 rounded-lg hover:bg-indigo-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+              >
+                <download.icon className="w-4 h-4" />
+                {downloadingLabel === download.label ? 'Exporting...' : `Download ${download.label}`}
+              </button>
+            ))}
+            {isRoomCreator && (
+              <button
+                onClick={handleShareReport}
+                className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-800 text-indigo-700 dark:text-indigo-300 border border-indigo-300 dark:border-indigo-700 rounded-lg hover:bg-indigo-50 dark:hover:bg-gray-700 transition-colors"
+              >
+                <Share2 className="w-4 h-4" />
+                Share report
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -467,7 +582,7 @@ export default function ReportStage({
           <div className="bg-amber-50 dark:bg-amber-900/20 rounded-lg p-4 text-center">
             <ThumbsUp className="w-6 h-6 text-amber-600 dark:text-amber-400 mx-auto mb-2" />
             <div className="text-2xl font-bold text-amber-600 dark:text-amber-400">{totalVotes}</div>
-            <div className="text-xs text-gray-600 dark:text-gray-400">Votes</div>
+            <div className="text-xs text-gray-600 dark:text-gray-400">{voteUnitLabel}</div>
           </div>
           <div className="bg-emerald-50 dark:bg-emerald-900/20 rounded-lg p-4 text-center">
             <Target className="w-6 h-6 text-emerald-600 dark:text-emerald-400 mx-auto mb-2" />
@@ -486,6 +601,11 @@ export default function ReportStage({
           <div className="flex items-center gap-2 mb-4">
             <TrendingUp className="w-5 h-5 text-kone-blue dark:text-kone-lightBlue" />
             <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Top Voted Items</h2>
+            {votingMethod !== 'dots' && (
+              <span className="text-xs px-1.5 py-0.5 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded">
+                {getVotingMethodLabel(votingMethod)}
+              </span>
+            )}
           </div>
           {topVotedItems.length === 0 ? (
             <p className="text-gray-500 dark:text-gray-400 text-sm">No voted items</p>
@@ -514,8 +634,13 @@ export default function ReportStage({
                         </span>
                         <span className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
                           <ThumbsUp className="w-3 h-3" />
-                          {item.voteCount} votes
+                          {item.voteCount} {voteUnit}
                         </span>
+                        {votingMethod !== 'dots' && !isAnonymous && (
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            from {getVoterCount(votes, item.id)} {getVoterCount(votes, item.id) === 1 ? 'person' : 'people'}
+                          </span>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -629,6 +754,7 @@ export default function ReportStage({
                           <ThumbsUp className="w-3 h-3" />
                           {getVoteCount(votes, card.id)}
                         </span>
+                        <ReportComments comments={getItemComments(comments, card.id)} />
                       </div>
                     ))}
                     {colGroups.map(group => (
@@ -650,6 +776,7 @@ export default function ReportStage({
                           <ThumbsUp className="w-3 h-3" />
                           {group.voteCount}
                         </span>
+                        <ReportComments comments={getItemComments(comments, group.id, group.cards.map(c => c.id))} />
                       </div>
                     ))}
                     {totalItems === 0 && (
@@ -667,6 +794,11 @@ export default function ReportStage({
           <div className="flex items-center gap-2 mb-4">
             <Users className="w-5 h-5 text-blue-600 dark:text-blue-400" />
             <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Participants</h2>
+            {isAnonymous && (
+              <span className="text-xs px-1.5 py-0.5 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded">
+                Anonymous feedback
+              </span>
+            )}
           </div>
           <div className="flex flex-wrap gap-2">
             {participants.map(participant => (
@@ -702,3 +834,18 @@ export default function ReportStage({
     </div>
   );
 }
+
+// Read-only comment list shown under report items
+function ReportComments({ comments }: { comments: Comment[] }) {
+  if (comments.length === 0) return null;
+
+  return (
+    <div className="mt-2 pl-2 border-l border-gray-200 dark:border-gray-600 space-y-1">
+      {comments.map(comment => (
+        <p key={comment.id} className="text-xs text-gray-500 dark:text-gray-400 whitespace-pre-wrap break-all">
+          <span className="font-medium text-gray-600 dark:text-gray-300">{comment.authorName}:</span> {comment.content}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -14,7 +14,11 @@ import {
   ThumbsUp,
   MessageCircle,
   Target,
-  Users
+  Users,
+  ExternalLink,
+  RefreshCw,
+  Send,
+  CalendarPlus
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { Template, Card, CardGroup, VoteData, Participant, ActionItem } from '@/types/retroBoard';
@@ -26,6 +30,8 @@ import {
   getPriorityColor,
   getParticipantStats
 } from '@/types/retroUtils';
+import { getActionsCalendar, getIssueTracker, pushActionToTracker, syncActionFromTracker } from '@/services/api';
+import { getAuthToken } from '@/services/authToken';
 
 interface ReviewStageProps {
   template: Template | undefined;
@@ -39,6 +45,9 @@ interface ReviewStageProps {
   isRoomCreator: boolean;
   actionItems: ActionItem[];
   setActionItems: React.Dispatch<React.SetStateAction<ActionItem[]>>;
+  isAnonymous?: boolean;
+  // Team the retro belongs to; its action item due dates can be downloaded as a calendar
+  teamId?: string;
 }
 
 export default function ReviewStage({ 
@@ -51,7 +60,9 @@ export default function ReviewStage({
   participants,
   isRoomCreator,
   actionItems,
-  setActionItems
+  setActionItems,
+  isAnonymous = false,
+  teamId
 }: ReviewStageProps) {
   const [isAddingAction, setIsAddingAction] = useState(false);
   const [editingActionId, setEditingActionId] = useState<string | null>(null);
@@ -63,6 +74,19 @@ export default function ReviewStage({
     dueDate: '',
     status: 'pending'
   });
+  // Name of the issue tracker items can be pushed to; null when none is configured
+  const [trackerName, setTrackerName] = useState<string | null>(null);
+
+  // Only a logged-in facilitator may push items to the tracker or sync them back
+  const canUseTracker = isRoomCreator && getAuthToken() !== null;
+
+  useEffect(() => {
+    if (!canUseTracker) return;
+    // Without a tracker the buttons just stay hidden, so a failed lookup isn't worth an error
+    getIssueTracker()
+      .then(name => name && setTrackerName(name))
+      .catch(() => undefined);
+  }, [canUseTracker]);
 
   // Use memoized utilities from shared module
   const topVotedItems = useMemo(
@@ -147,6 +171,42 @@ export default function ReviewStage({
     toast.success('Action item deleted');
   };
 
+  // The server stores the issue key on the item and shares the change with the room
+  const handlePushToTracker = async (actionId: string) => {
+    try {
+      const updated = await pushActionToTracker(retroId, actionId);
+      setActionItems(prev => prev.map(item => (item.id === actionId ? updated : item)));
+      toast.success(`Created ${updated.externalIssue?.key} in ${trackerName}`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to push action item');
+    }
+  };
+
+  const handleSyncFromTracker = async (actionId: string) => {
+    try {
+      const updated = await syncActionFromTracker(retroId, actionId);
+      setActionItems(prev => prev.map(item => (item.id === actionId ? updated : item)));
+      toast.success('Status synced from the tracker');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to sync action item');
+    }
+  };
+
+  const handleDownloadCalendar = async () => {
+    if (!teamId) return;
+    try {
+      const file = await getActionsCalendar(teamId);
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'actions.ics';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to download action item calendar');
+    }
+  };
+
   const handleQuickAddFromTopVoted = (item: typeof topVotedItems[0]) => {
     const columnName = template?.columns.find(c => c.id === item.columnId)?.name || 'Item';
     setNewAction({
@@ -272,13 +332,25 @@ export default function ReviewStage({
               <Target className="w-5 h-5 text-emerald-600 dark:text-emerald-400" />
               <h4 className="font-semibold text-gray-900 dark:text-gray-100">Action Items</h4>
             </div>
-            <button
-              onClick={() => setIsAddingAction(true)}
-              className="flex items-center gap-1 px-3 py-1.5 bg-emerald-600 dark:bg-emerald-500 text-white text-sm rounded-lg hover:bg-emerald-700 dark:hover:bg-emerald-600 transition-colors"
-            >
-              <Plus className="w-4 h-4" />
-              Add Action
-            </button>
+            <div className="flex items-center gap-2">
+              {teamId && (
+                <button
+                  onClick={handleDownloadCalendar}
+                  title="Download the team's action item due dates as a calendar"
+                  className="flex items-center gap-1 px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 text-sm rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                >
+                  <CalendarPlus className="w-4 h-4" />
+                  Due dates
+                </button>
+              )}
+              <button
+                onClick={() => setIsAddingAction(true)}
+                className="flex items-center gap-1 px-3 py-1.5 bg-emerald-600 dark:bg-emerald-500 text-white text-sm rounded-lg hover:bg-emerald-700 dark:hover:bg-emerald-600 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                Add Action
+              </button>
+            </div>
           </div>
 
           {/* Add Action Form */}
@@ -389,6 +461,9 @@ export default function ReviewStage({
                   onSave={handleUpdateAction}
                   onCancel={() => setEditingActionId(null)}
                   onDelete={() => handleDeleteAction(action.id)}
+                  trackerName={trackerName}
+                  onPushToTracker={() => handlePushToTracker(action.id)}
+                  onSyncFromTracker={() => handleSyncFromTracker(action.id)}
                   participants={participants}
                   getAssigneeName={(id) => getAssigneeName(participants, id)}
                   getPriorityColor={getPriorityColor}
@@ -405,6 +480,11 @@ export default function ReviewStage({
         <div className="flex items-center gap-2 mb-4">
           <Users className="w-5 h-5 text-kone-blue dark:text-kone-lightBlue" />
           <h4 className="font-semibold text-gray-900 dark:text-gray-100">Team Participation</h4>
+          {isAnonymous && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              (anonymous session: cards and votes are not attributed)
+            </span>
+          )}
         </div>
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-3 sm:gap-4">
           {participants.map(participant => {
@@ -424,14 +504,18 @@ export default function ReviewStage({
                   </span>
                 </div>
                 <div className="flex items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
-                  <span className="flex items-center gap-1">
-                    <MessageCircle className="w-3 h-3" />
-                    {stats.cardsCreated}
-                  </span>
-                  <span className="flex items-center gap-1">
-                    <ThumbsUp className="w-3 h-3" />
-                    {stats.votesGiven}
-                  </span>
+                  {!isAnonymous && (
+                    <>
+                      <span className="flex items-center gap-1">
+                        <MessageCircle className="w-3 h-3" />
+                        {stats.cardsCreated}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <ThumbsUp className="w-3 h-3" />
+                        {stats.votesGiven}
+                      </span>
+                    </>
+                  )}
                   <span className="flex items-center gap-1">
                     <Target className="w-3 h-3" />
                     {stats.actionsAssigned}
@@ -455,6 +539,9 @@ interface ActionItemCardProps {
   onSave: (action: ActionItem) => void;
   onCancel: () => void;
   onDelete: () => void;
+  trackerName: string | null;
+  onPushToTracker: () => void;
+  onSyncFromTracker: () => void;
   participants: Participant[];
   getAssigneeName: (id: string) => string;
   getPriorityColor: (priority: string) => string;
@@ -469,6 +556,9 @@ function ActionItemCard({
   onSave, 
   onCancel, 
   onDelete,
+  trackerName,
+  onPushToTracker,
+  onSyncFromTracker,
   participants,
   getAssigneeName,
   getPriorityColor,
@@ -601,6 +691,48 @@ function ActionItemCard({
                 {new Date(action.dueDate).toLocaleDateString()}
               </span>
             )}
+            {action.externalIssue && (
+              action.externalIssue.url ? (
+                <a
+                  href={action.externalIssue.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs px-2 py-0.5 rounded-full bg-blue-100 dark:bg-blue-900/30 text-kone-blue dark:text-kone-lightBlue flex items-center gap-1 hover:underline"
+                  title={`Open in ${action.externalIssue.tracker}`}
+                >
+                  <ExternalLink className="w-3 h-3" />
+                  {action.externalIssue.key}
+                </a>
+              ) : (
+                <span
+                  className="text-xs px-2 py-0.5 rounded-full bg-blue-100 dark:bg-blue-900/30 text-kone-blue dark:text-kone-lightBlue flex items-center gap-1"
+                  title={`In ${action.externalIssue.tracker}`}
+                >
+                  <ExternalLink className="w-3 h-3" />
+                  {action.externalIssue.key}
+                </span>
+              )
+            )}
+            {trackerName && (
+              action.externalIssue ? (
+                <button
+                  onClick={onSyncFromTracker}
+                  className="text-xs text-gray-500 dark:text-gray-400 hover:text-kone-blue dark:hover:text-kone-lightBlue flex items-center gap-1"
+                  title={`Sync status from ${trackerName}`}
+                >
+                  <RefreshCw className="w-3 h-3" />
+                  Sync status
+                </button>
+              ) : (
+                <button
+                  onClick={onPushToTracker}
+                  className="text-xs text-emerald-600 dark:text-emerald-400 hover:underline flex items-center gap-1"
+                >
+                  <Send className="w-3 h-3" />
+                  Push to {trackerName}
+                </button>
+              )
+            )}
           </div>
         </div>
         {canModify && (
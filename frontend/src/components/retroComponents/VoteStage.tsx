@@ -1,7 +1,31 @@
 import { useState, useEffect } from 'react';
-import { Plus, Minus, Award, AlertCircle, ThumbsUp, CheckCircle2 } from 'lucide-react';
+import { Plus, Minus, Award, AlertCircle, ThumbsUp, CheckCircle2, EyeOff, ChevronUp, ChevronDown, X } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { Template, Card, CardGroup, VoteData } from '@/types/retroBoard';
+import { Template, Card, CardGroup, VoteData, VoteProgress } from '@/types/retroBoard';
+import { VotingMethod } from '@/types/retro';
+import { getRankingPoints, getUserRanking, getUserVotesByItem, syncUserVotes } from '@/types/retroUtils';
+
+// Wording for what each voting method has participants spend
+const METHOD_COPY: Record<VotingMethod, { unit: string; title: (limit: number) => string; hint: string; exhausted: string }> = {
+  dots: {
+    unit: 'votes',
+    title: () => 'Cast Your Votes',
+    hint: 'Click on cards to vote for the topics most important to discuss',
+    exhausted: "You've used all your votes. Remove a vote to change your selection."
+  },
+  ranked: {
+    unit: 'ranks',
+    title: (limit) => `Rank Your Top ${limit}`,
+    hint: 'Rank the topics most important to discuss, best first',
+    exhausted: "You've ranked all your picks. Remove one to change your ranking."
+  },
+  points: {
+    unit: 'points',
+    title: (limit) => `Distribute ${limit} Points`,
+    hint: 'Give more points to the topics most important to discuss',
+    exhausted: "You've used all your points. Take points from an item to move them."
+  }
+};
 
 interface VoteStageProps {
   template: Template | undefined;
@@ -11,10 +35,16 @@ interface VoteStageProps {
   cards: Card[];
   cardGroups: CardGroup[];
   votingLimit: number;
+  votingMethod?: VotingMethod;
+  maxVotesPerItem?: number | null;
   votes: VoteData;
   setVotes: React.Dispatch<React.SetStateAction<VoteData>>;
   stageId: string;
   isDone: boolean;
+  isBlind?: boolean;
+  votesRevealed?: boolean;
+  isRoomCreator?: boolean;
+  voteProgress?: VoteProgress | null;
 }
 
 export default function VoteStage({ 
@@ -25,12 +55,20 @@ export default function VoteStage({
   cards, 
   cardGroups,
   votingLimit,
+  votingMethod = 'dots',
+  maxVotesPerItem = null,
   votes,
   setVotes,
   stageId,
-  isDone
+  isDone,
+  isBlind = false,
+  votesRevealed = false,
+  isRoomCreator = false,
+  voteProgress = null
 }: VoteStageProps) {
   const [localIsDone, setLocalIsDone] = useState(isDone);
+  // During a blind vote we only know our own votes, so totals and rankings are hidden
+  const tallyHidden = isBlind && !votesRevealed;
 
   // Sync local state with prop
   useEffect(() => {
@@ -58,7 +96,10 @@ export default function VoteStage({
     return count;
   };
 
-  const votesUsed = getUserVotesUsed();
+  const copy = METHOD_COPY[votingMethod];
+  // Ranked votes are stored as Borda points, so count the ranked items instead
+  const ranking = votingMethod === 'ranked' ? getUserRanking(votes, currentUserId) : [];
+  const votesUsed = votingMethod === 'ranked' ? ranking.length : getUserVotesUsed();
   const votesRemaining = votingLimit - votesUsed;
 
   // Get vote count for a card/group
@@ -77,6 +118,10 @@ export default function VoteStage({
       toast.error(`You've used all ${votingLimit} votes!`);
       return;
     }
+    if (maxVotesPerItem && getUserVoteCountForItem(itemId) >= maxVotesPerItem) {
+      toast.error(`You can give at most ${maxVotesPerItem} ${maxVotesPerItem === 1 ? 'vote' : 'votes'} to one item`);
+      return;
+    }
 
     // Update local state
     setVotes(prev => ({
@@ -96,6 +141,58 @@ export default function VoteStage({
     }
   };
 
+  // Give an item a number of points (points voting)
+  const handleSetPoints = (itemId: string, points: number) => {
+    const currentPoints = getUserVoteCountForItem(itemId);
+    if (!Number.isInteger(points) || points < 0 || points === currentPoints) return;
+    if (points - currentPoints > votesRemaining) {
+      toast.error(`You only have ${votingLimit} points to distribute`);
+      return;
+    }
+    if (maxVotesPerItem && points > maxVotesPerItem) {
+      toast.error(`You can give at most ${maxVotesPerItem} points to one item`);
+      return;
+    }
+
+    const votesByItem = { ...getUserVotesByItem(votes, currentUserId), [itemId]: points };
+    setVotes(prev => syncUserVotes(prev, currentUserId, votesByItem));
+
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'points-set', retroId, itemId, points }));
+    }
+  };
+
+  // Replace our ranking (ranked-choice voting)
+  const handleSetRanking = (newRanking: string[]) => {
+    setVotes(prev => syncUserVotes(prev, currentUserId, getRankingPoints(newRanking, votingLimit)));
+
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'ranking-set', retroId, ranking: newRanking }));
+    }
+  };
+
+  const handleRank = (itemId: string) => {
+    if (votesRemaining <= 0) {
+      toast.error(`You can rank at most ${votingLimit} items`);
+      return;
+    }
+    handleSetRanking([...ranking, itemId]);
+  };
+
+  const handleMoveRank = (position: number, offset: number) => {
+    const target = position + offset;
+    if (target < 0 || target >= ranking.length) return;
+    const newRanking = [...ranking];
+    [newRanking[position], newRanking[target]] = [newRanking[target], newRanking[position]];
+    handleSetRanking(newRanking);
+  };
+
+  const handleRevealVotes = () => {
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'votes-reveal', retroId }));
+    }
+  };
+
   // Handle removing a vote
   const handleUnvote = (itemId: string) => {
     const userVotes = votes[itemId]?.filter(id => id === currentUserId) || [];
@@ -166,7 +263,7 @@ export default function VoteStage({
     }
 
     // Sort by vote count (descending)
-    return items.sort((a, b) => getVoteCount(b.id) - getVoteCount(a.id));
+    return tallyHidden ? items : items.sort((a, b) => getVoteCount(b.id) - getVoteCount(a.id));
   };
 
   // Get top voted items across all columns
@@ -199,7 +296,14 @@ export default function VoteStage({
     );
   }
 
-  const topItems = getTopVotedItems();
+  const topItems = tallyHidden ? [] : getTopVotedItems();
+
+  // Content of every votable item, for listing our ranking
+  const itemContents = new Map(
+    template.columns
+      .flatMap(column => getDisplayableItems(column.id))
+      .map(item => [item.id, item.cards.map(c => c.content).join(' | ')])
+  );
 
   return (
     <div className="space-y-4 sm:space-y-6">
@@ -226,10 +330,15 @@ export default function VoteStage({
               <ThumbsUp className="w-5 h-5 sm:w-6 sm:h-6 text-white" />
             </div>
             <div>
-              <h3 className="font-semibold text-sm sm:text-base text-gray-900 dark:text-gray-100">Cast Your Votes</h3>
+              <h3 className="font-semibold text-sm sm:text-base text-gray-900 dark:text-gray-100">{copy.title(votingLimit)}</h3>
               <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-400">
-                Click on cards to vote for the topics most important to discuss
+                {copy.hint}
               </p>
+              {maxVotesPerItem && votingMethod !== 'ranked' && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                  Up to {maxVotesPerItem} {maxVotesPerItem === 1 ? copy.unit.slice(0, -1) : copy.unit} per item
+                </p>
+              )}
             </div>
           </div>
           <div className="flex items-center gap-3 sm:gap-4">
@@ -237,14 +346,14 @@ export default function VoteStage({
               <div className={`text-2xl sm:text-3xl font-bold ${votesRemaining > 0 ? 'text-kone-blue dark:text-kone-lightBlue' : 'text-red-500'}`}>
                 {votesRemaining}
               </div>
-              <div className="text-xs text-gray-500 dark:text-gray-400">votes left</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">{copy.unit} left</div>
             </div>
             <div className="h-10 sm:h-12 w-px bg-gray-300 dark:bg-gray-600"></div>
             <div className="text-center">
               <div className="text-2xl sm:text-3xl font-bold text-gray-700 dark:text-gray-300">
                 {votesUsed}
               </div>
-              <div className="text-xs text-gray-500 dark:text-gray-400">votes used</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">{copy.unit} used</div>
             </div>
           </div>
         </div>
@@ -252,11 +361,76 @@ export default function VoteStage({
         {votesRemaining === 0 && (
           <div className="mt-3 flex items-center gap-2 text-amber-600 dark:text-amber-400 text-sm">
             <AlertCircle className="w-4 h-4" />
-            <span>You've used all your votes. Remove a vote to change your selection.</span>
+            <span>{copy.exhausted}</span>
           </div>
         )}
       </div>
 
+      {/* Our Ranking (ranked-choice voting) */}
+      {votingMethod === 'ranked' && ranking.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
+          <h4 className="font-semibold text-gray-900 dark:text-gray-100 mb-3">Your Ranking</h4>
+          <ol className="space-y-2">
+            {ranking.map((itemId, position) => (
+              <li key={itemId} className="flex items-center gap-2 text-sm">
+                <span className="font-bold text-kone-blue dark:text-kone-lightBlue w-6">#{position + 1}</span>
+                <span className="flex-1 min-w-0 truncate text-gray-700 dark:text-gray-300">
+                  {itemContents.get(itemId) || 'Removed item'}
+                </span>
+                <button
+                  onClick={() => handleMoveRank(position, -1)}
+                  disabled={position === 0}
+                  className="p-1 rounded text-gray-500 hover:text-gray-900 dark:hover:text-gray-100 disabled:opacity-30 disabled:cursor-not-allowed"
+                  title="Move up"
+                >
+                  <ChevronUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleMoveRank(position, 1)}
+                  disabled={position === ranking.length - 1}
+                  className="p-1 rounded text-gray-500 hover:text-gray-900 dark:hover:text-gray-100 disabled:opacity-30 disabled:cursor-not-allowed"
+                  title="Move down"
+                >
+                  <ChevronDown className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleSetRanking(ranking.filter(id => id !== itemId))}
+                  className="p-1 rounded text-red-500 hover:text-red-700"
+                  title="Remove from ranking"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {/* Blind Voting Banner */}
+      {tallyHidden && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-3 sm:p-4 border border-gray-200 dark:border-gray-700 flex items-center justify-between flex-wrap gap-3">
+          <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <EyeOff className="w-4 h-4 flex-shrink-0" />
+            <span>Blind voting: vote counts stay hidden until the facilitator reveals them.</span>
+          </div>
+          {isRoomCreator && (
+            <div className="flex items-center gap-3">
+              {voteProgress && (
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  {voteProgress.finishedCount} of {voteProgress.participantCount} finished
+                </span>
+              )}
+              <button
+                onClick={handleRevealVotes}
+                className="px-3 py-1.5 rounded-lg text-sm font-medium bg-kone-blue dark:bg-kone-lightBlue text-white hover:bg-kone-blue/90 dark:hover:bg-kone-lightBlue/90"
+              >
+                Reveal votes
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Top Voted Summary (if any votes exist) */}
       {topItems.length > 0 && (
         <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
@@ -316,9 +490,9 @@ export default function VoteStage({
                   <span className="ml-auto text-sm text-gray-500 dark:text-gray-400 flex-shrink-0">
                     {items.length} {items.length === 1 ? 'item' : 'items'}
                   </span>
-                  {columnTotalVotes > 0 && (
+                  {columnTotalVotes > 0 && !tallyHidden && (
                     <span className="text-sm font-semibold text-kone-blue dark:text-kone-lightBlue">
-                      ({columnTotalVotes} votes)
+                      ({columnTotalVotes} {votingMethod === 'dots' ? 'votes' : 'points'})
                     </span>
                   )}
                 </div>
@@ -335,6 +509,7 @@ export default function VoteStage({
                     const voteCount = getVoteCount(item.id);
                     const userVoteCount = getUserVoteCountForItem(item.id);
                     const hasVoted = userVoteCount > 0;
+                    const canVote = votesRemaining > 0 && (!maxVotesPerItem || userVoteCount < maxVotesPerItem);
 
                     return (
                       <div
@@ -374,46 +549,85 @@ export default function VoteStage({
 
                         {/* Vote Controls */}
                         <div className="flex items-center justify-between pt-2 border-t border-gray-200 dark:border-gray-500">
-                          <div className="flex items-center gap-2">
-                            <div className="relative">
+                          {votingMethod === 'dots' && (
+                            <div className="flex items-center gap-2">
+                              <div className="relative">
+                                <button
+                                  onClick={() => handleVote(item.id, column.id)}
+                                  disabled={!canVote}
+                                  className={`w-8 h-8 rounded-full flex items-center justify-center transition-all ${
+                                    canVote
+                                      ? 'bg-kone-blue dark:bg-kone-lightBlue text-white hover:bg-kone-blue/90 dark:hover:bg-kone-lightBlue/90 shadow-sm'
+                                      : 'bg-gray-200 dark:bg-gray-600 text-gray-400 cursor-not-allowed'
+                                  }`}
+                                  title="Add vote"
+                                >
+                                  <Plus className="w-5 h-5" />
+                                </button>
+                                {userVoteCount > 0 && (
+                                  <span className="absolute -top-1.5 -right-1.5 w-5 h-5 bg-green-500 text-white text-xs font-bold rounded-full flex items-center justify-center shadow-sm">
+                                    {userVoteCount}
+                                  </span>
+                                )}
+                              </div>
+                              
+                              {userVoteCount > 0 && (
+                                <button
+                                  onClick={() => handleUnvote(item.id)}
+                                  className="w-8 h-8 rounded-full flex items-center justify-center bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400 hover:bg-red-200 dark:hover:bg-red-900/50 transition-all shadow-sm"
+                                  title="Remove vote"
+                                >
+                                  <Minus className="w-5 h-5" />
+                                </button>
+                              )}
+                            </div>
+                          )}
+
+                          {votingMethod === 'points' && (
+                            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                              <input
+                                type="number"
+                                min={0}
+                                value={userVoteCount}
+                                onChange={(e) => handleSetPoints(item.id, Number(e.target.value))}
+                                aria-label="Points"
+                                className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-kone-blue dark:focus:ring-kone-lightBlue"
+                              />
+                              points
+                            </label>
+                          )}
+
+                          {votingMethod === 'ranked' && (
+                            ranking.indexOf(item.id) === -1 ? (
                               <button
-                                onClick={() => handleVote(item.id, column.id)}
+                                onClick={() => handleRank(item.id)}
                                 disabled={votesRemaining <= 0}
-                                className={`w-8 h-8 rounded-full flex items-center justify-center transition-all ${
+                                className={`px-3 py-1 rounded-full text-sm font-medium transition-all ${
                                   votesRemaining > 0
                                     ? 'bg-kone-blue dark:bg-kone-lightBlue text-white hover:bg-kone-blue/90 dark:hover:bg-kone-lightBlue/90 shadow-sm'
                                     : 'bg-gray-200 dark:bg-gray-600 text-gray-400 cursor-not-allowed'
                                 }`}
-                                title="Add vote"
-                              >
-                                <Plus className="w-5 h-5" />
-                              </button>
-                              {userVoteCount > 0 && (
-                                <span className="absolute -top-1.5 -right-1.5 w-5 h-5 bg-green-500 text-white text-xs font-bold rounded-full flex items-center justify-center shadow-sm">
-                                  {userVoteCount}
-                                </span>
-                              )}
-                            </div>
-                            
-                            {userVoteCount > 0 && (
-                              <button
-                                onClick={() => handleUnvote(item.id)}
-                                className="w-8 h-8 rounded-full flex items-center justify-center bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400 hover:bg-red-200 dark:hover:bg-red-900/50 transition-all shadow-sm"
-                                title="Remove vote"
+                                title="Add to ranking"
                               >
-                                <Minus className="w-5 h-5" />
+                                Rank
                               </button>
-                            )}
-                          </div>
+                            ) : (
+                              <span className="px-3 py-1 rounded-full text-sm font-bold bg-green-500 text-white">
+                                #{ranking.indexOf(item.id) + 1}
+                              </span>
+                            )
+                          )}
                           
-                          <div className={`flex items-center gap-1 px-2 py-1 rounded-full ${
-                            voteCount > 0 
-                              ? 'bg-kone-blue/20 dark:bg-kone-lightBlue/20 text-kone-blue dark:text-kone-lightBlue' 
-                              : 'bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400'
-                          }`}>
-                            <ThumbsUp className="w-3 h-3" />
-                            <span className="text-sm font-semibold">{voteCount}</span>
-                          </div>
+                          {!tallyHidden && (
+                            <div className={`flex items-center gap-1 px-2 py-1 rounded-full ${
+                              voteCount > 0 
+                                ? 'bg-kone-blue/20 dark:bg-kone-lightBlue/20 text-kone-blue dark:text-kone-lightBlue' 
+                                : 'bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400'
+                            }`}>
+                              <ThumbsUp className="w-3 h-3" />
+                              <span className="text-sm font-semibold">{voteCount}</span>
+                            </div>
+                          )}
                         </div>
                       </div>
                     );
@@ -0,0 +1,61 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { User, LoginData, RegisterData } from '@/types/auth';
+import { login as loginRequest, register as registerRequest, getCurrentUser } from '@/services/api';
+import { getAuthToken, saveAuthToken, clearAuthToken } from '@/services/authToken';
+
+interface AuthContextType {
+  user: User | null;
+  // True until a stored token has been checked with the server
+  isLoading: boolean;
+  login: (data: LoginData) => Promise<void>;
+  register: (data: RegisterData) => Promise<void>;
+  logout: () => void;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(() => getAuthToken() !== null);
+
+  // Restore the session from a stored token; drop the token if the server rejects it
+  useEffect(() => {
+    if (!getAuthToken()) return;
+
+    getCurrentUser()
+      .then(({ teams: _teams, ...currentUser }) => setUser(currentUser))
+      .catch(() => clearAuthToken())
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const login = async (data: LoginData) => {
+    const response = await loginRequest(data);
+    saveAuthToken(response.token);
+    setUser(response.user);
+  };
+
+  const register = async (data: RegisterData) => {
+    const response = await registerRequest(data);
+    saveAuthToken(response.token);
+    setUser(response.user);
+  };
+
+  const logout = () => {
+    clearAuthToken();
+    setUser(null);
+  };
+
+  return (
+    <AuthContext.Provider value={{ user, isLoading, login, register, logout }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
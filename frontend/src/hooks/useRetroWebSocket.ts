@@ -7,9 +7,18 @@ import {
   ActionItem,
   StageDoneStatus,
   Reactions,
+  Comment,
   IcebreakerState,
   Participant,
+  WsErrorMessage,
+  VoteBudget,
+  VoteProgress,
+  StageTimer,
 } from '@/types/retroBoard';
+import { RetroStatus } from '@/types/retro';
+import { syncUserVotes } from '@/types/retroUtils';
+import { getFacilitatorToken, saveFacilitatorToken } from '@/services/facilitatorToken';
+import { getAuthToken } from '@/services/authToken';
 
 interface WebSocketState {
   ws: WebSocket | null;
@@ -22,6 +31,7 @@ interface WebSocketState {
   discussedItems: Set<string>;
   stageDoneStatus: StageDoneStatus;
   reactions: Reactions;
+  comments: Comment[];
   icebreakerState: IcebreakerState | null;
   currentStageIndex: number;
 }
@@ -42,6 +52,10 @@ const messageHandlers: Record<string, MessageHandler> = {
   'user-joined': (data, _state, setters) => {
     if (data.retroId) {
       sessionStorage.setItem(`retro_userId_${data.retroId}`, data.userId);
+      // Needed to take back a facilitator's id after a dropped connection
+      if (data.resumeToken) {
+        sessionStorage.setItem(`retro_resumeToken_${data.retroId}`, data.resumeToken);
+      }
     }
     setters.setCurrentUserId(data.userId);
 
@@ -52,11 +66,14 @@ const messageHandlers: Record<string, MessageHandler> = {
       if (cs.cards) setters.setCards(cs.cards);
       if (cs.cardGroups) setters.setCardGroups(cs.cardGroups);
       if (cs.votes) setters.setVotes(cs.votes);
+      setters.setVotesRevealed(cs.votesRevealed === true);
       if (cs.actionItems) setters.setActionItems(cs.actionItems);
       if (cs.discussedItems) setters.setDiscussedItems(new Set(cs.discussedItems));
       if (cs.stageDoneStatus) setters.setStageDoneStatus(cs.stageDoneStatus);
       if (cs.reactions) setters.setReactions(cs.reactions);
+      if (cs.comments) setters.setComments(cs.comments);
       if (cs.icebreakerState) setters.setIcebreakerState(cs.icebreakerState);
+      setters.setStageTimer(cs.timer ?? null);
     }
 
     if (data.isReconnection) {
@@ -81,6 +98,18 @@ const messageHandlers: Record<string, MessageHandler> = {
   'stage-change': (data, _state, setters) => {
     setters.setCurrentStageIndex(data.stageIndex);
     setters.setStageDoneStatus({});
+    setters.setStageTimer(null);
+  },
+
+  'timer-update': (data, _state, setters) => {
+    setters.setStageTimer(data.timer);
+    if (data.expired) {
+      toast.success('Time is up for this stage!');
+    }
+  },
+
+  'retro-status': (data, _state, setters) => {
+    setters.setRetroStatus(data.status);
   },
 
   'stage-done-update': (data, _state, setters) => {
@@ -91,12 +120,56 @@ const messageHandlers: Record<string, MessageHandler> = {
     setters.setReactions(data.reactions);
   },
 
+  'comment-added': (data, _state, setters) => {
+    setters.setComments((prev) => [...prev.filter((c) => c.id !== data.comment.id), data.comment]);
+  },
+
+  'comment-updated': (data, _state, setters) => {
+    setters.setComments((prev) => prev.map((c) => (c.id === data.comment.id ? data.comment : c)));
+  },
+
+  'comment-deleted': (data, _state, setters) => {
+    setters.setComments((prev) => prev.filter((c) => c.id !== data.commentId));
+  },
+
+  'vote-budget': (data, _state, setters) => {
+    const budget = data as VoteBudget;
+    setters.setVoteBudget(budget);
+    // Reconcile our optimistic votes with what the server accepted
+    setters.setVotes((prev) => syncUserVotes(prev, budget.userId, budget.votesByItem));
+  },
+
+  'votes-updated': (data, _state, setters) => {
+    setters.setVotes(data.votes);
+  },
+
+  'vote-progress': (data, _state, setters) => {
+    setters.setVoteProgress({ finishedCount: data.finishedCount, participantCount: data.participantCount });
+  },
+
+  'votes-revealed': (data, _state, setters) => {
+    setters.setVotes(data.votes);
+    setters.setVotesRevealed(true);
+    toast.success('Votes revealed!');
+  },
+
   'creator-assigned': (data) => {
     if (data.isCreator) {
       toast.success('You are now the room admin!');
+    } else {
+      toast.success('You are no longer the facilitator');
     }
   },
 
+  'facilitator-token': (data) => {
+    saveFacilitatorToken(data.retroId, data.token);
+    toast.success('New facilitator key saved in this browser');
+  },
+
+  'co-facilitator-assigned': (data) => {
+    toast.success(data.isCoFacilitator ? 'You are now a co-facilitator' : 'You are no longer a co-facilitator');
+  },
+
   'card-created': (data, _state, setters) => {
     setters.setCards((prev) => [
       ...prev,
@@ -195,6 +268,11 @@ const messageHandlers: Record<string, MessageHandler> = {
       });
     }
   },
+
+  // The server rejected one of our messages (invalid, not allowed, or wrong stage)
+  'error': (data: WsErrorMessage) => {
+    toast.error(data.message || 'Action not allowed');
+  },
 };
 
 export function useRetroWebSocket({ retroId, enabledStages }: UseRetroWebSocketOptions) {
@@ -208,8 +286,16 @@ export function useRetroWebSocket({ retroId, enabledStages }: UseRetroWebSocketO
   const [discussedItems, setDiscussedItems] = useState<Set<string>>(new Set());
   const [stageDoneStatus, setStageDoneStatus] = useState<StageDoneStatus>({});
   const [reactions, setReactions] = useState<Reactions>({});
+  const [comments, setComments] = useState<Comment[]>([]);
   const [icebreakerState, setIcebreakerState] = useState<IcebreakerState | null>(null);
   const [currentStageIndex, setCurrentStageIndex] = useState(0);
+  const [voteBudget, setVoteBudget] = useState<VoteBudget | null>(null);
+  const [votesRevealed, setVotesRevealed] = useState(false);
+  const [voteProgress, setVoteProgress] = useState<VoteProgress | null>(null);
+  // The server's stage timer; null until the facilitator starts one
+  const [stageTimer, setStageTimer] = useState<StageTimer | null>(null);
+  // Set once the server reports a status change; until then the status loaded with the retro applies
+  const [retroStatus, setRetroStatus] = useState<RetroStatus | null>(null);
 
   // Use ref for enabledStages to avoid stale closure in toast
   const enabledStagesRef = useRef(enabledStages);
@@ -225,8 +311,14 @@ export function useRetroWebSocket({ retroId, enabledStages }: UseRetroWebSocketO
     setDiscussedItems,
     setStageDoneStatus,
     setReactions,
+    setComments,
     setIcebreakerState,
     setCurrentStageIndex,
+    setVoteBudget,
+    setVotesRevealed,
+    setVoteProgress,
+    setRetroStatus,
+    setStageTimer,
   };
 
   useEffect(() => {
@@ -242,15 +334,34 @@ export function useRetroWebSocket({ retroId, enabledStages }: UseRetroWebSocketO
         const storedUserId = sessionStorage.getItem(`retro_userId_${retroId}`);
         const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
         const wsHost = import.meta.env.VITE_WS_URL || `${wsProtocol}//${window.location.host}`;
-        let wsUrl = `${wsHost}/ws/retro/${retroId}`;
+        const wsUrl = `${wsHost}/ws/retro/${retroId}`;
+        const params = new URLSearchParams();
 
+        const storedResumeToken = sessionStorage.getItem(`retro_resumeToken_${retroId}`);
         if (storedUserId) {
-          wsUrl += `?userId=${storedUserId}`;
+          params.set('userId', storedUserId);
+          if (storedResumeToken) {
+            params.set('resumeToken', storedResumeToken);
+          }
           console.log('Attempting to reconnect with stored userId:', storedUserId);
         }
 
         console.log('Initializing WebSocket connection:', wsUrl);
-        socket = new WebSocket(wsUrl);
+
+        // Holding the facilitator token is what makes this user the room creator
+        const facilitatorToken = getFacilitatorToken(retroId);
+        if (facilitatorToken) {
+          params.set('facilitatorToken', facilitatorToken);
+        }
+
+        // Logged-in users are shown by their real name in non-anonymous retros
+        const authToken = getAuthToken();
+        if (authToken) {
+          params.set('authToken', authToken);
+        }
+
+        const query = params.toString();
+        socket = new WebSocket(query ? `${wsUrl}?${query}` : wsUrl);
 
         socket.onopen = () => console.log('WebSocket connected successfully');
 
@@ -274,6 +385,7 @@ export function useRetroWebSocket({ retroId, enabledStages }: UseRetroWebSocketO
                 discussedItems,
                 stageDoneStatus,
                 reactions,
+                comments,
                 icebreakerState,
                 currentStageIndex,
               };
@@ -338,8 +450,14 @@ export function useRetroWebSocket({ retroId, enabledStages }: UseRetroWebSocketO
     discussedItems,
     stageDoneStatus,
     reactions,
+    comments,
     icebreakerState,
     currentStageIndex,
+    voteBudget,
+    votesRevealed,
+    voteProgress,
+    retroStatus,
+    stageTimer,
     setCards,
     setCardGroups,
     setVotes,
@@ -0,0 +1,190 @@
+import { useState, useEffect } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { ListChecks, Flag, Calendar } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Header from '@/components/Header';
+import { useAuth } from '@/context/AuthContext';
+import { getActions, getTeams, updateAction } from '@/services/api';
+import { ActionItem, ActionStatusFilter, TrackedActionItem } from '@/types/retroBoard';
+import { ACTION_STATUS_LABELS, getPriorityColor } from '@/types/retroUtils';
+import { Team } from '@/types/auth';
+
+const STATUS_FILTERS: { value: ActionStatusFilter; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'pending', label: ACTION_STATUS_LABELS.pending },
+  { value: 'in_progress', label: ACTION_STATUS_LABELS.in_progress },
+  { value: 'completed', label: ACTION_STATUS_LABELS.completed },
+  { value: 'all', label: 'All' },
+];
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+export default function ActionsPage() {
+  const { user, isLoading } = useAuth();
+  const [teams, setTeams] = useState<Team[] | null>(null);
+  const [teamId, setTeamId] = useState('');
+  const [status, setStatus] = useState<ActionStatusFilter>('open');
+  const [actionItems, setActionItems] = useState<TrackedActionItem[] | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    getTeams()
+      .then((loaded) => {
+        setTeams(loaded);
+        if (loaded.length > 0) setTeamId(loaded[0].id);
+      })
+      .catch(() => toast.error('Failed to load teams'));
+  }, [user]);
+
+  useEffect(() => {
+    if (!teamId) return;
+    getActions(teamId, status)
+      .then(setActionItems)
+      .catch(() => toast.error('Failed to load action items'));
+  }, [teamId, status]);
+
+  if (isLoading) return null;
+  if (!user) return <Navigate to="/login" replace />;
+
+  // Items stay listed after a status change until the filters change, so a slip can be undone
+  const handleStatusChange = async (item: TrackedActionItem, newStatus: ActionItem['status']) => {
+    try {
+      const updated = await updateAction(item.retroId, item.id, { status: newStatus });
+      setActionItems((current) =>
+        current?.map((other) =>
+          other.retroId === item.retroId && other.id === item.id ? { ...other, ...updated } : other
+        ) ?? null
+      );
+      toast.success('Action item updated');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update action item');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-6">Action Items</h1>
+
+        {teams?.length === 0 ? (
+          <div className="card text-center text-gray-600 dark:text-gray-400">
+            <p>
+              Action items are tracked per team.{' '}
+              <Link to="/teams" className="text-kone-blue dark:text-kone-lightBlue hover:underline">
+                Create or join a team
+              </Link>{' '}
+              to follow them up across retros.
+            </p>
+          </div>
+        ) : teams && (
+          <>
+            <div className="card mb-6 grid gap-3 sm:grid-cols-2">
+              <select
+                value={teamId}
+                onChange={(e) => setTeamId(e.target.value)}
+                className="input-field"
+                aria-label="Team"
+              >
+                {teams.map((team) => (
+                  <option key={team.id} value={team.id}>
+                    {team.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={status}
+                onChange={(e) => setStatus(e.target.value as ActionStatusFilter)}
+                className="input-field"
+                aria-label="Status"
+              >
+                {STATUS_FILTERS.map((filter) => (
+                  <option key={filter.value} value={filter.value}>
+                    {filter.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {actionItems && actionItems.length === 0 ? (
+              <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+                <ListChecks className="w-12 h-12 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">No action items found</p>
+              </div>
+            ) : (
+              <div className="card overflow-x-auto p-0">
+                <table className="w-full text-sm">
+                  <thead className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <tr>
+                      <th className="p-3 font-medium">Action</th>
+                      <th className="p-3 font-medium">Retro</th>
+                      <th className="p-3 font-medium">Priority</th>
+                      <th className="p-3 font-medium">Due</th>
+                      <th className="p-3 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {actionItems?.map((item) => (
+                      <tr key={`${item.retroId}/${item.id}`} className="border-b last:border-0 border-gray-100 dark:border-gray-700">
+                        <td className="p-3">
+                          <p className="font-medium text-gray-900 dark:text-gray-100">{item.title}</p>
+                          {item.description && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400 truncate max-w-xs">{item.description}</p>
+                          )}
+                        </td>
+                        <td className="p-3 whitespace-nowrap">
+                          <Link
+                            to={`/retro/${item.retroId}/join`}
+                            className="text-kone-blue dark:text-kone-lightBlue hover:underline"
+                          >
+                            {item.retroName}
+                          </Link>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">{formatDate(item.retroCreatedAt)}</p>
+                        </td>
+                        <td className="p-3">
+                          <span className={`text-xs px-2 py-0.5 rounded-full inline-flex items-center gap-1 ${getPriorityColor(item.priority)}`}>
+                            <Flag className="w-3 h-3" />
+                            {item.priority}
+                          </span>
+                        </td>
+                        <td className="p-3 text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                          {item.dueDate && (
+                            <span className="inline-flex items-center gap-1">
+                              <Calendar className="w-3 h-3" />
+                              {formatDate(item.dueDate)}
+                            </span>
+                          )}
+                        </td>
+                        <td className="p-3">
+                          <select
+                            value={item.status}
+                            onChange={(e) => handleStatusChange(item, e.target.value as ActionItem['status'])}
+                            className="input-field py-1"
+                            aria-label={`Status of ${item.title}`}
+                          >
+                            {Object.entries(ACTION_STATUS_LABELS).map(([value, label]) => (
+                              <option key={value} value={value}>
+                                {label}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
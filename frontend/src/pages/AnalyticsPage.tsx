@@ -0,0 +1,256 @@
+import { useState, useEffect } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { BarChart3 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Header from '@/components/Header';
+import { useAuth } from '@/context/AuthContext';
+import { getTeamAnalytics, getTeams } from '@/services/api';
+import { AnalyticsRange, RetroTrendPoint, TeamAnalytics } from '@/types/analytics';
+import { Team } from '@/types/auth';
+
+type RateKey = 'actionCompletionRate' | 'participationRate' | 'voteConcentration';
+
+const RATE_CHARTS: { key: RateKey; title: string; description: string; color: string }[] = [
+  {
+    key: 'actionCompletionRate',
+    title: 'Action completion',
+    description: 'Share of action items completed',
+    color: 'bg-green-500',
+  },
+  {
+    key: 'participationRate',
+    title: 'Participation',
+    description: 'Team members who added a card or voted',
+    color: 'bg-kone-blue',
+  },
+  {
+    key: 'voteConcentration',
+    title: 'Vote concentration',
+    description: 'Share of votes on the three most voted items',
+    color: 'bg-amber-500',
+  },
+];
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+const formatRate = (rate: number | null) => (rate === null ? '–' : `${Math.round(rate * 100)}%`);
+
+// Mean of the retros that have a value, so retros without votes or action items don't drag it down
+const averageRate = (points: RetroTrendPoint[], key: RateKey): number | null => {
+  const rates = points.map((point) => point[key]).filter((rate): rate is number => rate !== null);
+  return rates.length > 0 ? rates.reduce((sum, rate) => sum + rate, 0) / rates.length : null;
+};
+
+// The date range covers whole days in the browser's time zone
+const toRange = (from: string, to: string): AnalyticsRange => ({
+  ...(from && { from: new Date(`${from}T00:00:00`).toISOString() }),
+  ...(to && { to: new Date(`${to}T23:59:59.999`).toISOString() }),
+});
+
+function CardsPerColumnChart({ retros }: { retros: RetroTrendPoint[] }) {
+  const mostCards = Math.max(1, ...retros.map((point) => point.cardsPerColumn.reduce((sum, column) => sum + column.count, 0)));
+
+  return (
+    <div className="card">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Cards per column</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Cards added to each column, per retro</p>
+      <ul className="space-y-2">
+        {retros.map((point) => {
+          const total = point.cardsPerColumn.reduce((sum, column) => sum + column.count, 0);
+          return (
+            <li key={point.retroId} className="grid grid-cols-[10rem_1fr_2.5rem] items-center gap-3 text-sm">
+              <span className="truncate text-gray-700 dark:text-gray-300" title={point.sessionName}>
+                {point.sessionName}
+              </span>
+              <div className="flex h-4 rounded bg-gray-100 dark:bg-gray-700 overflow-hidden">
+                {point.cardsPerColumn
+                  .filter((column) => column.count > 0)
+                  .map((column) => (
+                    <div
+                      key={column.columnId}
+                      style={{ width: `${(column.count / mostCards) * 100}%`, backgroundColor: column.color }}
+                      title={`${column.columnName}: ${column.count}`}
+                    />
+                  ))}
+              </div>
+              <span className="text-right text-gray-500 dark:text-gray-400">{total}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+function RateChart({ retros, chart }: { retros: RetroTrendPoint[]; chart: (typeof RATE_CHARTS)[number] }) {
+  return (
+    <div className="card">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{chart.title}</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{chart.description}</p>
+      <ul className="space-y-2">
+        {retros.map((point) => (
+          <li key={point.retroId} className="grid grid-cols-[10rem_1fr_2.5rem] items-center gap-3 text-sm">
+            <span className="truncate text-gray-700 dark:text-gray-300" title={point.sessionName}>
+              {point.sessionName}
+            </span>
+            <div className="h-4 rounded bg-gray-100 dark:bg-gray-700 overflow-hidden">
+              <div className={`h-full ${chart.color}`} style={{ width: `${(point[chart.key] ?? 0) * 100}%` }} />
+            </div>
+            <span className="text-right text-gray-500 dark:text-gray-400">{formatRate(point[chart.key])}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function AnalyticsPage() {
+  const { user, isLoading } = useAuth();
+  const [teams, setTeams] = useState<Team[] | null>(null);
+  const [teamId, setTeamId] = useState('');
+  // yyyy-mm-dd values from the date inputs
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [analytics, setAnalytics] = useState<TeamAnalytics | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    getTeams()
+      .then((loaded) => {
+        setTeams(loaded);
+        if (loaded.length > 0) setTeamId(loaded[0].id);
+      })
+      .catch(() => toast.error('Failed to load teams'));
+  }, [user]);
+
+  useEffect(() => {
+    if (!teamId) return;
+    getTeamAnalytics(teamId, toRange(from, to))
+      .then(setAnalytics)
+      .catch(() => toast.error('Failed to load analytics'));
+  }, [teamId, from, to]);
+
+  if (isLoading) return null;
+  if (!user) return <Navigate to="/login" replace />;
+
+  const summary = analytics && [
+    { label: 'Retros', value: String(analytics.retros.length) },
+    { label: 'Action completion', value: formatRate(analytics.actionCompletionRate) },
+    { label: 'Average participation', value: formatRate(averageRate(analytics.retros, 'participationRate')) },
+    { label: 'Average vote concentration', value: formatRate(averageRate(analytics.retros, 'voteConcentration')) },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-6">Team Analytics</h1>
+
+        {teams?.length === 0 ? (
+          <div className="card text-center text-gray-600 dark:text-gray-400">
+            <p>
+              Analytics are gathered per team.{' '}
+              <Link to="/teams" className="text-kone-blue dark:text-kone-lightBlue hover:underline">
+                Create or join a team
+              </Link>{' '}
+              to see how its retros trend.
+            </p>
+          </div>
+        ) : teams && (
+          <>
+            <div className="card mb-6 grid gap-3 sm:grid-cols-3">
+              <select
+                value={teamId}
+                onChange={(e) => setTeamId(e.target.value)}
+                className="input-field"
+                aria-label="Team"
+              >
+                {teams.map((team) => (
+                  <option key={team.id} value={team.id}>
+                    {team.name}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                From
+                <input
+                  type="date"
+                  value={from}
+                  onChange={(e) => setFrom(e.target.value)}
+                  className="input-field"
+                  aria-label="From date"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                To
+                <input
+                  type="date"
+                  value={to}
+                  onChange={(e) => setTo(e.target.value)}
+                  className="input-field"
+                  aria-label="To date"
+                />
+              </label>
+            </div>
+
+            {analytics && analytics.retros.length === 0 ? (
+              <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+                <BarChart3 className="w-12 h-12 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">No retros in this period</p>
+              </div>
+            ) : analytics && summary && (
+              <div className="space-y-6">
+                <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+                  {summary.map((tile) => (
+                    <div key={tile.label} className="card text-center">
+                      <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">{tile.value}</p>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">{tile.label}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {formatDate(analytics.retros[0].createdAt)} – {formatDate(analytics.retros[analytics.retros.length - 1].createdAt)}
+                </p>
+
+                <CardsPerColumnChart retros={analytics.retros} />
+                {RATE_CHARTS.map((chart) => (
+                  <RateChart key={chart.key} retros={analytics.retros} chart={chart} />
+                ))}
+
+                <div className="card">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Recurring themes</h2>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">Words that came up in the cards of several retros</p>
+                  {analytics.recurringThemes.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No theme has come up more than once yet</p>
+                  ) : (
+                    <ul className="flex flex-wrap gap-2">
+                      {analytics.recurringThemes.map((theme) => (
+                        <li
+                          key={theme.term}
+                          className="px-3 py-1 rounded-full bg-blue-50 dark:bg-gray-700 text-sm text-gray-800 dark:text-gray-200"
+                        >
+                          {theme.term}
+                          <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">
+                            {`${theme.retroCount} retros, ${theme.cardCount} cards`}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
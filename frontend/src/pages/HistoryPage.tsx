@@ -0,0 +1,243 @@
+import { useState, useEffect } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { History, Search, ChevronLeft, ChevronRight } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Header from '@/components/Header';
+import { useAuth } from '@/context/AuthContext';
+import { getRetros, getTemplates, getTeams } from '@/services/api';
+import { RetroPage, RetroQuery, RetroStatus, Template } from '@/types/retro';
+import { Team } from '@/types/auth';
+
+const PAGE_SIZE = 10;
+const STATUSES: RetroStatus[] = ['draft', 'active', 'voting', 'completed'];
+
+interface HistoryFilters {
+  search: string;
+  templateId: string;
+  status: RetroStatus | '';
+  teamId: string;
+  // yyyy-mm-dd values from the date inputs, in the browser's time zone
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: HistoryFilters = { search: '', templateId: '', status: '', teamId: '', from: '', to: '' };
+
+// Query for the filters that are set; the date range covers whole days
+const toRetroQuery = (filters: HistoryFilters, page: number): RetroQuery => ({
+  page,
+  pageSize: PAGE_SIZE,
+  ...(filters.search.trim() && { q: filters.search.trim() }),
+  ...(filters.templateId && { templateId: filters.templateId }),
+  ...(filters.status && { status: filters.status }),
+  ...(filters.teamId && { teamId: filters.teamId }),
+  ...(filters.from && { from: new Date(`${filters.from}T00:00:00`).toISOString() }),
+  ...(filters.to && { to: new Date(`${filters.to}T23:59:59.999`).toISOString() }),
+});
+
+const formatDate = (date: Date | string) => {
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+export default function HistoryPage() {
+  const { user, isLoading } = useAuth();
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<RetroPage | null>(null);
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+    getTemplates()
+      .then(setTemplates)
+      .catch(() => toast.error('Failed to load templates'));
+    getTeams()
+      .then(setTeams)
+      .catch(() => toast.error('Failed to load teams'));
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    getRetros(toRetroQuery(filters, page))
+      .then(setResult)
+      .catch(() => toast.error('Failed to load retrospectives'));
+  }, [user, filters, page]);
+
+  if (isLoading) return null;
+  if (!user) return <Navigate to="/login" replace />;
+
+  // Any filter change starts over from the first page
+  const updateFilter = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const templateNames = new Map(templates.map((template) => [template.id, template.name]));
+  const pageCount = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-6">Retro History</h1>
+
+        <div className="card mb-6 grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          <div className="relative sm:col-span-2 lg:col-span-3">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              type="search"
+              value={filters.search}
+              onChange={(e) => updateFilter('search', e.target.value)}
+              className="input-field pl-9"
+              placeholder="Search session names and context"
+              aria-label="Search retros"
+            />
+          </div>
+          <select
+            value={filters.teamId}
+            onChange={(e) => updateFilter('teamId', e.target.value)}
+            className="input-field"
+            aria-label="Team"
+          >
+            <option value="">All teams</option>
+            {teams.map((team) => (
+              <option key={team.id} value={team.id}>
+                {team.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.templateId}
+            onChange={(e) => updateFilter('templateId', e.target.value)}
+            className="input-field"
+            aria-label="Template"
+          >
+            <option value="">All templates</option>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.status}
+            onChange={(e) => updateFilter('status', e.target.value as RetroStatus | '')}
+            className="input-field capitalize"
+            aria-label="Status"
+          >
+            <option value="">All statuses</option>
+            {STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            From
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter('from', e.target.value)}
+              className="input-field"
+              aria-label="From date"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            To
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter('to', e.target.value)}
+              className="input-field"
+              aria-label="To date"
+            />
+          </label>
+        </div>
+
+        {result && result.retros.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+            <History className="w-12 h-12 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No retrospectives found</p>
+          </div>
+        ) : (
+          <div className="card overflow-x-auto p-0">
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                <tr>
+                  <th className="p-3 font-medium">Session</th>
+                  <th className="p-3 font-medium">Date</th>
+                  <th className="p-3 font-medium">Template</th>
+                  <th className="p-3 font-medium">Status</th>
+                  <th className="p-3 font-medium text-right">Cards</th>
+                  <th className="p-3 font-medium text-right">Votes</th>
+                  <th className="p-3 font-medium text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result?.retros.map((retro) => (
+                  <tr key={retro.id} className="border-b last:border-0 border-gray-100 dark:border-gray-700">
+                    <td className="p-3">
+                      <Link
+                        to={`/retro/${retro.id}/join`}
+                        className="font-medium text-kone-blue dark:text-kone-lightBlue hover:underline"
+                      >
+                        {retro.sessionName}
+                      </Link>
+                      {retro.context && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate max-w-xs">{retro.context}</p>
+                      )}
+                    </td>
+                    <td className="p-3 text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                      {formatDate(retro.createdAt)}
+                    </td>
+                    <td className="p-3 text-gray-700 dark:text-gray-300">
+                      {templateNames.get(retro.templateId) || retro.templateId}
+                    </td>
+                    <td className="p-3 text-gray-700 dark:text-gray-300 capitalize">{retro.status}</td>
+                    <td className="p-3 text-right text-gray-900 dark:text-gray-100">{retro.counts.cards}</td>
+                    <td className="p-3 text-right text-gray-900 dark:text-gray-100">{retro.counts.votes}</td>
+                    <td className="p-3 text-right text-gray-900 dark:text-gray-100">{retro.counts.actionItems}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {result && result.total > 0 && (
+          <div className="flex items-center justify-between mt-4 text-sm text-gray-600 dark:text-gray-400">
+            <span>
+              Page {page} of {pageCount} ({result.total} {result.total === 1 ? 'retro' : 'retros'})
+            </span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setPage((prev) => prev - 1)}
+                disabled={page <= 1}
+                className="btn-secondary flex items-center gap-1 disabled:opacity-50"
+              >
+                <ChevronLeft className="w-4 h-4" />
+                Previous
+              </button>
+              <button
+                type="button"
+                onClick={() => setPage((prev) => prev + 1)}
+                disabled={page >= pageCount}
+                className="btn-secondary flex items-center gap-1 disabled:opacity-50"
+              >
+                Next
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
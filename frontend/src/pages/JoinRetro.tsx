@@ -1,8 +1,8 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Users, Calendar, Clock, Info, ArrowRight, Loader2 } from 'lucide-react';
+import { Users, Calendar, CalendarPlus, Clock, Info, ArrowRight, Loader2 } from 'lucide-react';
 import toast from 'react-hot-toast';
-import api from '@/services/api';
+import api, { getRetroInvite } from '@/services/api';
 import Header from '@/components/Header';
 
 interface RetroData {
@@ -11,6 +11,7 @@ interface RetroData {
   context: string;
   templateId: string;
   status: string;
+  scheduledAt?: string | null;
   createdAt: Date;
   template?: {
     id: string;
@@ -76,6 +77,16 @@ export default function JoinRetro() {
     });
   };
 
+  const formatStartTime = (date: string) => {
+    return new Date(date).toLocaleString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800">
@@ -103,6 +114,24 @@ export default function JoinRetro() {
     );
   }
 
+  const handleDownloadInvite = async () => {
+    try {
+      const file = await getRetroInvite(retro.id);
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${retro.sessionName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'retro'}.ics`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading invite:', error);
+      toast.error('Failed to download calendar invite');
+    }
+  };
+
+  // Scheduled retros that haven't started yet can still be joined early
+  const startsLater = !!retro.scheduledAt && new Date(retro.scheduledAt).getTime() > Date.now();
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800">
       <Header />
@@ -180,6 +209,24 @@ export default function JoinRetro() {
               </div>
             </div>
 
+            {startsLater && (
+              <div className="mb-6 p-4 bg-amber-50 dark:bg-amber-900/20 rounded-lg border border-amber-200 dark:border-amber-800">
+                <div className="flex items-center gap-3 flex-wrap">
+                  <Clock className="w-5 h-5 text-amber-600 dark:text-amber-400 flex-shrink-0" />
+                  <p className="text-gray-900 dark:text-gray-100 font-medium">
+                    Starts at {formatStartTime(retro.scheduledAt!)}
+                  </p>
+                  <button
+                    onClick={handleDownloadInvite}
+                    className="ml-auto flex items-center gap-1 text-sm text-amber-700 dark:text-amber-300 hover:underline"
+                  >
+                    <CalendarPlus className="w-4 h-4" />
+                    Add to calendar
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Additional Info */}
             <div className="flex items-center gap-6 text-sm text-gray-600 dark:text-gray-400 pb-6 border-b border-gray-200 dark:border-gray-700">
               <div className="flex items-center gap-2">
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { LogIn, UserPlus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Header from '@/components/Header';
+import { useAuth } from '@/context/AuthContext';
+
+type Mode = 'login' | 'register';
+
+export default function LoginPage() {
+  const navigate = useNavigate();
+  const { login, register } = useAuth();
+  const [mode, setMode] = useState<Mode>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      if (mode === 'login') {
+        await login({ email, password });
+        toast.success('Logged in');
+      } else {
+        await register({ name, email, password });
+        toast.success('Account created');
+      }
+      navigate('/');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || (mode === 'login' ? 'Failed to log in' : 'Failed to create account'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800">
+      <Header />
+
+      <div className="container mx-auto px-4 py-12">
+        <div className="card max-w-md mx-auto">
+          {/* Tabs */}
+          <div className="flex gap-2 border-b border-gray-200 dark:border-gray-700 mb-6">
+            {(['login', 'register'] as Mode[]).map((tab) => (
+              <button
+                key={tab}
+                type="button"
+                onClick={() => setMode(tab)}
+                className={`px-6 py-3 font-medium transition-colors ${
+                  mode === tab
+                    ? 'text-kone-blue dark:text-kone-lightBlue border-b-2 border-kone-blue dark:border-kone-lightBlue'
+                    : 'text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100'
+                }`}
+              >
+                {tab === 'login' ? 'Log in' : 'Sign up'}
+              </button>
+            ))}
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {mode === 'register' && (
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Name
+                </label>
+                <input
+                  id="name"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="input-field"
+                  required
+                />
+              </div>
+            )}
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Email
+              </label>
+              <input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="input-field"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="input-field"
+                minLength={mode === 'register' ? 8 : undefined}
+                required
+              />
+              {mode === 'register' && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">At least 8 characters</p>
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="btn-primary w-full flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {mode === 'login' ? <LogIn className="w-4 h-4" /> : <UserPlus className="w-4 h-4" />}
+              {mode === 'login' ? 'Log in' : 'Create account'}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
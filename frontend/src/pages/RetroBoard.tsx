@@ -1,10 +1,11 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Clock, Check, ChevronRight, Users, X } from 'lucide-react';
+import { Clock, Check, ChevronRight, Users, X, Lock, Pause, Play, Plus, RotateCcw } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { getRetroById } from '@/services/api';
 import Header from '@/components/Header';
 import ParticipantsSidebar from '@/components/ParticipantsSidebar';
+import PreviousActionsStage from '@/components/retroComponents/PreviousActionsStage';
 import IcebreakerStage from '@/components/retroComponents/IcebreakerStage';
 import BrainstormStage from '@/components/retroComponents/BrainstormStage';
 import GroupStage from '@/components/retroComponents/GroupStage';
@@ -13,7 +14,8 @@ import DiscussStage from '@/components/retroComponents/DiscussStage';
 import ReviewStage from '@/components/retroComponents/ReviewStage';
 import ReportStage from '@/components/retroComponents/ReportStage';
 import { useRetroWebSocket } from '@/hooks/useRetroWebSocket';
-import { RetroStage } from '@/types/retro';
+import { RetroStage, VotingMethod } from '@/types/retro';
+import { Comment, VoteBudget, VoteProgress, StageTimer, TimerExpiryAction } from '@/types/retroBoard';
 
 interface RetroData {
   id: string;
@@ -22,8 +24,15 @@ interface RetroData {
   templateId: string;
   status: string;
   creatorId?: string;
+  teamId?: string;
   stages?: RetroStage[];
   votingLimit?: number;
+  votingMethod?: VotingMethod;
+  maxVotesPerItem?: number | null;
+  blindVoting?: boolean;
+  isAnonymous?: boolean;
+  commentsEnabled?: boolean;
+  commentReactionsEnabled?: boolean;
   template?: {
     id: string;
     name: string;
@@ -46,13 +55,15 @@ const DEFAULT_STAGES: RetroStage[] = [
   { id: 'report', name: 'Report', duration: 0, enabled: true },
 ];
 
+// Time the facilitator adds to a running timer at a time
+const TIMER_EXTENSION_SECONDS = 60;
+
 export default function RetroBoard() {
   const { retroId } = useParams<{ retroId: string }>();
   const navigate = useNavigate();
 
   const [retro, setRetro] = useState<RetroData | null>(null);
   const [timeRemaining, setTimeRemaining] = useState(0);
-  const [isTimerRunning, setIsTimerRunning] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
   // Get enabled stages from retro data
@@ -71,8 +82,14 @@ export default function RetroBoard() {
     discussedItems,
     stageDoneStatus,
     reactions,
+    comments,
     icebreakerState,
     currentStageIndex,
+    voteBudget,
+    votesRevealed,
+    voteProgress,
+    retroStatus,
+    stageTimer,
     setCards,
     setCardGroups,
     setVotes,
@@ -83,7 +100,10 @@ export default function RetroBoard() {
   } = useRetroWebSocket({ retroId, enabledStages });
 
   const currentStage = enabledStages[currentStageIndex];
-  const isRoomCreator = participants.some((p) => p.id === currentUserId && p.isCreator);
+  // A timer left over from another stage (e.g. before our own stage change was confirmed) isn't shown
+  const currentTimer = stageTimer?.stageIndex === currentStageIndex ? stageTimer : null;
+  // Co-facilitators share the facilitator's controls
+  const isRoomCreator = participants.some((p) => p.id === currentUserId && (p.isCreator || p.isCoFacilitator));
 
   // Fetch retro data on mount
   useEffect(() => {
@@ -97,31 +117,29 @@ export default function RetroBoard() {
     }
   }, [retroId, navigate]);
 
-  // Timer effect
+  // The server keeps the timer; count down locally between its updates
   useEffect(() => {
-    if (!isTimerRunning || timeRemaining <= 0) return;
+    setTimeRemaining(currentTimer?.remaining ?? 0);
+    if (!currentTimer?.isRunning) return;
 
+    const endsAt = Date.now() + currentTimer.remaining * 1000;
     const interval = setInterval(() => {
-      setTimeRemaining((prev) => {
-        if (prev <= 1) {
-          setIsTimerRunning(false);
-          toast.success('Time is up for this stage!');
-          return 0;
-        }
-        return prev - 1;
-      });
+      setTimeRemaining(Math.max(0, Math.ceil((endsAt - Date.now()) / 1000)));
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [isTimerRunning, timeRemaining]);
+  }, [currentTimer]);
 
   // Stage navigation handlers
   const goToNextStage = () => {
     if (currentStageIndex < enabledStages.length - 1) {
       const newIndex = currentStageIndex + 1;
+      // Opening the report completes the retro, which locks it for good
+      if (enabledStages[newIndex].id === 'report' &&
+          !window.confirm('Moving on to the report completes the retro, after which it can no longer be changed. Continue?')) {
+        return;
+      }
       setCurrentStageIndex(newIndex);
-      setIsTimerRunning(false);
-      setTimeRemaining(0);
       sendMessage({ type: 'stage-change', stageIndex: newIndex });
     }
   };
@@ -130,17 +148,26 @@ export default function RetroBoard() {
     if (currentStageIndex > 0) {
       const newIndex = currentStageIndex - 1;
       setCurrentStageIndex(newIndex);
-      setIsTimerRunning(false);
-      setTimeRemaining(0);
       sendMessage({ type: 'stage-change', stageIndex: newIndex });
     }
   };
 
-  const startTimer = () => {
-    if (currentStage?.duration > 0) {
-      setTimeRemaining(currentStage.duration);
-      setIsTimerRunning(true);
-    }
+  // Timer controls; everyone's countdown follows the server's reply
+  const sendTimerAction = (action: 'start' | 'pause' | 'resume' | 'extend' | 'reset', fields: object = {}) => {
+    sendMessage({ type: 'timer-update', action, ...fields });
+  };
+
+  // Facilitator role handlers (only the lead facilitator sees these controls)
+  const handleTransferFacilitator = (participantId: string) => {
+    sendMessage({ type: 'transfer-facilitator', participantId });
+  };
+
+  const handleSetCoFacilitator = (participantId: string, isCoFacilitator: boolean) => {
+    sendMessage({ type: 'co-facilitator-update', participantId, isCoFacilitator });
+  };
+
+  const handleRegenerateFacilitatorToken = () => {
+    sendMessage({ type: 'facilitator-token-regenerate' });
   };
 
   const formatTime = (seconds: number) => {
@@ -149,12 +176,20 @@ export default function RetroBoard() {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  // Completed retros are read-only; the server rejects any further changes
+  const isCompleted = (retroStatus ?? retro?.status) === 'completed';
+
   // Check if Next button should be disabled
   const isNextDisabled =
+    isCompleted ||
     currentStageIndex === enabledStages.length - 1 ||
     ((currentStage?.id === 'brainstorm' || currentStage?.id === 'vote') &&
       (stageDoneStatus[currentStage.id]?.length || 0) < participants.length);
 
+  // Moving on to the report needs the facilitator's confirmation, so a timer can't do it
+  const canTimerAdvance =
+    currentStageIndex < enabledStages.length - 1 && enabledStages[currentStageIndex + 1].id !== 'report';
+
   // Loading state
   if (!retro) {
     return (
@@ -212,18 +247,32 @@ export default function RetroBoard() {
         </div>
       </div>
 
+      {isCompleted && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800">
+          <div className="container mx-auto px-4 py-2 flex items-center gap-2 text-sm text-amber-800 dark:text-amber-300">
+            <Lock className="w-4 h-4 flex-shrink-0" />
+            <span>This retro is completed and can no longer be changed</span>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="flex-1 container mx-auto px-2 sm:px-4 py-4 sm:py-6 flex gap-4 lg:gap-6 overflow-hidden relative">
         <div className="flex-1 flex flex-col min-w-0 w-full lg:w-auto">
           {/* Timer */}
-          {currentStage?.duration > 0 && (
+          {(currentStage?.duration > 0 || currentTimer) && (
             <TimerSection
               stageName={currentStage.name}
               duration={currentStage.duration}
+              timer={currentTimer}
               timeRemaining={timeRemaining}
-              isRunning={isTimerRunning}
-              onStart={startTimer}
-              onPause={() => setIsTimerRunning(false)}
+              canControl={isRoomCreator && !isCompleted}
+              canAdvance={canTimerAdvance}
+              onStart={(onExpire) => sendTimerAction('start', { onExpire })}
+              onPause={() => sendTimerAction('pause')}
+              onResume={() => sendTimerAction('resume')}
+              onExtend={() => sendTimerAction('extend', { seconds: TIMER_EXTENSION_SECONDS })}
+              onReset={() => sendTimerAction('reset')}
               formatTime={formatTime}
             />
           )}
@@ -244,12 +293,16 @@ export default function RetroBoard() {
               setCardGroups={setCardGroups}
               votes={votes}
               setVotes={setVotes}
+              voteBudget={voteBudget}
+              votesRevealed={votesRevealed}
+              voteProgress={voteProgress}
               actionItems={actionItems}
               setActionItems={setActionItems}
               discussedItems={discussedItems}
               setDiscussedItems={setDiscussedItems}
               stageDoneStatus={stageDoneStatus}
               reactions={reactions}
+              comments={comments}
               icebreakerState={icebreakerState}
             />
           </div>
@@ -259,7 +312,7 @@ export default function RetroBoard() {
             <div className="flex flex-col sm:flex-row justify-between gap-3 sm:gap-0 mt-4 sm:mt-6">
               <button
                 onClick={goToPreviousStage}
-                disabled={currentStageIndex === 0}
+                disabled={currentStageIndex === 0 || isCompleted}
                 className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed text-sm sm:text-base py-2"
               >
                 ← Previous Stage
@@ -269,7 +322,7 @@ export default function RetroBoard() {
                 disabled={isNextDisabled}
                 className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed text-sm sm:text-base py-2"
                 title={
-                  isNextDisabled && currentStage?.id
+                  isNextDisabled && !isCompleted && currentStage?.id
                     ? `Waiting for ${participants.length - (stageDoneStatus[currentStage.id]?.length || 0)} participants to finish`
                     : undefined
                 }
@@ -289,6 +342,9 @@ export default function RetroBoard() {
             creatorId={participants.find((p) => p.isCreator)?.id || ''}
             stageDoneStatus={stageDoneStatus}
             currentStageId={currentStage?.id || ''}
+            onTransferFacilitator={handleTransferFacilitator}
+            onSetCoFacilitator={handleSetCoFacilitator}
+            onRegenerateFacilitatorToken={handleRegenerateFacilitatorToken}
           />
         </div>
 
@@ -316,6 +372,9 @@ export default function RetroBoard() {
                 creatorId={participants.find((p) => p.isCreator)?.id || ''}
                 stageDoneStatus={stageDoneStatus}
                 currentStageId={currentStage?.id || ''}
+                onTransferFacilitator={handleTransferFacilitator}
+                onSetCoFacilitator={handleSetCoFacilitator}
+                onRegenerateFacilitatorToken={handleRegenerateFacilitatorToken}
               />
             </div>
           </div>
@@ -361,14 +420,52 @@ function StageButton({ stage, index, currentIndex }: StageButtonProps) {
 interface TimerSectionProps {
   stageName: string;
   duration: number;
+  timer: StageTimer | null;
   timeRemaining: number;
-  isRunning: boolean;
-  onStart: () => void;
+  // Facilitators control the timer; everyone else just sees it
+  canControl: boolean;
+  // Whether there is a next stage to move on to when time is up
+  canAdvance: boolean;
+  onStart: (onExpire: TimerExpiryAction) => void;
   onPause: () => void;
+  onResume: () => void;
+  onExtend: () => void;
+  onReset: () => void;
   formatTime: (seconds: number) => string;
 }
 
-function TimerSection({ stageName, duration, timeRemaining, isRunning, onStart, onPause, formatTime }: TimerSectionProps) {
+const EXPIRY_DESCRIPTIONS: Record<TimerExpiryAction, string> = {
+  'none': '',
+  'advance-stage': 'Moves on to the next stage when time is up',
+  'mark-all-done': 'Everyone is marked done when time is up',
+};
+
+function TimerSection({
+  stageName,
+  duration,
+  timer,
+  timeRemaining,
+  canControl,
+  canAdvance,
+  onStart,
+  onPause,
+  onResume,
+  onExtend,
+  onReset,
+  formatTime,
+}: TimerSectionProps) {
+  const [onExpire, setOnExpire] = useState<TimerExpiryAction>('none');
+  const isRunning = timer?.isRunning === true;
+  const isExpired = !!timer && !isRunning && timer.remaining <= 0;
+
+  const status = !timer
+    ? `Duration: ${Math.floor(duration / 60)} minutes`
+    : isRunning
+    ? `Time remaining: ${formatTime(timeRemaining)}`
+    : isExpired
+    ? 'Time is up'
+    : `Paused with ${formatTime(timeRemaining)} left`;
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-3 sm:p-6 mb-4 sm:mb-6">
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-0">
@@ -376,19 +473,62 @@ function TimerSection({ stageName, duration, timeRemaining, isRunning, onStart,
           <Clock className="w-5 h-5 sm:w-6 sm:h-6 text-kone-blue dark:text-kone-lightBlue flex-shrink-0" />
           <div>
             <h3 className="font-semibold text-sm sm:text-base text-gray-900 dark:text-gray-100">{stageName} Phase</h3>
-            <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-400">
-              {isRunning
-                ? `Time remaining: ${formatTime(timeRemaining)}`
-                : `Duration: ${Math.floor(duration / 60)} minutes`}
-            </p>
+            <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-400">{status}</p>
+            {timer && !isExpired && EXPIRY_DESCRIPTIONS[timer.onExpire] && (
+              <p className="text-xs text-gray-500 dark:text-gray-500">{EXPIRY_DESCRIPTIONS[timer.onExpire]}</p>
+            )}
           </div>
         </div>
-        <button 
-          onClick={isRunning ? onPause : onStart} 
-          className={`${isRunning ? 'btn-secondary' : 'btn-primary'} text-sm sm:text-base py-2 w-full sm:w-auto`}
-        >
-          {isRunning ? 'Pause Timer' : 'Start Timer'}
-        </button>
+        {canControl && (
+          <div className="flex flex-wrap items-center gap-2 w-full sm:w-auto">
+            {!timer ? (
+              <>
+                <select
+                  value={onExpire}
+                  onChange={(e) => setOnExpire(e.target.value as TimerExpiryAction)}
+                  title="When time is up"
+                  className="px-2 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                >
+                  <option value="none">Keep going when time is up</option>
+                  {canAdvance && <option value="advance-stage">Move to the next stage</option>}
+                  <option value="mark-all-done">Mark everyone done</option>
+                </select>
+                <button onClick={() => onStart(onExpire)} className="btn-primary text-sm sm:text-base py-2">
+                  Start Timer
+                </button>
+              </>
+            ) : (
+              <>
+                {isRunning ? (
+                  <button onClick={onPause} className="btn-secondary flex items-center gap-1 text-sm sm:text-base py-2">
+                    <Pause className="w-4 h-4" />
+                    Pause Timer
+                  </button>
+                ) : !isExpired && (
+                  <button onClick={onResume} className="btn-primary flex items-center gap-1 text-sm sm:text-base py-2">
+                    <Play className="w-4 h-4" />
+                    Resume Timer
+                  </button>
+                )}
+                <button
+                  onClick={onExtend}
+                  className="btn-secondary flex items-center gap-1 text-sm sm:text-base py-2"
+                  title="Add a minute"
+                >
+                  <Plus className="w-4 h-4" />
+                  1 min
+                </button>
+                <button
+                  onClick={onReset}
+                  className="btn-secondary flex items-center gap-1 text-sm sm:text-base py-2"
+                  title="Reset Timer"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              </>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -408,12 +548,16 @@ interface StageContentProps {
   setCardGroups: any;
   votes: any;
   setVotes: any;
+  voteBudget: VoteBudget | null;
+  votesRevealed: boolean;
+  voteProgress: VoteProgress | null;
   actionItems: any[];
   setActionItems: any;
   discussedItems: Set<string>;
   setDiscussedItems: any;
   stageDoneStatus: any;
   reactions: any;
+  comments: Comment[];
   icebreakerState: any;
 }
 
@@ -431,15 +575,35 @@ function StageContent({
   setCardGroups,
   votes,
   setVotes,
+  voteBudget,
+  votesRevealed,
+  voteProgress,
   actionItems,
   setActionItems,
   discussedItems,
   setDiscussedItems,
   stageDoneStatus,
   reactions,
+  comments,
   icebreakerState,
 }: StageContentProps) {
+  // Comments default to enabled, matching the server (see createRetro)
+  const commentsEnabled = retro.commentsEnabled !== false;
+  const commentReactionsEnabled = retro.commentReactionsEnabled !== false;
+
   const stageComponents: Record<string, JSX.Element> = {
+    'previous-actions': (
+      <>
+        <h2 className="text-lg sm:text-xl font-bold text-gray-900 dark:text-gray-100 mb-3 sm:mb-4">Previous Actions</h2>
+        <PreviousActionsStage
+          ws={ws}
+          retroId={retroId}
+          isRoomCreator={isRoomCreator}
+          actionItems={actionItems}
+          setActionItems={setActionItems}
+        />
+      </>
+    ),
     icebreaker: (
       <IcebreakerStage
         participants={participants}
@@ -477,6 +641,10 @@ function StageContent({
           cardGroups={cardGroups}
           setCardGroups={setCardGroups}
           reactions={reactions}
+          comments={comments}
+          commentsEnabled={commentsEnabled}
+          commentReactionsEnabled={commentReactionsEnabled}
+          isRoomCreator={isRoomCreator}
         />
       </>
     ),
@@ -490,11 +658,17 @@ function StageContent({
           retroId={retroId}
           cards={cards}
           cardGroups={cardGroups}
-          votingLimit={retro.votingLimit || 5}
+          votingLimit={voteBudget?.votingLimit ?? retro.votingLimit ?? 5}
+          votingMethod={retro.votingMethod}
+          maxVotesPerItem={voteBudget?.maxVotesPerItem ?? retro.maxVotesPerItem ?? null}
           votes={votes}
           setVotes={setVotes}
           stageId="vote"
           isDone={stageDoneStatus['vote']?.includes(currentUserId) || false}
+          isBlind={retro.blindVoting === true}
+          votesRevealed={votesRevealed}
+          isRoomCreator={isRoomCreator}
+          voteProgress={voteProgress}
         />
       </>
     ),
@@ -512,6 +686,9 @@ function StageContent({
           isRoomCreator={isRoomCreator}
           discussedItems={discussedItems}
           setDiscussedItems={setDiscussedItems}
+          comments={comments}
+          commentsEnabled={commentsEnabled}
+          commentReactionsEnabled={commentReactionsEnabled}
         />
       </>
     ),
@@ -530,6 +707,8 @@ function StageContent({
           isRoomCreator={isRoomCreator}
           actionItems={actionItems}
           setActionItems={setActionItems}
+          isAnonymous={retro.isAnonymous === true}
+          teamId={retro.teamId}
         />
       </>
     ),
@@ -546,6 +725,10 @@ function StageContent({
           votes={votes}
           participants={participants}
           actionItems={actionItems}
+          comments={comments}
+          isAnonymous={retro.isAnonymous === true}
+          votingMethod={retro.votingMethod}
+          isRoomCreator={isRoomCreator}
         />
       </>
     ),
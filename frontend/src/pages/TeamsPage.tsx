@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Users, Plus, UserPlus, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Header from '@/components/Header';
+import { useAuth } from '@/context/AuthContext';
+import { getTeams, createTeam, addTeamMember, removeTeamMember } from '@/services/api';
+import { Team } from '@/types/auth';
+
+export default function TeamsPage() {
+  const { user, isLoading } = useAuth();
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [newTeamName, setNewTeamName] = useState('');
+  const [memberEmails, setMemberEmails] = useState<{ [teamId: string]: string }>({});
+
+  useEffect(() => {
+    if (!user) return;
+    getTeams()
+      .then(setTeams)
+      .catch(() => toast.error('Failed to load teams'));
+  }, [user]);
+
+  if (isLoading) return null;
+  if (!user) return <Navigate to="/login" replace />;
+
+  const replaceTeam = (updated: Team) => {
+    setTeams((prev) => prev.map((team) => (team.id === updated.id ? updated : team)));
+  };
+
+  const handleCreateTeam = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const team = await createTeam(newTeamName);
+      setTeams((prev) => [...prev, team]);
+      setNewTeamName('');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to create team');
+    }
+  };
+
+  const handleAddMember = async (e: React.FormEvent, teamId: string) => {
+    e.preventDefault();
+    try {
+      replaceTeam(await addTeamMember(teamId, memberEmails[teamId] || ''));
+      setMemberEmails((prev) => ({ ...prev, [teamId]: '' }));
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to add member');
+    }
+  };
+
+  const handleRemoveMember = async (teamId: string, userId: string) => {
+    try {
+      const updated = await removeTeamMember(teamId, userId);
+      // Leaving a team removes it from your list
+      if (userId === user.id) {
+        setTeams((prev) => prev.filter((team) => team.id !== teamId));
+      } else {
+        replaceTeam(updated);
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to remove member');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 dark:from-gray-900 dark:via-gray-900 dark:to-gray-800">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-6">Your Teams</h1>
+
+        <form onSubmit={handleCreateTeam} className="card mb-6 flex gap-2">
+          <input
+            type="text"
+            value={newTeamName}
+            onChange={(e) => setNewTeamName(e.target.value)}
+            className="input-field flex-1"
+            placeholder="New team name"
+            aria-label="New team name"
+            required
+          />
+          <button type="submit" className="btn-primary flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            Create Team
+          </button>
+        </form>
+
+        {teams.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+            <Users className="w-12 h-12 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">You are not in any teams yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {teams.map((team) => (
+              <div key={team.id} className="card">
+                <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-3">{team.name}</h2>
+                <ul className="space-y-2 mb-4">
+                  {team.members.map((member) => (
+                    <li
+                      key={member.id}
+                      className="flex items-center justify-between p-2 rounded-lg bg-gray-50 dark:bg-gray-700"
+                    >
+                      <div>
+                        <p className="font-medium text-gray-900 dark:text-gray-100">
+                          {member.name}
+                          {member.id === user.id && ' (You)'}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{member.email}</p>
+                      </div>
+                      <button
+                        onClick={() => handleRemoveMember(team.id, member.id)}
+                        className="p-1.5 rounded text-gray-500 hover:text-red-600 hover:bg-gray-200 dark:text-gray-400 dark:hover:text-red-400 dark:hover:bg-gray-600 transition-colors"
+                        aria-label={member.id === user.id ? `Leave ${team.name}` : `Remove ${member.name}`}
+                        title={member.id === user.id ? 'Leave team' : 'Remove member'}
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                <form onSubmit={(e) => handleAddMember(e, team.id)} className="flex gap-2">
+                  <input
+                    type="email"
+                    value={memberEmails[team.id] || ''}
+                    onChange={(e) => setMemberEmails((prev) => ({ ...prev, [team.id]: e.target.value }))}
+                    className="input-field flex-1"
+                    placeholder="Member's email"
+                    aria-label={`Add member to ${team.name}`}
+                    required
+                  />
+                  <button type="submit" className="btn-secondary flex items-center gap-2">
+                    <UserPlus className="w-4 h-4" />
+                    Add
+                  </button>
+                </form>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
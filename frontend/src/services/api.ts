@@ -1,5 +1,16 @@
 import axios from 'axios';
-import { Template, Retro, CreateRetroData } from '@/types/retro';
+import { Template, TemplateData, Retro, CreateRetroData, RetroPage, RetroQuery, ExportFormat, ReportFormat } from '@/types/retro';
+import { AuthResponse, CurrentUser, LoginData, RegisterData, Team } from '@/types/auth';
+import {
+  ActionItem,
+  ActionItemChanges,
+  ActionStatusFilter,
+  PreviousActions,
+  TrackedActionItem,
+} from '@/types/retroBoard';
+import { AnalyticsRange, TeamAnalytics } from '@/types/analytics';
+import { getAuthToken } from './authToken';
+import { getFacilitatorToken } from './facilitatorToken';
 
 // Use relative URL when served from same server, or fallback to localhost for development
 const API_BASE_URL = import.meta.env.VITE_API_URL || '/api';
@@ -11,6 +22,23 @@ const api = axios.create({
   },
 });
 
+// Send the login token, if any, with every request, and the facilitator token with requests for
+// the retro it belongs to or its action items (only facilitators may change or delete a retro, or
+// push its action items to the issue tracker)
+api.interceptors.request.use((config) => {
+  const token = getAuthToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+
+  const retroId = config.url?.match(/^\/(?:retros|actions)\/([^/]+)/)?.[1];
+  const facilitatorToken = retroId && getFacilitatorToken(retroId);
+  if (facilitatorToken) {
+    config.headers['X-Facilitator-Token'] = facilitatorToken;
+  }
+  return config;
+});
+
 // ============ Template API ============
 
 export const getTemplates = async (): Promise<Template[]> => {
@@ -23,6 +51,31 @@ export const getTemplateById = async (templateId: string): Promise<Template> =>
   return response.data;
 };
 
+export const createTemplate = async (data: TemplateData): Promise<Template> => {
+  const response = await api.post<Template>('/templates', data);
+  return response.data;
+};
+
+export const updateTemplate = async (templateId: string, data: TemplateData): Promise<Template> => {
+  const response = await api.put<Template>(`/templates/${templateId}`, data);
+  return response.data;
+};
+
+export const deleteTemplate = async (templateId: string): Promise<void> => {
+  await api.delete(`/templates/${templateId}`);
+};
+
+// The template as a versioned JSON file that can be imported elsewhere
+export const exportTemplate = async (templateId: string): Promise<object> => {
+  const response = await api.get<object>(`/templates/${templateId}/export`);
+  return response.data;
+};
+
+export const importTemplate = async (file: unknown): Promise<Template> => {
+  const response = await api.post<Template>('/templates/import', file);
+  return response.data;
+};
+
 // ============ Retro API ============
 
 export const createRetro = async (data: CreateRetroData): Promise<Retro> => {
@@ -30,6 +83,11 @@ export const createRetro = async (data: CreateRetroData): Promise<Retro> => {
   return response.data;
 };
 
+export const getRetros = async (query: RetroQuery = {}): Promise<RetroPage> => {
+  const response = await api.get<RetroPage>('/retros', { params: query });
+  return response.data;
+};
+
 export const getRetroById = async (retroId: string): Promise<Retro> => {
   const response = await api.get<Retro>(`/retros/${retroId}`);
   return response.data;
@@ -44,5 +102,113 @@ export const deleteRetro = async (retroId: string): Promise<void> => {
   await api.delete(`/retros/${retroId}`);
 };
 
+// Cards, groups, action items and participants of the retro as a CSV or Excel file
+export const exportRetro = async (retroId: string, format: ExportFormat): Promise<Blob> => {
+  const response = await api.get<Blob>(`/retros/${retroId}/export`, { params: { format }, responseType: 'blob' });
+  return response.data;
+};
+
+export const getRetroReport = async (retroId: string, format: ReportFormat): Promise<Blob> => {
+  const response = await api.get<Blob>(`/retros/${retroId}/report`, { params: { format }, responseType: 'blob' });
+  return response.data;
+};
+
+// Calendar invite (.ics) for a scheduled retro
+export const getRetroInvite = async (retroId: string): Promise<Blob> => {
+  const response = await api.get<Blob>(`/retros/${retroId}/invite.ics`, { responseType: 'blob' });
+  return response.data;
+};
+
+// Read-only link to the report that anyone can open; only facilitators may create it
+export const shareRetroReport = async (retroId: string): Promise<string> => {
+  const response = await api.post<{ url: string }>(`/retros/${retroId}/report/share`);
+  return response.data.url;
+};
+
+// ============ Auth API ============
+
+export const register = async (data: RegisterData): Promise<AuthResponse> => {
+  const response = await api.post<AuthResponse>('/auth/register', data);
+  return response.data;
+};
+
+export const login = async (data: LoginData): Promise<AuthResponse> => {
+  const response = await api.post<AuthResponse>('/auth/login', data);
+  return response.data;
+};
+
+export const getCurrentUser = async (): Promise<CurrentUser> => {
+  const response = await api.get<CurrentUser>('/auth/me');
+  return response.data;
+};
+
+// ============ Team API ============
+
+export const getTeams = async (): Promise<Team[]> => {
+  const response = await api.get<Team[]>('/teams');
+  return response.data;
+};
+
+export const createTeam = async (name: string): Promise<Team> => {
+  const response = await api.post<Team>('/teams', { name });
+  return response.data;
+};
+
+export const addTeamMember = async (teamId: string, email: string): Promise<Team> => {
+  const response = await api.post<Team>(`/teams/${teamId}/members`, { email });
+  return response.data;
+};
+
+export const removeTeamMember = async (teamId: string, userId: string): Promise<Team> => {
+  const response = await api.delete<Team>(`/teams/${teamId}/members/${userId}`);
+  return response.data;
+};
+
+// ============ Action API ============
+
+export const getActions = async (teamId: string, status: ActionStatusFilter = 'open'): Promise<TrackedActionItem[]> => {
+  const response = await api.get<TrackedActionItem[]>('/actions', { params: { teamId, status } });
+  return response.data;
+};
+
+export const updateAction = async (retroId: string, actionItemId: string, changes: ActionItemChanges): Promise<ActionItem> => {
+  const response = await api.patch<ActionItem>(`/actions/${retroId}/${actionItemId}`, changes);
+  return response.data;
+};
+
+// Due dates of the team's open action items as a calendar (.ics) file
+export const getActionsCalendar = async (teamId: string): Promise<Blob> => {
+  const response = await api.get<Blob>('/actions/actions.ics', { params: { teamId }, responseType: 'blob' });
+  return response.data;
+};
+
+// Name of the issue tracker action items can be pushed to, or null when none is configured
+export const getIssueTracker = async (): Promise<string | null> => {
+  const response = await api.get<{ name: string | null }>('/actions/tracker');
+  return response.data.name;
+};
+
+export const pushActionToTracker = async (retroId: string, actionItemId: string): Promise<ActionItem> => {
+  const response = await api.post<ActionItem>(`/actions/${retroId}/${actionItemId}/push`);
+  return response.data;
+};
+
+export const syncActionFromTracker = async (retroId: string, actionItemId: string): Promise<ActionItem> => {
+  const response = await api.post<ActionItem>(`/actions/${retroId}/${actionItemId}/sync`);
+  return response.data;
+};
+
+export const getPreviousActions = async (retroId: string): Promise<PreviousActions> => {
+  const response = await api.get<PreviousActions>(`/retros/${retroId}/previous-actions`);
+  return response.data;
+};
+
+// ============ Analytics API ============
+
+export const getTeamAnalytics = async (teamId: string, range: AnalyticsRange = {}): Promise<TeamAnalytics> => {
+  const response = await api.get<TeamAnalytics>('/analytics', { params: { teamId, ...range } });
+  return response.data;
+};
+
 // Export the axios instance for any custom calls
 export default api;
@@ -0,0 +1,14 @@
+// The login token (JWT) is kept in localStorage and sent with API requests and the WebSocket handshake
+const AUTH_TOKEN_KEY = 'authToken';
+
+export const getAuthToken = (): string | null => {
+  return localStorage.getItem(AUTH_TOKEN_KEY);
+};
+
+export const saveAuthToken = (token: string): void => {
+  localStorage.setItem(AUTH_TOKEN_KEY, token);
+};
+
+export const clearAuthToken = (): void => {
+  localStorage.removeItem(AUTH_TOKEN_KEY);
+};
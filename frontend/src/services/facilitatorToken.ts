@@ -0,0 +1,10 @@
+// The facilitator token is kept in localStorage so the facilitator can reopen the board later
+const storageKey = (retroId: string) => `retro_facilitatorToken_${retroId}`;
+
+export const getFacilitatorToken = (retroId: string): string | null => {
+  return localStorage.getItem(storageKey(retroId));
+};
+
+export const saveFacilitatorToken = (retroId: string, token: string): void => {
+  localStorage.setItem(storageKey(retroId), token);
+};
@@ -0,0 +1,43 @@
+// Team trends from GET /api/analytics; rates are 0-1, or null when there is nothing to measure
+
+export interface ColumnCardCount {
+  columnId: string;
+  columnName: string;
+  color: string;
+  count: number;
+}
+
+export interface RetroTrendPoint {
+  retroId: string;
+  sessionName: string;
+  createdAt: string;
+  cardsPerColumn: ColumnCardCount[];
+  actionItems: { total: number; completed: number };
+  actionCompletionRate: number | null;
+  // Distinct people who added a card or voted, against the team's size
+  participants: number;
+  participationRate: number | null;
+  // Share of all votes that went to the three most voted items
+  voteConcentration: number | null;
+}
+
+export interface RecurringTheme {
+  term: string;
+  retroCount: number;
+  cardCount: number;
+}
+
+export interface TeamAnalytics {
+  teamId: string;
+  teamSize: number;
+  // Oldest retro first
+  retros: RetroTrendPoint[];
+  actionCompletionRate: number | null;
+  recurringThemes: RecurringTheme[];
+}
+
+// Optional range of retro creation dates, as ISO date strings
+export interface AnalyticsRange {
+  from?: string;
+  to?: string;
+}
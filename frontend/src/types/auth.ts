@@ -0,0 +1,41 @@
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  role: 'admin' | 'member';
+  createdAt: Date;
+}
+
+export interface TeamMember {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  createdBy: string;
+  createdAt: Date;
+  members: TeamMember[];
+}
+
+export interface CurrentUser extends User {
+  teams: Team[];
+}
+
+export interface AuthResponse {
+  token: string;
+  user: User;
+}
+
+export interface RegisterData {
+  email: string;
+  name: string;
+  password: string;
+}
+
+export interface LoginData {
+  email: string;
+  password: string;
+}
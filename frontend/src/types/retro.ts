@@ -3,7 +3,28 @@ export interface Template {
   name: string;
   description: string;
   columns: TemplateColumn[];
+  // Defaults a template can bring for retros using it (the app defaults apply when unset)
+  stages?: RetroStage[];
+  icebreakerQuestions?: string[];
+  options?: TemplateOptions;
   isDefault: boolean;
+  // Id of the account that built a custom template ('system' for the built-in ones)
+  createdBy?: string;
+}
+
+// What the template builder sends to create or update a custom template
+export interface TemplateData {
+  name: string;
+  description: string;
+  columns: TemplateColumn[];
+}
+
+export interface TemplateOptions {
+  nameDeck?: string;
+  votingMethod?: VotingMethod;
+  reactionsEnabled?: boolean;
+  commentsEnabled?: boolean;
+  commentReactionsEnabled?: boolean;
 }
 
 export interface TemplateColumn {
@@ -21,6 +42,18 @@ export interface RetroStage {
   enabled: boolean;
 }
 
+// dots: one click = one vote; ranked: order your top N (Borda count); points: distribute a budget
+export type VotingMethod = 'dots' | 'ranked' | 'points';
+
+// File formats of a retro results export
+export type ExportFormat = 'csv' | 'xlsx';
+
+// Formats of the report the server renders
+export type ReportFormat = 'md' | 'html';
+
+// draft until the facilitator opens the retro, then active, voting during the vote stage and completed once reported
+export type RetroStatus = 'draft' | 'active' | 'voting' | 'completed';
+
 export interface Retro {
   id: string;
   sessionName: string;
@@ -29,22 +62,66 @@ export interface Retro {
   template?: Template;
   isAnonymous: boolean;
   votingLimit: number;
+  votingMethod?: VotingMethod;
+  maxVotesPerItem?: number | null;
+  blindVoting?: boolean;
   timerDuration: number | null;
-  status: 'draft' | 'active' | 'voting' | 'completed';
+  status: RetroStatus;
+  // When the session is planned to start (ISO date string), if it is scheduled
+  scheduledAt?: string | null;
   stages?: RetroStage[];
+  reactionsEnabled?: boolean;
+  commentsEnabled?: boolean;
+  commentReactionsEnabled?: boolean;
+  nameDeck?: string;
+  // Only returned when the retro is created; whoever holds it facilitates the retro
+  facilitatorToken?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// How much happened in a retro, shown in the retro history
+export interface RetroCounts {
+  cards: number;
+  votes: number;
+  actionItems: number;
+}
+
+// Filters and page for listing retros; from/to are ISO dates the retro was created between
+export interface RetroQuery {
+  q?: string;
+  templateId?: string;
+  status?: RetroStatus;
+  teamId?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface RetroPage {
+  retros: Array<Retro & { counts: RetroCounts }>;
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
 export interface CreateRetroData {
   sessionName: string;
   context: string;
   templateId: string;
   isAnonymous: boolean;
   votingLimit?: number;
+  votingMethod?: VotingMethod;
+  maxVotesPerItem?: number | null;
+  blindVoting?: boolean;
   timerDuration?: number;
   stages?: RetroStage[];
   reactionsEnabled?: boolean;
   commentsEnabled?: boolean;
   commentReactionsEnabled?: boolean;
+  // Start time; the form holds a datetime-local value that is sent as an ISO date string
+  scheduledAt?: string | null;
+  // Team the retro belongs to (the form holds '' for none)
+  teamId?: string;
 }
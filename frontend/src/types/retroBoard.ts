@@ -18,6 +18,7 @@ export interface Participant {
   name: string;
   joinedAt: Date;
   isCreator?: boolean;
+  isCoFacilitator?: boolean;
 }
 
 export interface Card {
@@ -39,6 +40,13 @@ export interface VoteData {
   [itemId: string]: string[];
 }
 
+// The issue an action item was pushed to in the team's issue tracker
+export interface ExternalIssue {
+  tracker: string;
+  key: string;
+  url?: string;
+}
+
 export interface ActionItem {
   id: string;
   title: string;
@@ -47,6 +55,28 @@ export interface ActionItem {
   priority: 'low' | 'medium' | 'high';
   dueDate: string;
   status: 'pending' | 'in_progress' | 'completed';
+  // The unfinished item of an earlier retro this item was carried over from
+  carriedOverFrom?: { retroId: string; actionItemId: string };
+  externalIssue?: ExternalIssue;
+}
+
+// An action item listed by the team action tracker, with the retro it came from
+export interface TrackedActionItem extends ActionItem {
+  retroId: string;
+  retroName: string;
+  retroCreatedAt: string;
+}
+
+// Which action items the tracker lists: unfinished ("open"), all, or those with one status
+export type ActionStatusFilter = 'open' | 'all' | ActionItem['status'];
+
+// Fields of an action item that can be changed outside of a live session
+export type ActionItemChanges = Partial<Pick<ActionItem, 'status' | 'assigneeId' | 'dueDate'>>;
+
+// Unfinished action items of the team's previous retro (retro is null when there is none)
+export interface PreviousActions {
+  retro: { id: string; sessionName: string; createdAt: string } | null;
+  actionItems: ActionItem[];
 }
 
 export interface IcebreakerState {
@@ -65,6 +95,17 @@ export interface Reactions {
   [cardId: string]: { [emoji: string]: string[] };
 }
 
+export interface Comment {
+  id: string;
+  itemId: string;
+  authorId: string;
+  authorName: string;
+  content: string;
+  createdAt: string;
+  updatedAt: string | null;
+  reactions: { [emoji: string]: string[] };
+}
+
 export interface RetroState {
   cards: Card[];
   cardGroups: CardGroup[];
@@ -73,6 +114,43 @@ export interface RetroState {
   discussedItems: Set<string>;
   stageDoneStatus: StageDoneStatus;
   reactions: Reactions;
+  comments: Comment[];
   icebreakerState: IcebreakerState | null;
   currentStageIndex: number;
 }
+
+// Sent by the server when it rejects one of our WebSocket messages
+export interface WsErrorMessage {
+  type: 'error';
+  code: 'invalid-message' | 'forbidden' | 'wrong-stage' | 'not-found' | 'disabled' | 'locked';
+  message: string;
+  requestType?: string;
+}
+
+// Our voting allowance as tracked by the server
+export interface VoteBudget {
+  userId: string;
+  votingLimit: number | null;
+  maxVotesPerItem: number | null;
+  votesRemaining: number | null;
+  votesByItem: { [itemId: string]: number };
+}
+
+// Blind vote progress, only sent to the facilitator
+export interface VoteProgress {
+  finishedCount: number;
+  participantCount: number;
+}
+
+// What happens when the stage timer runs out
+export type TimerExpiryAction = 'none' | 'advance-stage' | 'mark-all-done';
+
+// The stage timer kept by the server; remaining is the seconds left as of when it was sent
+export interface StageTimer {
+  stageIndex: number;
+  duration: number;
+  isRunning: boolean;
+  deadline: string | null;
+  remaining: number;
+  onExpire: TimerExpiryAction;
+}
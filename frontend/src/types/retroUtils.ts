@@ -1,5 +1,6 @@
 // Shared utility functions for retro components
-import { Template, Card, CardGroup, VoteData, Participant, ActionItem } from './retroBoard';
+import { Template, Card, CardGroup, VoteData, Participant, ActionItem, Comment } from './retroBoard';
+import { VotingMethod } from './retro';
 
 //Get vote count for an item (card or group)
 export const getVoteCount = (votes: VoteData, itemId: string): number => {
@@ -21,6 +22,73 @@ export const getUserVoteCount = (votes: VoteData, userId: string): number => {
   return Object.values(votes).filter(voters => voters.includes(userId)).length;
 };
 
+//Replace a user's votes with the server's count per item, keeping everyone else's votes
+export const syncUserVotes = (
+  votes: VoteData,
+  userId: string,
+  votesByItem: { [itemId: string]: number }
+): VoteData => {
+  const synced: VoteData = {};
+  const itemIds = new Set([...Object.keys(votes), ...Object.keys(votesByItem)]);
+
+  itemIds.forEach(itemId => {
+    const otherVotes = (votes[itemId] || []).filter(id => id !== userId);
+    const ownVotes = Array(votesByItem[itemId] || 0).fill(userId);
+    synced[itemId] = [...otherVotes, ...ownVotes];
+  });
+
+  return synced;
+};
+
+//Get how many votes (or points) a user gave each item
+export const getUserVotesByItem = (votes: VoteData, userId: string): { [itemId: string]: number } => {
+  const votesByItem: { [itemId: string]: number } = {};
+  Object.entries(votes).forEach(([itemId, voters]) => {
+    const count = voters.filter(id => id === userId).length;
+    if (count > 0) votesByItem[itemId] = count;
+  });
+  return votesByItem;
+};
+
+//Get the number of different participants who voted for an item
+export const getVoterCount = (votes: VoteData, itemId: string): number => {
+  return new Set(votes[itemId] || []).size;
+};
+
+//Get the Borda points for a ranking position (first of N earns N, last earns 1)
+export const getBordaPoints = (position: number, rankSize: number): number => {
+  return Math.max(rankSize - position, 0);
+};
+
+//Get the points per item for a ranking, as stored in the vote data
+export const getRankingPoints = (ranking: string[], rankSize: number): { [itemId: string]: number } => {
+  const points: { [itemId: string]: number } = {};
+  ranking.forEach((itemId, position) => {
+    points[itemId] = getBordaPoints(position, rankSize);
+  });
+  return points;
+};
+
+//Recover a user's ranking from their Borda points (best first)
+export const getUserRanking = (votes: VoteData, userId: string): string[] => {
+  const votesByItem = getUserVotesByItem(votes, userId);
+  return Object.keys(votesByItem).sort((a, b) => votesByItem[b] - votesByItem[a]);
+};
+
+//Get the unit vote tallies are counted in
+export const getVoteUnit = (votingMethod: VotingMethod = 'dots'): string => {
+  return votingMethod === 'dots' ? 'votes' : 'points';
+};
+
+//Get a readable name for a voting method
+export const getVotingMethodLabel = (votingMethod: VotingMethod = 'dots'): string => {
+  switch (votingMethod) {
+    case 'ranked': return 'Ranked choice (Borda count)';
+    case 'points': return 'Points allocation';
+    default: return 'Dot voting';
+  }
+};
+
 //Get column info from template
 export const getColumnInfo = (template: Template | undefined, columnId: string) => {
   return template?.columns.find(c => c.id === columnId);
@@ -61,6 +129,13 @@ export const getStatusColor = (status: string): string => {
   }
 };
 
+//Status names shown for action items
+export const ACTION_STATUS_LABELS: Record<ActionItem['status'], string> = {
+  pending: 'Pending',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+};
+
 //Processed item interface
 export interface ProcessedItem {
   id: string;
@@ -190,6 +265,13 @@ export const getCardsByColumn = (
   return columnData;
 };
 
+//Get comments for an item, including comments left on its cards before they were grouped
+export const getItemComments = (comments: Comment[], itemId: string, cardIds: string[] = []): Comment[] => {
+  return comments
+    .filter(c => c.itemId === itemId || cardIds.includes(c.itemId))
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+};
+
 //Get participant statistics
 export const getParticipantStats = (
   participant: Participant,